@@ -6,10 +6,13 @@ import { Review } from './pages/Review';
 import { History } from './pages/History';
 import { Manifest } from './pages/Manifest';
 import { Pricing } from './pages/Pricing';
-import { User, UserRole, Language } from './types';
+import { Settings } from './pages/Settings';
+import { Sync } from './pages/Sync';
+import { DataManagement } from './pages/DataManagement';
+import { User, UserRole, Language, ManifestItem } from './types';
 import { MOCK_USERS } from './constants';
 import { t } from './i18n';
-import { updateManifestStatus } from './services/dbService';
+import { updateManifestStatus, claimManifestItem } from './services/dbService';
 
 export function App() {
   // Simple state-based routing for MVP
@@ -17,6 +20,8 @@ export function App() {
   const [user, setUser] = useState<User | null>(null);
   const [currentInspectionId, setCurrentInspectionId] = useState<string | null>(null);
   const [prefilledContainer, setPrefilledContainer] = useState<string | undefined>(undefined);
+  const [prefilledSizeType, setPrefilledSizeType] = useState<string | undefined>(undefined);
+  const [prefilledCustomer, setPrefilledCustomer] = useState<string | undefined>(undefined);
   const [lang, setLang] = useState<Language>('en');
 
   const handleLogin = (role: UserRole) => {
@@ -35,15 +40,23 @@ export function App() {
     setCurrentPage(page);
     if (page === 'new-inspection') {
         setPrefilledContainer(undefined);
+        setPrefilledSizeType(undefined);
+        setPrefilledCustomer(undefined);
     }
   };
 
-  const handleStartFromManifest = (containerNumber: string) => {
-      setPrefilledContainer(containerNumber);
+  // Claims the job first; if another inspector took it meanwhile, stay where we are
+  const startManifestItem = async (item: ManifestItem) => {
+      if (!user) return;
+      const claimed = await claimManifestItem(item.id, user);
+      if (!claimed) {
+          alert(t(lang, 'manifest_item_taken'));
+          return;
+      }
+      setPrefilledContainer(claimed.containerNumber);
+      setPrefilledSizeType(claimed.sizeType);
+      setPrefilledCustomer(claimed.customer);
       setCurrentPage('new-inspection');
-      // Mark as IN_PROGRESS when starting? Or waiting for completion?
-      // Let's mark as IN_PROGRESS
-      updateManifestStatus(containerNumber, 'IN_PROGRESS');
   };
 
   const handleInspectionComplete = (id: string, containerNumber: string) => {
@@ -59,11 +72,6 @@ export function App() {
       setCurrentPage('review');
   };
   
-  const handleNextInQueue = (containerNumber: string) => {
-      setPrefilledContainer(containerNumber);
-      updateManifestStatus(containerNumber, 'IN_PROGRESS');
-      setCurrentPage('new-inspection');
-  };
 
   if (currentPage === 'login' || !user) {
     return (
@@ -113,14 +121,18 @@ export function App() {
       
       <main>
         {currentPage === 'dashboard' && <Dashboard lang={lang} />}
-        {currentPage === 'manifest' && <Manifest onStartInspection={handleStartFromManifest} lang={lang} />}
+        {currentPage === 'manifest' && <Manifest user={user} onStartInspection={startManifestItem} lang={lang} />}
         {currentPage === 'pricing' && <Pricing lang={lang} />}
+        {currentPage === 'settings' && user.role === UserRole.ADMIN && <Settings lang={lang} />}
+        {currentPage === 'data' && user.role === UserRole.ADMIN && <DataManagement lang={lang} />}
         {currentPage === 'new-inspection' && (
             <Capture 
                 user={user} 
                 onComplete={handleInspectionComplete} 
                 lang={lang} 
                 initialContainerNumber={prefilledContainer}
+                initialSizeType={prefilledSizeType}
+                initialCustomer={prefilledCustomer}
             />
         )}
         {currentPage === 'review' && currentInspectionId && (
@@ -128,11 +140,13 @@ export function App() {
                 inspectionId={currentInspectionId} 
                 user={user} 
                 onBack={() => setCurrentPage('history')} 
-                onNextContainer={handleNextInQueue}
+                onNextContainer={startManifestItem}
+                onOpenSync={() => setCurrentPage('sync')}
                 lang={lang}
             />
         )}
         {currentPage === 'history' && <History onView={handleViewInspection} lang={lang} />}
+        {currentPage === 'sync' && <Sync onView={handleViewInspection} lang={lang} />}
       </main>
     </div>
   );
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Defect, ReviewStatus, BoundingBox } from '../types';
 import { DEFECT_COLORS } from '../constants';
+import { normalizeBoundingBox } from '../services/detectionValidation';
 
 interface Props {
   defects: Defect[];
@@ -22,8 +23,8 @@ export const BoundingBoxDisplay: React.FC<Props> = ({
         const isRejected = defect.status === ReviewStatus.REJECTED;
         const isSelected = defect.id === selectedDefectId;
         
-        // Coordinates are % (0-100)
-        const { ymin, xmin, ymax, xmax } = defect.boundingBox;
+        // Coordinates are % (0-100). Normalized again for records saved before validation existed.
+        const { ymin, xmin, ymax, xmax } = normalizeBoundingBox(defect.boundingBox);
         
         const style: React.CSSProperties = {
             top: `${ymin}%`,
@@ -33,7 +34,7 @@ export const BoundingBoxDisplay: React.FC<Props> = ({
             position: 'absolute',
         };
 
-        const colorClass = isRejected ? 'border-gray-400 bg-gray-400/20' : DEFECT_COLORS[defect.code] || DEFECT_COLORS['MISC'];
+        const colorClass = isRejected ? 'border-gray-400 bg-gray-400/20' : DEFECT_COLORS[defect.code] || 'border-gray-500 bg-gray-500/20 text-gray-700';
         const borderStyle = isSelected ? 'border-4 shadow-lg z-10' : 'border-2 opacity-80';
 
         return (
@@ -1,7 +1,8 @@
-import React from "react";
-import { User, Language } from "../types";
-import { LogOut, Box, Globe } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import { User, UserRole, Language, SyncState } from "../types";
+import { LogOut, Box, Globe, Cloud, CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
 import { t } from "../i18n";
+import { subscribeSyncState } from "../services/syncService";
 interface HeaderProps {
   user: User;
   onLogout: () => void;
@@ -19,10 +20,44 @@ export const Header: React.FC<HeaderProps> = ({
   lang,
   setLang,
 }) => {
+  const [sync, setSync] = useState<SyncState | null>(null);
+
+  useEffect(() => subscribeSyncState(setSync), []);
+
   const toggleLang = () => {
     setLang(lang === "en" ? "vi" : "en");
   };
 
+  // Only shown with the REST backend, where saves are queued and synced
+  const syncBadge = () => {
+    if (!sync?.enabled) return null;
+    const hasConflicts = sync.conflicts.length > 0;
+    const Icon = hasConflicts ? AlertTriangle : !sync.online ? CloudOff : sync.syncing ? RefreshCw : Cloud;
+    const label = hasConflicts
+      ? `${sync.conflicts.length} ${t(lang, "sync_conflicts")}`
+      : !sync.online
+      ? t(lang, "offline")
+      : sync.pending > 0
+      ? `${sync.pending} ${t(lang, "sync_pending")}`
+      : t(lang, "synced");
+    return (
+      <button
+        onClick={() => onNavigate("sync")}
+        title={sync.lastError || t(lang, "sync_status")}
+        className={`flex items-center space-x-1 text-xs font-medium px-2 py-1 rounded transition-colors ${
+          hasConflicts
+            ? "bg-red-600 hover:bg-red-500"
+            : !sync.online || sync.pending > 0
+            ? "bg-amber-600 hover:bg-amber-500"
+            : "bg-slate-800 hover:bg-slate-700"
+        }`}
+      >
+        <Icon className={`w-3 h-3 ${Icon === RefreshCw ? "animate-spin" : ""}`} />
+        <span>{label}</span>
+      </button>
+    );
+  };
+
   return (
     <header className="bg-slate-900 text-white shadow-md sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
@@ -75,9 +110,44 @@ export const Header: React.FC<HeaderProps> = ({
           >
             {t(lang, "history")}
           </button>
+          {user.role === UserRole.ADMIN && (
+            <>
+              <button
+                onClick={() => onNavigate("pricing")}
+                className={`hover:text-blue-300 ${
+                  activePage === "pricing"
+                    ? "text-blue-400 font-semibold"
+                    : "text-gray-300"
+                }`}
+              >
+                {t(lang, "pricing")}
+              </button>
+              <button
+                onClick={() => onNavigate("settings")}
+                className={`hover:text-blue-300 ${
+                  activePage === "settings"
+                    ? "text-blue-400 font-semibold"
+                    : "text-gray-300"
+                }`}
+              >
+                {t(lang, "settings")}
+              </button>
+              <button
+                onClick={() => onNavigate("data")}
+                className={`hover:text-blue-300 ${
+                  activePage === "data"
+                    ? "text-blue-400 font-semibold"
+                    : "text-gray-300"
+                }`}
+              >
+                {t(lang, "data_management")}
+              </button>
+            </>
+          )}
         </nav>
 
         <div className="flex items-center space-x-4">
+          {syncBadge()}
           <button
             onClick={toggleLang}
             className="flex items-center space-x-1 text-xs font-medium bg-slate-800 px-2 py-1 rounded hover:bg-slate-700 transition-colors"
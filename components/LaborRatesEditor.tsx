@@ -0,0 +1,155 @@
+import React from 'react';
+import { Language, LaborRate, LaborShiftMultiplier, LaborSkill } from '../types';
+import { LABOR_SKILLS } from '../constants';
+import { t } from '../i18n';
+import { Plus, Trash2, X } from 'lucide-react';
+
+interface LaborRatesEditorProps {
+  rates: LaborRate[];
+  depots: string[]; // From settings; a depot no longer listed still shows on the rates that use it
+  lang: Language;
+  onChange: (rates: LaborRate[]) => void;
+}
+
+// Sunday first, as Date.getDay() counts
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const parseHour = (value: string) => {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+// Hourly rates per skill and depot, each with its shift premiums
+export const LaborRatesEditor: React.FC<LaborRatesEditorProps> = ({ rates, depots, lang, onChange }) => {
+  const updateRate = (id: string, changes: Partial<LaborRate>) =>
+    onChange(rates.map(r => (r.id === id ? { ...r, ...changes } : r)));
+
+  const updateMultiplier = (rate: LaborRate, id: string, changes: Partial<LaborShiftMultiplier>) =>
+    updateRate(rate.id, { multipliers: rate.multipliers.map(m => (m.id === id ? { ...m, ...changes } : m)) });
+
+  const toggleDay = (rate: LaborRate, m: LaborShiftMultiplier, day: number) => {
+    const days = m.days?.includes(day) ? m.days.filter(d => d !== day) : [...(m.days || []), day].sort();
+    updateMultiplier(rate, m.id, { days: days.length > 0 ? days : undefined });
+  };
+
+  const addRate = () =>
+    onChange([...rates, { id: `labor-${Date.now()}`, skill: 'GENERAL', hourlyRate: 0, multipliers: [] }]);
+
+  const addMultiplier = (rate: LaborRate) =>
+    updateRate(rate.id, { multipliers: [...rate.multipliers, { id: `shift-${Date.now()}`, fromHour: 22, toHour: 6, multiplier: 1 }] });
+
+  return (
+    <div>
+      <table className="w-full text-left text-sm">
+        <thead className="border-b border-slate-200 text-xs text-slate-500">
+          <tr>
+            <th className="py-2 font-semibold">{t(lang, 'labor_skill')}</th>
+            <th className="py-2 font-semibold">{t(lang, 'depot')}</th>
+            <th className="py-2 font-semibold">{t(lang, 'hourly_rate')} (VND)</th>
+            <th className="py-2 font-semibold">{t(lang, 'shift_premiums')}</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {rates.map(rate => (
+            <tr key={rate.id} className="align-top">
+              <td className="py-2 pr-2">
+                <select
+                  className="px-2 py-1 border border-slate-300 rounded"
+                  value={rate.skill}
+                  onChange={(e) => updateRate(rate.id, { skill: e.target.value as LaborSkill })}
+                >
+                  {LABOR_SKILLS.map(skill => <option key={skill} value={skill}>{t(lang, `labor_skill_${skill.toLowerCase()}`)}</option>)}
+                </select>
+              </td>
+              <td className="py-2 pr-2">
+                <select
+                  className="w-36 px-2 py-1 border border-slate-300 rounded"
+                  value={rate.depot || ''}
+                  onChange={(e) => updateRate(rate.id, { depot: e.target.value || undefined })}
+                >
+                  <option value="">{t(lang, 'all_depots')}</option>
+                  {(rate.depot && !depots.includes(rate.depot) ? [...depots, rate.depot] : depots).map(depot => (
+                    <option key={depot} value={depot}>{depot}</option>
+                  ))}
+                </select>
+              </td>
+              <td className="py-2 pr-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="1000"
+                  className={`w-32 px-2 py-1 border rounded ${rate.hourlyRate > 0 ? 'border-slate-300' : 'border-red-400 bg-red-50'}`}
+                  value={rate.hourlyRate}
+                  onChange={(e) => updateRate(rate.id, { hourlyRate: parseFloat(e.target.value) })}
+                />
+              </td>
+              <td className="py-2 space-y-1">
+                {rate.multipliers.map(m => (
+                  <div key={m.id} className="flex flex-wrap items-center gap-1 text-xs">
+                    {WEEKDAYS.map(day => (
+                      <button
+                        key={day}
+                        onClick={() => toggleDay(rate, m, day)}
+                        className={`w-6 py-0.5 rounded border ${m.days?.includes(day) ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-300 text-slate-500'}`}
+                      >
+                        {t(lang, `weekday_short_${day}`)}
+                      </button>
+                    ))}
+                    <input
+                      type="number"
+                      min="0"
+                      max="23"
+                      placeholder="0"
+                      className="w-12 px-1 py-0.5 border border-slate-300 rounded"
+                      value={m.fromHour ?? ''}
+                      onChange={(e) => updateMultiplier(rate, m.id, { fromHour: parseHour(e.target.value) })}
+                    />
+                    <span className="text-slate-400">-</span>
+                    <input
+                      type="number"
+                      min="1"
+                      max="24"
+                      placeholder="24"
+                      className="w-12 px-1 py-0.5 border border-slate-300 rounded"
+                      value={m.toHour ?? ''}
+                      onChange={(e) => updateMultiplier(rate, m.id, { toHour: parseHour(e.target.value) })}
+                    />
+                    <span className="text-slate-400">h ×</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      className={`w-14 px-1 py-0.5 border rounded ${m.multiplier > 0 ? 'border-slate-300' : 'border-red-400 bg-red-50'}`}
+                      value={m.multiplier}
+                      onChange={(e) => updateMultiplier(rate, m.id, { multiplier: parseFloat(e.target.value) })}
+                    />
+                    <button
+                      onClick={() => updateRate(rate.id, { multipliers: rate.multipliers.filter(x => x.id !== m.id) })}
+                      className="p-0.5 text-slate-400 hover:text-red-600"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                <button onClick={() => addMultiplier(rate)} className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800">
+                  <Plus className="w-3 h-3" />
+                  <span>{t(lang, 'add_shift_premium')}</span>
+                </button>
+              </td>
+              <td className="py-2 text-right">
+                <button onClick={() => onChange(rates.filter(r => r.id !== rate.id))} className="p-1 text-slate-400 hover:text-red-600">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={addRate} className="mt-2 flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800">
+        <Plus className="w-4 h-4" />
+        <span>{t(lang, 'add_labor_rate')}</span>
+      </button>
+    </div>
+  );
+};
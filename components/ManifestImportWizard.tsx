@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import { Language, ManifestDetails, ManifestEntry, ManifestEntryCheck } from '../types';
+import { addToManifest, getManifest } from '../services/dbService';
+import { checkManifestEntries, describeCorrections } from '../services/manifestService';
+import { IMPORT_FIELDS, ImportField, ImportMapping, ImportTable, ManifestImport, readManifestFile, tableToEntries } from '../services/manifestImportService';
+import { t } from '../i18n';
+import { AlertTriangle, CheckCircle, Loader2, X } from 'lucide-react';
+
+interface ManifestImportWizardProps {
+  file: File;
+  defaults: ManifestDetails; // Filled in where the file has no value
+  lang: Language;
+  onClose: () => void;
+  onImported: (checks: ManifestEntryCheck[]) => void;
+}
+
+const PREVIEW_SAMPLE_ROWS = 5;
+
+const columnLetter = (index: number): string =>
+  (index >= 26 ? columnLetter(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+// Spreadsheets go through column mapping, then a preview with the check for every row.
+// EDIFACT messages go straight to the preview. Nothing is queued until Import.
+export const ManifestImportWizard: React.FC<ManifestImportWizardProps> = ({ file, defaults, lang, onClose, onImported }) => {
+  const [loaded, setLoaded] = useState<ManifestImport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [step, setStep] = useState<'map' | 'preview'>('map');
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    readManifestFile(file).then(result => {
+      setLoaded(result);
+      if (result.kind === 'table') {
+        setTable(result.table);
+        setMapping(result.mapping);
+      } else {
+        setStep('preview');
+      }
+    }).catch(err => {
+      console.error("Reading manifest file failed", err);
+      setError(err instanceof Error ? err.message : String(err));
+    });
+  }, [file]);
+
+  const fileEntries: ManifestEntry[] = loaded?.kind === 'edifact' ? loaded.entries : table ? tableToEntries(table, mapping) : [];
+  const entries = fileEntries.map(entry => ({ ...defaults, ...entry }));
+  const checks = step === 'preview' ? checkManifestEntries(entries, getManifest()) : [];
+  const valid = checks.filter(c => !c.error).length;
+
+  const setField = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') delete next[field];
+    else next[field] = parseInt(value, 10);
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    const corrections = describeCorrections(checks);
+    if (corrections.length > 0 && !confirm(`${t(lang, 'manifest_confirm_corrected')}\n\n${corrections.join('\n')}`)) return;
+    setIsImporting(true);
+    try {
+      onImported(await addToManifest(entries));
+    } catch (err) {
+      console.error("Manifest import failed", err);
+      alert(t(lang, 'save_failed'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const width = table ? Math.max(0, ...table.rows.map(r => r.length)) : 0;
+  const columnLabel = (index: number) =>
+    `${columnLetter(index)}${table?.hasHeader && table.rows[0][index] ? `: ${table.rows[0][index]}` : ''}`;
+  const sample = table ? table.rows.slice(table.hasHeader ? 1 : 0, (table.hasHeader ? 1 : 0) + PREVIEW_SAMPLE_ROWS) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-lg max-w-5xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-200">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">{t(lang, 'import_manifest')}</h3>
+            <p className="text-xs text-slate-500">
+              {file.name}
+              {loaded?.kind === 'edifact' && ` · ${loaded.messageType}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4 text-sm">
+          {error && (
+            <div className="flex items-start space-x-2 text-red-700">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>{t(lang, 'import_read_failed')}: {error}</span>
+            </div>
+          )}
+          {!loaded && !error && <Loader2 className="w-6 h-6 animate-spin text-slate-400" />}
+
+          {loaded?.kind === 'edifact' && loaded.warnings.map((warning, index) => (
+            <p key={index} className="text-amber-700">{warning}</p>
+          ))}
+
+          {table && step === 'map' && (
+            <>
+              <label className="flex items-center space-x-2 text-slate-700">
+                <input
+                  type="checkbox"
+                  className="w-4 h-4"
+                  checked={table.hasHeader}
+                  onChange={(e) => setTable({ ...table, hasHeader: e.target.checked })}
+                />
+                <span>{t(lang, 'import_first_row_header')}</span>
+              </label>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {IMPORT_FIELDS.map(field => (
+                  <label key={field} className="block">
+                    <span className="text-xs text-slate-500">{t(lang, `import_field_${field}`)}</span>
+                    <select
+                      className={`w-full mt-1 bg-white border rounded-lg px-2 py-1.5 ${field === 'containerNumber' && mapping.containerNumber === undefined ? 'border-red-400' : 'border-slate-300'}`}
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => setField(field, e.target.value)}
+                    >
+                      <option value="">-</option>
+                      {Array.from({ length: width }, (_, index) => (
+                        <option key={index} value={index}>{columnLabel(index)}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto border border-slate-200 rounded-lg">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      {Array.from({ length: width }, (_, index) => (
+                        <th key={index} className="px-3 py-2 font-semibold text-slate-700 whitespace-nowrap">{columnLabel(index)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {sample.map((row, r) => (
+                      <tr key={r}>
+                        {Array.from({ length: width }, (_, index) => (
+                          <td key={index} className="px-3 py-1.5 text-slate-600 whitespace-nowrap">{row[index] || ''}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {step === 'preview' && loaded && (
+            <>
+              <div className="font-medium text-slate-800">
+                {t(lang, 'import_rows_ok')}: {valid} · {t(lang, 'import_rows_with_errors')}: {checks.length - valid}
+              </div>
+              <div className="overflow-x-auto border border-slate-200 rounded-lg">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-3 py-2 font-semibold text-slate-700">#</th>
+                      <th className="px-3 py-2 font-semibold text-slate-700">{t(lang, 'container_number')}</th>
+                      <th className="px-3 py-2 font-semibold text-slate-700">{t(lang, 'customer_line')}</th>
+                      <th className="px-3 py-2 font-semibold text-slate-700">{t(lang, 'size_type')}</th>
+                      <th className="px-3 py-2 font-semibold text-slate-700">{t(lang, 'booking_ref')}</th>
+                      <th className="px-3 py-2 font-semibold text-slate-700">{t(lang, 'deadline')}</th>
+                      <th className="px-3 py-2 font-semibold text-slate-700">{t(lang, 'status')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {checks.map((check, index) => (
+                      <tr key={index} className={check.error ? 'bg-red-50' : ''}>
+                        {/* Row number as in the file, header included */}
+                        <td className="px-3 py-1.5 text-slate-400">{loaded.kind === 'table' && table?.hasHeader ? index + 2 : index + 1}</td>
+                        <td className="px-3 py-1.5 font-mono">
+                          {check.containerNumber || check.entry.containerNumber || '-'}
+                          {check.numberCheck.status === 'CORRECTED' && (
+                            <span className="ml-1 text-amber-600" title={check.entry.containerNumber}>({t(lang, 'manifest_number_corrected')})</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-1.5 text-slate-600">{check.entry.customer || '-'}</td>
+                        <td className="px-3 py-1.5 font-mono text-slate-600">{check.entry.sizeType || '-'}</td>
+                        <td className="px-3 py-1.5 text-slate-600">{check.entry.bookingRef || '-'}</td>
+                        <td className="px-3 py-1.5 text-slate-600 whitespace-nowrap">
+                          {check.entry.deadline && !Number.isNaN(Date.parse(check.entry.deadline))
+                            ? new Date(check.entry.deadline).toLocaleString()
+                            : check.entry.deadline || '-'}
+                        </td>
+                        <td className="px-3 py-1.5">
+                          {check.error ? (
+                            <span className="text-red-700">{t(lang, `manifest_error_${check.error.toLowerCase()}`)}</span>
+                          ) : (
+                            <CheckCircle className="w-4 h-4 text-green-600" />
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2 px-6 py-4 border-t border-slate-200">
+          {step === 'preview' && loaded?.kind === 'table' && (
+            <button onClick={() => setStep('map')} className="px-4 py-2 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50">
+              {t(lang, 'back')}
+            </button>
+          )}
+          <button onClick={onClose} className="px-4 py-2 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50">
+            {t(lang, 'cancel')}
+          </button>
+          {step === 'map' && table && (
+            <button
+              onClick={() => setStep('preview')}
+              disabled={mapping.containerNumber === undefined}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {t(lang, 'import_preview')}
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              onClick={handleImport}
+              disabled={valid === 0 || isImporting}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{t(lang, 'import_rows')} ({valid})</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
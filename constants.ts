@@ -1,5 +1,5 @@
 
-import { DefectCode, Severity, UserRole, PricingRule } from './types';
+import { DefectCode, Severity, UserRole, PricingRule, ContainerSide, PhotoLabel, AppSettings, Currency, ExchangeRate, TaxSettings, LaborRate, LaborSkill } from './types';
 
 export const DEFECT_COLORS = {
   [DefectCode.DT]: 'border-yellow-500 bg-yellow-500/20 text-yellow-700', // Dent
@@ -28,6 +28,51 @@ export const SEVERITY_COLORS = {
   [Severity.HIGH]: 'bg-red-100 text-red-800',
 };
 
+// Capture order; also used to order sides in Review, History and reports
+export const REQUIRED_SIDES: ContainerSide[] = [
+    'DOOR_EXT', // Door Wall (Exterior) - Primary spot for OCR
+    'SIDE_1_EXT', 
+    'SIDE_2_EXT', 
+    'FRONT_EXT', 
+    'ROOF_EXT', 
+    'UNDER_EXT',
+    
+    'DOOR_INT',
+    'SIDE_1_INT',
+    'SIDE_2_INT',
+    'FRONT_INT',
+    'ROOF_INT',
+    'FLOOR_INT'
+];
+
+export const PHOTO_LABELS: PhotoLabel[] = ['OVERVIEW', 'PANEL', 'CLOSE_UP'];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  image: {
+    analysisMaxDimension: 1600,
+    quality: 0.8,
+    thumbnailSize: 320,
+    keepOriginal: false
+  },
+  // Off until an admin turns it on, so every defect is reviewed by default
+  triage: {
+    enabled: false,
+    defaults: { acceptAbove: 0.9, rejectBelow: 0.3 },
+    rules: []
+  },
+  // Nothing is removed until an admin turns it on
+  retention: {
+    enabled: false,
+    dropImagesAfterDays: 90,
+    archiveAfterMonths: 24
+  },
+  // The depot inspections were stamped with before it could be configured
+  depot: {
+    depots: ['Port Gate 4'],
+    current: 'Port Gate 4'
+  }
+};
+
 export const MOCK_USERS = [
   { id: 'u1', name: 'John Doe', role: UserRole.INSPECTOR },
   { id: 'u2', name: 'Jane Smith', role: UserRole.REVIEWER },
@@ -35,8 +80,41 @@ export const MOCK_USERS = [
 ];
 
 // Pricing Constants (Exchange rate approx $1 = 27,000 VND)
-export const DEFAULT_LABOR_RATE = 1215000; // $45 * 27000 VND
-export const TAX_RATE = 0.10; // 10%
+export const DEFAULT_LABOR_RATE = 1215000; // General labor, VND per hour ($45 * 27000 VND)
+export const LABOR_SKILLS: LaborSkill[] = ['GENERAL', 'WELDER', 'PAINTER'];
+
+// Starting point for the admin-maintained labor rates: nights and weekends carry a premium
+const SHIFT_PREMIUMS = (skill: string) => [
+  { id: `labor-${skill}-night`, fromHour: 22, toHour: 6, multiplier: 1.3 },
+  { id: `labor-${skill}-weekend`, days: [0, 6], multiplier: 1.5 }
+];
+
+export const DEFAULT_LABOR_RATES: LaborRate[] = [
+  { id: 'labor-general', skill: 'GENERAL', hourlyRate: DEFAULT_LABOR_RATE, multipliers: SHIFT_PREMIUMS('general') },
+  { id: 'labor-welder', skill: 'WELDER', hourlyRate: 1485000, multipliers: SHIFT_PREMIUMS('welder') }, // $55
+  { id: 'labor-painter', skill: 'PAINTER', hourlyRate: 1080000, multipliers: SHIFT_PREMIUMS('painter') } // $40
+];
+export const BASE_CURRENCY: Currency = 'VND';
+export const CURRENCIES: Currency[] = ['VND', 'USD', 'EUR'];
+
+// Starting point for the admin-maintained exchange-rate table
+export const DEFAULT_EXCHANGE_RATES: ExchangeRate[] = [
+  { id: 'fx-usd-default', currency: 'USD', rate: 27000, effectiveFrom: '2024-01-01' }
+];
+
+// Starting point for the admin-maintained tax profiles
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  defaultProfileId: 'tax-vat-10',
+  profiles: [
+    { id: 'tax-vat-10', name: 'VAT 10%', rate: 0.10 },
+    { id: 'tax-export', name: 'Export services 0%', rate: 0 },
+    { id: 'tax-exempt', name: 'VAT exempt', rate: 0, exempt: true }
+  ],
+  customers: []
+};
+
+// EDI interchange sender id for estimates we send to M&R systems
+export const EDI_SENDER_ID = 'CONTAINERAI';
 
 // Mock pricing rules generator
 export const generateDefaultPricingRules = (): PricingRule[] => {
@@ -53,6 +131,9 @@ export const generateDefaultPricingRules = (): PricingRule[] => {
       // Specific overrides
       if (code === DefectCode.HO) { basePrice += 1350000; laborHours += 1; } // Holes are expensive (+$50)
       if (code === DefectCode.CO) { basePrice += 270000; } // Rust treatment (+$10)
+      // Cracks and holes are welded, rust is treated and painted
+      const laborSkill: LaborSkill | undefined =
+        code === DefectCode.CK || code === DefectCode.HO ? 'WELDER' : code === DefectCode.CO ? 'PAINTER' : undefined;
 
       rules.push({
         id: `rule-${code}-${severity}`,
@@ -60,6 +141,7 @@ export const generateDefaultPricingRules = (): PricingRule[] => {
         severity: severity,
         basePrice,
         laborHours,
+        ...(laborSkill ? { laborSkill } : {}),
         description: `Standard repair for ${code} (${severity})`
       });
     });
@@ -11,6 +11,32 @@ export const TRANSLATIONS = {
     manifest: "Manifest",
     pricing: "Pricing Rules",
     pricing_settings: "Pricing Settings",
+    settings: "Settings",
+    image_settings: "Photo processing",
+    depots: "Depots",
+    depots_hint: "Inspections captured on this device are stamped with the current depot, and labor rates set for that depot apply to them. The list is what the labor rate editor offers.",
+    current_depot: "This device's depot",
+    add_depot: "Add depot",
+    analysis_max_dimension: "Analysis resolution (longest edge)",
+    image_quality: "JPEG quality",
+    thumbnail_size: "Thumbnail size",
+    keep_original: "Keep original photos",
+    keep_original_hint: "Stores the full-resolution upload next to the processed image. Uses much more storage.",
+    triage_policy: "Auto-triage",
+    triage_enabled: "Enabled",
+    triage_hint: "Detections at or above the accept threshold are accepted, below the reject threshold rejected, anything in between goes to review. Rules for a defect type (and severity) override the defaults.",
+    triage_defaults: "Default thresholds",
+    triage_accept_above: "Accept from",
+    triage_reject_below: "Reject below",
+    triage_any_severity: "Any severity",
+    triage_add_rule: "Add rule",
+    triage_invalid: "The auto-triage policy is not valid:",
+    auto_accepted: "Auto-accepted",
+    auto_rejected: "Auto-rejected",
+    auto_overridden: "overridden",
+    auto_decided_count: "auto-decided",
+    confidence: "Confidence",
+    triage_threshold: "threshold",
     pending_review: "Pending Review",
     completed: "Completed",
     total_inspections: "Total Inspections",
@@ -19,15 +45,146 @@ export const TRANSLATIONS = {
     container_number: "Container Number",
     sides_to_capture: "Sides to Capture",
     upload_photo: "Add Photo",
+    photo_label_overview: "Overview",
+    photo_label_panel: "Panel",
+    photo_label_close_up: "Close-up",
+    photos: "Photos",
+    image_processing_failed: "Could not process the photo. Please try another image.",
+    save_failed: "Could not save the changes. Check the available storage and try again.",
+    sync_status: "Sync",
+    sync_now: "Sync now",
+    sync_pending: "waiting to sync",
+    sync_conflicts: "sync conflict(s)",
+    synced: "All changes synced",
+    online: "Online",
+    offline: "Offline",
+    last_sync: "Last sync",
+    sync_disabled: "Changes are saved on this device only. Sync is used with the depot server (STORAGE_BACKEND=rest).",
+    sync_conflict_hint: "These inspections were changed here and on another device in ways that could not be combined. Changes that did not clash are kept either way.",
+    sync_conflict_banner: "This inspection was also changed on another device. Its changes are not synced until the conflict is resolved.",
+    sync_resolve_failed: "Could not resolve the conflict. Check the connection to the server and try again.",
+    keep_mine: "Keep this device's changes",
+    keep_server: "Keep the server's changes",
+    resolve: "Resolve",
+    view: "View",
+    data_management: "Data",
+    inspections: "Inspections",
+    backup_export: "Export backup",
+    backup_export_hint: "Downloads one file with every inspection (photos included), the manifest, pricing rules and settings.",
+    backup_failed: "Could not create the backup.",
+    backup_restore: "Restore from backup",
+    backup_choose_file: "Choose backup file",
+    restore_merge: "Merge",
+    restore_merge_hint: "Adds what this device is missing. Where both have an inspection, the one changed last is kept. Settings stay as they are.",
+    restore_replace: "Replace",
+    restore_replace_hint: "Makes this device hold exactly what the backup holds. Everything else is deleted.",
+    restore_dry_run: "Restore preview (nothing has been changed yet)",
+    restore_add: "add",
+    restore_update: "update",
+    restore_keep: "keep",
+    restore_remove: "remove",
+    restore_settings_replaced: "Settings will be replaced with the ones in the backup.",
+    restore_apply: "Restore",
+    restore_replace_confirm: "Replace all data on this device with the backup? Data not in the backup will be deleted.",
+    restore_done: "Backup restored.",
+    restore_failed: "Restore failed. Nothing was changed if the inspections could not be written.",
+    storage_usage: "Storage usage",
+    storage_photos: "Photos",
+    storage_originals: "Original photos",
+    storage_thumbnails: "Thumbnails",
+    storage_records: "Inspection records",
+    storage_archive: "Archive (compressed)",
+    storage_other: "Settings and other data",
+    storage_browser: "Used by the app in this browser",
+    retention_policy: "Retention",
+    retention_enabled: "Run daily",
+    retention_hint: "Invoiced jobs keep their thumbnails, defects and quote when the full-size photos are removed. Closed jobs (invoiced, or completed without a quote) are moved to a compressed archive on this device and can be brought back from the list below. Leave a field empty to turn that step off.",
+    retention_drop_images: "Remove full-size photos of invoiced jobs after (days)",
+    retention_archive: "Archive closed jobs after (months)",
+    retention_last_run: "Last run",
+    retention_preview: "Preview",
+    retention_will_drop: "Full-size photos removed",
+    retention_will_archive: "Inspections archived",
+    retention_archive_unavailable: "This browser cannot keep a compressed archive, so nothing will be archived.",
+    retention_archive_shared: "Inspections are shared through the depot server, so nothing will be archived on this device.",
+    retention_run: "Run now",
+    retention_run_confirm: "Remove the photos and archive the inspections listed? Removed full-size photos cannot be recovered.",
+    retention_done: "Retention run finished.",
+    retention_failed_for: "Some inspections could not be processed",
+    archived_inspections: "Archived inspections",
+    unarchive: "Restore",
+    side_count: "sides",
     analyzing: "Analyzing...",
     start_inspection: "Start Inspection",
+    manifest_item_taken: "Another inspector has already taken this container.",
+    release_job: "Release",
+    pending: "Pending",
+    in_progress: "In progress",
+    all: "All",
+    edit: "Edit",
+    priority: "Priority",
+    priority_urgent: "Urgent",
+    priority_high: "High",
+    priority_normal: "Normal",
+    priority_low: "Low",
+    deadline: "Deadline",
+    customer_line: "Customer / line",
+    size_type: "Size/type",
+    notes: "Notes",
+    assigned_to: "Assigned to",
+    assigned_to_me: "Assigned to me",
+    unassigned: "Unassigned",
+    all_inspectors: "All inspectors",
+    all_priorities: "All priorities",
+    manifest_open: "Open",
+    manifest_search: "Container, customer, notes...",
+    manifest_details_hint: "Applied to every container added now.",
+    manifest_added: "Added",
+    manifest_rejected: "Not added",
+    manifest_number_corrected: "corrected",
+    manifest_error_invalid_number: "not a container number",
+    manifest_error_check_digit: "check digit does not match",
+    manifest_error_duplicate_in_import: "listed more than once",
+    manifest_error_already_queued: "already in the queue",
+    manifest_error_invalid_size_type: "size/type is not an ISO code (e.g. 22G1)",
+    manifest_error_invalid_deadline: "deadline is not a date",
+    booking_ref: "Booking / B/L",
+    back: "Back",
+    import_file: "Import file (CSV, XLSX, EDI)",
+    import_manifest: "Import manifest",
+    import_read_failed: "Could not read the file",
+    import_first_row_header: "First row is a header",
+    import_field_containerNumber: "Container number",
+    import_field_customer: "Customer / line",
+    import_field_sizeType: "Size/type",
+    import_field_bookingRef: "Booking / B/L",
+    import_field_priority: "Priority",
+    import_field_deadline: "Deadline",
+    import_field_notes: "Notes",
+    import_preview: "Preview",
+    import_rows_ok: "Ready to import",
+    import_rows_with_errors: "With errors (skipped)",
+    import_rows: "Import",
     analysis_failed: "Analysis failed. Please try again.",
+    detection_no_api_key: "Damage detection is not configured: no Gemini API key is set. Photos cannot be analyzed until an administrator sets API_KEY, or selects a provider with DETECTION_PROVIDER.",
+    detection_demo_provider: "Demo detection is selected: defects and container numbers are made up or replayed, not read from the photos. Do not use for real containers.",
+    detection_demo_inspection: "Demo data: detections on this inspection were not read from its photos",
     no_images: "Please add at least one image to proceed.",
     confirm: "Confirm",
     reject: "Reject",
     export_pdf: "Export PDF",
+    export_edi: "Export EDI",
+    edi_validation_failed: "The EDI estimate failed validation. Download anyway?",
+    edi_unpriced: "Price every defect before exporting the EDI estimate.",
     defects_detected: "Defects Detected",
     no_defects: "No defects found.",
+    sides_failed_analysis: "photo(s) could not be analyzed. The inspection cannot be completed until they are.",
+    retry_failed: "Retry failed",
+    analysis_status_failed: "Analysis failed for this photo",
+    analysis_status_skipped: "Analysis was skipped for this photo",
+    merged_evidence: "Also seen on",
+    split_defect: "Split",
+    detections_quarantined: "AI detection(s) discarded as invalid:",
     inspector: "Inspector",
     date: "Date",
     status: "Status",
@@ -45,7 +202,10 @@ export const TRANSLATIONS = {
     quote: "Quote",
     estimated_cost: "Estimated Cost",
     subtotal: "Subtotal",
-    tax: "Tax (10%)",
+    tax: "Tax",
+    tax_exempt: "VAT exempt",
+    tax_profile: "Tax profile",
+    tax_profile_customer: "Customer's profile",
     total: "Total",
     approve_quote: "Approve Quote",
     quote_approved: "Quote Approved",
@@ -60,17 +220,118 @@ export const TRANSLATIONS = {
     customer_address: "Address",
     cancel: "Cancel",
     generate: "Generate",
+    audit_trail: "Audit trail",
+    audit_empty: "No review or pricing changes recorded yet.",
+    export_audit_report: "Export audit report",
+    audit_defect_status: "Defect decision",
+    audit_repair_cost: "Repair cost changed",
+    audit_quote_approved: "Quote approved",
+    audit_invoice_generated: "Invoice generated",
+    audit_quote_repriced: "Quote repriced",
+    review_status_pending: "Pending",
+    review_status_accepted: "Accepted",
+    review_status_modified: "Modified",
+    review_status_rejected: "Rejected",
     
+    location_code: "Location (CEDEX)",
+    component_code: "Component",
     labor: "Labor",
     parts: "Parts",
     hours: "hrs",
     save_changes: "Save Changes",
-    base_price: "Base Price (VND)",
+    base_price: "Base Price",
     labor_hours: "Labor Hours",
+    defect_type: "Defect Type",
+    severity: "Severity",
+    damage_size: "Damage size (cm / cm²)",
+    size_measure_length: "Length",
+    size_measure_area: "Area",
+    container_type: "Container type",
+    container_type_dry: "Dry",
+    container_type_high_cube: "High cube",
+    container_type_reefer: "Reefer",
+    container_length: "Length",
+    any: "Any",
+    add_variant: "Add a more specific rule",
+    delete_rule: "Delete rule",
+    pricing_rules_hint: "Each defect is priced by the most specific matching rule. A damage size band counts most, then the component, the container type and the container length; the plain rule for the code and severity is the fallback. Sizes are measured or estimated from overview photos.",
+    size_band_invalid: "A damage size band has its minimum at or above its maximum",
+    no_pricing_rule: "No pricing rule",
+    defects_unpriced: "defect(s) have no matching pricing rule. Enter a cost or add a rule before approving.",
+    damage_length_cm: "Length (cm)",
+    damage_width_cm: "Width (cm)",
+    estimated: "estimated",
+    currency: "Currency",
+    quote_currency: "Quote currency",
+    rate_effective_from: "Effective from",
+    exchange_rates: "Exchange Rates",
+    exchange_rates_hint: "VND per unit of each currency. A quote uses the rates in effect when it is first priced and keeps them.",
+    exchange_rates_invalid: "Every exchange rate needs a value above 0 and a date, and a currency can't have two rates from the same date",
+    add_exchange_rate: "Add rate",
+    tax_profiles: "Tax Profiles",
+    tax_profiles_hint: "Rates quote lines can be taxed at. The default applies to customers without their own profile.",
+    tax_profile_name: "Name",
+    tax_rate: "Rate",
+    tax_default: "Default",
+    add_tax_profile: "Add profile",
+    customer_tax_profiles: "Customer Tax Profiles",
+    customer_tax_profiles_hint: "Matched on the customer / line of the inspection. A reviewer can still change the profile of single lines.",
+    add_customer_tax_profile: "Add customer",
+    rate_card: "Rate card",
+    default_rate_card: "Default",
+    add_rate_card: "New rate card",
+    rate_cards_hint: "A customer's negotiated tariff. Quotes use the card of their customer, or else the card for the container's owner prefix, and the default card otherwise.",
+    rate_card_name: "Name",
+    rate_card_customers: "Customers (comma-separated)",
+    rate_card_owner_codes: "Owner prefixes (comma-separated)",
+    rate_card_inherits: "Use the default card for defects this card doesn't cover",
+    rate_card_rules_hint: "Rules of this card. They win over the default card's rules, however specific those are.",
+    add_rule: "Add rule",
+    copy_default_rules: "Copy all default rules",
+    delete_rate_card: "Delete card",
+    delete_rate_card_confirm: "Delete this rate card? Quotes priced from it keep their prices.",
+    rate_card_name_missing: "Every rate card needs a name",
+    rate_card_owner_invalid: "Owner prefixes are 3 letters, optionally followed by U, J or Z",
+    rate_card_assigned_twice: "A customer or owner prefix is assigned to more than one rate card",
+    labor_rates: "Labor Rates",
+    labor_rates_hint: "Hourly rate per skill. A rate with a depot applies only to inspections captured there (see Settings); the one without applies everywhere else. Of the shift premiums that match the repair time, the highest applies.",
+    labor_skill: "Labor skill",
+    labor_skill_general: "General",
+    labor_skill_welder: "Welder",
+    labor_skill_painter: "Painter",
+    depot: "Depot",
+    all_depots: "All depots",
+    hourly_rate: "Hourly rate",
+    shift_premiums: "Shift premiums (days, hours, multiplier)",
+    add_shift_premium: "Add premium",
+    add_labor_rate: "Add labor rate",
+    labor_rate_invalid: "Every labor rate needs an hourly rate above 0, and every premium a multiplier above 0 and both hours (0-24) or neither",
+    labor_rate_duplicate: "A skill has more than one rate for the same depot",
+    repair_time: "Repair time",
+    weekday_short_0: "Su",
+    weekday_short_1: "Mo",
+    weekday_short_2: "Tu",
+    weekday_short_3: "We",
+    weekday_short_4: "Th",
+    weekday_short_5: "Fr",
+    weekday_short_6: "Sa",
+    tax_default_missing: "Pick a default tax profile",
+    tax_profile_invalid: "Every tax profile needs a name and a rate from 0 to 99%",
+    tax_customer_invalid: "Every customer tax profile needs a customer, and each customer can only be listed once",
     // OCR
     scan_id: "Scan ID",
     scanning: "Scanning...",
     id_not_found: "ID not found",
+    // ISO 6346 container number check
+    cn_valid: "Valid ISO 6346 number",
+    cn_corrected: "Check digit fails as typed; will be saved as",
+    cn_suspect: "Suspect number: check digit does not match, expected",
+    cn_invalid: "Invalid container number. Expected 3 letters, U/J/Z and 7 digits.",
+    cn_confirm_suspect: "The container number check digit does not validate. Save it anyway?",
+    cn_confirm_corrected: "The container number as typed fails its check digit. Save it as",
+    manifest_confirm_corrected: "These numbers fail their check digit as typed and would be queued as corrected. Queue them?",
+    cn_format_hint: "Owner code (3 letters), category U/J/Z, 6-digit serial and check digit",
+    cn_suspect_saved: "Saved with an unverified container number",
     
     sides: {
       DOOR_EXT: "Door Wall (Ext)",
@@ -94,6 +355,26 @@ export const TRANSLATIONS = {
       ROOF_INT: "Inside Roof",
       FLOOR_INT: "Inside Floor"
     },
+    components: {
+      PAN: "Panel",
+      TSR: "Top side rail",
+      BSR: "Bottom side rail",
+      TER: "Top end rail",
+      BER: "Bottom end rail",
+      CPO: "Corner post",
+      CFT: "Corner fitting",
+      RPN: "Roof panel",
+      RBW: "Roof bow",
+      CRM: "Crossmember",
+      FLB: "Floor board",
+      DPN: "Door panel",
+      LRD: "Locking rod",
+      DHG: "Door hinge",
+      DGS: "Door gasket",
+      HDR: "Door header",
+      SIL: "Door sill",
+      DPL: "Data plate"
+    },
     // ... existing defect codes ...
      defects: {
       B: "Data Plate (B)",
@@ -125,6 +406,32 @@ export const TRANSLATIONS = {
     manifest: "Manifest",
     pricing: "Bảng giá",
     pricing_settings: "Cài đặt giá",
+    settings: "Cài đặt",
+    image_settings: "Xử lý ảnh",
+    depots: "Depot",
+    depots_hint: "Các lần giám định chụp trên thiết bị này được gắn depot hiện tại, và đơn giá nhân công của depot đó được áp dụng. Danh sách này là các lựa chọn trong bảng đơn giá nhân công.",
+    current_depot: "Depot của thiết bị này",
+    add_depot: "Thêm depot",
+    analysis_max_dimension: "Độ phân giải phân tích (cạnh dài nhất)",
+    image_quality: "Chất lượng JPEG",
+    thumbnail_size: "Kích thước ảnh thu nhỏ",
+    keep_original: "Giữ ảnh gốc",
+    keep_original_hint: "Lưu ảnh gốc độ phân giải đầy đủ cùng ảnh đã xử lý. Tốn nhiều dung lượng hơn.",
+    triage_policy: "Tự động phân loại",
+    triage_enabled: "Bật",
+    triage_hint: "Phát hiện có độ tin cậy từ ngưỡng chấp nhận trở lên được chấp nhận, dưới ngưỡng từ chối bị từ chối, còn lại chuyển cho người duyệt. Quy tắc theo loại lỗi (và mức độ) ghi đè ngưỡng mặc định.",
+    triage_defaults: "Ngưỡng mặc định",
+    triage_accept_above: "Chấp nhận từ",
+    triage_reject_below: "Từ chối dưới",
+    triage_any_severity: "Mọi mức độ",
+    triage_add_rule: "Thêm quy tắc",
+    triage_invalid: "Chính sách tự động phân loại không hợp lệ:",
+    auto_accepted: "Tự động chấp nhận",
+    auto_rejected: "Tự động từ chối",
+    auto_overridden: "đã thay đổi",
+    auto_decided_count: "tự động quyết định",
+    confidence: "Độ tin cậy",
+    triage_threshold: "ngưỡng",
     pending_review: "Chờ duyệt",
     completed: "Hoàn tất",
     total_inspections: "Tổng số kiểm tra",
@@ -133,15 +440,146 @@ export const TRANSLATIONS = {
     container_number: "Số Container",
     sides_to_capture: "Các mặt cần chụp",
     upload_photo: "Thêm ảnh",
+    photo_label_overview: "Toàn cảnh",
+    photo_label_panel: "Tấm vách",
+    photo_label_close_up: "Cận cảnh",
+    photos: "Ảnh",
+    image_processing_failed: "Không xử lý được ảnh. Vui lòng thử ảnh khác.",
+    save_failed: "Không lưu được thay đổi. Kiểm tra dung lượng lưu trữ và thử lại.",
+    sync_status: "Đồng bộ",
+    sync_now: "Đồng bộ ngay",
+    sync_pending: "đang chờ đồng bộ",
+    sync_conflicts: "xung đột đồng bộ",
+    synced: "Đã đồng bộ mọi thay đổi",
+    online: "Trực tuyến",
+    offline: "Ngoại tuyến",
+    last_sync: "Lần đồng bộ cuối",
+    sync_disabled: "Thay đổi chỉ được lưu trên thiết bị này. Đồng bộ dùng với máy chủ của depot (STORAGE_BACKEND=rest).",
+    sync_conflict_hint: "Các lần kiểm tra này đã được sửa ở đây và trên thiết bị khác theo cách không thể gộp. Những thay đổi không xung đột luôn được giữ lại.",
+    sync_conflict_banner: "Lần kiểm tra này cũng đã được sửa trên thiết bị khác. Thay đổi sẽ không được đồng bộ cho đến khi xử lý xung đột.",
+    sync_resolve_failed: "Không xử lý được xung đột. Kiểm tra kết nối tới máy chủ và thử lại.",
+    keep_mine: "Giữ thay đổi trên thiết bị này",
+    keep_server: "Giữ thay đổi trên máy chủ",
+    resolve: "Xử lý",
+    view: "Xem",
+    data_management: "Dữ liệu",
+    inspections: "Lần kiểm tra",
+    backup_export: "Xuất bản sao lưu",
+    backup_export_hint: "Tải về một tệp chứa mọi lần kiểm tra (kèm ảnh), danh sách chờ, bảng giá và cài đặt.",
+    backup_failed: "Không tạo được bản sao lưu.",
+    backup_restore: "Khôi phục từ bản sao lưu",
+    backup_choose_file: "Chọn tệp sao lưu",
+    restore_merge: "Gộp",
+    restore_merge_hint: "Thêm những gì thiết bị này còn thiếu. Nếu cả hai đều có một lần kiểm tra, giữ bản được sửa sau cùng. Cài đặt giữ nguyên.",
+    restore_replace: "Thay thế",
+    restore_replace_hint: "Thiết bị sẽ chỉ chứa đúng dữ liệu trong bản sao lưu. Mọi dữ liệu khác bị xóa.",
+    restore_dry_run: "Xem trước khôi phục (chưa có gì thay đổi)",
+    restore_add: "thêm",
+    restore_update: "cập nhật",
+    restore_keep: "giữ",
+    restore_remove: "xóa",
+    restore_settings_replaced: "Cài đặt sẽ được thay bằng cài đặt trong bản sao lưu.",
+    restore_apply: "Khôi phục",
+    restore_replace_confirm: "Thay toàn bộ dữ liệu trên thiết bị này bằng bản sao lưu? Dữ liệu không có trong bản sao lưu sẽ bị xóa.",
+    restore_done: "Đã khôi phục bản sao lưu.",
+    restore_failed: "Khôi phục thất bại. Không có gì thay đổi nếu chưa ghi được các lần kiểm tra.",
+    storage_usage: "Dung lượng lưu trữ",
+    storage_photos: "Ảnh",
+    storage_originals: "Ảnh gốc",
+    storage_thumbnails: "Ảnh thu nhỏ",
+    storage_records: "Dữ liệu kiểm tra",
+    storage_archive: "Lưu trữ (nén)",
+    storage_other: "Cài đặt và dữ liệu khác",
+    storage_browser: "Ứng dụng đang dùng trên trình duyệt này",
+    retention_policy: "Lưu giữ dữ liệu",
+    retention_enabled: "Chạy hằng ngày",
+    retention_hint: "Các công việc đã lập hóa đơn vẫn giữ ảnh thu nhỏ, lỗi và báo giá khi ảnh kích thước đầy đủ bị xóa. Các công việc đã đóng (đã lập hóa đơn, hoặc hoàn tất không có báo giá) được chuyển vào kho lưu trữ nén trên thiết bị này và có thể khôi phục từ danh sách bên dưới. Để trống một ô để tắt bước đó.",
+    retention_drop_images: "Xóa ảnh đầy đủ của công việc đã lập hóa đơn sau (ngày)",
+    retention_archive: "Lưu trữ công việc đã đóng sau (tháng)",
+    retention_last_run: "Lần chạy cuối",
+    retention_preview: "Xem trước",
+    retention_will_drop: "Ảnh đầy đủ bị xóa",
+    retention_will_archive: "Lần kiểm tra được lưu trữ",
+    retention_archive_unavailable: "Trình duyệt này không hỗ trợ kho lưu trữ nén nên sẽ không lưu trữ gì.",
+    retention_archive_shared: "Dữ liệu kiểm tra được dùng chung qua máy chủ của bãi nên sẽ không lưu trữ gì trên thiết bị này.",
+    retention_run: "Chạy ngay",
+    retention_run_confirm: "Xóa ảnh và lưu trữ các lần kiểm tra trong danh sách? Ảnh đầy đủ đã xóa không thể khôi phục.",
+    retention_done: "Đã chạy xong chính sách lưu giữ.",
+    retention_failed_for: "Không xử lý được một số lần kiểm tra",
+    archived_inspections: "Lần kiểm tra đã lưu trữ",
+    unarchive: "Khôi phục",
+    side_count: "mặt",
     analyzing: "Đang phân tích...",
     start_inspection: "Bắt đầu kiểm tra",
+    manifest_item_taken: "Container này đã được kiểm tra viên khác nhận.",
+    release_job: "Trả lại",
+    pending: "Đang chờ",
+    in_progress: "Đang thực hiện",
+    all: "Tất cả",
+    edit: "Sửa",
+    priority: "Ưu tiên",
+    priority_urgent: "Khẩn",
+    priority_high: "Cao",
+    priority_normal: "Bình thường",
+    priority_low: "Thấp",
+    deadline: "Hạn chót",
+    customer_line: "Khách hàng / hãng tàu",
+    size_type: "Kích cỡ/loại",
+    notes: "Ghi chú",
+    assigned_to: "Giao cho",
+    assigned_to_me: "Giao cho tôi",
+    unassigned: "Chưa giao",
+    all_inspectors: "Tất cả kiểm tra viên",
+    all_priorities: "Mọi mức ưu tiên",
+    manifest_open: "Chưa xong",
+    manifest_search: "Container, khách hàng, ghi chú...",
+    manifest_details_hint: "Áp dụng cho mọi container thêm lần này.",
+    manifest_added: "Đã thêm",
+    manifest_rejected: "Không thêm",
+    manifest_number_corrected: "đã sửa",
+    manifest_error_invalid_number: "không phải số container",
+    manifest_error_check_digit: "số kiểm tra không khớp",
+    manifest_error_duplicate_in_import: "bị lặp trong danh sách",
+    manifest_error_already_queued: "đã có trong hàng chờ",
+    manifest_error_invalid_size_type: "kích cỡ/loại không đúng mã ISO (vd. 22G1)",
+    manifest_error_invalid_deadline: "hạn chót không phải ngày hợp lệ",
+    booking_ref: "Booking / B/L",
+    back: "Quay lại",
+    import_file: "Nhập tệp (CSV, XLSX, EDI)",
+    import_manifest: "Nhập danh sách container",
+    import_read_failed: "Không đọc được tệp",
+    import_first_row_header: "Dòng đầu là tiêu đề",
+    import_field_containerNumber: "Số container",
+    import_field_customer: "Khách hàng / hãng tàu",
+    import_field_sizeType: "Kích cỡ/loại",
+    import_field_bookingRef: "Booking / B/L",
+    import_field_priority: "Ưu tiên",
+    import_field_deadline: "Hạn chót",
+    import_field_notes: "Ghi chú",
+    import_preview: "Xem trước",
+    import_rows_ok: "Sẵn sàng nhập",
+    import_rows_with_errors: "Có lỗi (bỏ qua)",
+    import_rows: "Nhập",
     analysis_failed: "Phân tích thất bại. Vui lòng thử lại.",
+    detection_no_api_key: "Chưa cấu hình nhận diện hư hỏng: chưa có khóa API Gemini. Không thể phân tích ảnh cho đến khi quản trị viên đặt API_KEY, hoặc chọn nhà cung cấp bằng DETECTION_PROVIDER.",
+    detection_demo_provider: "Đang dùng nhận diện demo: lỗi và số container là dữ liệu giả hoặc phát lại, không đọc từ ảnh. Không dùng cho container thật.",
+    detection_demo_inspection: "Dữ liệu demo: kết quả nhận diện của lần giám định này không đọc từ ảnh",
     no_images: "Vui lòng thêm ít nhất một ảnh.",
     confirm: "Xác nhận",
     reject: "Từ chối",
     export_pdf: "Xuất PDF",
+    export_edi: "Xuất EDI",
+    edi_validation_failed: "Báo giá EDI không hợp lệ. Vẫn tải xuống?",
+    edi_unpriced: "Hãy định giá tất cả hư hỏng trước khi xuất báo giá EDI.",
     defects_detected: "Lỗi được phát hiện",
     no_defects: "Không tìm thấy lỗi.",
+    sides_failed_analysis: "ảnh chưa phân tích được. Không thể hoàn tất kiểm tra cho đến khi phân tích xong.",
+    retry_failed: "Thử lại ảnh lỗi",
+    analysis_status_failed: "Phân tích ảnh này thất bại",
+    analysis_status_skipped: "Ảnh này đã bị bỏ qua khi phân tích",
+    merged_evidence: "Cũng thấy trên",
+    split_defect: "Tách",
+    detections_quarantined: "kết quả AI bị loại do không hợp lệ:",
     inspector: "Thanh tra viên",
     date: "Ngày",
     status: "Trạng thái",
@@ -159,7 +597,10 @@ export const TRANSLATIONS = {
     quote: "Báo giá",
     estimated_cost: "Chi phí dự kiến",
     subtotal: "Tạm tính",
-    tax: "Thuế (10%)",
+    tax: "Thuế",
+    tax_exempt: "Không chịu thuế GTGT",
+    tax_profile: "Loại thuế",
+    tax_profile_customer: "Theo khách hàng",
     total: "Tổng cộng",
     approve_quote: "Duyệt báo giá",
     quote_approved: "Đã duyệt",
@@ -174,17 +615,118 @@ export const TRANSLATIONS = {
     customer_address: "Địa chỉ",
     cancel: "Hủy",
     generate: "Tạo",
+    audit_trail: "Lịch sử thay đổi",
+    audit_empty: "Chưa có thay đổi nào về duyệt hoặc giá.",
+    export_audit_report: "Xuất báo cáo kiểm toán",
+    audit_defect_status: "Quyết định lỗi",
+    audit_repair_cost: "Thay đổi chi phí sửa chữa",
+    audit_quote_approved: "Duyệt báo giá",
+    audit_invoice_generated: "Lập hóa đơn",
+    audit_quote_repriced: "Tính lại báo giá",
+    review_status_pending: "Chờ duyệt",
+    review_status_accepted: "Chấp nhận",
+    review_status_modified: "Đã sửa",
+    review_status_rejected: "Từ chối",
 
+    location_code: "Vị trí (CEDEX)",
+    component_code: "Bộ phận",
     labor: "Nhân công",
     parts: "Vật tư",
     hours: "giờ",
     save_changes: "Lưu thay đổi",
-    base_price: "Giá vật tư (VND)",
+    base_price: "Giá vật tư",
     labor_hours: "Giờ công",
+    defect_type: "Loại hư hỏng",
+    severity: "Mức độ",
+    damage_size: "Kích thước hư hỏng (cm / cm²)",
+    size_measure_length: "Chiều dài",
+    size_measure_area: "Diện tích",
+    container_type: "Loại container",
+    container_type_dry: "Khô",
+    container_type_high_cube: "Cao (HC)",
+    container_type_reefer: "Lạnh",
+    container_length: "Chiều dài",
+    any: "Bất kỳ",
+    add_variant: "Thêm quy tắc chi tiết hơn",
+    delete_rule: "Xóa quy tắc",
+    pricing_rules_hint: "Mỗi hư hỏng được tính giá theo quy tắc phù hợp chi tiết nhất. Khoảng kích thước hư hỏng được ưu tiên nhất, sau đó đến bộ phận, loại container và chiều dài container; quy tắc chung theo mã và mức độ là mặc định. Kích thước được đo hoặc ước tính từ ảnh toàn cảnh.",
+    size_band_invalid: "Có khoảng kích thước hư hỏng với giá trị nhỏ nhất không nhỏ hơn giá trị lớn nhất",
+    no_pricing_rule: "Chưa có quy tắc giá",
+    defects_unpriced: "hư hỏng chưa có quy tắc giá phù hợp. Hãy nhập chi phí hoặc thêm quy tắc trước khi duyệt.",
+    damage_length_cm: "Dài (cm)",
+    damage_width_cm: "Rộng (cm)",
+    estimated: "ước tính",
+    currency: "Tiền tệ",
+    quote_currency: "Tiền tệ báo giá",
+    rate_effective_from: "Hiệu lực từ",
+    exchange_rates: "Tỷ giá",
+    exchange_rates_hint: "Số VND cho mỗi đơn vị tiền tệ. Báo giá dùng tỷ giá có hiệu lực khi được định giá lần đầu và giữ nguyên tỷ giá đó.",
+    exchange_rates_invalid: "Mỗi tỷ giá cần giá trị lớn hơn 0 và ngày hiệu lực, và một loại tiền không thể có hai tỷ giá cùng ngày",
+    add_exchange_rate: "Thêm tỷ giá",
+    tax_profiles: "Loại thuế",
+    tax_profiles_hint: "Các mức thuế áp dụng cho dòng báo giá. Loại mặc định dùng cho khách hàng chưa được gán loại riêng.",
+    tax_profile_name: "Tên",
+    tax_rate: "Thuế suất",
+    tax_default: "Mặc định",
+    add_tax_profile: "Thêm loại thuế",
+    customer_tax_profiles: "Thuế theo khách hàng",
+    customer_tax_profiles_hint: "Khớp theo khách hàng / hãng tàu của lượt giám định. Người duyệt vẫn có thể đổi loại thuế cho từng dòng.",
+    add_customer_tax_profile: "Thêm khách hàng",
+    rate_card: "Biểu giá",
+    default_rate_card: "Mặc định",
+    add_rate_card: "Biểu giá mới",
+    rate_cards_hint: "Biểu giá đã thỏa thuận với khách hàng. Báo giá dùng biểu giá của khách hàng, nếu không có thì theo tiền tố chủ sở hữu của số container, còn lại dùng biểu giá mặc định.",
+    rate_card_name: "Tên",
+    rate_card_customers: "Khách hàng (cách nhau bởi dấu phẩy)",
+    rate_card_owner_codes: "Tiền tố chủ sở hữu (cách nhau bởi dấu phẩy)",
+    rate_card_inherits: "Dùng biểu giá mặc định cho hư hỏng mà biểu giá này không có",
+    rate_card_rules_hint: "Quy tắc của biểu giá này. Chúng được ưu tiên hơn mọi quy tắc của biểu giá mặc định.",
+    add_rule: "Thêm quy tắc",
+    copy_default_rules: "Sao chép toàn bộ quy tắc mặc định",
+    delete_rate_card: "Xóa biểu giá",
+    delete_rate_card_confirm: "Xóa biểu giá này? Các báo giá đã tính theo biểu giá này vẫn giữ nguyên giá.",
+    rate_card_name_missing: "Mỗi biểu giá cần có tên",
+    rate_card_owner_invalid: "Tiền tố chủ sở hữu gồm 3 chữ cái, có thể thêm U, J hoặc Z",
+    rate_card_assigned_twice: "Một khách hàng hoặc tiền tố chủ sở hữu được gán cho nhiều biểu giá",
+    labor_rates: "Đơn giá nhân công",
+    labor_rates_hint: "Đơn giá theo giờ cho từng tay nghề. Đơn giá có ghi depot chỉ áp dụng cho các lần giám định chụp tại depot đó (xem Cài đặt); đơn giá không ghi depot áp dụng cho các nơi còn lại. Trong các phụ phí ca khớp với thời gian sửa chữa, mức cao nhất được áp dụng.",
+    labor_skill: "Tay nghề",
+    labor_skill_general: "Phổ thông",
+    labor_skill_welder: "Thợ hàn",
+    labor_skill_painter: "Thợ sơn",
+    depot: "Depot",
+    all_depots: "Mọi depot",
+    hourly_rate: "Đơn giá giờ",
+    shift_premiums: "Phụ phí ca (ngày, giờ, hệ số)",
+    add_shift_premium: "Thêm phụ phí",
+    add_labor_rate: "Thêm đơn giá",
+    labor_rate_invalid: "Mỗi đơn giá nhân công cần lớn hơn 0, mỗi phụ phí cần hệ số lớn hơn 0 và có đủ cả hai giờ (0-24) hoặc để trống cả hai",
+    labor_rate_duplicate: "Một tay nghề có nhiều đơn giá cho cùng một depot",
+    repair_time: "Thời gian sửa chữa",
+    weekday_short_0: "CN",
+    weekday_short_1: "T2",
+    weekday_short_2: "T3",
+    weekday_short_3: "T4",
+    weekday_short_4: "T5",
+    weekday_short_5: "T6",
+    weekday_short_6: "T7",
+    tax_default_missing: "Hãy chọn loại thuế mặc định",
+    tax_profile_invalid: "Mỗi loại thuế cần có tên và thuế suất từ 0 đến 99%",
+    tax_customer_invalid: "Mỗi dòng thuế theo khách hàng cần có khách hàng, và mỗi khách hàng chỉ được liệt kê một lần",
     // OCR
     scan_id: "Quét số Cont",
     scanning: "Đang quét...",
     id_not_found: "Không tìm thấy số",
+    // ISO 6346 container number check
+    cn_valid: "Số hợp lệ theo ISO 6346",
+    cn_corrected: "Số kiểm tra sai như đã nhập; sẽ lưu thành",
+    cn_suspect: "Số đáng ngờ: số kiểm tra không khớp, phải là",
+    cn_invalid: "Số container không hợp lệ. Cần 3 chữ cái, U/J/Z và 7 chữ số.",
+    cn_confirm_suspect: "Số kiểm tra của container không hợp lệ. Vẫn lưu?",
+    cn_confirm_corrected: "Số container như đã nhập có số kiểm tra sai. Lưu thành",
+    manifest_confirm_corrected: "Các số này có số kiểm tra sai như đã nhập và sẽ được đưa vào hàng đợi theo số đã sửa. Tiếp tục?",
+    cn_format_hint: "Mã chủ sở hữu (3 chữ cái), loại U/J/Z, 6 số sê-ri và số kiểm tra",
+    cn_suspect_saved: "Đã lưu với số container chưa xác minh",
 
     sides: {
       DOOR_EXT: "Vách cửa (Ngoài)",
@@ -209,6 +751,26 @@ export const TRANSLATIONS = {
       ROOF_INT: "Nóc (Trong)",
       FLOOR_INT: "Sàn (Trong)"
     },
+    components: {
+      PAN: "Tấm vách",
+      TSR: "Xà dọc trên",
+      BSR: "Xà dọc dưới",
+      TER: "Xà ngang trên",
+      BER: "Xà ngang dưới",
+      CPO: "Trụ góc",
+      CFT: "Góc lắp ghép",
+      RPN: "Tấm nóc",
+      RBW: "Thanh đỡ nóc",
+      CRM: "Đà ngang",
+      FLB: "Ván sàn",
+      DPN: "Cánh cửa",
+      LRD: "Thanh khóa",
+      DHG: "Bản lề cửa",
+      DGS: "Gioăng cửa",
+      HDR: "Xà đầu cửa",
+      SIL: "Ngưỡng cửa",
+      DPL: "Bảng thông số"
+    },
     // ... existing defects ...
     defects: {
       B: "Bảng thông số (B)",
@@ -247,3 +809,8 @@ export const tDefect = (lang: Language, code: string): string => {
     // @ts-ignore
     return TRANSLATIONS[lang].defects[code] || code;
 };
+
+export const tComponent = (lang: Language, code: string): string => {
+    // @ts-ignore
+    return TRANSLATIONS[lang].components[code] || code;
+};
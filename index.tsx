@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { App } from './App';
+import { initStorage } from './services/dbService';
+import { runRetentionIfDue } from './services/retentionService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -8,8 +10,17 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+
+// Stored data is upgraded before the first render, so no page sees an old schema.
+// A failed migration is rolled back and the app still starts.
+initStorage()
+  .catch(error => console.error("Storage migration failed and was rolled back", error))
+  .finally(() => {
+    root.render(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>
+    );
+    // In the background; the app doesn't wait for old jobs to be cleaned up
+    runRetentionIfDue().catch(error => console.error("Retention run failed", error));
+  });
\ No newline at end of file
@@ -1,10 +1,15 @@
 
-import React, { useState, useEffect } from 'react';
-import { Camera, Loader2, ArrowRight, Plus, X } from 'lucide-react';
-import { analyzeImage, readContainerNumber } from '../services/geminiService';
-import { saveInspection } from '../services/dbService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Camera, Loader2, ArrowRight, Plus, X, CheckCircle, AlertTriangle } from 'lucide-react';
+import { readContainerNumber, getDetectionProvider, getDetectionWarning } from '../services/detectionService';
+import { runAnalysisJobs, applyAnalysisResults } from '../services/analysisRunner';
+import { validateContainerNumber } from '../services/containerNumberService';
+import { isValidSizeType, normalizeSizeType } from '../services/manifestService';
+import { saveInspection, getSettings } from '../services/dbService';
+import { preprocessImage, ProcessedImage } from '../services/imageService';
 import { applyPricingToInspection } from '../services/pricingService';
-import { Inspection, User, ContainerSide, InspectionImage, Defect, Language } from '../types';
+import { Inspection, User, ContainerSide, InspectionImage, Language, PhotoLabel } from '../types';
+import { REQUIRED_SIDES, PHOTO_LABELS } from '../constants';
 import { t, tSide } from '../i18n';
 
 interface CaptureProps {
@@ -12,27 +17,21 @@ interface CaptureProps {
   onComplete: (inspectionId: string, containerNumber: string) => void;
   lang: Language;
   initialContainerNumber?: string;
+  initialSizeType?: string;
+  initialCustomer?: string;
 }
 
-const REQUIRED_SIDES: ContainerSide[] = [
-    'DOOR_EXT', // Door Wall (Exterior) - Primary spot for OCR
-    'SIDE_1_EXT', 
-    'SIDE_2_EXT', 
-    'FRONT_EXT', 
-    'ROOF_EXT', 
-    'UNDER_EXT',
-    
-    'DOOR_INT',
-    'SIDE_1_INT',
-    'SIDE_2_INT',
-    'FRONT_INT',
-    'ROOF_INT',
-    'FLOOR_INT'
-];
-
-export const Capture: React.FC<CaptureProps> = ({ user, onComplete, lang, initialContainerNumber }) => {
+// A photo taken in this session, before it becomes an InspectionImage
+interface CapturedPhoto extends ProcessedImage {
+  id: string;
+  label?: PhotoLabel;
+}
+
+export const Capture: React.FC<CaptureProps> = ({ user, onComplete, lang, initialContainerNumber, initialSizeType, initialCustomer }) => {
   const [containerNum, setContainerNum] = useState('');
-  const [images, setImages] = useState<Record<string, string>>({}); 
+  const [sizeType, setSizeType] = useState('');
+  const [customer, setCustomer] = useState('');
+  const [photos, setPhotos] = useState<Partial<Record<ContainerSide, CapturedPhoto[]>>>({});
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -42,102 +41,134 @@ export const Capture: React.FC<CaptureProps> = ({ user, onComplete, lang, initia
       if (initialContainerNumber) {
           setContainerNum(initialContainerNumber);
       }
-  }, [initialContainerNumber]);
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, side: ContainerSide) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = async () => {
-        const base64 = reader.result as string;
-        setImages(prev => ({ ...prev, [side]: base64 }));
-
-        // Auto-OCR if uploading DOOR_EXT (Door Wall)
-        // We check !initialContainerNumber to avoid overwriting a queued item ID.
-        if (side === 'DOOR_EXT' && !initialContainerNumber) {
-             setIsScanning(true);
-             try {
-                 const result = await readContainerNumber(base64);
-                 if (result) {
-                     setContainerNum(result);
-                 }
-             } catch (e) {
-                 console.error("Auto-OCR failed", e);
-             } finally {
-                 setIsScanning(false);
-             }
+      setSizeType(initialSizeType || '');
+      setCustomer(initialCustomer || '');
+  }, [initialContainerNumber, initialSizeType, initialCustomer]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>, side: ContainerSide) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // allow picking the same file again
+    if (files.length === 0) return;
+
+    const isFirstForSide = !photos[side]?.length;
+    const imageSettings = getSettings().image;
+    const added: CapturedPhoto[] = [];
+    try {
+        for (const file of files) {
+            // Upright, downsized and re-encoded before it is stored or sent for analysis
+            const processed = await preprocessImage(file, imageSettings);
+            added.push({
+                ...processed,
+                id: `photo-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+                // The first photo of a side is the wide shot, the rest default to panels
+                label: isFirstForSide && added.length === 0 ? 'OVERVIEW' : 'PANEL'
+            });
         }
-      };
-      reader.readAsDataURL(file);
+    } catch (err) {
+        console.error("Image preprocessing failed", err);
+        setError(t(lang, 'image_processing_failed'));
+    }
+    if (added.length === 0) return;
+    setPhotos(prev => ({ ...prev, [side]: [...(prev[side] || []), ...added] }));
+
+    // Auto-OCR on the first Door Wall (Exterior) photo
+    // We check !initialContainerNumber to avoid overwriting a queued item ID.
+    if (side === 'DOOR_EXT' && isFirstForSide && !initialContainerNumber) {
+         setIsScanning(true);
+         try {
+             const result = await readContainerNumber(added[0].url);
+             if (result) {
+                 setContainerNum(result);
+             }
+         } catch (e) {
+             console.error("Auto-OCR failed", e);
+         } finally {
+             setIsScanning(false);
+         }
     }
   };
 
-  const removeImage = (side: ContainerSide) => {
-      const newImages = { ...images };
-      delete newImages[side];
-      setImages(newImages);
+  const numberCheck = useMemo(() => validateContainerNumber(containerNum), [containerNum]);
+  const detectionWarning = useMemo(() => getDetectionWarning(), []);
+
+  const removePhoto = (side: ContainerSide, photoId: string) => {
+      setPhotos(prev => ({ ...prev, [side]: (prev[side] || []).filter(p => p.id !== photoId) }));
   };
 
+  const setPhotoLabel = (side: ContainerSide, photoId: string, label: PhotoLabel) => {
+      setPhotos(prev => ({ ...prev, [side]: (prev[side] || []).map(p => p.id === photoId ? { ...p, label } : p) }));
+  };
+
+  const photoCount = Object.values(photos).reduce((n, list) => n + (list?.length || 0), 0);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (Object.keys(images).length === 0 || !containerNum) {
+    if (photoCount === 0 || !containerNum) {
         setError(t(lang, 'no_images'));
         return;
     }
 
+    // Use the check-digit-validated spelling; anything else needs explicit confirmation
+    // (queued numbers can't be edited here, so they may be confirmed as-is)
+    if (numberCheck.status === 'INVALID' && !initialContainerNumber) {
+        setError(t(lang, 'cn_invalid'));
+        return;
+    }
+    if ((numberCheck.status === 'SUSPECT' || numberCheck.status === 'INVALID') && !confirm(t(lang, 'cn_confirm_suspect'))) {
+        return;
+    }
+    if (numberCheck.status === 'CORRECTED' && !confirm(`${t(lang, 'cn_confirm_corrected')} ${numberCheck.normalized}?`)) {
+        return;
+    }
+    const finalContainerNum = numberCheck.normalized;
+
     setIsAnalyzing(true);
     setError(null);
     setProgress(0);
 
     try {
-      const totalImages = Object.keys(images).length;
-      let completedImages = 0;
-      const allDefects: Defect[] = [];
-      const inspectionImages: InspectionImage[] = [];
-
-      // Async batch analysis
-      const analysisPromises = Object.entries(images).map(async ([side, base64]) => {
-          const imageId = `img-${Date.now()}-${side}`;
-          
-          inspectionImages.push({
-              id: imageId,
-              side: side as ContainerSide,
-              url: base64
-          });
-
-          // Pass lang to analyzeImage for localized responses
-          const defects = await analyzeImage(base64, containerNum, imageId, side, lang);
-          allDefects.push(...defects);
-          
-          completedImages++;
-          setProgress((completedImages / totalImages) * 100);
-      });
+      // Every photo of every side becomes its own image, ordered within the side
+      const inspectionImages: InspectionImage[] = REQUIRED_SIDES.flatMap(side =>
+          (photos[side] || []).map((photo, index) => ({
+              id: `img-${Date.now()}-${side}-${index}`,
+              side,
+              url: photo.url,
+              thumbnailUrl: photo.thumbnailUrl,
+              originalUrl: photo.originalUrl,
+              width: photo.width,
+              height: photo.height,
+              label: photo.label,
+              sequence: index
+          }))
+      );
 
-      await Promise.all(analysisPromises);
-      
-      // Determine IICL Tags
-      const uniqueCodes = Array.from(new Set(allDefects.map(d => d.code)));
-      const iiclTags = uniqueCodes.length > 0 ? uniqueCodes : ['IICL'];
+      // Bounded concurrency with retries; failed sides are kept for a later retry
+      const results = await runAnalysisJobs(inspectionImages, finalContainerNum, lang, {
+          onProgress: (completed, total) => setProgress((completed / total) * 100)
+      });
 
       // Create Inspection Object
-      let newInspection: Inspection = {
+      let newInspection: Inspection = applyAnalysisResults({
         id: `insp-${Date.now()}`,
-        containerNumber: containerNum.toUpperCase(),
+        containerNumber: finalContainerNum,
+        containerNumberStatus: numberCheck.status,
+        sizeType: isValidSizeType(sizeType) ? normalizeSizeType(sizeType) : undefined,
+        customer: customer.trim() || undefined,
         timestamp: new Date().toISOString(),
         inspectorId: user.id,
-        location: 'Port Gate 4', 
+        location: getSettings().depot.current || '',
+        detectionProvider: getDetectionProvider().id,
         images: inspectionImages,
-        defects: allDefects,
-        status: allDefects.length > 0 ? 'REVIEW_NEEDED' : 'COMPLETED',
-        overallCondition: allDefects.length > 0 ? 'DAMAGED' : 'SOUND',
-        iiclTags: iiclTags
-      };
+        defects: [],
+        status: 'ANALYZING'
+      }, results);
 
       // Apply Pricing Rules automatically
       newInspection = applyPricingToInspection(newInspection);
 
-      saveInspection(newInspection);
-      onComplete(newInspection.id, newInspection.containerNumber);
+      await saveInspection(newInspection);
+      // The manifest is keyed by the number as queued
+      onComplete(newInspection.id, initialContainerNumber || newInspection.containerNumber);
 
     } catch (err) {
       setError(t(lang, 'analysis_failed'));
@@ -150,6 +181,13 @@ export const Capture: React.FC<CaptureProps> = ({ user, onComplete, lang, initia
   return (
     <div className="max-w-6xl mx-auto p-4 md:p-6">
       <h2 className="text-2xl font-bold text-slate-800 mb-6">{t(lang, 'new_inspection')}</h2>
+
+      {detectionWarning && (
+        <div className="mb-6 p-3 bg-amber-50 text-amber-800 rounded-lg text-sm border border-amber-200 flex items-start space-x-2">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>{t(lang, detectionWarning)}</span>
+        </div>
+      )}
       
       <form onSubmit={handleSubmit} className="space-y-6">
         
@@ -160,7 +198,8 @@ export const Capture: React.FC<CaptureProps> = ({ user, onComplete, lang, initia
                     type="text" 
                     required
                     readOnly={!!initialContainerNumber || isScanning}
-                    pattern="[A-Za-z0-9]{4,11}"
+                    pattern="[A-Za-z0-9 \-]{11,15}"
+                    title={t(lang, 'cn_format_hint')}
                     className={`w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none uppercase font-mono text-lg tracking-wider ${initialContainerNumber ? 'bg-slate-100 text-slate-500 cursor-not-allowed' : 'bg-white'}`}
                     placeholder="ABCD1234567"
                     value={isScanning ? t(lang, 'scanning') : containerNum}
@@ -173,28 +212,93 @@ export const Capture: React.FC<CaptureProps> = ({ user, onComplete, lang, initia
                     </div>
                 )}
             </div>
+            {containerNum && !isScanning && (
+                <div className={`mt-2 flex items-center space-x-1.5 text-xs font-medium ${
+                    numberCheck.status === 'VALID' ? 'text-green-700' :
+                    numberCheck.status === 'CORRECTED' ? 'text-blue-700' :
+                    numberCheck.status === 'SUSPECT' ? 'text-amber-700' :
+                    'text-red-700'
+                }`}>
+                    {numberCheck.status === 'VALID' || numberCheck.status === 'CORRECTED'
+                        ? <CheckCircle className="w-3.5 h-3.5" />
+                        : <AlertTriangle className="w-3.5 h-3.5" />}
+                    <span>
+                        {numberCheck.status === 'VALID' && `${t(lang, 'cn_valid')} · ${numberCheck.ownerCode} ${numberCheck.equipmentCategory} ${numberCheck.serialNumber} ${numberCheck.checkDigit}`}
+                        {numberCheck.status === 'CORRECTED' && `${t(lang, 'cn_corrected')} ${numberCheck.normalized} (${numberCheck.corrections?.join(', ')})`}
+                        {numberCheck.status === 'SUSPECT' && `${t(lang, 'cn_suspect')} ${numberCheck.expectedCheckDigit}`}
+                        {numberCheck.status === 'INVALID' && t(lang, 'cn_invalid')}
+                    </span>
+                </div>
+            )}
+            {/* Optional: pricing rules can depend on the container size and type */}
+            <label className="block text-sm font-medium text-slate-700 mt-4 mb-1">{t(lang, 'size_type')}</label>
+            <input
+                type="text"
+                maxLength={4}
+                className={`w-32 px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none uppercase font-mono ${sizeType && !isValidSizeType(sizeType) ? 'border-red-400 bg-red-50' : 'border-slate-300'}`}
+                placeholder="22G1"
+                value={sizeType}
+                onChange={(e) => setSizeType(e.target.value.toUpperCase())}
+            />
+            {/* Optional: decides the tax profile on the quote */}
+            <label className="block text-sm font-medium text-slate-700 mt-4 mb-1">{t(lang, 'customer_line')}</label>
+            <input
+                type="text"
+                className="w-full max-w-xs px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={customer}
+                onChange={(e) => setCustomer(e.target.value)}
+            />
         </div>
 
         <div>
            <h3 className="text-lg font-semibold text-slate-700 mb-4">{t(lang, 'sides_to_capture')}</h3>
            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
              {REQUIRED_SIDES.map(side => {
-                 const hasImage = !!images[side];
+                 const sidePhotos = photos[side] || [];
+                 const hasImage = sidePhotos.length > 0;
                  return (
-                    <div key={side} className={`relative aspect-square rounded-xl border-2 ${hasImage ? 'border-blue-500 bg-blue-50' : 'border-dashed border-slate-300 bg-slate-50 hover:bg-slate-100'} transition-all overflow-hidden`}>
+                    <div key={side} className={`relative rounded-xl border-2 ${hasImage ? 'border-blue-500 bg-blue-50 p-2' : 'aspect-square border-dashed border-slate-300 bg-slate-50 hover:bg-slate-100'} transition-all overflow-hidden`}>
                         {hasImage ? (
                             <>
-                                <img src={images[side]} alt={side} className="w-full h-full object-cover" />
-                                <div className="absolute top-0 left-0 right-0 bg-black/50 text-white text-xs py-1 px-2 text-center truncate">
-                                    {tSide(lang, side)}
+                                <div className="flex justify-between items-center mb-2 px-1">
+                                    <span className="text-xs font-medium text-slate-700 truncate">{tSide(lang, side)}</span>
+                                    <span className="text-[10px] bg-blue-600 text-white rounded-full px-1.5">{sidePhotos.length}</span>
+                                </div>
+                                <div className="grid grid-cols-2 gap-1.5">
+                                    {sidePhotos.map(photo => (
+                                        <div key={photo.id} className="relative aspect-square rounded overflow-hidden bg-slate-200">
+                                            <img src={photo.thumbnailUrl} alt={side} className="w-full h-full object-cover" />
+                                            <select
+                                                value={photo.label || 'PANEL'}
+                                                onChange={(e) => setPhotoLabel(side, photo.id, e.target.value as PhotoLabel)}
+                                                className="absolute bottom-0 left-0 right-0 bg-black/60 text-white text-[10px] py-0.5 px-1 outline-none"
+                                            >
+                                                {PHOTO_LABELS.map(label => (
+                                                    <option key={label} value={label}>{t(lang, `photo_label_${label.toLowerCase()}`)}</option>
+                                                ))}
+                                            </select>
+                                            <button 
+                                                type="button"
+                                                onClick={() => removePhoto(side, photo.id)}
+                                                className="absolute top-1 right-1 p-1 bg-white text-red-500 rounded-full shadow-md hover:bg-red-50"
+                                            >
+                                                <X className="w-3 h-3" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <label className="cursor-pointer aspect-square rounded border border-dashed border-blue-300 flex flex-col items-center justify-center text-blue-600 hover:bg-blue-100">
+                                        <Plus className="w-5 h-5" />
+                                        <span className="text-[10px] mt-1">{t(lang, 'upload_photo')}</span>
+                                        <input 
+                                            type="file" 
+                                            accept="image/*"
+                                            multiple
+                                            className="hidden"
+                                            capture="environment"
+                                            onChange={(e) => handleFileChange(e, side)}
+                                        />
+                                    </label>
                                 </div>
-                                <button 
-                                    type="button"
-                                    onClick={() => removeImage(side)}
-                                    className="absolute top-1 right-1 p-1 bg-white text-red-500 rounded-full shadow-md hover:bg-red-50"
-                                >
-                                    <X className="w-3 h-3" />
-                                </button>
                             </>
                         ) : (
                             <label className="cursor-pointer w-full h-full flex flex-col items-center justify-center p-2">
@@ -204,6 +308,7 @@ export const Capture: React.FC<CaptureProps> = ({ user, onComplete, lang, initia
                                 <input 
                                     type="file" 
                                     accept="image/*"
+                                    multiple
                                     className="hidden"
                                     capture="environment"
                                     onChange={(e) => handleFileChange(e, side)}
@@ -225,7 +330,7 @@ export const Capture: React.FC<CaptureProps> = ({ user, onComplete, lang, initia
         <div className="fixed bottom-0 left-0 right-0 p-4 bg-white border-t border-slate-200 md:static md:bg-transparent md:border-0 md:p-0 z-10">
             <button 
             type="submit" 
-            disabled={Object.keys(images).length === 0 || !containerNum || isAnalyzing}
+            disabled={photoCount === 0 || !containerNum || isAnalyzing}
             className="w-full md:max-w-md mx-auto flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white py-3.5 rounded-lg font-semibold shadow-lg md:shadow-none transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
             {isAnalyzing ? (
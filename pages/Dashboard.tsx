@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { getDashboardStats } from '../services/dbService';
+import { getDashboardStats, subscribeToChanges } from '../services/dbService';
 import { AlertTriangle, CheckCircle, Clock } from 'lucide-react';
 import { Language } from '../types';
 import { t } from '../i18n';
@@ -10,12 +10,14 @@ interface DashboardProps {
 }
 
 export const Dashboard: React.FC<DashboardProps> = ({ lang }) => {
-  const [stats, setStats] = useState<ReturnType<typeof getDashboardStats>>({ 
+  const [stats, setStats] = useState<Awaited<ReturnType<typeof getDashboardStats>>>({ 
       total: 0, pendingReview: 0, completed: 0, chartData: [] 
   });
 
   useEffect(() => {
-    setStats(getDashboardStats());
+    const load = () => { getDashboardStats().then(setStats); };
+    load();
+    return subscribeToChanges(['inspections'], load);
   }, []);
 
   return (
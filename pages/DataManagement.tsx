@@ -0,0 +1,406 @@
+import React, { useState, useEffect } from 'react';
+import { Language, RetentionPolicy } from '../types';
+import { createBackup, backupFileName, planRestore, applyRestore, RestoreMode, RestorePlan } from '../services/backupService';
+import {
+  getStorageUsage, planRetention, applyRetention, unarchiveInspection, getLastRetentionRun,
+  RetentionPlan, StorageUsage
+} from '../services/retentionService';
+import { listArchived, isArchiveAvailable, ArchivedInspection } from '../services/archiveStore';
+import { getSettings, saveSettings } from '../services/dbService';
+import { t } from '../i18n';
+import { Download, Upload, AlertTriangle, CheckCircle, Loader2, Save, Eye, Archive, RotateCcw } from 'lucide-react';
+
+interface DataManagementProps {
+  lang: Language;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+export const DataManagement: React.FC<DataManagementProps> = ({ lang }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [archiveText, setArchiveText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [archived, setArchived] = useState<ArchivedInspection[]>([]);
+  const [policy, setPolicy] = useState<RetentionPolicy>(getSettings().retention);
+  const [policyDirty, setPolicyDirty] = useState(false);
+  const [retentionPlan, setRetentionPlan] = useState<RetentionPlan | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const refreshStorage = () => {
+    getStorageUsage().then(setUsage).catch(err => console.error("Reading storage usage failed", err));
+    if (isArchiveAvailable()) listArchived().then(setArchived).catch(err => console.error("Reading the archive failed", err));
+  };
+
+  useEffect(refreshStorage, []);
+
+  const handlePolicyChange = (changes: Partial<RetentionPolicy>) => {
+    setPolicy(prev => ({ ...prev, ...changes }));
+    setPolicyDirty(true);
+    setRetentionPlan(null);
+  };
+
+  const savePolicy = () => {
+    saveSettings({ ...getSettings(), retention: policy });
+    setPolicyDirty(false);
+  };
+
+  const previewRetention = async () => {
+    setRetentionPlan(await planRetention(policy));
+  };
+
+  const runRetention = async () => {
+    if (!retentionPlan || !window.confirm(t(lang, 'retention_run_confirm'))) return;
+    setIsRunning(true);
+    try {
+      const result = await applyRetention(retentionPlan);
+      alert(result.failures.length > 0
+        ? `${t(lang, 'retention_failed_for')}: ${result.failures.join(', ')}`
+        : t(lang, 'retention_done'));
+    } finally {
+      setIsRunning(false);
+      setRetentionPlan(null);
+      refreshStorage();
+    }
+  };
+
+  const handleUnarchive = async (id: string) => {
+    try {
+      await unarchiveInspection(id);
+    } catch (err) {
+      console.error("Restoring archived inspection failed", err);
+      alert(t(lang, 'save_failed'));
+    }
+    refreshStorage();
+  };
+
+  // Empty = that step is off
+  const limitInput = (value: number | undefined, onChange: (value: number | undefined) => void) => (
+    <input
+      type="number"
+      min="1"
+      placeholder="-"
+      className="w-24 px-2 py-1 border border-slate-300 rounded"
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Math.max(1, parseInt(e.target.value, 10) || 1))}
+    />
+  );
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const archive = await createBackup();
+      const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = backupFileName(archive);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Backup export failed", err);
+      alert(t(lang, 'backup_failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Every change of file or mode gets a fresh dry run; nothing is written until Restore
+  const checkArchive = async (text: string, restoreMode: RestoreMode) => {
+    setPlan(null);
+    setPlan(await planRestore(text, restoreMode));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setArchiveText(text);
+    setFileName(file.name);
+    await checkArchive(text, mode);
+  };
+
+  const handleMode = async (next: RestoreMode) => {
+    setMode(next);
+    if (archiveText) await checkArchive(archiveText, next);
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+    if (plan.mode === 'replace' && !window.confirm(t(lang, 'restore_replace_confirm'))) return;
+    setIsRestoring(true);
+    try {
+      await applyRestore(plan);
+      alert(t(lang, 'restore_done'));
+      setArchiveText(null);
+      setPlan(null);
+    } catch (err) {
+      console.error("Restore failed", err);
+      alert(t(lang, 'restore_failed'));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const summaryRow = (label: string, values: [string, number][]) => (
+    <div className="flex justify-between text-sm">
+      <span className="text-slate-700">{label}</span>
+      <span className="text-slate-600 space-x-3">
+        {values.map(([key, value]) => <span key={key}>{t(lang, key)}: <b>{value}</b></span>)}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-6">
+      <h2 className="text-2xl font-bold text-slate-800">{t(lang, 'data_management')}</h2>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-2">
+        <h3 className="font-semibold text-slate-800">{t(lang, 'storage_usage')}</h3>
+        {!usage ? (
+          <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+        ) : (
+          <>
+            {([
+              ['storage_photos', usage.photos],
+              ['storage_originals', usage.originals],
+              ['storage_thumbnails', usage.thumbnails],
+              ['storage_records', usage.records],
+              ['storage_archive', usage.archive],
+              ['queue', usage.manifest],
+              ['pricing', usage.pricingRules],
+              ['storage_other', usage.other]
+            ] as [string, number][]).map(([key, bytes]) => (
+              <div key={key} className="flex justify-between text-sm">
+                <span className="text-slate-700">
+                  {t(lang, key)}
+                  {key === 'storage_archive' && usage.archivedCount > 0 && <span className="text-slate-400"> ({usage.archivedCount})</span>}
+                </span>
+                <span className="font-mono text-slate-600">{formatBytes(bytes)}</span>
+              </div>
+            ))}
+            {usage.browserUsage !== undefined && usage.browserQuota !== undefined && (
+              <div className="flex justify-between text-sm pt-2 border-t border-slate-100 font-medium">
+                <span className="text-slate-800">{t(lang, 'storage_browser')}</span>
+                <span className="font-mono text-slate-700">{formatBytes(usage.browserUsage)} / {formatBytes(usage.browserQuota)}</span>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="font-semibold text-slate-800">{t(lang, 'retention_policy')}</h3>
+          <label className="flex items-center space-x-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              className="w-4 h-4"
+              checked={policy.enabled}
+              onChange={(e) => handlePolicyChange({ enabled: e.target.checked })}
+            />
+            <span>{t(lang, 'retention_enabled')}</span>
+          </label>
+        </div>
+        <p className="text-xs text-slate-500">{t(lang, 'retention_hint')}</p>
+
+        <label className="flex items-center justify-between text-sm">
+          <span className="text-slate-700">{t(lang, 'retention_drop_images')}</span>
+          {limitInput(policy.dropImagesAfterDays, v => handlePolicyChange({ dropImagesAfterDays: v }))}
+        </label>
+        <label className="flex items-center justify-between text-sm">
+          <span className="text-slate-700">{t(lang, 'retention_archive')}</span>
+          {limitInput(policy.archiveAfterMonths, v => handlePolicyChange({ archiveAfterMonths: v }))}
+        </label>
+        {getLastRetentionRun() && (
+          <p className="text-xs text-slate-400">{t(lang, 'retention_last_run')}: {new Date(getLastRetentionRun()!).toLocaleString()}</p>
+        )}
+
+        <div className="flex space-x-2">
+          <button
+            onClick={savePolicy}
+            disabled={!policyDirty}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            <span>{t(lang, 'save_changes')}</span>
+          </button>
+          <button
+            onClick={previewRetention}
+            className="flex items-center space-x-2 px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50"
+          >
+            <Eye className="w-4 h-4" />
+            <span>{t(lang, 'retention_preview')}</span>
+          </button>
+        </div>
+
+        {retentionPlan && (
+          <div className="border-t border-slate-100 pt-4 space-y-3 text-sm">
+            {retentionPlan.archiveUnavailable && (
+              <p className="text-xs text-amber-700">{t(lang, 'retention_archive_unavailable')}</p>
+            )}
+            {retentionPlan.archiveShared && (
+              <p className="text-xs text-amber-700">{t(lang, 'retention_archive_shared')}</p>
+            )}
+            {([
+              ['retention_will_drop', retentionPlan.dropImages],
+              ['retention_will_archive', retentionPlan.archive]
+            ] as const).map(([key, items]) => (
+              <div key={key}>
+                <div className="font-medium text-slate-800">
+                  {t(lang, key)}: {items.length} ({formatBytes(items.reduce((sum, i) => sum + i.bytes, 0))})
+                </div>
+                {items.length > 0 && (
+                  <ul className="mt-1 max-h-40 overflow-y-auto text-xs text-slate-600 divide-y divide-slate-100">
+                    {items.map(item => (
+                      <li key={item.id} className="py-1 flex justify-between">
+                        <span className="font-mono">{item.containerNumber}</span>
+                        <span>{new Date(item.timestamp).toLocaleDateString()} · {item.photos} {t(lang, 'photos').toLowerCase()} · {formatBytes(item.bytes)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+            {(retentionPlan.dropImages.length > 0 || retentionPlan.archive.length > 0) && (
+              <button
+                onClick={runRetention}
+                disabled={isRunning}
+                className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+              >
+                {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Archive className="w-4 h-4" />}
+                <span>{t(lang, 'retention_run')}</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {archived.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200 font-semibold text-slate-800">{t(lang, 'archived_inspections')}</div>
+          <table className="w-full text-left text-sm">
+            <tbody className="divide-y divide-slate-100">
+              {archived.map(item => (
+                <tr key={item.id}>
+                  <td className="px-6 py-2 font-mono font-medium">{item.containerNumber}</td>
+                  <td className="px-6 py-2 text-slate-500">{new Date(item.timestamp).toLocaleDateString()}</td>
+                  <td className="px-6 py-2 text-slate-500 font-mono">{formatBytes(item.size)}</td>
+                  <td className="px-6 py-2 text-right">
+                    <button
+                      onClick={() => handleUnarchive(item.id)}
+                      className="inline-flex items-center space-x-1 text-blue-600 hover:underline text-xs"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      <span>{t(lang, 'unarchive')}</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-3">
+        <h3 className="font-semibold text-slate-800">{t(lang, 'backup_export')}</h3>
+        <p className="text-xs text-slate-500">{t(lang, 'backup_export_hint')}</p>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          <span>{t(lang, 'backup_export')}</span>
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+        <h3 className="font-semibold text-slate-800">{t(lang, 'backup_restore')}</h3>
+
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center space-x-2 px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 cursor-pointer">
+            <Upload className="w-4 h-4" />
+            <span>{t(lang, 'backup_choose_file')}</span>
+            <input type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+          </label>
+          {fileName && archiveText && <span className="text-sm font-mono text-slate-600">{fileName}</span>}
+        </div>
+
+        <div className="space-y-2 text-sm">
+          {(['merge', 'replace'] as RestoreMode[]).map(option => (
+            <label key={option} className="flex items-start space-x-2">
+              <input type="radio" className="mt-1" checked={mode === option} onChange={() => handleMode(option)} />
+              <span>
+                <span className="font-medium text-slate-800">{t(lang, `restore_${option}`)}</span>
+                <span className="block text-xs text-slate-500">{t(lang, `restore_${option}_hint`)}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {plan && (
+          <div className="border-t border-slate-100 pt-4 space-y-3">
+            <h4 className="text-sm font-semibold text-slate-800">{t(lang, 'restore_dry_run')}</h4>
+            {plan.createdAt && (
+              <p className="text-xs text-slate-500">
+                {new Date(plan.createdAt).toLocaleString()} · schema v{plan.schemaVersion}
+              </p>
+            )}
+
+            {plan.errors.length > 0 ? (
+              <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800 space-y-1">
+                {plan.errors.map(error => (
+                  <div key={error} className="flex items-start space-x-2">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>{error}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {summaryRow(t(lang, 'inspections'), [
+                  ['restore_add', plan.inspections.add],
+                  ['restore_update', plan.inspections.update],
+                  ['restore_keep', plan.inspections.keep],
+                  ['restore_remove', plan.inspections.remove]
+                ])}
+                {summaryRow(t(lang, 'archived_inspections'), [['restore_add', plan.archived.add], ['restore_remove', plan.archived.remove]])}
+                {summaryRow(t(lang, 'queue'), [['restore_add', plan.manifest.add], ['restore_remove', plan.manifest.remove]])}
+                {summaryRow(t(lang, 'pricing'), [['restore_add', plan.pricingRules.add], ['restore_remove', plan.pricingRules.remove]])}
+                {plan.replacesSettings && <p className="text-xs text-slate-500">{t(lang, 'restore_settings_replaced')}</p>}
+              </div>
+            )}
+
+            {plan.warnings.length > 0 && (
+              <ul className="list-disc list-inside text-xs text-amber-700">
+                {plan.warnings.map(warning => <li key={warning}>{warning}</li>)}
+              </ul>
+            )}
+
+            {plan.errors.length === 0 && (
+              <button
+                onClick={handleRestore}
+                disabled={isRestoring}
+                className={`flex items-center space-x-2 px-4 py-2 text-white rounded-lg text-sm font-medium disabled:opacity-50 ${plan.mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'}`}
+              >
+                {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                <span>{t(lang, 'restore_apply')}</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
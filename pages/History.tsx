@@ -1,25 +1,25 @@
 
 import React, { useState, useEffect } from 'react';
-import { getInspections } from '../services/dbService';
+import { getInspections, subscribeToChanges } from '../services/dbService';
 import { Inspection, Language } from '../types';
-import { Search, Eye, Check } from 'lucide-react';
-import { t } from '../i18n';
+import { Search, Eye, Check, AlertTriangle } from 'lucide-react';
+import { t, tSide } from '../i18n';
+import { groupBySide } from '../services/inspectionHelpers';
+import { formatMoney } from '../services/currencyService';
 
 interface HistoryProps {
   onView: (id: string) => void;
   lang: Language;
 }
 
-const formatVND = (amount: number) => {
-    return new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(amount);
-};
-
 export const History: React.FC<HistoryProps> = ({ onView, lang }) => {
   const [list, setList] = useState<Inspection[]>([]);
   const [filter, setFilter] = useState('');
 
   useEffect(() => {
-    setList(getInspections());
+    const load = () => { getInspections().then(setList); };
+    load();
+    return subscribeToChanges(['inspections'], load);
   }, []);
 
   const filtered = list.filter(i => i.containerNumber.includes(filter.toUpperCase()));
@@ -47,6 +47,7 @@ export const History: React.FC<HistoryProps> = ({ onView, lang }) => {
                         <tr>
                             <th className="p-4 font-semibold text-slate-700">{t(lang, 'container_number')}</th>
                             <th className="p-4 font-semibold text-slate-700">{t(lang, 'date')}</th>
+                            <th className="p-4 font-semibold text-slate-700">{t(lang, 'photos')}</th>
                             <th className="p-4 font-semibold text-slate-700">{t(lang, 'iicl_tags')}</th>
                             <th className="p-4 font-semibold text-slate-700">{t(lang, 'status')}</th>
                             <th className="p-4 font-semibold text-slate-700">{t(lang, 'quote')}</th>
@@ -56,13 +57,38 @@ export const History: React.FC<HistoryProps> = ({ onView, lang }) => {
                     <tbody className="divide-y divide-slate-100">
                         {filtered.length === 0 && (
                             <tr>
-                                <td colSpan={6} className="p-8 text-center text-slate-400">No records found</td>
+                                <td colSpan={7} className="p-8 text-center text-slate-400">No records found</td>
                             </tr>
                         )}
                         {filtered.map(i => (
                             <tr key={i.id} className="hover:bg-slate-50 transition-colors">
-                                <td className="p-4 font-mono font-medium text-slate-800">{i.containerNumber}</td>
+                                <td className="p-4 font-mono font-medium text-slate-800">
+                                    {i.images[0] && (
+                                        <img
+                                            src={i.images[0].thumbnailUrl || i.images[0].url}
+                                            alt=""
+                                            loading="lazy"
+                                            className="inline-block w-10 h-10 object-cover rounded mr-3 align-middle"
+                                        />
+                                    )}
+                                    {i.containerNumber}
+                                    {(i.containerNumberStatus === 'SUSPECT' || i.containerNumberStatus === 'INVALID') && (
+                                        <span title={t(lang, 'cn_suspect_saved')}>
+                                            <AlertTriangle className="inline w-3 h-3 ml-1 text-amber-500" />
+                                        </span>
+                                    )}
+                                </td>
                                 <td className="p-4 text-slate-500">{new Date(i.timestamp).toLocaleDateString()}</td>
+                                <td className="p-4 text-slate-500 text-xs">
+                                    {(() => {
+                                        const groups = groupBySide(i);
+                                        return (
+                                            <span title={groups.map(g => `${tSide(lang, g.side)}: ${g.images.length} / ${g.defects.filter(d => !d.mergedInto).length}`).join('\n')}>
+                                                {i.images.length} · {groups.length} {t(lang, 'side_count')}
+                                            </span>
+                                        );
+                                    })()}
+                                </td>
                                 <td className="p-4">
                                     <div className="flex flex-wrap gap-1">
                                         {i.iiclTags?.map((tag, idx) => (
@@ -84,7 +110,7 @@ export const History: React.FC<HistoryProps> = ({ onView, lang }) => {
                                     </span>
                                 </td>
                                 <td className="p-4 font-mono text-slate-700">
-                                    {i.quote ? formatVND(i.quote.total) : '-'}
+                                    {i.quote ? formatMoney(i.quote.total, i.quote.currency) : '-'}
                                     {i.quote?.status === 'APPROVED' && <Check className="inline w-3 h-3 ml-1 text-green-500" />}
                                 </td>
                                 <td className="p-4 text-right">
@@ -1,70 +1,229 @@
 import React, { useState, useEffect } from 'react';
-import { ManifestItem, Language } from '../types';
-import { getManifest, addToManifest, clearManifest } from '../services/dbService';
+import { ManifestItem, ManifestDetails, ManifestEntryCheck, ManifestPriority, Language, User, UserRole } from '../types';
+import { getManifest, addToManifest, clearManifest, releaseManifestItem, updateManifestItem, subscribeToChanges } from '../services/dbService';
+import { MANIFEST_PRIORITIES, ManifestFilter, ManifestSortKey, checkManifestEntries, describeCorrections, filterManifest, isOverdue, sortManifest } from '../services/manifestService';
+import { MOCK_USERS } from '../constants';
+import { ManifestImportWizard } from '../components/ManifestImportWizard';
 import { t } from '../i18n';
-import { Play, Plus, Trash2, FileSpreadsheet, ScanLine } from 'lucide-react';
+import { Play, Plus, Trash2, FileSpreadsheet, ScanLine, Undo2, Pencil, ArrowUp, ArrowDown, Search, X } from 'lucide-react';
 
 interface ManifestProps {
-  onStartInspection: (containerNumber: string) => void;
+  user: User;
+  onStartInspection: (item: ManifestItem) => void;
   lang: Language;
 }
 
-export const Manifest: React.FC<ManifestProps> = ({ onStartInspection, lang }) => {
+const PRIORITY_STYLES: Record<ManifestPriority, string> = {
+  URGENT: 'bg-red-100 text-red-700',
+  HIGH: 'bg-orange-100 text-orange-700',
+  NORMAL: 'bg-slate-100 text-slate-600',
+  LOW: 'bg-slate-50 text-slate-400'
+};
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+const userName = (id?: string) => MOCK_USERS.find(u => u.id === id)?.name || id;
+
+const EMPTY_DETAILS: ManifestDetails = { priority: 'NORMAL' };
+
+export const Manifest: React.FC<ManifestProps> = ({ user, onStartInspection, lang }) => {
   const [queue, setQueue] = useState<ManifestItem[]>([]);
   const [input, setInput] = useState('');
   const [showInput, setShowInput] = useState(false);
+  const [details, setDetails] = useState<ManifestDetails>(EMPTY_DETAILS);
+  const [importChecks, setImportChecks] = useState<ManifestEntryCheck[] | null>(null);
+  const [sortKey, setSortKey] = useState<ManifestSortKey>('priority');
+  const [descending, setDescending] = useState(false);
+  const [filter, setFilter] = useState<ManifestFilter>({ status: 'OPEN' });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ManifestDetails>(EMPTY_DETAILS);
+  const [importFile, setImportFile] = useState<File | null>(null);
 
+  // Supervisors (reviewers, admins) plan the queue: priorities, deadlines, assignments
+  const canPlan = user.role !== UserRole.INSPECTOR;
+
+  // Kept current as jobs are added or taken in other tabs
   useEffect(() => {
     loadQueue();
+    return subscribeToChanges(['manifest'], loadQueue);
   }, []);
 
   const loadQueue = () => {
     setQueue(getManifest());
   };
 
-  const handleAdd = () => {
+  // Every entry gets the details filled in on the form
+  const handleAdd = async () => {
     if (!input.trim()) return;
     const numbers = input.split(/[\n,]+/).map(s => s.trim()).filter(s => s.length > 0);
-    addToManifest(numbers);
-    setInput('');
-    setShowInput(false);
-    loadQueue();
+    const entries = numbers.map(containerNumber => ({ ...details, containerNumber }));
+    const corrections = describeCorrections(checkManifestEntries(entries, getManifest()));
+    if (corrections.length > 0 && !confirm(`${t(lang, 'manifest_confirm_corrected')}\n\n${corrections.join('\n')}`)) return;
+    const checks = await addToManifest(entries);
+    setImportChecks(checks);
+    // Keep the rejected numbers in the box so they can be fixed and added again
+    const rejected = checks.filter(c => c.error).map(c => c.entry.containerNumber);
+    setInput(rejected.join('\n'));
+    if (rejected.length === 0) setShowInput(false);
   };
 
   const handleClear = () => {
     if (confirm('Are you sure you want to clear the queue?')) {
         clearManifest();
-        loadQueue();
     }
   };
 
-  const handleCSVUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Spreadsheets and EDI messages go through the import wizard (mapping and preview)
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-        const reader = new FileReader();
-        reader.onload = (evt) => {
-            const text = evt.target?.result as string;
-            const numbers = text.split(/[\n,]+/).map(s => s.trim()).filter(s => s.length > 0);
-            addToManifest(numbers);
-            loadQueue();
-        };
-        reader.readAsText(file);
+    e.target.value = '';
+    if (file) setImportFile(file);
+  };
+
+  const handleImported = (checks: ManifestEntryCheck[]) => {
+    setImportFile(null);
+    setImportChecks(checks);
+    if (checks.every(c => !c.error)) setShowInput(false);
+  };
+
+  const handleSort = (key: ManifestSortKey) => {
+    if (key === sortKey) {
+        setDescending(!descending);
+    } else {
+        setSortKey(key);
+        setDescending(false);
     }
   };
 
+  const startEdit = (item: ManifestItem) => {
+    setEditingId(item.id);
+    setDraft({
+        priority: item.priority,
+        deadline: item.deadline,
+        customer: item.customer,
+        sizeType: item.sizeType,
+        bookingRef: item.bookingRef,
+        assignedTo: item.assignedTo,
+        notes: item.notes
+    });
+  };
+
+  // Empty fields are cleared on the item
+  const saveEdit = async () => {
+    if (!editingId) return;
+    const { priority, ...optional } = draft;
+    const changes = Object.fromEntries(
+        (['deadline', 'customer', 'sizeType', 'bookingRef', 'assignedTo', 'notes'] as const).map(key => [key, optional[key] || null])
+    );
+    await updateManifestItem(editingId, { ...changes, priority, sizeType: draft.sizeType?.toUpperCase() || null });
+    setEditingId(null);
+  };
+
+  // Someone else's job in progress can't be started here; admins can put it back in the queue
+  const isTakenByOther = (item: ManifestItem) => item.status === 'IN_PROGRESS' && !!item.claimedBy && item.claimedBy !== user.id;
+
+  const visible = sortManifest(filterManifest(queue, filter), sortKey, descending);
+
+  const detailFields = (value: ManifestDetails, onChange: (next: ManifestDetails) => void) => (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+        <label className="block">
+            <span className="text-xs text-slate-500">{t(lang, 'priority')}</span>
+            <select
+                className="w-full mt-1 bg-white border border-slate-300 rounded-lg px-2 py-1.5"
+                value={value.priority}
+                onChange={(e) => onChange({ ...value, priority: e.target.value as ManifestPriority })}
+            >
+                {MANIFEST_PRIORITIES.map(p => <option key={p} value={p}>{t(lang, `priority_${p.toLowerCase()}`)}</option>)}
+            </select>
+        </label>
+        <label className="block">
+            <span className="text-xs text-slate-500">{t(lang, 'deadline')}</span>
+            <input
+                type="datetime-local"
+                className="w-full mt-1 bg-white border border-slate-300 rounded-lg px-2 py-1.5"
+                value={toLocalInput(value.deadline)}
+                onChange={(e) => onChange({ ...value, deadline: fromLocalInput(e.target.value) })}
+            />
+        </label>
+        <label className="block">
+            <span className="text-xs text-slate-500">{t(lang, 'assigned_to')}</span>
+            <select
+                className="w-full mt-1 bg-white border border-slate-300 rounded-lg px-2 py-1.5"
+                value={value.assignedTo || ''}
+                onChange={(e) => onChange({ ...value, assignedTo: e.target.value || undefined })}
+            >
+                <option value="">{t(lang, 'unassigned')}</option>
+                {MOCK_USERS.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+            </select>
+        </label>
+        <label className="block">
+            <span className="text-xs text-slate-500">{t(lang, 'customer_line')}</span>
+            <input
+                className="w-full mt-1 bg-white border border-slate-300 rounded-lg px-2 py-1.5"
+                value={value.customer || ''}
+                onChange={(e) => onChange({ ...value, customer: e.target.value || undefined })}
+            />
+        </label>
+        <label className="block">
+            <span className="text-xs text-slate-500">{t(lang, 'size_type')}</span>
+            <input
+                className="w-full mt-1 bg-white border border-slate-300 rounded-lg px-2 py-1.5 font-mono uppercase"
+                placeholder="22G1"
+                maxLength={4}
+                value={value.sizeType || ''}
+                onChange={(e) => onChange({ ...value, sizeType: e.target.value || undefined })}
+            />
+        </label>
+        <label className="block">
+            <span className="text-xs text-slate-500">{t(lang, 'booking_ref')}</span>
+            <input
+                className="w-full mt-1 bg-white border border-slate-300 rounded-lg px-2 py-1.5"
+                value={value.bookingRef || ''}
+                onChange={(e) => onChange({ ...value, bookingRef: e.target.value || undefined })}
+            />
+        </label>
+        <label className="block col-span-2">
+            <span className="text-xs text-slate-500">{t(lang, 'notes')}</span>
+            <input
+                className="w-full mt-1 bg-white border border-slate-300 rounded-lg px-2 py-1.5"
+                value={value.notes || ''}
+                onChange={(e) => onChange({ ...value, notes: e.target.value || undefined })}
+            />
+        </label>
+    </div>
+  );
+
+  const sortHeader = (key: ManifestSortKey, label: string) => (
+    <th className="p-4 font-semibold text-slate-700">
+        <button onClick={() => handleSort(key)} className="inline-flex items-center space-x-1 hover:text-blue-600">
+            <span>{label}</span>
+            {sortKey === key && (descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+        </button>
+    </th>
+  );
+
+  const added = importChecks?.filter(c => !c.error) || [];
+  const rejected = importChecks?.filter(c => c.error) || [];
+
   return (
-    <div className="max-w-4xl mx-auto p-6">
+    <div className="max-w-6xl mx-auto p-6">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold text-slate-800">{t(lang, 'queue')}</h2>
         <div className="flex space-x-2">
-            <button 
+            <button
                 onClick={handleClear}
                 className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
                 title={t(lang, 'clear_queue')}
             >
                 <Trash2 className="w-5 h-5" />
             </button>
-            <button 
+            <button
                 onClick={() => setShowInput(!showInput)}
                 className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
             >
@@ -77,25 +236,31 @@ export const Manifest: React.FC<ManifestProps> = ({ onStartInspection, lang }) =
       {showInput && (
         <div className="bg-white p-6 rounded-xl shadow-md border border-slate-200 mb-6 animate-fade-in">
             <label className="block text-sm font-medium text-slate-700 mb-2">{t(lang, 'manifest_intro')}</label>
-            <textarea 
+            <textarea
                 className="w-full bg-white border border-slate-300 rounded-lg p-3 h-32 font-mono text-sm mb-4 focus:ring-2 focus:ring-blue-500 outline-none"
                 placeholder="CNTR123456&#10;CNTR789012"
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
             />
+            {canPlan && (
+                <div className="mb-4">
+                    <p className="text-xs text-slate-500 mb-2">{t(lang, 'manifest_details_hint')}</p>
+                    {detailFields(details, setDetails)}
+                </div>
+            )}
             <div className="flex justify-between items-center">
                 <div className="flex space-x-2">
                     <label className="flex items-center space-x-2 px-3 py-2 border border-slate-300 rounded-lg cursor-pointer hover:bg-slate-50 text-slate-600 text-sm">
                         <FileSpreadsheet className="w-4 h-4" />
-                        <span>{t(lang, 'upload_csv')}</span>
-                        <input type="file" accept=".csv,.txt" className="hidden" onChange={handleCSVUpload} />
+                        <span>{t(lang, 'import_file')}</span>
+                        <input type="file" accept=".csv,.txt,.xlsx,.edi,.edifact" className="hidden" onChange={handleFileUpload} />
                     </label>
                     <button className="flex items-center space-x-2 px-3 py-2 border border-slate-300 rounded-lg cursor-pointer hover:bg-slate-50 text-slate-600 text-sm" onClick={() => alert('Not implemented in MVP')}>
                         <ScanLine className="w-4 h-4" />
                         <span>{t(lang, 'scan_barcode')}</span>
                     </button>
                 </div>
-                <button 
+                <button
                     onClick={handleAdd}
                     className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 font-medium"
                 >
@@ -105,37 +270,161 @@ export const Manifest: React.FC<ManifestProps> = ({ onStartInspection, lang }) =
         </div>
       )}
 
+      {importFile && (
+        <ManifestImportWizard
+            file={importFile}
+            defaults={details}
+            lang={lang}
+            onClose={() => setImportFile(null)}
+            onImported={handleImported}
+        />
+      )}
+
+      {importChecks && (
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 mb-6 text-sm">
+            <div className="flex justify-between items-center">
+                <span className="font-medium text-slate-800">
+                    {t(lang, 'manifest_added')}: {added.length} · {t(lang, 'manifest_rejected')}: {rejected.length}
+                </span>
+                <button onClick={() => setImportChecks(null)} className="text-slate-400 hover:text-slate-600">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+            <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+                {rejected.map((check, index) => (
+                    <li key={`r-${index}`} className="text-red-700">
+                        <span className="font-mono">{check.entry.containerNumber}</span>: {t(lang, `manifest_error_${check.error!.toLowerCase()}`)}
+                    </li>
+                ))}
+                {added.filter(c => c.numberCheck.status === 'CORRECTED').map((check, index) => (
+                    <li key={`c-${index}`} className="text-amber-700">
+                        <span className="font-mono">{check.entry.containerNumber}</span> → <span className="font-mono">{check.containerNumber}</span> ({t(lang, 'manifest_number_corrected')})
+                    </li>
+                ))}
+            </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-4 text-sm">
+        <div className="relative flex-1 min-w-[12rem]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+                type="text"
+                placeholder={t(lang, 'manifest_search')}
+                className="w-full pl-9 pr-4 py-2 bg-white border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                value={filter.search || ''}
+                onChange={(e) => setFilter({ ...filter, search: e.target.value })}
+            />
+        </div>
+        <select
+            className="bg-white border border-slate-300 rounded-lg px-2 py-2"
+            value={filter.status || ''}
+            onChange={(e) => setFilter({ ...filter, status: (e.target.value || undefined) as ManifestFilter['status'] })}
+        >
+            <option value="OPEN">{t(lang, 'manifest_open')}</option>
+            <option value="PENDING">{t(lang, 'pending')}</option>
+            <option value="IN_PROGRESS">{t(lang, 'in_progress')}</option>
+            <option value="COMPLETED">{t(lang, 'completed')}</option>
+            <option value="">{t(lang, 'all')}</option>
+        </select>
+        <select
+            className="bg-white border border-slate-300 rounded-lg px-2 py-2"
+            value={filter.assignedTo === undefined ? '*' : filter.assignedTo}
+            onChange={(e) => setFilter({ ...filter, assignedTo: e.target.value === '*' ? undefined : e.target.value })}
+        >
+            <option value="*">{t(lang, 'all_inspectors')}</option>
+            <option value={user.id}>{t(lang, 'assigned_to_me')}</option>
+            <option value="">{t(lang, 'unassigned')}</option>
+            {MOCK_USERS.filter(u => u.id !== user.id).map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+        </select>
+        <select
+            className="bg-white border border-slate-300 rounded-lg px-2 py-2"
+            value={filter.priority || ''}
+            onChange={(e) => setFilter({ ...filter, priority: (e.target.value || undefined) as ManifestPriority | undefined })}
+        >
+            <option value="">{t(lang, 'all_priorities')}</option>
+            {MANIFEST_PRIORITIES.map(p => <option key={p} value={p}>{t(lang, `priority_${p.toLowerCase()}`)}</option>)}
+        </select>
+      </div>
+
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
         <table className="w-full text-left text-sm">
             <thead className="bg-slate-50 border-b border-slate-200">
                 <tr>
-                    <th className="p-4 font-semibold text-slate-700">{t(lang, 'container_number')}</th>
+                    {sortHeader('containerNumber', t(lang, 'container_number'))}
+                    {sortHeader('customer', t(lang, 'customer_line'))}
+                    {sortHeader('priority', t(lang, 'priority'))}
+                    {sortHeader('deadline', t(lang, 'deadline'))}
+                    <th className="p-4 font-semibold text-slate-700">{t(lang, 'assigned_to')}</th>
                     <th className="p-4 font-semibold text-slate-700">{t(lang, 'status')}</th>
                     <th className="p-4 font-semibold text-slate-700 text-right">{t(lang, 'action')}</th>
                 </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
-                {queue.length === 0 && (
+                {visible.length === 0 && (
                     <tr>
-                        <td colSpan={3} className="p-8 text-center text-slate-400">{t(lang, 'queue_empty')}</td>
+                        <td colSpan={7} className="p-8 text-center text-slate-400">{t(lang, 'queue_empty')}</td>
                     </tr>
                 )}
-                {queue.map(item => (
-                    <tr key={item.id} className="hover:bg-slate-50">
-                        <td className="p-4 font-mono font-medium text-slate-800">{item.containerNumber}</td>
+                {visible.map(item => (
+                    <React.Fragment key={item.id}>
+                    <tr className="hover:bg-slate-50">
+                        <td className="p-4">
+                            <div className="font-mono font-medium text-slate-800">{item.containerNumber}</div>
+                            {(item.sizeType || item.bookingRef) && (
+                                <div className="text-xs text-slate-500">
+                                    <span className="font-mono">{item.sizeType}</span>
+                                    {item.sizeType && item.bookingRef && ' · '}
+                                    {item.bookingRef}
+                                </div>
+                            )}
+                            {item.notes && <div className="text-xs text-slate-500 max-w-xs truncate" title={item.notes}>{item.notes}</div>}
+                        </td>
+                        <td className="p-4 text-slate-700">{item.customer || '-'}</td>
+                        <td className="p-4">
+                            <span className={`px-2 py-1 rounded-full text-xs font-bold ${PRIORITY_STYLES[item.priority] || PRIORITY_STYLES.NORMAL}`}>
+                                {t(lang, `priority_${(item.priority || 'NORMAL').toLowerCase()}`)}
+                            </span>
+                        </td>
+                        <td className={`p-4 whitespace-nowrap ${isOverdue(item) ? 'text-red-600 font-medium' : 'text-slate-600'}`}>
+                            {item.deadline ? new Date(item.deadline).toLocaleString() : '-'}
+                        </td>
+                        <td className="p-4 text-slate-600">{item.assignedTo ? userName(item.assignedTo) : '-'}</td>
                         <td className="p-4">
                             <span className={`px-2 py-1 rounded-full text-xs font-bold ${
-                                item.status === 'COMPLETED' ? 'bg-green-100 text-green-700' : 
-                                item.status === 'IN_PROGRESS' ? 'bg-blue-100 text-blue-700' : 
+                                item.status === 'COMPLETED' ? 'bg-green-100 text-green-700' :
+                                item.status === 'IN_PROGRESS' ? 'bg-blue-100 text-blue-700' :
                                 'bg-gray-100 text-gray-600'
                             }`}>
                                 {t(lang, item.status.toLowerCase() as any)}
                             </span>
+                            {item.claimedByName && item.status !== 'PENDING' && (
+                                <span className="ml-2 text-xs text-slate-500">{item.claimedByName}</span>
+                            )}
                         </td>
-                        <td className="p-4 text-right">
-                            {item.status !== 'COMPLETED' && (
-                                <button 
-                                    onClick={() => onStartInspection(item.containerNumber)}
+                        <td className="p-4 text-right whitespace-nowrap">
+                            {canPlan && item.status !== 'COMPLETED' && (
+                                <button
+                                    onClick={() => startEdit(item)}
+                                    className="inline-flex items-center p-1.5 text-slate-500 hover:bg-slate-100 rounded-lg"
+                                    title={t(lang, 'edit')}
+                                >
+                                    <Pencil className="w-3 h-3" />
+                                </button>
+                            )}
+                            {isTakenByOther(item) && user.role === UserRole.ADMIN && (
+                                <button
+                                    onClick={() => releaseManifestItem(item.id)}
+                                    className="inline-flex items-center space-x-1 text-slate-600 hover:bg-slate-100 px-3 py-1.5 rounded-lg transition-colors font-medium"
+                                >
+                                    <span>{t(lang, 'release_job')}</span>
+                                    <Undo2 className="w-3 h-3" />
+                                </button>
+                            )}
+                            {item.status !== 'COMPLETED' && !isTakenByOther(item) && (
+                                <button
+                                    onClick={() => onStartInspection(item)}
                                     className="inline-flex items-center space-x-1 text-blue-600 hover:bg-blue-50 px-3 py-1.5 rounded-lg transition-colors font-medium"
                                 >
                                     <span>{t(lang, 'start_inspection')}</span>
@@ -144,10 +433,27 @@ export const Manifest: React.FC<ManifestProps> = ({ onStartInspection, lang }) =
                             )}
                         </td>
                     </tr>
+                    {editingId === item.id && (
+                        <tr className="bg-slate-50">
+                            <td colSpan={7} className="p-4">
+                                {detailFields(draft, setDraft)}
+                                <div className="flex justify-end space-x-2 mt-3">
+                                    <button onClick={() => setEditingId(null)} className="px-4 py-1.5 border border-slate-300 rounded-lg text-slate-600 hover:bg-white">
+                                        {t(lang, 'cancel')}
+                                    </button>
+                                    <button onClick={saveEdit} className="px-4 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+                                        {t(lang, 'save_changes')}
+                                    </button>
+                                </div>
+                            </td>
+                        </tr>
+                    )}
+                    </React.Fragment>
                 ))}
             </tbody>
         </table>
+        </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,32 +1,214 @@
-
 import React, { useState, useEffect } from 'react';
-import { PricingRule, Language, DefectCode, Severity } from '../types';
-import { getPricingRules, savePricingRules } from '../services/dbService';
-import { t, tDefect } from '../i18n';
-import { Save } from 'lucide-react';
+import { PricingRule, RateCard, LaborRate, LaborSkill, Language, Severity, DefectCode, ComponentCode, ContainerLength, ContainerType, SizeBand, Currency, ExchangeRate, TaxProfile, CustomerTaxProfile, TaxSettings } from '../types';
+import { getPricingRules, savePricingRules, getRateCards, saveRateCards, getLaborRates, saveLaborRates, getExchangeRates, saveExchangeRates, getTaxSettings, saveTaxSettings, getSettings, subscribeToChanges } from '../services/dbService';
+import { validateTaxSettings } from '../services/taxService';
+import { validateLaborRates } from '../services/laborService';
+import { LaborRatesEditor } from '../components/LaborRatesEditor';
+import { normalizeCustomer } from '../services/manifestService';
+import { BASE_CURRENCY, CURRENCIES, DEFAULT_TAX_SETTINGS, LABOR_SKILLS } from '../constants';
+import { t, tDefect, tComponent } from '../i18n';
+import { Save, CopyPlus, Trash2, Plus } from 'lucide-react';
 
 interface PricingProps {
   lang: Language;
 }
 
+const CONTAINER_LENGTHS: ContainerLength[] = ['20', '40', '45'];
+const CONTAINER_TYPES: ContainerType[] = ['DRY', 'HIGH_CUBE', 'REEFER'];
+
+// Rules with criteria are variants of the plain code + severity rule, which stays as the fallback
+const isVariant = (rule: PricingRule) =>
+  !!(rule.sizeBand || rule.componentCode || rule.containerType || rule.containerLength);
+
+const isBandInvalid = (band?: SizeBand) =>
+  !!band && band.min !== undefined && band.max !== undefined && band.min >= band.max;
+
+// Every rate needs a positive value and a date; one currency can't have two rates from the same day
+const isRateTableValid = (rates: ExchangeRate[]) =>
+  rates.every(r => r.rate > 0 && /^\d{4}-\d{2}-\d{2}$/.test(r.effectiveFrom)) &&
+  new Set(rates.map(r => `${r.currency}:${r.effectiveFrom}`)).size === rates.length;
+
+// Customers and owner prefixes are typed as comma-separated lists
+const splitList = (value: string) => value.split(',');
+const cleanList = (values: string[]) => values.map(v => v.trim()).filter(Boolean);
+
+// A card needs a name, owner prefixes are 3 letters (or 4 with the category), and a customer
+// or prefix can only lead to one card
+const rateCardErrors = (cards: RateCard[]): string[] => {
+  const errors: string[] = [];
+  if (cards.some(c => !c.name.trim())) errors.push('rate_card_name_missing');
+  if (cards.some(c => cleanList(c.ownerCodes).some(code => !/^[A-Z]{3}[UJZ]?$/i.test(code)))) errors.push('rate_card_owner_invalid');
+  const customers = cards.flatMap(c => cleanList(c.customers).map(normalizeCustomer));
+  const owners = cards.flatMap(c => cleanList(c.ownerCodes).map(code => code.toUpperCase()));
+  if (new Set(customers).size !== customers.length || new Set(owners).size !== owners.length) errors.push('rate_card_assigned_twice');
+  return errors;
+};
+
+const parseBound = (value: string) => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
 export const Pricing: React.FC<PricingProps> = ({ lang }) => {
   const [rules, setRules] = useState<PricingRule[]>([]);
+  const [cards, setCards] = useState<RateCard[]>([]);
+  const [cardId, setCardId] = useState(''); // Card being edited; empty for the default card
+  const [newRuleCode, setNewRuleCode] = useState<DefectCode>(DefectCode.DT);
+  const [newRuleSeverity, setNewRuleSeverity] = useState<Severity>(Severity.MEDIUM);
+  const [laborRates, setLaborRates] = useState<LaborRate[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [tax, setTax] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS);
   const [isDirty, setIsDirty] = useState(false);
 
   useEffect(() => {
     setRules(getPricingRules());
+    setCards(getRateCards());
+    setLaborRates(getLaborRates());
+    setRates(getExchangeRates());
+    setTax(getTaxSettings());
   }, []);
 
-  const handleChange = (id: string, field: keyof PricingRule, value: number) => {
-    const newRules = rules.map(r => 
-        r.id === id ? { ...r, [field]: value } : r
-    );
-    setRules(newRules);
+  // Rules, cards, rates and tax profiles saved in another tab are picked up unless there are unsaved edits here
+  useEffect(() => subscribeToChanges(['pricingRules', 'rateCards', 'laborRates', 'exchangeRates', 'taxSettings'], () => {
+    if (isDirty) return;
+    setRules(getPricingRules());
+    setCards(getRateCards());
+    setLaborRates(getLaborRates());
+    setRates(getExchangeRates());
+    setTax(getTaxSettings());
+  }), [isDirty]);
+
+  const updateRate = (id: string, changes: Partial<ExchangeRate>) => {
+    setRates(rates.map(r => (r.id === id ? { ...r, ...changes } : r)));
+    setIsDirty(true);
+  };
+
+  const addRate = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    setRates([...rates, { id: `fx-${Date.now()}`, currency: 'USD', rate: 0, effectiveFrom: today }]);
     setIsDirty(true);
   };
 
+  const removeRate = (id: string) => {
+    setRates(rates.filter(r => r.id !== id));
+    setIsDirty(true);
+  };
+
+  const updateTax = (changes: Partial<TaxSettings>) => {
+    setTax({ ...tax, ...changes });
+    setIsDirty(true);
+  };
+
+  const updateTaxProfile = (id: string, changes: Partial<TaxProfile>) =>
+    updateTax({ profiles: tax.profiles.map(p => (p.id === id ? { ...p, ...changes } : p)) });
+
+  const updateCustomerTax = (id: string, changes: Partial<CustomerTaxProfile>) =>
+    updateTax({ customers: tax.customers.map(c => (c.id === id ? { ...c, ...changes } : c)) });
+
+  // The default profile and profiles assigned to customers can't be removed
+  const isProfileInUse = (id: string) => id === tax.defaultProfileId || tax.customers.some(c => c.profileId === id);
+
+  const card = cards.find(c => c.id === cardId);
+
+  const updateCard = (id: string, changes: Partial<RateCard>) => {
+    setCards(cards.map(c => (c.id === id ? { ...c, ...changes } : c)));
+    setIsDirty(true);
+  };
+
+  const addCard = () => {
+    const newCard: RateCard = { id: `card-${Date.now()}`, name: '', customers: [], ownerCodes: [], inheritsDefault: true, rules: [] };
+    setCards([...cards, newCard]);
+    setCardId(newCard.id);
+    setIsDirty(true);
+  };
+
+  const removeCard = (id: string) => {
+    if (!confirm(t(lang, 'delete_rate_card_confirm'))) return;
+    setCards(cards.filter(c => c.id !== id));
+    setCardId('');
+    setIsDirty(true);
+  };
+
+  // The table edits the default rules or the selected card's
+  const editedRules = card ? card.rules : rules;
+  const setEditedRules = (next: PricingRule[]) => {
+    if (card) updateCard(card.id, { rules: next });
+    else {
+      setRules(next);
+      setIsDirty(true);
+    }
+  };
+
+  const updateRule = (id: string, changes: Partial<PricingRule>) => {
+    const newRules = editedRules.map(r =>
+        r.id === id ? { ...r, ...changes } : r
+    );
+    setEditedRules(newRules);
+  };
+
+  // A copy right below the rule, to narrow down with criteria
+  const addVariant = (rule: PricingRule) => {
+    const index = editedRules.findIndex(r => r.id === rule.id);
+    const variant: PricingRule = { ...rule, id: `rule-${rule.defectCode}-${rule.severity}-${Date.now()}` };
+    setEditedRules([...editedRules.slice(0, index + 1), variant, ...editedRules.slice(index + 1)]);
+  };
+
+  const removeRule = (id: string) => setEditedRules(editedRules.filter(r => r.id !== id));
+
+  // A card rule starts from the default price for the code and severity
+  const addCardRule = () => {
+    const base = rules.find(r => r.defectCode === newRuleCode && r.severity === newRuleSeverity && !isVariant(r));
+    setEditedRules([...editedRules, {
+      id: `rule-${newRuleCode}-${newRuleSeverity}-${Date.now()}`,
+      defectCode: newRuleCode,
+      severity: newRuleSeverity,
+      basePrice: base?.basePrice ?? 0,
+      laborHours: base?.laborHours ?? 0,
+      ...(base?.currency ? { currency: base.currency } : {}),
+      ...(base?.laborSkill ? { laborSkill: base.laborSkill } : {}),
+      description: base?.description ?? ''
+    }]);
+  };
+
+  const copyDefaultRules = () =>
+    setEditedRules([...editedRules, ...rules.map(r => ({ ...r, id: `${r.id}-${cardId}` }))]);
+
+  const setBand = (rule: PricingRule, changes: Partial<SizeBand> | null) => {
+    const band = changes && { measure: rule.sizeBand?.measure || 'LENGTH', ...rule.sizeBand, ...changes };
+    updateRule(rule.id, { sizeBand: band || undefined });
+  };
+
   const handleSave = () => {
+      if ([...rules, ...cards.flatMap(c => c.rules)].some(r => isBandInvalid(r.sizeBand))) {
+          alert(t(lang, 'size_band_invalid'));
+          return;
+      }
+      const cardErrors = rateCardErrors(cards);
+      if (cardErrors.length > 0) {
+          alert(cardErrors.map(e => t(lang, e)).join('\n'));
+          return;
+      }
+      if (!isRateTableValid(rates)) {
+          alert(t(lang, 'exchange_rates_invalid'));
+          return;
+      }
+      const laborErrors = validateLaborRates(laborRates);
+      if (laborErrors.length > 0) {
+          alert(laborErrors.map(e => t(lang, e)).join('\n'));
+          return;
+      }
+      const taxErrors = validateTaxSettings(tax);
+      if (taxErrors.length > 0) {
+          alert(taxErrors.map(e => t(lang, e)).join('\n'));
+          return;
+      }
       savePricingRules(rules);
+      const cleaned = cards.map(c => ({ ...c, name: c.name.trim(), customers: cleanList(c.customers), ownerCodes: cleanList(c.ownerCodes).map(code => code.toUpperCase()) }));
+      saveRateCards(cleaned);
+      setCards(cleaned);
+      saveLaborRates(laborRates);
+      saveExchangeRates(rates);
+      saveTaxSettings(tax);
       setIsDirty(false);
       alert(t(lang, 'save_changes') + ' OK');
   };
@@ -35,7 +217,7 @@ export const Pricing: React.FC<PricingProps> = ({ lang }) => {
     <div className="max-w-7xl mx-auto p-6">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold text-slate-800">{t(lang, 'pricing_settings')}</h2>
-        <button 
+        <button
             onClick={handleSave}
             disabled={!isDirty}
             className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
@@ -45,49 +227,454 @@ export const Pricing: React.FC<PricingProps> = ({ lang }) => {
         </button>
       </div>
 
-      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-6">
+        <h3 className="font-semibold text-slate-800">{t(lang, 'exchange_rates')}</h3>
+        <p className="text-xs text-slate-500 mt-1 mb-3">{t(lang, 'exchange_rates_hint')}</p>
+        <table className="w-full max-w-xl text-left text-sm">
+            <thead className="border-b border-slate-200 text-xs text-slate-500">
+                <tr>
+                    <th className="py-2 font-semibold">{t(lang, 'currency')}</th>
+                    <th className="py-2 font-semibold">{BASE_CURRENCY} / 1</th>
+                    <th className="py-2 font-semibold">{t(lang, 'rate_effective_from')}</th>
+                    <th></th>
+                </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+                {[...rates].sort((a, b) => a.currency.localeCompare(b.currency) || b.effectiveFrom.localeCompare(a.effectiveFrom)).map(rate => (
+                    <tr key={rate.id}>
+                        <td className="py-2">
+                            <select
+                                className="px-2 py-1 border border-slate-300 rounded"
+                                value={rate.currency}
+                                onChange={(e) => updateRate(rate.id, { currency: e.target.value as Currency })}
+                            >
+                                {CURRENCIES.filter(c => c !== BASE_CURRENCY).map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                        </td>
+                        <td className="py-2">
+                            <input
+                                type="number"
+                                min="0"
+                                step="1"
+                                className={`w-32 px-2 py-1 border rounded ${rate.rate > 0 ? 'border-slate-300' : 'border-red-400 bg-red-50'}`}
+                                value={rate.rate}
+                                onChange={(e) => updateRate(rate.id, { rate: parseFloat(e.target.value) })}
+                            />
+                        </td>
+                        <td className="py-2">
+                            <input
+                                type="date"
+                                className="px-2 py-1 border border-slate-300 rounded"
+                                value={rate.effectiveFrom}
+                                onChange={(e) => updateRate(rate.id, { effectiveFrom: e.target.value })}
+                            />
+                        </td>
+                        <td className="py-2 text-right">
+                            <button onClick={() => removeRate(rate.id)} className="p-1 text-slate-400 hover:text-red-600">
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+        <button onClick={addRate} className="mt-2 flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800">
+            <Plus className="w-4 h-4" />
+            <span>{t(lang, 'add_exchange_rate')}</span>
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-6">
+        <h3 className="font-semibold text-slate-800">{t(lang, 'labor_rates')}</h3>
+        <p className="text-xs text-slate-500 mt-1 mb-3">{t(lang, 'labor_rates_hint')}</p>
+        <LaborRatesEditor
+            rates={laborRates}
+            depots={getSettings().depot.depots}
+            lang={lang}
+            onChange={(next) => { setLaborRates(next); setIsDirty(true); }}
+        />
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-6 grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div>
+            <h3 className="font-semibold text-slate-800">{t(lang, 'tax_profiles')}</h3>
+            <p className="text-xs text-slate-500 mt-1 mb-3">{t(lang, 'tax_profiles_hint')}</p>
+            <table className="w-full text-left text-sm">
+                <thead className="border-b border-slate-200 text-xs text-slate-500">
+                    <tr>
+                        <th className="py-2 font-semibold">{t(lang, 'tax_profile_name')}</th>
+                        <th className="py-2 font-semibold">{t(lang, 'tax_rate')} (%)</th>
+                        <th className="py-2 font-semibold">{t(lang, 'tax_exempt')}</th>
+                        <th className="py-2 font-semibold">{t(lang, 'tax_default')}</th>
+                        <th></th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                    {tax.profiles.map(profile => (
+                        <tr key={profile.id}>
+                            <td className="py-2 pr-2">
+                                <input
+                                    type="text"
+                                    className={`w-full px-2 py-1 border rounded ${profile.name.trim() ? 'border-slate-300' : 'border-red-400 bg-red-50'}`}
+                                    value={profile.name}
+                                    onChange={(e) => updateTaxProfile(profile.id, { name: e.target.value })}
+                                />
+                            </td>
+                            <td className="py-2">
+                                {/* Stored as a fraction, edited as a percentage */}
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max="99"
+                                    step="0.5"
+                                    disabled={profile.exempt}
+                                    className="w-20 px-2 py-1 border border-slate-300 rounded disabled:bg-slate-100"
+                                    value={Math.round(profile.rate * 10000) / 100}
+                                    onChange={(e) => updateTaxProfile(profile.id, { rate: (parseFloat(e.target.value) || 0) / 100 })}
+                                />
+                            </td>
+                            <td className="py-2">
+                                <input
+                                    type="checkbox"
+                                    className="w-4 h-4"
+                                    checked={!!profile.exempt}
+                                    onChange={(e) => updateTaxProfile(profile.id, e.target.checked ? { exempt: true, rate: 0 } : { exempt: undefined })}
+                                />
+                            </td>
+                            <td className="py-2">
+                                <input
+                                    type="radio"
+                                    name="tax-default"
+                                    className="w-4 h-4"
+                                    checked={tax.defaultProfileId === profile.id}
+                                    onChange={() => updateTax({ defaultProfileId: profile.id })}
+                                />
+                            </td>
+                            <td className="py-2 text-right">
+                                <button
+                                    onClick={() => updateTax({ profiles: tax.profiles.filter(p => p.id !== profile.id) })}
+                                    disabled={isProfileInUse(profile.id)}
+                                    className="p-1 text-slate-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-slate-400"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <button
+                onClick={() => updateTax({ profiles: [...tax.profiles, { id: `tax-${Date.now()}`, name: '', rate: 0 }] })}
+                className="mt-2 flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+                <Plus className="w-4 h-4" />
+                <span>{t(lang, 'add_tax_profile')}</span>
+            </button>
+        </div>
+
+        <div>
+            <h3 className="font-semibold text-slate-800">{t(lang, 'customer_tax_profiles')}</h3>
+            <p className="text-xs text-slate-500 mt-1 mb-3">{t(lang, 'customer_tax_profiles_hint')}</p>
+            <table className="w-full text-left text-sm">
+                <thead className="border-b border-slate-200 text-xs text-slate-500">
+                    <tr>
+                        <th className="py-2 font-semibold">{t(lang, 'customer_line')}</th>
+                        <th className="py-2 font-semibold">{t(lang, 'tax_profile')}</th>
+                        <th></th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                    {tax.customers.map(assignment => (
+                        <tr key={assignment.id}>
+                            <td className="py-2 pr-2">
+                                <input
+                                    type="text"
+                                    className={`w-full px-2 py-1 border rounded ${assignment.customer.trim() ? 'border-slate-300' : 'border-red-400 bg-red-50'}`}
+                                    value={assignment.customer}
+                                    onChange={(e) => updateCustomerTax(assignment.id, { customer: e.target.value })}
+                                />
+                            </td>
+                            <td className="py-2 pr-2">
+                                <select
+                                    className="w-full px-2 py-1 border border-slate-300 rounded"
+                                    value={assignment.profileId}
+                                    onChange={(e) => updateCustomerTax(assignment.id, { profileId: e.target.value })}
+                                >
+                                    {tax.profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </select>
+                            </td>
+                            <td className="py-2 text-right">
+                                <button
+                                    onClick={() => updateTax({ customers: tax.customers.filter(c => c.id !== assignment.id) })}
+                                    className="p-1 text-slate-400 hover:text-red-600"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <button
+                onClick={() => updateTax({ customers: [...tax.customers, { id: `tax-customer-${Date.now()}`, customer: '', profileId: tax.defaultProfileId }] })}
+                className="mt-2 flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+                <Plus className="w-4 h-4" />
+                <span>{t(lang, 'add_customer_tax_profile')}</span>
+            </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-6">
+        <div className="flex flex-wrap items-center gap-3">
+            <h3 className="font-semibold text-slate-800">{t(lang, 'rate_card')}</h3>
+            <select
+                className="px-2 py-1 border border-slate-300 rounded"
+                value={cardId}
+                onChange={(e) => setCardId(e.target.value)}
+            >
+                <option value="">{t(lang, 'default_rate_card')}</option>
+                {cards.map(c => <option key={c.id} value={c.id}>{c.name || '-'}</option>)}
+            </select>
+            <button onClick={addCard} className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800">
+                <Plus className="w-4 h-4" />
+                <span>{t(lang, 'add_rate_card')}</span>
+            </button>
+        </div>
+        <p className="text-xs text-slate-500 mt-1">{t(lang, 'rate_cards_hint')}</p>
+
+        {card && (
+            <div className="mt-4 space-y-3 text-sm">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <label className="block text-xs text-slate-500">
+                        {t(lang, 'rate_card_name')}
+                        <input
+                            type="text"
+                            className={`w-full mt-1 px-2 py-1 border rounded text-sm ${card.name.trim() ? 'border-slate-300' : 'border-red-400 bg-red-50'}`}
+                            value={card.name}
+                            onChange={(e) => updateCard(card.id, { name: e.target.value })}
+                        />
+                    </label>
+                    <label className="block text-xs text-slate-500">
+                        {t(lang, 'rate_card_customers')}
+                        <input
+                            type="text"
+                            className="w-full mt-1 px-2 py-1 border border-slate-300 rounded text-sm"
+                            value={card.customers.join(',')}
+                            onChange={(e) => updateCard(card.id, { customers: splitList(e.target.value) })}
+                        />
+                    </label>
+                    <label className="block text-xs text-slate-500">
+                        {t(lang, 'rate_card_owner_codes')}
+                        <input
+                            type="text"
+                            className="w-full mt-1 px-2 py-1 border border-slate-300 rounded text-sm font-mono uppercase"
+                            placeholder="MSCU, MAEU"
+                            value={card.ownerCodes.join(',')}
+                            onChange={(e) => updateCard(card.id, { ownerCodes: splitList(e.target.value.toUpperCase()) })}
+                        />
+                    </label>
+                </div>
+                <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center space-x-2 text-slate-700">
+                        <input
+                            type="checkbox"
+                            className="w-4 h-4"
+                            checked={card.inheritsDefault}
+                            onChange={(e) => updateCard(card.id, { inheritsDefault: e.target.checked })}
+                        />
+                        <span>{t(lang, 'rate_card_inherits')}</span>
+                    </label>
+                    <div className="flex items-center space-x-1">
+                        <select
+                            className="px-1 py-1 border border-slate-300 rounded"
+                            value={newRuleCode}
+                            onChange={(e) => setNewRuleCode(e.target.value as DefectCode)}
+                        >
+                            {Object.values(DefectCode).map(code => <option key={code} value={code}>{tDefect(lang, code)}</option>)}
+                        </select>
+                        <select
+                            className="px-1 py-1 border border-slate-300 rounded"
+                            value={newRuleSeverity}
+                            onChange={(e) => setNewRuleSeverity(e.target.value as Severity)}
+                        >
+                            {Object.values(Severity).map(severity => <option key={severity} value={severity}>{severity}</option>)}
+                        </select>
+                        <button onClick={addCardRule} className="flex items-center space-x-1 text-blue-600 hover:text-blue-800">
+                            <Plus className="w-4 h-4" />
+                            <span>{t(lang, 'add_rule')}</span>
+                        </button>
+                    </div>
+                    {card.rules.length === 0 && (
+                        <button onClick={copyDefaultRules} className="text-blue-600 hover:text-blue-800">
+                            {t(lang, 'copy_default_rules')}
+                        </button>
+                    )}
+                    <button onClick={() => removeCard(card.id)} className="flex items-center space-x-1 text-red-600 hover:text-red-800 ml-auto">
+                        <Trash2 className="w-4 h-4" />
+                        <span>{t(lang, 'delete_rate_card')}</span>
+                    </button>
+                </div>
+            </div>
+        )}
+      </div>
+
+      <p className="text-sm text-slate-500 mb-4">{t(lang, card ? 'rate_card_rules_hint' : 'pricing_rules_hint')}</p>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-x-auto">
         <table className="w-full text-left text-sm">
             <thead className="bg-slate-50 border-b border-slate-200">
                 <tr>
-                    <th className="p-4 font-semibold text-slate-700">Defect Type</th>
-                    <th className="p-4 font-semibold text-slate-700">Severity</th>
+                    <th className="p-4 font-semibold text-slate-700">{t(lang, 'defect_type')}</th>
+                    <th className="p-4 font-semibold text-slate-700">{t(lang, 'severity')}</th>
+                    <th className="p-4 font-semibold text-slate-700">{t(lang, 'damage_size')}</th>
+                    <th className="p-4 font-semibold text-slate-700">{t(lang, 'component_code')}</th>
+                    <th className="p-4 font-semibold text-slate-700">{t(lang, 'container_type')}</th>
+                    <th className="p-4 font-semibold text-slate-700">{t(lang, 'container_length')}</th>
+                    <th className="p-4 font-semibold text-slate-700">{t(lang, 'currency')}</th>
                     <th className="p-4 font-semibold text-slate-700">{t(lang, 'base_price')}</th>
                     <th className="p-4 font-semibold text-slate-700">{t(lang, 'labor_hours')} (h)</th>
+                    <th className="p-4 font-semibold text-slate-700">{t(lang, 'labor_skill')}</th>
+                    <th className="p-4"></th>
                 </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
-                {rules.map(rule => (
-                    <tr key={rule.id} className="hover:bg-slate-50">
-                        <td className="p-4 font-medium text-slate-800">{tDefect(lang, rule.defectCode)}</td>
+                {editedRules.map(rule => (
+                    <tr key={rule.id} className={`hover:bg-slate-50 ${isVariant(rule) ? 'bg-slate-50/50' : ''}`}>
+                        <td className={`p-4 font-medium text-slate-800 ${isVariant(rule) ? 'pl-8 font-normal' : ''}`}>{tDefect(lang, rule.defectCode)}</td>
                         <td className="p-4">
                             <span className={`px-2 py-1 rounded text-xs font-bold uppercase ${
-                                rule.severity === Severity.HIGH ? 'bg-red-100 text-red-700' : 
-                                rule.severity === Severity.MEDIUM ? 'bg-yellow-100 text-yellow-700' : 
+                                rule.severity === Severity.HIGH ? 'bg-red-100 text-red-700' :
+                                rule.severity === Severity.MEDIUM ? 'bg-yellow-100 text-yellow-700' :
                                 'bg-green-100 text-green-700'
                             }`}>
                                 {rule.severity}
                             </span>
                         </td>
                         <td className="p-4">
-                            <input 
-                                type="number" 
+                            <div className="flex items-center space-x-1">
+                                <select
+                                    className="px-1 py-1 border border-slate-300 rounded"
+                                    value={rule.sizeBand?.measure || ''}
+                                    onChange={(e) => setBand(rule, e.target.value ? { measure: e.target.value as SizeBand['measure'] } : null)}
+                                >
+                                    <option value="">{t(lang, 'any')}</option>
+                                    <option value="LENGTH">{t(lang, 'size_measure_length')}</option>
+                                    <option value="AREA">{t(lang, 'size_measure_area')}</option>
+                                </select>
+                                {rule.sizeBand && (
+                                    <>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            placeholder="min"
+                                            className={`w-16 px-1 py-1 border rounded ${isBandInvalid(rule.sizeBand) ? 'border-red-400 bg-red-50' : 'border-slate-300'}`}
+                                            value={rule.sizeBand.min ?? ''}
+                                            onChange={(e) => setBand(rule, { min: parseBound(e.target.value) })}
+                                        />
+                                        <span className="text-slate-400">-</span>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            placeholder="max"
+                                            className={`w-16 px-1 py-1 border rounded ${isBandInvalid(rule.sizeBand) ? 'border-red-400 bg-red-50' : 'border-slate-300'}`}
+                                            value={rule.sizeBand.max ?? ''}
+                                            onChange={(e) => setBand(rule, { max: parseBound(e.target.value) })}
+                                        />
+                                    </>
+                                )}
+                            </div>
+                        </td>
+                        <td className="p-4">
+                            <select
+                                className="w-32 px-1 py-1 border border-slate-300 rounded"
+                                value={rule.componentCode || ''}
+                                onChange={(e) => updateRule(rule.id, { componentCode: (e.target.value || undefined) as ComponentCode | undefined })}
+                            >
+                                <option value="">{t(lang, 'any')}</option>
+                                {Object.values(ComponentCode).map(c => (
+                                    <option key={c} value={c}>{c} · {tComponent(lang, c)}</option>
+                                ))}
+                            </select>
+                        </td>
+                        <td className="p-4">
+                            <select
+                                className="px-1 py-1 border border-slate-300 rounded"
+                                value={rule.containerType || ''}
+                                onChange={(e) => updateRule(rule.id, { containerType: (e.target.value || undefined) as ContainerType | undefined })}
+                            >
+                                <option value="">{t(lang, 'any')}</option>
+                                {CONTAINER_TYPES.map(type => (
+                                    <option key={type} value={type}>{t(lang, `container_type_${type.toLowerCase()}`)}</option>
+                                ))}
+                            </select>
+                        </td>
+                        <td className="p-4">
+                            <select
+                                className="px-1 py-1 border border-slate-300 rounded"
+                                value={rule.containerLength || ''}
+                                onChange={(e) => updateRule(rule.id, { containerLength: (e.target.value || undefined) as ContainerLength | undefined })}
+                            >
+                                <option value="">{t(lang, 'any')}</option>
+                                {CONTAINER_LENGTHS.map(length => <option key={length} value={length}>{length}'</option>)}
+                            </select>
+                        </td>
+                        <td className="p-4">
+                            <select
+                                className="px-1 py-1 border border-slate-300 rounded"
+                                value={rule.currency || BASE_CURRENCY}
+                                onChange={(e) => updateRule(rule.id, { currency: e.target.value === BASE_CURRENCY ? undefined : e.target.value as Currency })}
+                            >
+                                {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                        </td>
+                        <td className="p-4">
+                            <input
+                                type="number"
                                 min="0"
-                                step="1000"
+                                step={(rule.currency || BASE_CURRENCY) === BASE_CURRENCY ? '1000' : '0.01'}
                                 className="w-32 px-2 py-1 border border-slate-300 rounded"
                                 value={rule.basePrice}
-                                onChange={(e) => handleChange(rule.id, 'basePrice', parseFloat(e.target.value))}
+                                onChange={(e) => updateRule(rule.id, { basePrice: parseFloat(e.target.value) })}
                             />
                         </td>
                         <td className="p-4">
-                             <input 
-                                type="number" 
+                             <input
+                                type="number"
                                 min="0"
                                 step="0.1"
                                 className="w-24 px-2 py-1 border border-slate-300 rounded"
                                 value={rule.laborHours}
-                                onChange={(e) => handleChange(rule.id, 'laborHours', parseFloat(e.target.value))}
+                                onChange={(e) => updateRule(rule.id, { laborHours: parseFloat(e.target.value) })}
                             />
                         </td>
+                        <td className="p-4">
+                            <select
+                                className="px-1 py-1 border border-slate-300 rounded"
+                                value={rule.laborSkill || 'GENERAL'}
+                                onChange={(e) => updateRule(rule.id, { laborSkill: e.target.value === 'GENERAL' ? undefined : e.target.value as LaborSkill })}
+                            >
+                                {LABOR_SKILLS.map(skill => <option key={skill} value={skill}>{t(lang, `labor_skill_${skill.toLowerCase()}`)}</option>)}
+                            </select>
+                        </td>
+                        <td className="p-4 whitespace-nowrap">
+                            <button
+                                onClick={() => addVariant(rule)}
+                                title={t(lang, 'add_variant')}
+                                className="p-1 text-slate-400 hover:text-blue-600"
+                            >
+                                <CopyPlus className="w-4 h-4" />
+                            </button>
+                            {(card || isVariant(rule)) && (
+                                <button
+                                    onClick={() => removeRule(rule.id)}
+                                    title={t(lang, 'delete_rule')}
+                                    className="p-1 text-slate-400 hover:text-red-600"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            )}
+                        </td>
                     </tr>
                 ))}
             </tbody>
@@ -1,72 +1,121 @@
-import React, { useEffect, useState } from 'react';
-import { Inspection, ReviewStatus, Severity, UserRole, User, Language, QuoteStatus, InvoiceDetails } from '../types';
-import { getInspectionById, updateInspection, getNextPendingManifestItem } from '../services/dbService';
-import { generateQuote } from '../services/pricingService';
+import React, { useEffect, useRef, useState } from 'react';
+import { Inspection, Defect, ReviewStatus, Severity, UserRole, User, Language, QuoteStatus, InvoiceDetails, ComponentCode, ManifestItem, Currency } from '../types';
+import { getInspectionById, updateInspection, getNextPendingManifestItem, getExchangeRates, getTaxSettings, subscribeToChanges } from '../services/dbService';
+import { generateQuote, applyPricingToInspection, changeQuoteCurrency } from '../services/pricingService';
+import { availableCurrencies, describeRate, formatMoney, formatMoneyForPdf, rateFor, ratesOn } from '../services/currencyService';
+import { customerTaxProfile, describeTaxLineForPdf, formatTaxRate, quoteTaxLines } from '../services/taxService';
+import { runAnalysisJobs, applyAnalysisResults, getImagesNeedingRetry, deriveInspectionStatus } from '../services/analysisRunner';
 import { BoundingBoxDisplay } from '../components/BoundingBoxDisplay';
-import { Check, X, ChevronLeft, FileText, Image as ImageIcon, ArrowRight, DollarSign, Lock, Receipt } from 'lucide-react';
+import { normalizeBoundingBox } from '../services/detectionValidation';
+import { groupBySide } from '../services/inspectionHelpers';
+import { formatCedexLocation, isValidLocationCode } from '../services/cedexService';
+import { isValidSizeType, normalizeSizeType } from '../services/manifestService';
+import { exportDestim, validateDestim } from '../services/destimService';
+import { getMergedDuplicates, getEvidenceImageIds, splitMergedDefect } from '../services/dedupeService';
+import { isAutoDecided } from '../services/triageService';
+import { isDemoProvider } from '../services/detectionService';
+import { subscribeSyncState } from '../services/syncService';
+import { recordAudit, recordQuoteChange, getAuditTrail, describeAuditEvent } from '../services/auditService';
+import { Check, X, ChevronLeft, FileText, FileCode, Image as ImageIcon, ArrowRight, DollarSign, Lock, Receipt, AlertTriangle, RefreshCw, Loader2, ClipboardList } from 'lucide-react';
 import jsPDF from 'jspdf';
-import { t, tSide, tDefect } from '../i18n';
+import { t, tSide, tDefect, tComponent } from '../i18n';
 
 interface ReviewProps {
   inspectionId: string;
   user: User;
   onBack: () => void;
-  onNextContainer: (containerNumber: string) => void;
+  onNextContainer: (item: ManifestItem) => void;
+  onOpenSync: () => void;
   lang: Language;
 }
 
-// Display formatter (UI) - uses symbol
-const formatVND = (amount: number) => {
-    return new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(amount);
+// Value for a datetime-local input, which takes local time without a zone
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
 };
 
-// PDF formatter - uses "VND" text to avoid encoding errors in standard PDF fonts
-const formatVNDForPDF = (amount: number) => {
-    return new Intl.NumberFormat('vi-VN').format(amount) + ' VND';
-};
-
-export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNextContainer, lang }) => {
+export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNextContainer, onOpenSync, lang }) => {
   const [inspection, setInspection] = useState<Inspection | null>(null);
   const [selectedDefectId, setSelectedDefectId] = useState<string | null>(null);
   const [activeImageId, setActiveImageId] = useState<string | null>(null);
   const [imgRef, setImgRef] = useState<HTMLImageElement | null>(null);
-  const [nextContainer, setNextContainer] = useState<string | null>(null);
+  const [nextItem, setNextItem] = useState<ManifestItem | undefined>(undefined);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [retryProgress, setRetryProgress] = useState(0);
+  const [hasSyncConflict, setHasSyncConflict] = useState(false);
   
   // Invoice Modal State
   const [showInvoiceModal, setShowInvoiceModal] = useState(false);
   const [customerName, setCustomerName] = useState('');
   const [customerAddress, setCustomerAddress] = useState('');
 
+  const [showAuditTrail, setShowAuditTrail] = useState(false);
+  const costEditStart = useRef<{ defectId: string; cost: number } | null>(null);
+  // The inspection as it was when a typed field that reprices (customer, repair time) got focus
+  const quoteEditStart = useRef<Inspection | null>(null);
+
   useEffect(() => {
-    const data = getInspectionById(inspectionId);
-    if (data) {
+    let cancelled = false;
+    getInspectionById(inspectionId).then(data => {
+      if (!data || cancelled) return;
       setInspection(data);
       if (data.images.length > 0) setActiveImageId(data.images[0].id);
-      if (data.defects.length > 0) setSelectedDefectId(data.defects[0].id);
+      const firstDefect = data.defects.find(d => !d.mergedInto);
+      if (firstDefect) setSelectedDefectId(firstDefect.id);
       
       if (data.quote?.invoiceDetails) {
           setCustomerName(data.quote.invoiceDetails.customerName);
           setCustomerAddress(data.quote.invoiceDetails.customerAddress);
+      } else if (data.customer) {
+          setCustomerName(data.customer);
       }
-    }
-    const pending = getNextPendingManifestItem();
-    if (pending) setNextContainer(pending.containerNumber);
+    });
+    return () => { cancelled = true; };
   }, [inspectionId]);
 
+  // The next job for this inspector follows the queue as other tabs and inspectors take jobs
+  useEffect(() => {
+    setNextItem(getNextPendingManifestItem(user));
+    return subscribeToChanges(['manifest'], () => setNextItem(getNextPendingManifestItem(user)));
+  }, [user.id]);
+
+  // Saved elsewhere (another tab, or pulled from the server): show that copy. This tab's own
+  // saves are already on screen.
+  useEffect(() => subscribeToChanges(['inspections'], change => {
+    if (change.source === 'this-tab' || (change.ids && !change.ids.includes(inspectionId))) return;
+    getInspectionById(inspectionId).then(data => { if (data) setInspection(data); });
+  }), [inspectionId]);
+
+  useEffect(() => subscribeSyncState(state => {
+    setHasSyncConflict(state.conflicts.some(c => c.inspectionId === inspectionId));
+  }), [inspectionId]);
+
   useEffect(() => {
       if (selectedDefectId && inspection) {
           const defect = inspection.defects.find(d => d.id === selectedDefectId);
-          if (defect && defect.imageId !== activeImageId) {
+          // Stay on the current photo if it is one of the defect's evidence photos
+          if (defect && !getEvidenceImageIds(inspection, defect).includes(activeImageId || '')) {
               setActiveImageId(defect.imageId);
           }
       }
   }, [selectedDefectId]);
 
+  // Updates the screen right away; storage errors (e.g. quota) are reported, not swallowed
+  const persist = (updated: Inspection) => {
+    setInspection(updated);
+    updateInspection(updated).catch(err => {
+      console.error("Saving inspection failed", err);
+      alert(t(lang, 'save_failed'));
+    });
+  };
+
   const handleDefectAction = (defectId: string, action: ReviewStatus) => {
     if (!inspection) return;
     
+    // Merged duplicates share the decision on the defect they were merged into
     const updatedDefects = inspection.defects.map(d => 
-      d.id === defectId ? { ...d, status: action } : d
+      d.id === defectId || d.mergedInto === defectId ? { ...d, status: action } : d
     );
 
     const tempInspection = { ...inspection, defects: updatedDefects };
@@ -74,17 +123,21 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
     
     const updatedInspection = { 
         ...tempInspection, 
+        status: deriveInspectionStatus(tempInspection),
         quote: { ...newQuote, status: inspection.quote?.status === QuoteStatus.APPROVED ? QuoteStatus.DRAFT : newQuote.status } 
     };
 
-    setInspection(updatedInspection);
-    updateInspection(updatedInspection);
+    const before = inspection.defects.find(d => d.id === defectId)?.status;
+    persist(before === action
+        ? updatedInspection
+        : recordAudit(updatedInspection, user, { action: 'DEFECT_STATUS', defectId, before, after: action }));
   };
 
   const handleCostChange = (defectId: string, newCost: number) => {
       if (!inspection) return;
+      // A cost entered by hand is kept when rules reprice; clearing it hands the defect back to the rules
       const updatedDefects = inspection.defects.map(d => 
-          d.id === defectId ? { ...d, repairCost: newCost } : d
+          d.id === defectId ? { ...d, repairCost: Number.isFinite(newCost) ? newCost : undefined, pricingRuleId: undefined } : d
       );
       const tempInspection = { ...inspection, defects: updatedDefects };
       const newQuote = generateQuote(tempInspection);
@@ -94,18 +147,169 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
           quote: { ...newQuote, status: QuoteStatus.DRAFT } 
       };
 
-      setInspection(updatedInspection);
-      updateInspection(updatedInspection);
+      persist(updatedInspection);
+  };
+
+  // The total follows every keystroke; the audit trail gets one entry when the field is left
+  const commitCostChange = (defectId: string) => {
+      const start = costEditStart.current;
+      costEditStart.current = null;
+      if (!inspection || !start || start.defectId !== defectId) return;
+      const after = inspection.defects.find(d => d.id === defectId)?.repairCost || 0;
+      if (after === start.cost) return;
+      persist(recordAudit(inspection, user, { action: 'REPAIR_COST', defectId, before: start.cost, after }));
+  };
+
+  // Takes a wrongly merged photo's defect out of its group; it is then priced on its own
+  const handleSplitDefect = (defectId: string) => {
+      if (!inspection) return;
+      const priced = applyPricingToInspection(splitMergedDefect(inspection, defectId));
+      const updatedInspection = {
+          ...priced,
+          status: deriveInspectionStatus(priced),
+          quote: priced.quote && { ...priced.quote, status: QuoteStatus.DRAFT }
+      };
+      persist(recordQuoteChange(inspection, updatedInspection, user, 'split_defect', { defectId }));
+  };
+
+  // Re-runs analysis for the sides that failed or were skipped, leaving reviewed sides untouched
+  const retryFailedImages = async () => {
+      if (!inspection) return;
+      const pendingImages = getImagesNeedingRetry(inspection);
+      if (pendingImages.length === 0) return;
+
+      setIsRetrying(true);
+      setRetryProgress(0);
+      try {
+          const results = await runAnalysisJobs(pendingImages, inspection.containerNumber, lang, {
+              onProgress: (completed, total) => setRetryProgress((completed / total) * 100)
+          });
+          const updatedInspection = applyPricingToInspection(applyAnalysisResults(inspection, results));
+          persist(updatedInspection);
+      } finally {
+          setIsRetrying(false);
+      }
+  };
+
+  // Costs that came from a pricing rule follow changes to what the rules key on
+  const repriced = (updated: Inspection): Inspection => {
+      const priced = applyPricingToInspection(updated, true);
+      return { ...priced, quote: priced.quote && { ...priced.quote, status: QuoteStatus.DRAFT } };
+  };
+
+  const persistRepriced = (updated: Inspection) => persist(repriced(updated));
+
+  // Quote inputs reprice on every change; the audit trail gets one entry when the field is left
+  const startQuoteEdit = () => {
+      if (!quoteEditStart.current) quoteEditStart.current = inspection;
+  };
+
+  const commitQuoteEdit = (
+      field: 'customer_line' | 'repair_time' | 'component_code' | 'damage_length_cm' | 'damage_width_cm',
+      value: (insp: Inspection) => string | number | undefined,
+      defectId?: string
+  ) => {
+      const start = quoteEditStart.current;
+      quoteEditStart.current = null;
+      if (!inspection || !start || value(start) === value(inspection)) return;
+      persist(recordQuoteChange(start, inspection, user, field, { defectId, before: value(start), after: value(inspection) }));
+  };
+
+  const defectValue = (defectId: string, value: (d: Defect) => string | number | undefined) =>
+      (insp: Inspection) => {
+          const defect = insp.defects.find(d => d.id === defectId);
+          return defect && value(defect);
+      };
+
+  const handleCedexChange = (defectId: string, field: 'locationCode' | 'componentCode', value: string) => {
+      if (!inspection) return;
+      const updatedDefects = inspection.defects.map(d =>
+          d.id === defectId ? { ...d, [field]: value.toUpperCase() } : d
+      );
+      const updatedInspection = { ...inspection, defects: updatedDefects };
+      if (field === 'componentCode') persistRepriced(updatedInspection);
+      else persist(updatedInspection);
+  };
+
+  // A measured size replaces the estimate; clearing the length goes back to the estimate
+  const handleSizeChange = (defectId: string, field: 'lengthCm' | 'widthCm', value: string) => {
+      if (!inspection) return;
+      const n = parseFloat(value);
+      const updatedDefects = inspection.defects.map(d => {
+          if (d.id !== defectId) return d;
+          const next = { lengthCm: d.size?.lengthCm, widthCm: d.size?.widthCm, [field]: n > 0 ? n : undefined };
+          return { ...d, size: next.lengthCm ? { lengthCm: next.lengthCm, widthCm: next.widthCm } : undefined };
+      });
+      persistRepriced({ ...inspection, defects: updatedDefects });
+  };
+
+  const handleSizeTypeChange = (value: string) => {
+      if (!inspection) return;
+      const sizeType = normalizeSizeType(value);
+      // Only a complete code changes prices; keep what is typed meanwhile
+      if (sizeType && !isValidSizeType(sizeType)) {
+          setInspection({ ...inspection, sizeType });
+          return;
+      }
+      const updatedInspection = repriced({ ...inspection, sizeType: sizeType || undefined });
+      if ((inspection.sizeType || undefined) === updatedInspection.sizeType) {
+          persist(updatedInspection);
+          return;
+      }
+      persist(recordQuoteChange(inspection, updatedInspection, user, 'size_type', { before: inspection.sizeType, after: updatedInspection.sizeType }));
+  };
+
+  // The customer decides the rate card as well as the tax
+  const handleCustomerChange = (value: string) => {
+      if (!inspection) return;
+      persistRepriced({ ...inspection, customer: value || undefined });
+  };
+
+  // An empty value hands the line back to the customer's profile. Tax follows the customer and
+  // the lines' own tax profiles; costs stay as they are.
+  const handleTaxProfileChange = (defectId: string, profileId: string) => {
+      if (!inspection) return;
+      const updatedDefects = inspection.defects.map(d =>
+          d.id === defectId ? { ...d, taxProfileId: profileId || undefined } : d
+      );
+      const updated = { ...inspection, defects: updatedDefects };
+      const profileName = (id?: string) => (id ? getTaxSettings().profiles.find(p => p.id === id)?.name || id : undefined);
+      persist(recordQuoteChange(inspection, { ...updated, quote: { ...generateQuote(updated), status: QuoteStatus.DRAFT } }, user, 'tax_profile', {
+          defectId,
+          before: profileName(inspection.defects.find(d => d.id === defectId)?.taxProfileId),
+          after: profileName(profileId)
+      }));
+  };
+
+  // Shift premiums follow the time entered here; cleared, labor is at the base rate
+  const handleRepairAtChange = (value: string) => {
+      if (!inspection) return;
+      const repairAt = value && !Number.isNaN(Date.parse(value)) ? new Date(value).toISOString() : undefined;
+      persistRepriced({ ...inspection, repairAt });
+  };
+
+  // Defect costs and totals move to the new currency at today's rates
+  const handleCurrencyChange = (currency: Currency) => {
+      if (!inspection) return;
+      const priced = changeQuoteCurrency(inspection, currency);
+      persist(recordQuoteChange(inspection, { ...priced, quote: priced.quote && { ...priced.quote, status: QuoteStatus.DRAFT } }, user, 'quote_currency', {
+          before: inspection.quote?.currency,
+          after: currency
+      }));
   };
 
   const approveQuote = () => {
-      if (!inspection || !inspection.quote) return;
+      if (!inspection || !inspection.quote || inspection.quote.unpricedDefectIds?.length) return;
       const updatedInspection = {
           ...inspection,
           quote: { ...inspection.quote, status: QuoteStatus.APPROVED, approvedBy: user.name }
       };
-      setInspection(updatedInspection);
-      updateInspection(updatedInspection);
+      persist(recordAudit(updatedInspection, user, {
+          action: 'QUOTE_APPROVED',
+          before: inspection.quote.status,
+          after: QuoteStatus.APPROVED,
+          amount: inspection.quote.total
+      }));
   };
 
   const generateInvoice = () => {
@@ -123,17 +327,22 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
           customerAddress
       };
 
-      const updatedInspection: Inspection = {
+      const updatedInspection: Inspection = recordAudit({
           ...inspection,
           quote: { 
               ...inspection.quote, 
               status: QuoteStatus.INVOICED,
               invoiceDetails 
           }
-      };
+      }, user, {
+          action: 'INVOICE_GENERATED',
+          before: inspection.quote.status,
+          after: QuoteStatus.INVOICED,
+          amount: inspection.quote.total,
+          detail: invoiceDetails.invoiceNumber
+      });
 
-      setInspection(updatedInspection);
-      updateInspection(updatedInspection);
+      persist(updatedInspection);
       setShowInvoiceModal(false);
       generateInvoicePDF(updatedInspection);
   };
@@ -194,12 +403,13 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
 
       // Items
       insp.defects.forEach((d) => {
-          if (d.status !== ReviewStatus.REJECTED) {
-              const desc = `Repair: ${tDefect(lang, d.code)} - ${d.severity} (${tSide(lang, inspection.images.find(i => i.id === d.imageId)?.side || '')})`;
+          if (d.status !== ReviewStatus.REJECTED && !d.mergedInto) {
+              const location = formatCedexLocation(d);
+              const desc = `Repair: ${tDefect(lang, d.code)} - ${d.severity} (${tSide(lang, insp.images.find(i => i.id === d.imageId)?.side || '')})${location ? ` ${location}` : ''}`;
               const price = d.repairCost || 0;
               
               doc.text(desc, 20, y);
-              doc.text(formatVNDForPDF(price), 185, y, { align: "right" });
+              doc.text(formatMoneyForPdf(price, insp.quote?.currency), 185, y, { align: "right" });
               y += 8;
               
               if (y > 270) {
@@ -213,20 +423,39 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
       doc.line(15, y, 195, y);
       y += 10;
 
-      // Totals
+      // Totals, with the tax at each rate applied
+      const currency = insp.quote.currency;
       doc.setFont("times", "normal");
-      doc.text("Subtotal:", 140, y);
-      doc.text(formatVNDForPDF(insp.quote.subtotal), 185, y, { align: "right" });
+      if (insp.quote.partsTotal !== undefined && insp.quote.laborTotal !== undefined) {
+          doc.text("Parts:", 100, y);
+          doc.text(formatMoneyForPdf(insp.quote.partsTotal, currency), 185, y, { align: "right" });
+          y += 8;
+          doc.text("Labor:", 100, y);
+          doc.text(formatMoneyForPdf(insp.quote.laborTotal, currency), 185, y, { align: "right" });
+          y += 8;
+      }
+      doc.text("Subtotal:", 100, y);
+      doc.text(formatMoneyForPdf(insp.quote.subtotal, currency), 185, y, { align: "right" });
       
-      y += 8;
-      doc.text("Tax (10%):", 140, y);
-      doc.text(formatVNDForPDF(insp.quote.tax), 185, y, { align: "right" });
+      quoteTaxLines(insp.quote).forEach(line => {
+          y += 8;
+          doc.text(`${describeTaxLineForPdf(line, currency)}:`, 100, y);
+          doc.text(formatMoneyForPdf(line.tax, currency), 185, y, { align: "right" });
+      });
       
       y += 10;
       doc.setFont("times", "bold");
       doc.setFontSize(12);
-      doc.text("Total:", 140, y);
-      doc.text(formatVNDForPDF(insp.quote.total), 185, y, { align: "right" });
+      doc.text("Total:", 100, y);
+      doc.text(formatMoneyForPdf(insp.quote.total, insp.quote.currency), 185, y, { align: "right" });
+
+      const invoiceRate = rateFor(insp.quote.currency, insp.quote.exchangeRates);
+      if (invoiceRate) {
+          y += 8;
+          doc.setFont("times", "normal");
+          doc.setFontSize(9);
+          doc.text(`Exchange rate: ${describeRate(invoiceRate)}`, 185, y, { align: "right" });
+      }
 
       // Footer (Bank Info)
       doc.setFontSize(10);
@@ -261,17 +490,23 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
     doc.text(`Inspector: ${inspection.inspectorId}`, margin, 45);
     doc.text(`Date: ${new Date(inspection.timestamp).toLocaleString()}`, margin, 50);
     doc.text(`Location: ${inspection.location}`, margin, 55);
+    if (inspection.quote?.rateCardName) doc.text(`Rate card: ${inspection.quote.rateCardName}`, margin, 60);
     
     // Status
     doc.setFont("times", "bold");
     doc.text(`Status: ${inspection.status}`, margin, 65);
     
-    // Financials Box
+    // Financials Box: subtotal, tax at each rate, total
     if (inspection.quote) {
+      const quote = inspection.quote;
+      const taxLines = quoteTaxLines(quote);
+      const reportRate = rateFor(quote.currency, quote.exchangeRates);
+      const hasSplit = quote.partsTotal !== undefined && quote.laborTotal !== undefined;
       let y = 75;
+      const boxHeight = 33 + taxLines.length * 7 + (hasSplit ? 14 : 0) + (reportRate ? 6 : 0);
       doc.setDrawColor(200, 200, 200); 
       doc.setFillColor(245, 247, 250);
-      doc.rect(margin, y, contentWidth, 40, 'F');
+      doc.rect(margin, y, contentWidth, boxHeight, 'F');
       
       doc.setFontSize(14);
       doc.setTextColor(30, 41, 59);
@@ -279,103 +514,227 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
       
       doc.setFontSize(10);
       doc.setFont("times", "normal");
-      doc.text(`Subtotal:`, margin + 5, y + 20);
-      doc.text(`${formatVNDForPDF(inspection.quote.subtotal)}`, pageWidth - margin - 5, y + 20, { align: "right" });
+      y += 20;
+      if (hasSplit) {
+        doc.text(`Parts:`, margin + 5, y);
+        doc.text(`${formatMoneyForPdf(quote.partsTotal!, quote.currency)}`, pageWidth - margin - 5, y, { align: "right" });
+        y += 7;
+        doc.text(`Labor:`, margin + 5, y);
+        doc.text(`${formatMoneyForPdf(quote.laborTotal!, quote.currency)}`, pageWidth - margin - 5, y, { align: "right" });
+        y += 7;
+      }
+      doc.text(`Subtotal:`, margin + 5, y);
+      doc.text(`${formatMoneyForPdf(quote.subtotal, quote.currency)}`, pageWidth - margin - 5, y, { align: "right" });
       
-      doc.text(`Tax (10%):`, margin + 5, y + 27);
-      doc.text(`${formatVNDForPDF(inspection.quote.tax)}`, pageWidth - margin - 5, y + 27, { align: "right" });
+      taxLines.forEach(line => {
+        y += 7;
+        doc.text(`${describeTaxLineForPdf(line, quote.currency)}:`, margin + 5, y);
+        doc.text(`${formatMoneyForPdf(line.tax, quote.currency)}`, pageWidth - margin - 5, y, { align: "right" });
+      });
       
+      y += 8;
       doc.setFont("times", "bold");
-      doc.text(`Total:`, margin + 5, y + 35);
-      doc.text(`${formatVNDForPDF(inspection.quote.total)}`, pageWidth - margin - 5, y + 35, { align: "right" });
+      doc.text(`Total:`, margin + 5, y);
+      doc.text(`${formatMoneyForPdf(quote.total, quote.currency)}`, pageWidth - margin - 5, y, { align: "right" });
+
+      if (reportRate) {
+          y += 6;
+          doc.setFont("times", "normal");
+          doc.setFontSize(9);
+          doc.text(`Exchange rate: ${describeRate(reportRate)}`, margin + 5, y);
+      }
       
       doc.setTextColor(0, 0, 0); // Reset color
     }
     
-    // --- Detailed Pages: Images & Defects ---
-    const sidesWithImages = inspection.images;
+    // --- Detailed Pages: one section per side, one page per photo ---
+    groupBySide(inspection).forEach((group) => {
+      // Defect numbers run through the whole side so photos of one wall read as a set.
+      // A defect seen on several photos keeps one number.
+      const numbers = new Map<string, number>();
+      const numberFor = (d: Defect) => {
+        const key = d.mergedInto || d.id;
+        if (!numbers.has(key)) numbers.set(key, numbers.size + 1);
+        return numbers.get(key)!;
+      };
 
-    sidesWithImages.forEach((img) => {
-      doc.addPage();
-      let yPos = 20;
-      
-      doc.setFont("times", "bold");
-      doc.setFontSize(14);
-      doc.text(tSide(lang, img.side), margin, yPos);
-      yPos += 10;
-      
-      const imgHeight = 100; 
-      doc.addImage(img.url, 'JPEG', margin, yPos, contentWidth, imgHeight, undefined, 'FAST');
-      
-      const sideDefects = inspection.defects.filter(d => d.imageId === img.id && d.status !== ReviewStatus.REJECTED);
-      
-      sideDefects.forEach((d, i) => {
-        const { ymin, xmin, ymax, xmax } = d.boundingBox;
+      group.images.forEach((img, photoIndex) => {
+        doc.addPage();
+        let yPos = 20;
         
-        const pdfBoxX = margin + (xmin / 100) * contentWidth;
-        const pdfBoxY = yPos + (ymin / 100) * imgHeight;
-        const pdfBoxW = ((xmax - xmin) / 100) * contentWidth;
-        const pdfBoxH = ((ymax - ymin) / 100) * imgHeight;
+        doc.setFont("times", "bold");
+        doc.setFontSize(14);
+        doc.text(tSide(lang, img.side), margin, yPos);
+        if (group.images.length > 1 || img.label) {
+          doc.setFont("times", "normal");
+          doc.setFontSize(10);
+          const photoLabel = img.label ? ` - ${t(lang, `photo_label_${img.label.toLowerCase()}`)}` : '';
+          doc.text(`Photo ${photoIndex + 1}/${group.images.length}${photoLabel}`, pageWidth - margin, yPos, { align: "right" });
+        }
+        yPos += 10;
         
-        doc.setDrawColor(220, 38, 38); 
-        doc.setLineWidth(0.5);
-        doc.rect(pdfBoxX, pdfBoxY, pdfBoxW, pdfBoxH);
+        const imgHeight = 100; 
+        doc.addImage(img.url, 'JPEG', margin, yPos, contentWidth, imgHeight, undefined, 'FAST');
         
-        doc.setFillColor(220, 38, 38);
-        doc.rect(pdfBoxX, pdfBoxY - 4, 6, 4, 'F');
+        const photoDefects = group.defects
+          .filter(d => d.imageId === img.id && d.status !== ReviewStatus.REJECTED)
+          .map(d => ({ defect: d, number: numberFor(d) }));
         
-        doc.setTextColor(255, 255, 255);
-        doc.setFontSize(6);
-        doc.text(`${i + 1}`, pdfBoxX + 1, pdfBoxY - 1);
-      });
-      
-      yPos += imgHeight + 10;
-      
-      if (sideDefects.length > 0) {
-        doc.setTextColor(0, 0, 0);
-        doc.setFontSize(10);
-        doc.setFont("times", "bold");
-        doc.text("Defects Found:", margin, yPos);
-        yPos += 8;
-        
-        sideDefects.forEach((d, i) => {
-           doc.setFont("times", "normal");
-           doc.setFontSize(10);
-           
-           const cost = d.repairCost ? formatVNDForPDF(d.repairCost) : formatVNDForPDF(0);
-           const label = `${i + 1}. [${tDefect(lang, d.code)}] ${d.severity} - ${cost}`;
-           
-           doc.text(label, margin, yPos);
-           
-           doc.setFontSize(9);
-           doc.setTextColor(80, 80, 80); 
-           doc.text(`   ${d.description}`, margin, yPos + 5);
-           
-           doc.setTextColor(0, 0, 0);
-           yPos += 12;
-           
-           if (yPos > 270) {
-               doc.addPage();
-               yPos = 20;
-           }
+        photoDefects.forEach(({ defect: d, number }) => {
+          const { ymin, xmin, ymax, xmax } = normalizeBoundingBox(d.boundingBox);
+          
+          const pdfBoxX = margin + (xmin / 100) * contentWidth;
+          const pdfBoxY = yPos + (ymin / 100) * imgHeight;
+          const pdfBoxW = ((xmax - xmin) / 100) * contentWidth;
+          const pdfBoxH = ((ymax - ymin) / 100) * imgHeight;
+          
+          doc.setDrawColor(220, 38, 38); 
+          doc.setLineWidth(0.5);
+          doc.rect(pdfBoxX, pdfBoxY, pdfBoxW, pdfBoxH);
+          
+          doc.setFillColor(220, 38, 38);
+          doc.rect(pdfBoxX, pdfBoxY - 4, 6, 4, 'F');
+          
+          doc.setTextColor(255, 255, 255);
+          doc.setFontSize(6);
+          doc.text(`${number}`, pdfBoxX + 1, pdfBoxY - 1);
         });
-      } else {
-          doc.setTextColor(100, 100, 100);
+        
+        yPos += imgHeight + 10;
+        
+        if (photoDefects.length > 0) {
+          doc.setTextColor(0, 0, 0);
           doc.setFontSize(10);
-          doc.setFont("times", "italic");
-          doc.text("No defects detected on this side.", margin, yPos + 5);
-      }
+          doc.setFont("times", "bold");
+          doc.text("Defects Found:", margin, yPos);
+          yPos += 8;
+          
+          photoDefects.forEach(({ defect: d, number }) => {
+             doc.setFont("times", "normal");
+             doc.setFontSize(10);
+             
+             const cost = d.mergedInto ? 'additional view, priced once' : formatMoneyForPdf(d.repairCost || 0, inspection.quote?.currency);
+             const location = formatCedexLocation(d);
+             const label = `${number}. [${tDefect(lang, d.code)}]${location ? ` ${location}` : ''} ${d.severity} - ${cost}`;
+             
+             doc.text(label, margin, yPos);
+             
+             doc.setFontSize(9);
+             doc.setTextColor(80, 80, 80); 
+             doc.text(`   ${d.description}`, margin, yPos + 5);
+             
+             doc.setTextColor(0, 0, 0);
+             yPos += 12;
+             
+             if (yPos > 270) {
+                 doc.addPage();
+                 yPos = 20;
+             }
+          });
+        } else {
+            doc.setTextColor(100, 100, 100);
+            doc.setFontSize(10);
+            doc.setFont("times", "italic");
+            doc.text("No defects detected on this photo.", margin, yPos + 5);
+            doc.setTextColor(0, 0, 0);
+        }
+      });
     });
     
     doc.save(`report_${inspection.containerNumber}.pdf`);
   };
 
+  // Every review and pricing change with who made it and when, for customer disputes
+  const generateAuditPDF = () => {
+    if (!inspection) return;
+    const doc = new jsPDF();
+    const margin = 15;
+
+    doc.setFont("times", "bold");
+    doc.setFontSize(18);
+    doc.text("Audit Report", margin, 20);
+    doc.setFontSize(14);
+    doc.text(inspection.containerNumber, margin, 28);
+
+    doc.setFont("times", "normal");
+    doc.setFontSize(10);
+    doc.text(`Inspection: ${inspection.id}`, margin, 38);
+    doc.text(`Inspected: ${new Date(inspection.timestamp).toLocaleString()} by ${inspection.inspectorId} at ${inspection.location}`, margin, 43);
+    if (inspection.quote) {
+      doc.text(`Quote: ${inspection.quote.status}, total ${formatMoneyForPdf(inspection.quote.total, inspection.quote.currency)}`, margin, 48);
+    }
+    doc.text(`Generated: ${new Date().toLocaleString()} by ${user.name}`, margin, 53);
+
+    let y = 65;
+    doc.setFillColor(240, 240, 240);
+    doc.rect(margin, y - 6, 180, 8, 'F');
+    doc.setFont("times", "bold");
+    doc.text("Time", margin + 2, y);
+    doc.text("By", margin + 42, y);
+    doc.text("Change", margin + 82, y);
+    y += 8;
+    doc.setFont("times", "normal");
+
+    const events = getAuditTrail(inspection);
+    if (events.length === 0) doc.text("No changes recorded.", margin + 2, y);
+    events.forEach(event => {
+      const line = describeAuditEvent(lang, inspection, event, amount => formatMoneyForPdf(amount, inspection.quote?.currency));
+      const change = [
+        `${line.action}${line.subject ? ` - ${line.subject}` : ''}`,
+        line.before !== undefined || line.after !== undefined ? `${line.before ?? '-'} -> ${line.after ?? '-'}` : '',
+        line.amount ? `Total ${line.amount}` : '',
+        line.quote ? `Quote ${line.quote}` : ''
+      ].filter(Boolean);
+      const wrapped: string[] = change.flatMap(text => doc.splitTextToSize(text, 100));
+      if (y + wrapped.length * 5 > 280) {
+        doc.addPage();
+        y = 20;
+      }
+      doc.text(new Date(event.at).toLocaleString(), margin + 2, y);
+      doc.text(doc.splitTextToSize(`${event.actorName} (${event.actorRole})`, 38), margin + 42, y);
+      doc.text(wrapped, margin + 82, y);
+      y += Math.max(2, wrapped.length) * 5 + 3;
+    });
+
+    doc.save(`audit_${inspection.containerNumber}.pdf`);
+  };
+
+  // CEDEX-coded EDIFACT DESTIM estimate for the customer's M&R system
+  const exportEDI = () => {
+      if (!inspection || !inspection.quote || inspection.quote.unpricedDefectIds?.length) return;
+      const edi = exportDestim(inspection, inspection.quote.invoiceDetails?.customerName);
+      const check = validateDestim(edi);
+      if (!check.valid && !confirm(`${t(lang, 'edi_validation_failed')}\n\n${check.errors.join('\n')}`)) return;
+
+      const blob = new Blob([edi], { type: 'application/edifact' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `estimate_${inspection.containerNumber}.edi`;
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
   if (!inspection) return <div className="p-10 text-center">Loading...</div>;
 
   const activeImage = inspection.images.find(i => i.id === activeImageId);
   const currentImageDefects = inspection.defects.filter(d => d.imageId === activeImageId);
+  const sideGroups = groupBySide(inspection);
+  const activeGroup = sideGroups.find(g => g.side === activeImage?.side);
+  // Merged duplicates are listed under the defect they were merged into
+  const activeSideDefects = (activeGroup ? activeGroup.defects : currentImageDefects).filter(d => !d.mergedInto);
+  const highlightedDefectId = currentImageDefects.find(d => d.mergedInto && d.mergedInto === selectedDefectId)?.id ?? selectedDefectId;
+  const autoDecidedCount = inspection.defects.filter(d => !d.mergedInto && isAutoDecided(d)).length;
+  const selectDefect = (id: string) => setSelectedDefectId(inspection.defects.find(d => d.id === id)?.mergedInto || id);
+  const photoNumber = (imageId: string) => (activeGroup?.images.findIndex(i => i.id === imageId) ?? -1) + 1;
   const isReviewer = user.role === UserRole.REVIEWER || user.role === UserRole.ADMIN;
   const quote = inspection.quote;
+  const failedImages = getImagesNeedingRetry(inspection);
+  const auditTrail = getAuditTrail(inspection);
+  const quoteRate = quote && rateFor(quote.currency, quote.exchangeRates);
+  const taxSettings = getTaxSettings();
+  const customerProfile = customerTaxProfile(inspection.customer, taxSettings);
+  const taxLabel = (rate: number, exempt?: boolean) => (exempt ? t(lang, 'tax_exempt') : `${t(lang, 'tax')} ${formatTaxRate(rate)}`);
 
   return (
     <div className="flex flex-col h-[calc(100vh-64px)]">
@@ -386,7 +745,36 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
                 <ChevronLeft className="w-5 h-5 text-slate-600" />
             </button>
             <div>
-                <h2 className="text-lg font-bold text-slate-800">{inspection.containerNumber}</h2>
+                <div className="flex items-center space-x-2">
+                    <h2 className="text-lg font-bold text-slate-800">{inspection.containerNumber}</h2>
+                    {isReviewer && quote?.status === QuoteStatus.DRAFT ? (
+                        <input
+                            type="text"
+                            maxLength={4}
+                            title={t(lang, 'size_type')}
+                            placeholder={t(lang, 'size_type')}
+                            className={`w-20 font-mono text-xs border rounded px-1 py-0.5 uppercase ${inspection.sizeType && !isValidSizeType(inspection.sizeType) ? 'border-red-400 bg-red-50' : 'border-slate-300'}`}
+                            value={inspection.sizeType || ''}
+                            onChange={(e) => handleSizeTypeChange(e.target.value)}
+                        />
+                    ) : inspection.sizeType && (
+                        <span className="font-mono text-xs text-slate-500">{inspection.sizeType}</span>
+                    )}
+                    {isReviewer && quote?.status === QuoteStatus.DRAFT ? (
+                        <input
+                            type="text"
+                            title={t(lang, 'customer_line')}
+                            placeholder={t(lang, 'customer_line')}
+                            className="w-36 text-xs border border-slate-300 rounded px-1 py-0.5"
+                            value={inspection.customer || ''}
+                            onChange={(e) => handleCustomerChange(e.target.value)}
+                            onFocus={startQuoteEdit}
+                            onBlur={() => commitQuoteEdit('customer_line', insp => insp.customer)}
+                        />
+                    ) : inspection.customer && (
+                        <span className="text-xs text-slate-500">{inspection.customer}</span>
+                    )}
+                </div>
                 <div className="flex space-x-2 text-xs mt-1">
                     <span className={`px-2 py-0.5 rounded-full font-medium ${inspection.status === 'COMPLETED' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
                         {t(lang, inspection.status.toLowerCase() as any) || inspection.status}
@@ -397,6 +785,12 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
                             <span>{quote.status}</span>
                         </span>
                     )}
+                    {isDemoProvider(inspection.detectionProvider) && (
+                        <span className="px-2 py-0.5 rounded-full font-medium flex items-center space-x-1 bg-amber-100 text-amber-800" title={t(lang, 'detection_demo_inspection')}>
+                            <AlertTriangle className="w-3 h-3" />
+                            <span>{inspection.detectionProvider}</span>
+                        </span>
+                    )}
                 </div>
             </div>
         </div>
@@ -408,9 +802,27 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
                 <FileText className="w-4 h-4" />
                 <span>{t(lang, 'export_pdf')}</span>
             </button>
-            {nextContainer && (
+            <button 
+                onClick={() => setShowAuditTrail(true)}
+                className="hidden sm:flex items-center space-x-2 px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-md text-sm hover:bg-slate-50"
+            >
+                <ClipboardList className="w-4 h-4" />
+                <span>{t(lang, 'audit_trail')}</span>
+            </button>
+            {quote && (
+                <button 
+                    onClick={exportEDI}
+                    disabled={!!quote.unpricedDefectIds?.length}
+                    title={quote.unpricedDefectIds?.length ? t(lang, 'edi_unpriced') : undefined}
+                    className="hidden sm:flex items-center space-x-2 px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-md text-sm hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <FileCode className="w-4 h-4" />
+                    <span>{t(lang, 'export_edi')}</span>
+                </button>
+            )}
+            {nextItem && (
                 <button 
-                    onClick={() => onNextContainer(nextContainer)}
+                    onClick={() => onNextContainer(nextItem)}
                     className="flex items-center space-x-2 px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 shadow-md"
                 >
                     <span>{t(lang, 'next_container')}</span>
@@ -424,23 +836,78 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
         
         {/* Image Area */}
         <div className="flex-1 bg-slate-900 relative flex flex-col overflow-hidden">
-             {/* View Tabs */}
+             {hasSyncConflict && (
+                <div className="flex items-center justify-between bg-amber-50 border-b border-amber-200 px-4 py-2 text-sm text-amber-800">
+                    <div className="flex items-center space-x-2">
+                        <AlertTriangle className="w-4 h-4" />
+                        <span>{t(lang, 'sync_conflict_banner')}</span>
+                    </div>
+                    <button
+                        onClick={onOpenSync}
+                        className="px-3 py-1 bg-white border border-amber-300 rounded-md text-xs font-medium hover:bg-amber-100"
+                    >
+                        {t(lang, 'resolve')}
+                    </button>
+                </div>
+             )}
+             {failedImages.length > 0 && (
+                <div className="flex items-center justify-between bg-red-50 border-b border-red-200 px-4 py-2 text-sm text-red-800">
+                    <div className="flex items-center space-x-2">
+                        <AlertTriangle className="w-4 h-4" />
+                        <span>{failedImages.length} {t(lang, 'sides_failed_analysis')}</span>
+                    </div>
+                    {isReviewer && quote?.status !== QuoteStatus.INVOICED && (
+                        <button
+                            onClick={retryFailedImages}
+                            disabled={isRetrying}
+                            className="flex items-center space-x-1 px-3 py-1 bg-white border border-red-300 rounded-md text-xs font-medium hover:bg-red-100 disabled:opacity-50"
+                        >
+                            {isRetrying ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                            <span>{isRetrying ? `${Math.round(retryProgress)}%` : t(lang, 'retry_failed')}</span>
+                        </button>
+                    )}
+                </div>
+             )}
+             {/* View Tabs: one per side */}
              <div className="flex overflow-x-auto bg-slate-800 border-b border-slate-700 p-1 space-x-1 scrollbar-hide">
-                {inspection.images.map(img => (
+                {sideGroups.map(group => (
                     <button
-                        key={img.id}
-                        onClick={() => setActiveImageId(img.id)}
-                        className={`px-3 py-2 text-xs font-medium whitespace-nowrap rounded flex items-center space-x-2 transition-colors ${activeImageId === img.id ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+                        key={group.side}
+                        onClick={() => setActiveImageId(group.images[0].id)}
+                        className={`px-3 py-2 text-xs font-medium whitespace-nowrap rounded flex items-center space-x-2 transition-colors ${activeGroup?.side === group.side ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-700 hover:text-white'}`}
                     >
-                        <ImageIcon className="w-3 h-3" />
-                        <span>{tSide(lang, img.side)}</span>
+                        {group.images.some(img => img.analysisStatus === 'FAILED' || img.analysisStatus === 'SKIPPED')
+                            ? <AlertTriangle className="w-3 h-3 text-red-400" />
+                            : <ImageIcon className="w-3 h-3" />}
+                        <span>{tSide(lang, group.side)}</span>
+                        {group.images.length > 1 && <span className="text-[10px] opacity-75">×{group.images.length}</span>}
                         <span className="ml-1 bg-slate-900/50 px-1.5 rounded-full text-[10px]">
-                             {inspection.defects.filter(d => d.imageId === img.id).length}
+                             {group.defects.filter(d => !d.mergedInto).length}
                         </span>
                     </button>
                 ))}
              </div>
 
+             {/* Photos of the active side */}
+             {activeGroup && activeGroup.images.length > 1 && (
+                <div className="flex overflow-x-auto bg-slate-900 border-b border-slate-800 p-1 space-x-1 scrollbar-hide">
+                    {activeGroup.images.map((img, idx) => (
+                        <button
+                            key={img.id}
+                            onClick={() => setActiveImageId(img.id)}
+                            className={`flex items-center space-x-2 px-2 py-1 rounded text-[11px] whitespace-nowrap ${activeImageId === img.id ? 'bg-slate-700 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
+                        >
+                            <img src={img.thumbnailUrl || img.url} alt="" className="w-8 h-8 object-cover rounded" />
+                            <span>{idx + 1}{img.label ? ` · ${t(lang, `photo_label_${img.label.toLowerCase()}`)}` : ''}</span>
+                            {(img.analysisStatus === 'FAILED' || img.analysisStatus === 'SKIPPED') && <AlertTriangle className="w-3 h-3 text-red-400" />}
+                            <span className="bg-slate-950/50 px-1.5 rounded-full text-[10px]">
+                                {inspection.defects.filter(d => d.imageId === img.id).length}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+             )}
+
              <div className="flex-1 relative flex items-center justify-center overflow-hidden bg-slate-950">
                  {activeImage ? (
                     <div className="relative max-w-full max-h-full p-4">
@@ -453,8 +920,8 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
                         {imgRef && (
                             <BoundingBoxDisplay 
                                 defects={currentImageDefects}
-                                selectedDefectId={selectedDefectId}
-                                onSelectDefect={setSelectedDefectId}
+                                selectedDefectId={highlightedDefectId}
+                                onSelectDefect={selectDefect}
                                 imageWidth={imgRef.width}
                                 imageHeight={imgRef.height}
                             />
@@ -471,22 +938,40 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
             <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
                 <div>
                     <h3 className="font-semibold text-slate-700">
-                        {t(lang, 'defects_detected')} <span className="text-slate-400 font-normal">({currentImageDefects.length})</span>
+                        {t(lang, 'defects_detected')} <span className="text-slate-400 font-normal">({activeSideDefects.length})</span>
                     </h3>
                     <p className="text-xs text-slate-500 mt-1">
                         {activeImage ? `${tSide(lang, activeImage.side)} view` : ''}
+                        {autoDecidedCount > 0 && <span className="ml-2 text-indigo-600">· {autoDecidedCount} {t(lang, 'auto_decided_count')}</span>}
                     </p>
                 </div>
             </div>
             
             <div className="flex-1 overflow-y-auto p-2 space-y-2">
-                {currentImageDefects.length === 0 && (
+                {activeImage && (activeImage.analysisStatus === 'FAILED' || activeImage.analysisStatus === 'SKIPPED') && (
+                    <div className="p-3 rounded-lg border border-red-200 bg-red-50 text-xs text-red-700">
+                        <p className="font-semibold">{t(lang, activeImage.analysisStatus === 'FAILED' ? 'analysis_status_failed' : 'analysis_status_skipped')}</p>
+                        {activeImage.analysisError && <p className="mt-1 break-words">{activeImage.analysisError}</p>}
+                    </div>
+                )}
+                {activeImage?.quarantinedDetections && activeImage.quarantinedDetections.length > 0 && (
+                    <div
+                        className="p-2 rounded-lg border border-amber-200 bg-amber-50 text-xs text-amber-800"
+                        title={activeImage.quarantinedDetections.map(q => q.reason).join('\n')}
+                    >
+                        {activeImage.quarantinedDetections.length} {t(lang, 'detections_quarantined')}
+                        <ul className="mt-1 list-disc list-inside text-amber-700">
+                            {activeImage.quarantinedDetections.map((q, idx) => <li key={idx}>{q.reason}</li>)}
+                        </ul>
+                    </div>
+                )}
+                {activeSideDefects.length === 0 && activeImage?.analysisStatus !== 'FAILED' && activeImage?.analysisStatus !== 'SKIPPED' && (
                     <div className="text-center p-8 text-slate-400">
                         <Check className="w-12 h-12 mx-auto mb-2 opacity-20" />
                         <p>{t(lang, 'no_defects')}</p>
                     </div>
                 )}
-                {currentImageDefects.map(d => (
+                {activeSideDefects.map(d => (
                     <div 
                         key={d.id}
                         onClick={() => setSelectedDefectId(d.id)}
@@ -494,6 +979,15 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
                     >
                         <div className="flex justify-between items-start mb-1">
                             <div className="flex items-center space-x-2">
+                                {activeGroup && activeGroup.images.length > 1 && getEvidenceImageIds(inspection, d).map(imageId => (
+                                    <span
+                                        key={imageId}
+                                        onClick={(e) => { e.stopPropagation(); setSelectedDefectId(d.id); setActiveImageId(imageId); }}
+                                        className={`text-[10px] px-1.5 py-0.5 rounded ${imageId === activeImageId ? 'bg-blue-100 text-blue-700' : 'bg-slate-100 text-slate-500'}`}
+                                    >
+                                        #{photoNumber(imageId)}
+                                    </span>
+                                ))}
                                 <span className={`text-xs font-bold px-1.5 py-0.5 rounded ${d.status === ReviewStatus.REJECTED ? 'bg-gray-200 text-gray-500 line-through' : 'bg-slate-100 text-slate-700'}`}>
                                     {tDefect(lang, d.code)}
                                 </span>
@@ -504,24 +998,143 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
                                 }`}>
                                     {d.severity}
                                 </span>
+                                {d.autoDecision && (
+                                    <span
+                                        className={`text-[10px] px-1.5 py-0.5 rounded border ${isAutoDecided(d) ? 'border-indigo-200 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-400 line-through'}`}
+                                        title={`${t(lang, 'confidence')} ${Math.round(d.autoDecision.confidence * 100)}% · ${t(lang, 'triage_threshold')} ${Math.round(d.autoDecision.threshold * 100)}% · ${new Date(d.autoDecision.decidedAt).toLocaleString()}${isAutoDecided(d) ? '' : ` (${t(lang, 'auto_overridden')})`}`}
+                                    >
+                                        {t(lang, d.autoDecision.status === ReviewStatus.ACCEPTED ? 'auto_accepted' : 'auto_rejected')}
+                                    </span>
+                                )}
                             </div>
                             {d.status !== ReviewStatus.REJECTED && (
                                 <div className="flex items-center space-x-1">
                                     {isReviewer && quote?.status === QuoteStatus.DRAFT ? (
                                         <input 
                                             type="number" 
-                                            className="w-28 text-right text-xs border rounded px-1 py-0.5" 
-                                            value={d.repairCost || 0}
+                                            className={`w-28 text-right text-xs border rounded px-1 py-0.5 ${d.repairCost === undefined ? 'border-red-400 bg-red-50' : ''}`}
+                                            placeholder={t(lang, 'no_pricing_rule')}
+                                            value={d.repairCost ?? ''}
                                             onClick={(e) => e.stopPropagation()}
+                                            onFocus={() => { costEditStart.current = { defectId: d.id, cost: d.repairCost || 0 }; }}
                                             onChange={(e) => handleCostChange(d.id, parseFloat(e.target.value))}
+                                            onBlur={() => commitCostChange(d.id)}
                                         />
+                                    ) : d.repairCost === undefined ? (
+                                        <span className="text-xs text-red-600">{t(lang, 'no_pricing_rule')}</span>
                                     ) : (
-                                        <span className="text-xs font-mono">{formatVND(d.repairCost || 0)}</span>
+                                        <span className="text-xs font-mono">{formatMoney(d.repairCost, quote?.currency)}</span>
                                     )}
                                 </div>
                             )}
                         </div>
                         <p className="text-xs text-slate-600 line-clamp-2 mb-2">{d.description}</p>
+
+                        {selectedDefectId === d.id && getMergedDuplicates(inspection, d.id).length > 0 && (
+                            <div className="mb-2 p-2 rounded bg-slate-50 border border-slate-100 text-[10px] text-slate-500 space-y-1" onClick={(e) => e.stopPropagation()}>
+                                <p className="font-semibold">{t(lang, 'merged_evidence')}</p>
+                                {getMergedDuplicates(inspection, d.id).map(dup => {
+                                    const dupImage = inspection.images.find(i => i.id === dup.imageId);
+                                    return (
+                                        <div key={dup.id} className="flex items-center justify-between">
+                                            <button onClick={() => setActiveImageId(dup.imageId)} className="hover:text-blue-600">
+                                                #{photoNumber(dup.imageId)}{dupImage?.label ? ` · ${t(lang, `photo_label_${dupImage.label.toLowerCase()}`)}` : ''} · {Math.round(dup.confidence * 100)}%
+                                            </button>
+                                            {isReviewer && quote?.status === QuoteStatus.DRAFT && (
+                                                <button onClick={() => handleSplitDefect(dup.id)} className="text-blue-600 hover:underline">
+                                                    {t(lang, 'split_defect')}
+                                                </button>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        {selectedDefectId === d.id && isReviewer && quote?.status === QuoteStatus.DRAFT ? (
+                            <div className="flex space-x-2 mb-2" onClick={(e) => e.stopPropagation()}>
+                                <label className="flex-1 text-[10px] text-slate-500">
+                                    {t(lang, 'location_code')}
+                                    <input
+                                        type="text"
+                                        maxLength={4}
+                                        className={`w-full mt-0.5 font-mono text-xs border rounded px-1 py-0.5 uppercase ${d.locationCode && !isValidLocationCode(d.locationCode) ? 'border-red-400 bg-red-50' : 'border-slate-300'}`}
+                                        value={d.locationCode || ''}
+                                        onChange={(e) => handleCedexChange(d.id, 'locationCode', e.target.value)}
+                                    />
+                                </label>
+                                <label className="flex-1 text-[10px] text-slate-500">
+                                    {t(lang, 'component_code')}
+                                    <select
+                                        className="w-full mt-0.5 font-mono text-xs border border-slate-300 rounded px-1 py-0.5"
+                                        value={d.componentCode || ''}
+                                        onChange={(e) => handleCedexChange(d.id, 'componentCode', e.target.value)}
+                                        onFocus={startQuoteEdit}
+                                        onBlur={() => commitQuoteEdit('component_code', defectValue(d.id, x => x.componentCode), d.id)}
+                                    >
+                                        <option value="">-</option>
+                                        {Object.values(ComponentCode).map(c => (
+                                            <option key={c} value={c}>{c} · {tComponent(lang, c)}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            </div>
+                        ) : (d.locationCode || d.componentCode) && (
+                            <p className="text-[10px] font-mono text-slate-500 mb-2" title={d.componentCode ? tComponent(lang, d.componentCode) : ''}>
+                                {formatCedexLocation(d)}
+                            </p>
+                        )}
+
+                        {selectedDefectId === d.id && isReviewer && quote?.status === QuoteStatus.DRAFT ? (
+                            <div className="flex space-x-2 mb-2" onClick={(e) => e.stopPropagation()}>
+                                <label className="flex-1 text-[10px] text-slate-500">
+                                    {t(lang, 'damage_length_cm')}{d.size?.estimated && ` (${t(lang, 'estimated')})`}
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        className={`w-full mt-0.5 text-xs border border-slate-300 rounded px-1 py-0.5 ${d.size?.estimated ? 'text-slate-400 italic' : ''}`}
+                                        value={d.size?.lengthCm ?? ''}
+                                        onChange={(e) => handleSizeChange(d.id, 'lengthCm', e.target.value)}
+                                        onFocus={startQuoteEdit}
+                                        onBlur={() => commitQuoteEdit('damage_length_cm', defectValue(d.id, x => x.size?.lengthCm), d.id)}
+                                    />
+                                </label>
+                                <label className="flex-1 text-[10px] text-slate-500">
+                                    {t(lang, 'damage_width_cm')}
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        className={`w-full mt-0.5 text-xs border border-slate-300 rounded px-1 py-0.5 ${d.size?.estimated ? 'text-slate-400 italic' : ''}`}
+                                        value={d.size?.widthCm ?? ''}
+                                        onChange={(e) => handleSizeChange(d.id, 'widthCm', e.target.value)}
+                                        onFocus={startQuoteEdit}
+                                        onBlur={() => commitQuoteEdit('damage_width_cm', defectValue(d.id, x => x.size?.widthCm), d.id)}
+                                    />
+                                </label>
+                            </div>
+                        ) : d.size && (
+                            <p className="text-[10px] text-slate-500 mb-2">
+                                {d.size.lengthCm}{d.size.widthCm !== undefined && ` × ${d.size.widthCm}`} cm{d.size.estimated && ` (${t(lang, 'estimated')})`}
+                            </p>
+                        )}
+
+                        {selectedDefectId === d.id && isReviewer && quote?.status === QuoteStatus.DRAFT && d.status !== ReviewStatus.REJECTED ? (
+                            <label className="block text-[10px] text-slate-500 mb-2" onClick={(e) => e.stopPropagation()}>
+                                {t(lang, 'tax_profile')}
+                                <select
+                                    className="w-full mt-0.5 text-xs border border-slate-300 rounded px-1 py-0.5"
+                                    value={d.taxProfileId || ''}
+                                    onChange={(e) => handleTaxProfileChange(d.id, e.target.value)}
+                                >
+                                    <option value="">{t(lang, 'tax_profile_customer')}{customerProfile && ` (${customerProfile.name})`}</option>
+                                    {taxSettings.profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </select>
+                            </label>
+                        ) : d.taxProfileId && (
+                            <p className="text-[10px] text-slate-500 mb-2">
+                                {t(lang, 'tax_profile')}: {taxSettings.profiles.find(p => p.id === d.taxProfileId)?.name || d.taxProfileId}
+                            </p>
+                        )}
                         
                         {selectedDefectId === d.id && isReviewer && quote?.status === QuoteStatus.DRAFT && (
                             <div className="flex space-x-2 mt-2 pt-2 border-t border-slate-100">
@@ -547,24 +1160,83 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
             {quote && (
                 <div className="bg-slate-50 p-4 border-t border-slate-200 shadow-inner z-10">
                     <div className="space-y-1 text-sm text-slate-600 mb-3">
-                        <div className="flex justify-between">
-                            <span>{t(lang, 'subtotal')}</span>
-                            <span className="font-mono">{formatVND(quote.subtotal)}</span>
+                        {isReviewer && quote.status === QuoteStatus.DRAFT && (
+                            <label className="flex justify-between items-center">
+                                <span>{t(lang, 'quote_currency')}</span>
+                                <select
+                                    className="text-xs border border-slate-300 rounded px-1 py-0.5"
+                                    value={quote.currency}
+                                    onChange={(e) => handleCurrencyChange(e.target.value as Currency)}
+                                >
+                                    {availableCurrencies(ratesOn(getExchangeRates())).map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                            </label>
+                        )}
+                        <div className="flex justify-between text-xs">
+                            <span>{t(lang, 'rate_card')}</span>
+                            <span>{quote.rateCardName || t(lang, 'default_rate_card')}</span>
                         </div>
+                        {isReviewer && quote.status === QuoteStatus.DRAFT && (
+                            <label className="flex justify-between items-center text-xs">
+                                <span>{t(lang, 'repair_time')}</span>
+                                <input
+                                    type="datetime-local"
+                                    className="border border-slate-300 rounded px-1 py-0.5"
+                                    value={inspection.repairAt ? toLocalInput(inspection.repairAt) : ''}
+                                    onChange={(e) => handleRepairAtChange(e.target.value)}
+                                    onFocus={startQuoteEdit}
+                                    onBlur={() => commitQuoteEdit('repair_time', insp => insp.repairAt)}
+                                />
+                            </label>
+                        )}
+                        {quote.partsTotal !== undefined && quote.laborTotal !== undefined && (
+                            <>
+                                <div className="flex justify-between text-xs">
+                                    <span>{t(lang, 'parts')}</span>
+                                    <span className="font-mono">{formatMoney(quote.partsTotal, quote.currency)}</span>
+                                </div>
+                                <div className="flex justify-between text-xs">
+                                    <span>{t(lang, 'labor')}</span>
+                                    <span className="font-mono">{formatMoney(quote.laborTotal, quote.currency)}</span>
+                                </div>
+                            </>
+                        )}
                         <div className="flex justify-between">
-                            <span>{t(lang, 'tax')}</span>
-                            <span className="font-mono">{formatVND(quote.tax)}</span>
+                            <span>{t(lang, 'subtotal')}</span>
+                            <span className="font-mono">{formatMoney(quote.subtotal, quote?.currency)}</span>
                         </div>
+                        {quoteTaxLines(quote).map(line => (
+                            <div key={line.exempt ? 'exempt' : line.rate} className="flex justify-between" title={line.profileNames.join(', ')}>
+                                <span>
+                                    {taxLabel(line.rate, line.exempt)}
+                                    <span className="text-xs text-slate-400"> · {formatMoney(line.taxableAmount, quote.currency)}</span>
+                                </span>
+                                <span className="font-mono">{formatMoney(line.tax, quote.currency)}</span>
+                            </div>
+                        ))}
                         <div className="flex justify-between font-bold text-slate-800 text-base pt-2 border-t border-slate-200">
                             <span>{t(lang, 'total')}</span>
-                            <span className="font-mono">{formatVND(quote.total)}</span>
+                            <span className="font-mono">{formatMoney(quote.total, quote?.currency)}</span>
                         </div>
+                        {quoteRate && (
+                            <p className="text-[10px] text-slate-400 text-right">
+                                1 {quoteRate.currency} = {formatMoney(quoteRate.rate)} · {t(lang, 'rate_effective_from')} {quoteRate.effectiveFrom}
+                            </p>
+                        )}
                     </div>
                     
+                    {quote.unpricedDefectIds && quote.unpricedDefectIds.length > 0 && (
+                        <div className="flex items-start space-x-2 mb-3 p-2 rounded-lg border border-red-200 bg-red-50 text-xs text-red-700">
+                            <AlertTriangle className="w-4 h-4 shrink-0" />
+                            <span>{quote.unpricedDefectIds.length} {t(lang, 'defects_unpriced')}</span>
+                        </div>
+                    )}
+
                     {isReviewer && quote.status === QuoteStatus.DRAFT && (
                         <button 
                             onClick={approveQuote}
-                            className="w-full py-2.5 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold text-sm flex items-center justify-center space-x-2 transition-colors shadow-sm"
+                            disabled={!!quote.unpricedDefectIds?.length}
+                            className="w-full py-2.5 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold text-sm flex items-center justify-center space-x-2 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             <Check className="w-4 h-4" />
                             <span>{t(lang, 'approve_quote')}</span>
@@ -603,6 +1275,55 @@ export const Review: React.FC<ReviewProps> = ({ inspectionId, user, onBack, onNe
         </div>
       </div>
 
+      {/* Audit Trail */}
+      {showAuditTrail && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+              <div className="bg-white rounded-xl shadow-lg max-w-2xl w-full p-6 max-h-[80vh] flex flex-col">
+                  <div className="flex justify-between items-center mb-4">
+                      <h3 className="text-lg font-bold text-slate-800">{t(lang, 'audit_trail')}</h3>
+                      <button onClick={() => setShowAuditTrail(false)} className="p-1 hover:bg-slate-100 rounded-full">
+                          <X className="w-5 h-5 text-slate-500" />
+                      </button>
+                  </div>
+                  <div className="flex-1 overflow-y-auto">
+                      {auditTrail.length === 0 ? (
+                          <p className="text-sm text-slate-500">{t(lang, 'audit_empty')}</p>
+                      ) : (
+                          <ol className="relative border-l border-slate-200 ml-2 space-y-4">
+                              {[...auditTrail].reverse().map(event => {
+                                  const line = describeAuditEvent(lang, inspection, event, amount => formatMoney(amount, quote?.currency));
+                                  return (
+                                      <li key={event.id} className="ml-4">
+                                          <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-500 border-2 border-white" />
+                                          <div className="text-xs text-slate-500">
+                                              {new Date(event.at).toLocaleString()} · {event.actorName} ({event.actorRole})
+                                          </div>
+                                          <div className="text-sm font-medium text-slate-800">{line.action}{line.subject && <span className="font-normal text-slate-600"> · {line.subject}</span>}</div>
+                                          {(line.before !== undefined || line.after !== undefined) && (
+                                              <div className="text-xs font-mono text-slate-600">
+                                                  {line.before ?? '—'} → {line.after ?? '—'}{line.amount && ` · ${line.amount}`}
+                                              </div>
+                                          )}
+                                          {line.quote && <div className="text-xs font-mono text-slate-500">{line.quote}</div>}
+                                      </li>
+                                  );
+                              })}
+                          </ol>
+                      )}
+                  </div>
+                  <div className="flex justify-end mt-4 pt-4 border-t border-slate-100">
+                      <button 
+                          onClick={generateAuditPDF}
+                          className="flex items-center space-x-2 px-4 py-2 bg-slate-800 text-white rounded-lg text-sm font-medium hover:bg-slate-900"
+                      >
+                          <FileText className="w-4 h-4" />
+                          <span>{t(lang, 'export_audit_report')}</span>
+                      </button>
+                  </div>
+              </div>
+          </div>
+      )}
+
       {/* Invoice Modal */}
       {showInvoiceModal && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import { AppSettings, DepotSettings, ImageSettings, Language, TriagePolicy, TriageRule, TriageThresholds, DefectCode, Severity } from '../types';
+import { getSettings, saveSettings, subscribeToChanges } from '../services/dbService';
+import { validateTriagePolicy } from '../services/triageService';
+import { t, tDefect } from '../i18n';
+import { Save, Plus, Trash2 } from 'lucide-react';
+
+interface SettingsProps {
+  lang: Language;
+}
+
+export const Settings: React.FC<SettingsProps> = ({ lang }) => {
+  const [settings, setSettings] = useState<AppSettings>(getSettings());
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    setSettings(getSettings());
+  }, []);
+
+  // Settings saved in another tab are picked up unless there are unsaved edits here
+  useEffect(() => subscribeToChanges(['settings'], () => {
+    if (!isDirty) setSettings(getSettings());
+  }), [isDirty]);
+
+  const handleImageChange = <K extends keyof ImageSettings>(field: K, value: ImageSettings[K]) => {
+    setSettings(prev => ({ ...prev, image: { ...prev.image, [field]: value } }));
+    setIsDirty(true);
+  };
+
+  const updateDepot = (update: (depot: DepotSettings) => DepotSettings) => {
+    setSettings(prev => ({ ...prev, depot: update(prev.depot) }));
+    setIsDirty(true);
+  };
+
+  // Renaming the current depot keeps it current
+  const renameDepot = (index: number, name: string) =>
+    updateDepot(depot => ({
+      depots: depot.depots.map((d, i) => (i === index ? name : d)),
+      current: depot.current === depot.depots[index] ? name : depot.current
+    }));
+
+  const removeDepot = (index: number) =>
+    updateDepot(depot => ({
+      depots: depot.depots.filter((_, i) => i !== index),
+      current: depot.current === depot.depots[index] ? undefined : depot.current
+    }));
+
+  const updateTriage = (update: (policy: TriagePolicy) => TriagePolicy) => {
+    setSettings(prev => ({ ...prev, triage: update(prev.triage) }));
+    setIsDirty(true);
+  };
+
+  const handleRuleChange = (id: string, changes: Partial<TriageRule>) =>
+    updateTriage(policy => ({ ...policy, rules: policy.rules.map(r => (r.id === id ? { ...r, ...changes } : r)) }));
+
+  const addRule = () =>
+    updateTriage(policy => ({
+      ...policy,
+      rules: [...policy.rules, { id: `tri-${Date.now()}`, defectCode: DefectCode.DT, ...policy.defaults }]
+    }));
+
+  const removeRule = (id: string) =>
+    updateTriage(policy => ({ ...policy, rules: policy.rules.filter(r => r.id !== id) }));
+
+  // Thresholds are edited in percent; an empty field disables that direction
+  const thresholdInput = (value: number | undefined, onChange: (value: number | undefined) => void) => (
+    <input
+        type="number"
+        min="0"
+        max="100"
+        step="1"
+        placeholder="-"
+        className="w-20 px-2 py-1 border border-slate-300 rounded"
+        value={value === undefined ? '' : Math.round(value * 100)}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : parseFloat(e.target.value) / 100)}
+    />
+  );
+
+  const setThreshold = <T extends TriageThresholds>(thresholds: T, field: keyof TriageThresholds, value: number | undefined): T => {
+    const next = { ...thresholds, [field]: value };
+    if (value === undefined) delete next[field];
+    return next;
+  };
+
+  const handleRuleThreshold = (id: string, field: keyof TriageThresholds, value: number | undefined) =>
+    updateTriage(policy => ({ ...policy, rules: policy.rules.map(r => (r.id === id ? setThreshold(r, field, value) : r)) }));
+
+  const handleSave = () => {
+      const errors = validateTriagePolicy(settings.triage);
+      if (errors.length > 0) {
+          alert(`${t(lang, 'triage_invalid')}\n\n${errors.join('\n')}`);
+          return;
+      }
+      const depots = Array.from(new Set(settings.depot.depots.map(d => d.trim()).filter(d => d.length > 0)));
+      const current = settings.depot.current?.trim();
+      saveSettings({ ...settings, depot: { depots, current: current && depots.includes(current) ? current : undefined } });
+      setIsDirty(false);
+      alert(t(lang, 'save_changes') + ' OK');
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-slate-800">{t(lang, 'settings')}</h2>
+        <button
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+            <Save className="w-4 h-4" />
+            <span>{t(lang, 'save_changes')}</span>
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-5">
+        <h3 className="font-semibold text-slate-800">{t(lang, 'image_settings')}</h3>
+
+        <label className="flex items-center justify-between text-sm">
+            <span className="text-slate-700">{t(lang, 'analysis_max_dimension')} (px)</span>
+            <input
+                type="number"
+                min="320"
+                step="160"
+                className="w-32 px-2 py-1 border border-slate-300 rounded"
+                value={settings.image.analysisMaxDimension}
+                onChange={(e) => handleImageChange('analysisMaxDimension', parseInt(e.target.value, 10) || 0)}
+            />
+        </label>
+
+        <label className="flex items-center justify-between text-sm">
+            <span className="text-slate-700">{t(lang, 'image_quality')} ({Math.round(settings.image.quality * 100)}%)</span>
+            <input
+                type="range"
+                min="0.4"
+                max="1"
+                step="0.05"
+                className="w-32"
+                value={settings.image.quality}
+                onChange={(e) => handleImageChange('quality', parseFloat(e.target.value))}
+            />
+        </label>
+
+        <label className="flex items-center justify-between text-sm">
+            <span className="text-slate-700">{t(lang, 'thumbnail_size')} (px)</span>
+            <input
+                type="number"
+                min="64"
+                step="32"
+                className="w-32 px-2 py-1 border border-slate-300 rounded"
+                value={settings.image.thumbnailSize}
+                onChange={(e) => handleImageChange('thumbnailSize', parseInt(e.target.value, 10) || 0)}
+            />
+        </label>
+
+        <label className="flex items-center justify-between text-sm">
+            <span className="text-slate-700">
+                {t(lang, 'keep_original')}
+                <span className="block text-xs text-slate-400">{t(lang, 'keep_original_hint')}</span>
+            </span>
+            <input
+                type="checkbox"
+                className="w-4 h-4"
+                checked={settings.image.keepOriginal}
+                onChange={(e) => handleImageChange('keepOriginal', e.target.checked)}
+            />
+        </label>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4 mt-6">
+        <h3 className="font-semibold text-slate-800">{t(lang, 'depots')}</h3>
+        <p className="text-xs text-slate-500">{t(lang, 'depots_hint')}</p>
+
+        <label className="flex items-center justify-between text-sm">
+            <span className="text-slate-700">{t(lang, 'current_depot')}</span>
+            <select
+                className="w-48 px-2 py-1 border border-slate-300 rounded"
+                value={settings.depot.current || ''}
+                onChange={(e) => updateDepot(depot => ({ ...depot, current: e.target.value || undefined }))}
+            >
+                <option value="">-</option>
+                {settings.depot.depots.filter(d => d.trim()).map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+        </label>
+
+        <div className="space-y-2">
+            {settings.depot.depots.map((depot, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                    <input
+                        type="text"
+                        className="flex-1 px-2 py-1 border border-slate-300 rounded text-sm"
+                        value={depot}
+                        onChange={(e) => renameDepot(index, e.target.value)}
+                    />
+                    <button onClick={() => removeDepot(index)} className="p-1 text-slate-400 hover:text-red-600">
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                </div>
+            ))}
+        </div>
+        <button
+            onClick={() => updateDepot(depot => ({ ...depot, depots: [...depot.depots, ''] }))}
+            className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+        >
+            <Plus className="w-4 h-4" />
+            <span>{t(lang, 'add_depot')}</span>
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-5 mt-6">
+        <div className="flex justify-between items-center">
+            <h3 className="font-semibold text-slate-800">{t(lang, 'triage_policy')}</h3>
+            <label className="flex items-center space-x-2 text-sm text-slate-700">
+                <input
+                    type="checkbox"
+                    className="w-4 h-4"
+                    checked={settings.triage.enabled}
+                    onChange={(e) => updateTriage(policy => ({ ...policy, enabled: e.target.checked }))}
+                />
+                <span>{t(lang, 'triage_enabled')}</span>
+            </label>
+        </div>
+        <p className="text-xs text-slate-500">{t(lang, 'triage_hint')}</p>
+
+        <div className="flex items-center justify-between text-sm">
+            <span className="text-slate-700">{t(lang, 'triage_defaults')}</span>
+            <div className="flex items-center space-x-2 text-xs text-slate-500">
+                <span>{t(lang, 'triage_accept_above')} %</span>
+                {thresholdInput(settings.triage.defaults.acceptAbove, v => updateTriage(p => ({ ...p, defaults: setThreshold(p.defaults, 'acceptAbove', v) })))}
+                <span>{t(lang, 'triage_reject_below')} %</span>
+                {thresholdInput(settings.triage.defaults.rejectBelow, v => updateTriage(p => ({ ...p, defaults: setThreshold(p.defaults, 'rejectBelow', v) })))}
+            </div>
+        </div>
+
+        <table className="w-full text-left text-sm">
+            <thead className="border-b border-slate-200 text-xs text-slate-500">
+                <tr>
+                    <th className="py-2 font-semibold">Defect Type</th>
+                    <th className="py-2 font-semibold">Severity</th>
+                    <th className="py-2 font-semibold">{t(lang, 'triage_accept_above')} %</th>
+                    <th className="py-2 font-semibold">{t(lang, 'triage_reject_below')} %</th>
+                    <th></th>
+                </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+                {settings.triage.rules.map(rule => (
+                    <tr key={rule.id}>
+                        <td className="py-2">
+                            <select
+                                className="px-2 py-1 border border-slate-300 rounded"
+                                value={rule.defectCode}
+                                onChange={(e) => handleRuleChange(rule.id, { defectCode: e.target.value as DefectCode })}
+                            >
+                                {Object.values(DefectCode).map(code => (
+                                    <option key={code} value={code}>{code} · {tDefect(lang, code)}</option>
+                                ))}
+                            </select>
+                        </td>
+                        <td className="py-2">
+                            <select
+                                className="px-2 py-1 border border-slate-300 rounded"
+                                value={rule.severity || ''}
+                                onChange={(e) => handleRuleChange(rule.id, { severity: (e.target.value || undefined) as Severity | undefined })}
+                            >
+                                <option value="">{t(lang, 'triage_any_severity')}</option>
+                                {Object.values(Severity).map(s => <option key={s} value={s}>{s}</option>)}
+                            </select>
+                        </td>
+                        <td className="py-2">{thresholdInput(rule.acceptAbove, v => handleRuleThreshold(rule.id, 'acceptAbove', v))}</td>
+                        <td className="py-2">{thresholdInput(rule.rejectBelow, v => handleRuleThreshold(rule.id, 'rejectBelow', v))}</td>
+                        <td className="py-2 text-right">
+                            <button onClick={() => removeRule(rule.id)} className="p-1 text-slate-400 hover:text-red-600">
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+        <button onClick={addRule} className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800">
+            <Plus className="w-4 h-4" />
+            <span>{t(lang, 'triage_add_rule')}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { Inspection, Language, OutboxEntry, SyncState } from '../types';
+import { getInspections } from '../services/dbService';
+import { getPendingEntries, resolveConflict, subscribeSyncState, syncNow } from '../services/syncService';
+import { MergePreference } from '../services/syncMerge';
+import { t } from '../i18n';
+import { AlertTriangle, Cloud, CloudOff, Eye, RefreshCw } from 'lucide-react';
+
+interface SyncProps {
+  onView: (id: string) => void;
+  lang: Language;
+}
+
+export const Sync: React.FC<SyncProps> = ({ onView, lang }) => {
+  const [state, setState] = useState<SyncState | null>(null);
+  const [pending, setPending] = useState<OutboxEntry[]>([]);
+  const [inspections, setInspections] = useState<Record<string, Inspection>>({});
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  useEffect(() => subscribeSyncState(next => {
+    setState(next);
+    setPending(getPendingEntries());
+  }), []);
+
+  useEffect(() => {
+    getInspections().then(list => setInspections(Object.fromEntries(list.map(i => [i.id, i]))));
+  }, [state?.pending, state?.conflicts.length]);
+
+  const handleResolve = async (inspectionId: string, prefer: MergePreference) => {
+    setResolving(inspectionId);
+    try {
+      await resolveConflict(inspectionId, prefer);
+    } catch (err) {
+      console.error("Resolving sync conflict failed", err);
+      alert(t(lang, 'sync_resolve_failed'));
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  if (!state) return null;
+
+  if (!state.enabled) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <h2 className="text-2xl font-bold text-slate-800 mb-4">{t(lang, 'sync_status')}</h2>
+        <p className="text-slate-500">{t(lang, 'sync_disabled')}</p>
+      </div>
+    );
+  }
+
+  const containerOf = (id: string) => inspections[id]?.containerNumber || id;
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-slate-800">{t(lang, 'sync_status')}</h2>
+        <button
+          onClick={() => syncNow()}
+          disabled={state.syncing || !state.online}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${state.syncing ? 'animate-spin' : ''}`} />
+          <span>{t(lang, 'sync_now')}</span>
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 flex items-center space-x-3 text-sm">
+        {state.online ? <Cloud className="w-5 h-5 text-green-600" /> : <CloudOff className="w-5 h-5 text-amber-600" />}
+        <div>
+          <div className="font-medium text-slate-800">{state.online ? t(lang, 'online') : t(lang, 'offline')}</div>
+          <div className="text-xs text-slate-500">
+            {t(lang, 'last_sync')}: {state.lastSyncAt ? new Date(state.lastSyncAt).toLocaleString() : '—'}
+            {state.lastError && <span className="text-red-600 ml-2">{state.lastError}</span>}
+          </div>
+        </div>
+      </div>
+
+      {state.conflicts.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="font-semibold text-slate-800 flex items-center space-x-2">
+            <AlertTriangle className="w-4 h-4 text-red-600" />
+            <span>{state.conflicts.length} {t(lang, 'sync_conflicts')}</span>
+          </h3>
+          <p className="text-xs text-slate-500">{t(lang, 'sync_conflict_hint')}</p>
+          {state.conflicts.map(conflict => (
+            <div key={conflict.inspectionId} className="bg-white rounded-xl shadow-sm border border-red-200 p-4">
+              <div className="flex justify-between items-start mb-2">
+                <div>
+                  <div className="font-mono font-bold text-slate-800">{conflict.containerNumber}</div>
+                  <div className="text-xs text-slate-500">{new Date(conflict.detectedAt).toLocaleString()}</div>
+                </div>
+                <button onClick={() => onView(conflict.inspectionId)} className="p-2 text-slate-500 hover:text-blue-600" title={t(lang, 'view')}>
+                  <Eye className="w-4 h-4" />
+                </button>
+              </div>
+              <ul className="list-disc list-inside text-sm text-slate-700 mb-3 space-y-1">
+                {conflict.reasons.map(reason => <li key={reason}>{reason}</li>)}
+              </ul>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => handleResolve(conflict.inspectionId, 'local')}
+                  disabled={resolving !== null || !state.online}
+                  className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-xs font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {t(lang, 'keep_mine')}
+                </button>
+                <button
+                  onClick={() => handleResolve(conflict.inspectionId, 'remote')}
+                  disabled={resolving !== null || !state.online}
+                  className="px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-md text-xs font-medium hover:bg-slate-50 disabled:opacity-50"
+                >
+                  {t(lang, 'keep_server')}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-200 font-semibold text-slate-800">
+          {pending.length} {t(lang, 'sync_pending')}
+        </div>
+        {pending.length === 0 ? (
+          <div className="p-4 text-sm text-slate-500">{t(lang, 'synced')}</div>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <tbody className="divide-y divide-slate-100">
+              {pending.map(entry => (
+                <tr key={entry.inspectionId}>
+                  <td className="p-3 font-mono font-medium">{containerOf(entry.inspectionId)}</td>
+                  <td className="p-3 text-slate-500">{new Date(entry.queuedAt).toLocaleString()}</td>
+                  <td className="p-3 text-xs text-red-600">
+                    {entry.attempts > 0 && `${entry.attempts}× ${entry.lastError || ''}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+// Local REST backend, so every device at the depot works on the same data.
+//   API_TOKEN=<secret> npm run server      (HOST, PORT, DATA_DIR and CORS_ORIGIN are optional)
+// The app talks to it when built with STORAGE_BACKEND=rest and the same API_TOKEN
+// (API_URL defaults to http://localhost:3001).
+//
+// Every request must carry the shared token, which keeps out other programs on the machine or
+// network and web pages from other origins. It is not access control between people: the app
+// build contains the token (vite.config.ts exposes process.env to the bundle), so anyone who
+// can load the app can read it. The server listens on localhost unless HOST says otherwise,
+// and only the app's origin may call it from a browser.
+import http from 'node:http';
+import path from 'node:path';
+import { timingSafeEqual } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import { createFileStore, NotFoundError, ConflictError, BadRequestError } from './store.js';
+
+const PORT = Number(process.env.PORT) || 3001;
+const HOST = process.env.HOST || '127.0.0.1';
+const DATA_DIR = process.env.DATA_DIR || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data');
+// Comma-separated; defaults to the Vite dev server
+const CORS_ORIGINS = (process.env.CORS_ORIGIN || 'http://localhost:5173').split(',').map(o => o.trim()).filter(Boolean);
+const API_TOKEN = process.env.API_TOKEN || '';
+
+if (!API_TOKEN) {
+  console.error('API_TOKEN is not set. Set it to a shared secret here and in the app build.');
+  process.exit(1);
+}
+const MAX_BODY_BYTES = 100 * 1024 * 1024; // Inspections carry their photos
+
+const store = createFileStore(DATA_DIR);
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new BadRequestError('Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (chunks.length === 0) return resolve(undefined);
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new BadRequestError('Body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (req, res, status, body) => {
+  const origin = req.headers.origin;
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    ...(origin && CORS_ORIGINS.includes(origin) ? { 'Access-Control-Allow-Origin': origin } : {}),
+    'Vary': 'Origin',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+// Authorization: Bearer <API_TOKEN>, compared in constant time
+const isAuthorized = (req) => {
+  const header = req.headers.authorization || '';
+  const given = Buffer.from(header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '');
+  const expected = Buffer.from(API_TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// [method, pattern, handler(params, query, body)]
+const routes = [
+  ['GET', /^\/api\/health$/, async () => ({ ok: true })],
+
+  ['GET', /^\/api\/inspections$/, async (_, query) => store.listInspections({
+    containerNumber: query.get('containerNumber') || undefined,
+    status: query.get('status') || undefined,
+    since: query.get('since') || undefined // updatedAt cursor for incremental sync
+  })],
+  ['POST', /^\/api\/inspections$/, async (_, __, body) => store.createInspection(body)],
+  // Tombstones of deleted inspections, oldest first (since: deletedAt cursor)
+  ['GET', /^\/api\/deletions$/, async (_, query) => store.listDeletions({ since: query.get('since') || undefined })],
+  // Upserts many records at once (backup restores).
+  // With ?replace=true every inspection not in the body is removed.
+  ['POST', /^\/api\/inspections\/bulk$/, async (_, query, body) => {
+    if (!Array.isArray(body)) throw new BadRequestError('Expected an array of inspections');
+    for (const inspection of body) await store.putInspection(inspection?.id, inspection, { force: true });
+    const removed = query.get('replace') === 'true' ? await store.removeInspectionsExcept(body.map(i => i.id)) : 0;
+    return { updated: body.length, removed };
+  }],
+  ['GET', /^\/api\/inspections\/([^/]+)$/, async ([id]) => store.getInspection(id)],
+  ['PUT', /^\/api\/inspections\/([^/]+)$/, async ([id], _, body) => store.putInspection(id, body)],
+  ['DELETE', /^\/api\/inspections\/([^/]+)$/, async ([id]) => store.deleteInspection(id)],
+
+  ['GET', /^\/api\/inspections\/([^/]+)\/quote$/, async ([id]) => (await store.getInspection(id)).quote ?? null],
+  ['PUT', /^\/api\/inspections\/([^/]+)\/quote$/, async ([id], _, body) => (await store.putQuote(id, body)).quote],
+
+  ['GET', /^\/api\/manifest$/, async () => store.getManifest()],
+  ['PUT', /^\/api\/manifest$/, async (_, __, body) => store.putManifest(body)],
+  ['POST', /^\/api\/manifest\/items$/, async (_, __, body) => store.addManifestItems(body)],
+  ['PUT', /^\/api\/manifest\/([^/]+)$/, async ([id], _, body) => store.updateManifestItem(id, body)],
+  // 409 with the current item if someone else holds it
+  ['POST', /^\/api\/manifest\/([^/]+)\/claim$/, async ([id], _, body) => store.claimManifestItem(id, body)],
+
+  ['GET', /^\/api\/pricing-rules$/, async () => store.getPricingRules()],
+  ['PUT', /^\/api\/pricing-rules$/, async (_, __, body) => store.putPricingRules(body)],
+
+  ['GET', /^\/api\/rate-cards$/, async () => store.getRateCards()],
+  ['PUT', /^\/api\/rate-cards$/, async (_, __, body) => store.putRateCards(body)],
+
+  ['GET', /^\/api\/labor-rates$/, async () => store.getLaborRates()],
+  ['PUT', /^\/api\/labor-rates$/, async (_, __, body) => store.putLaborRates(body)],
+
+  ['GET', /^\/api\/exchange-rates$/, async () => store.getExchangeRates()],
+  ['PUT', /^\/api\/exchange-rates$/, async (_, __, body) => store.putExchangeRates(body)],
+
+  ['GET', /^\/api\/tax-settings$/, async () => store.getTaxSettings()],
+  ['PUT', /^\/api\/tax-settings$/, async (_, __, body) => store.putTaxSettings(body)]
+];
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(req, res, 204);
+  if (!isAuthorized(req)) return send(req, res, 401, { error: 'Missing or wrong API token' });
+
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const pathMatches = routes.filter(([, pattern]) => pattern.test(url.pathname));
+  const route = pathMatches.find(([method]) => method === req.method);
+  if (!route) {
+    return pathMatches.length > 0 ? send(req, res, 405, { error: 'Method not allowed' }) : send(req, res, 404, { error: 'Not found' });
+  }
+
+  const [, pattern, handler] = route;
+  const params = url.pathname.match(pattern).slice(1).map(decodeURIComponent);
+  try {
+    const body = req.method === 'POST' || req.method === 'PUT' ? await readBody(req) : undefined;
+    const result = await handler(params, url.searchParams, body);
+    send(req, res, req.method === 'POST' && url.pathname === '/api/inspections' ? 201 : 200, result);
+  } catch (error) {
+    if (error instanceof NotFoundError) return send(req, res, 404, { error: error.message });
+    if (error instanceof ConflictError) return send(req, res, 409, { error: error.message, current: error.current, deleted: error.deleted });
+    if (error instanceof BadRequestError) return send(req, res, 400, { error: error.message });
+    console.error(error);
+    send(req, res, 500, { error: 'Internal server error' });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`ContainerAI API listening on http://${HOST}:${PORT} (data in ${DATA_DIR})`);
+});
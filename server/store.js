@@ -0,0 +1,306 @@
+// File-based store: one JSON file per inspection, plus one file each for the manifest,
+// pricing rules, rate cards, labor rates, exchange rates and tax settings. Writes go to a temp file first and are renamed into place, so a
+// crash mid-write never leaves a half-written record.
+//
+// Inspections carry a version stamp. A write must name the version it was based on;
+// if the stored record has moved on since, it is refused with a ConflictError holding
+// the current record, and the client decides how to merge. Audit log entries can only
+// be added, never dropped. Manifest changes run one at a time, so a job can be claimed by
+// exactly one inspector.
+//
+// Deleting an inspection leaves a tombstone (id, last version, deletedAt) that devices pull
+// to drop their copies. A write based on a version of a deleted record is a conflict too,
+// so a queued change can't bring it back unnoticed.
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+const SAFE_ID = /^[A-Za-z0-9._-]+$/;
+
+export class NotFoundError extends Error {}
+export class ConflictError extends Error {
+  constructor(message, current, deleted) {
+    super(message);
+    this.current = current;
+    this.deleted = deleted; // Tombstone, when the record was deleted
+  }
+}
+export class BadRequestError extends Error {}
+
+const byNewest = (a, b) => String(b.timestamp).localeCompare(String(a.timestamp));
+
+export const createFileStore = (dataDir) => {
+  const inspectionsDir = path.join(dataDir, 'inspections');
+  const deletedDir = path.join(dataDir, 'deleted');
+  const manifestFile = path.join(dataDir, 'manifest.json');
+  const pricingFile = path.join(dataDir, 'pricing-rules.json');
+  const rateCardsFile = path.join(dataDir, 'rate-cards.json');
+  const laborRatesFile = path.join(dataDir, 'labor-rates.json');
+  const exchangeRatesFile = path.join(dataDir, 'exchange-rates.json');
+  const taxSettingsFile = path.join(dataDir, 'tax-settings.json');
+
+  const ready = Promise.all([fs.mkdir(inspectionsDir, { recursive: true }), fs.mkdir(deletedDir, { recursive: true })]);
+
+  const readJson = async (file, fallback) => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return fallback;
+      throw error;
+    }
+  };
+
+  // The random part keeps two writes of one file in the same millisecond from sharing a temp file
+  const writeJson = async (file, value) => {
+    const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(value));
+    await fs.rename(tmp, file);
+  };
+
+  const inspectionFile = (id) => {
+    if (!SAFE_ID.test(id)) throw new BadRequestError(`Invalid inspection id "${id}"`);
+    return path.join(inspectionsDir, `${id}.json`);
+  };
+  const tombstoneFile = (id) => path.join(deletedDir, path.basename(inspectionFile(id)));
+
+  const removeFile = async (file) => {
+    try {
+      await fs.unlink(file);
+      return true;
+    } catch (error) {
+      if (error.code === 'ENOENT') return false;
+      throw error;
+    }
+  };
+
+  // Called under the record's lock
+  const bury = async (id, current) => {
+    const tombstone = { id, version: current?.version ?? 0, deletedAt: new Date().toISOString() };
+    await writeJson(tombstoneFile(id), tombstone);
+    await removeFile(inspectionFile(id));
+    return tombstone;
+  };
+
+  const validateInspection = (inspection) => {
+    if (!inspection || typeof inspection !== 'object') throw new BadRequestError('Inspection must be an object');
+    if (typeof inspection.id !== 'string') throw new BadRequestError('Inspection id is required');
+    if (!Array.isArray(inspection.images) || !Array.isArray(inspection.defects)) {
+      throw new BadRequestError('Inspection images and defects must be arrays');
+    }
+  };
+
+  // Serializes read-check-write per record, so two requests can't both pass the version check
+  const locks = new Map();
+  const withLock = (id, fn) => {
+    const run = (locks.get(id) || Promise.resolve()).then(fn, fn);
+    const settled = run.catch(() => {});
+    locks.set(id, settled);
+    settled.then(() => { if (locks.get(id) === settled) locks.delete(id); });
+    return run;
+  };
+
+  const stamp = (inspection, previous) => ({
+    ...inspection,
+    version: (previous?.version ?? 0) + 1,
+    updatedAt: new Date().toISOString()
+  });
+
+  const listInspections = async ({ containerNumber, status, since } = {}) => {
+    await ready;
+    const files = (await fs.readdir(inspectionsDir)).filter(f => f.endsWith('.json'));
+    const all = await Promise.all(files.map(f => readJson(path.join(inspectionsDir, f), null)));
+    return all
+      .filter(Boolean)
+      .filter(i => !containerNumber || i.containerNumber === containerNumber)
+      .filter(i => !status || i.status === status)
+      .filter(i => !since || String(i.updatedAt || '') > since)
+      .sort(byNewest);
+  };
+
+  // Tombstones of inspections deleted after `since` (a deletedAt cursor)
+  const listDeletions = async ({ since } = {}) => {
+    await ready;
+    const files = (await fs.readdir(deletedDir)).filter(f => f.endsWith('.json'));
+    const all = await Promise.all(files.map(f => readJson(path.join(deletedDir, f), null)));
+    return all
+      .filter(Boolean)
+      .filter(t => !since || String(t.deletedAt || '') > since)
+      .sort((a, b) => String(a.deletedAt).localeCompare(String(b.deletedAt)));
+  };
+
+  const getInspection = async (id) => {
+    await ready;
+    const inspection = await readJson(inspectionFile(id), null);
+    if (!inspection) throw new NotFoundError(`Inspection ${id} not found`);
+    return inspection;
+  };
+
+  const createInspection = async (inspection) => {
+    validateInspection(inspection);
+    await ready;
+    return withLock(inspection.id, async () => {
+      const existing = await readJson(inspectionFile(inspection.id), null);
+      if (existing) throw new ConflictError(`Inspection ${inspection.id} already exists`, existing);
+      const saved = stamp(inspection);
+      await writeJson(inspectionFile(inspection.id), saved);
+      await removeFile(tombstoneFile(inspection.id));
+      return saved;
+    });
+  };
+
+  // A record without a version is new and is created. `force` skips the version and audit
+  // checks (restores) and brings deleted records back.
+  const putInspection = async (id, inspection, { force = false } = {}) => {
+    validateInspection(inspection);
+    if (inspection.id !== id) throw new BadRequestError('Inspection id does not match the URL');
+    await ready;
+    return withLock(id, async () => {
+      const current = await readJson(inspectionFile(id), null);
+      if (!current && !force && inspection.version !== undefined) {
+        // No tombstone: deleted before they were kept
+        const tombstone = await readJson(tombstoneFile(id), null) || { id, version: inspection.version };
+        throw new ConflictError(`Inspection ${id} was deleted`, undefined, tombstone);
+      }
+      if (current && !force && (current.version ?? 0) !== (inspection.version ?? 0)) {
+        throw new ConflictError(`Inspection ${id} was changed by someone else (version ${current.version ?? 0})`, current);
+      }
+      const kept = new Set((inspection.auditLog || []).map(event => event.id));
+      if (current && !force && (current.auditLog || []).some(event => !kept.has(event.id))) {
+        throw new BadRequestError('Audit log entries cannot be removed');
+      }
+      const saved = stamp(inspection, current);
+      await writeJson(inspectionFile(id), saved);
+      if (!current) await removeFile(tombstoneFile(id));
+      return saved;
+    });
+  };
+
+  const deleteInspection = async (id) => {
+    await ready;
+    return withLock(id, async () => {
+      const current = await readJson(inspectionFile(id), null);
+      if (!current) throw new NotFoundError(`Inspection ${id} not found`);
+      await bury(id, current);
+      return { deleted: id };
+    });
+  };
+
+  // Removes every inspection whose id is not in `keepIds` (restore in replace mode)
+  const removeInspectionsExcept = async (keepIds) => {
+    await ready;
+    const keep = new Set(keepIds);
+    const files = (await fs.readdir(inspectionsDir)).filter(f => f.endsWith('.json'));
+    const stale = files.map(f => f.slice(0, -'.json'.length)).filter(id => !keep.has(id));
+    await Promise.all(stale.map(id => withLock(id, async () => bury(id, await readJson(inspectionFile(id), null)))));
+    return stale.length;
+  };
+
+  // The manifest is one file; every change to it goes through this lock (not a valid inspection id)
+  const MANIFEST_LOCK = ':manifest';
+  const changeManifest = (change) => withLock(MANIFEST_LOCK, async () => {
+    await ready;
+    const items = await readJson(manifestFile, []);
+    const { manifest, result } = change(items);
+    await writeJson(manifestFile, manifest);
+    return result;
+  });
+
+  const findManifestItem = (items, id) => {
+    const item = items.find(i => i.id === id);
+    if (!item) throw new NotFoundError(`Manifest item ${id} not found`);
+    return item;
+  };
+
+  // null clears a field
+  const applyChanges = (item, changes) => {
+    const next = { ...item, ...changes, id: item.id };
+    Object.keys(changes).forEach(key => { if (next[key] === null) delete next[key]; });
+    return next;
+  };
+
+  const addManifestItems = (newItems) => {
+    if (!Array.isArray(newItems)) throw new BadRequestError('Expected an array of manifest items');
+    return changeManifest(items => {
+      const known = new Set(items.map(i => i.id));
+      const manifest = [...items, ...newItems.filter(i => i && !known.has(i.id))];
+      return { manifest, result: manifest };
+    });
+  };
+
+  const updateManifestItem = (id, changes) => changeManifest(items => {
+    const updated = applyChanges(findManifestItem(items, id), changes || {});
+    return { manifest: items.map(i => (i.id === id ? updated : i)), result: updated };
+  });
+
+  // Pending jobs can be taken; one already in progress only by the inspector who holds it
+  const claimManifestItem = (id, claim) => {
+    if (!claim || typeof claim.claimedBy !== 'string') throw new BadRequestError('claimedBy is required');
+    return changeManifest(items => {
+      const item = findManifestItem(items, id);
+      const free = item.status === 'PENDING' || (item.status === 'IN_PROGRESS' && (!item.claimedBy || item.claimedBy === claim.claimedBy));
+      if (!free) throw new ConflictError(`Manifest item ${id} was already taken`, item);
+      const claimed = applyChanges(item, { ...claim, status: 'IN_PROGRESS' });
+      return { manifest: items.map(i => (i.id === id ? claimed : i)), result: claimed };
+    });
+  };
+
+  // Files replaced as a whole (pricing rules, rate cards...) are written one at a time, in order
+  const replaceFile = (file, value) => withLock(`:${path.basename(file)}`, async () => {
+    await ready;
+    await writeJson(file, value);
+    return value;
+  });
+
+  // Quote-only updates apply to whatever version is current
+  const putQuote = async (id, quote) => {
+    const inspection = await getInspection(id);
+    return putInspection(id, { ...inspection, quote });
+  };
+
+  return {
+    listInspections,
+    listDeletions,
+    getInspection,
+    createInspection,
+    putInspection,
+    deleteInspection,
+    removeInspectionsExcept,
+    putQuote,
+    getManifest: () => readJson(manifestFile, []),
+    putManifest: async (items) => {
+      if (!Array.isArray(items)) throw new BadRequestError('Manifest must be an array');
+      return changeManifest(() => ({ manifest: items, result: items }));
+    },
+    addManifestItems,
+    updateManifestItem,
+    claimManifestItem,
+    // null = never saved; the client then keeps its own defaults
+    getPricingRules: () => readJson(pricingFile, null),
+    putPricingRules: async (rules) => {
+      if (!Array.isArray(rules)) throw new BadRequestError('Pricing rules must be an array');
+      return replaceFile(pricingFile, rules);
+    },
+    getRateCards: () => readJson(rateCardsFile, null),
+    putRateCards: async (cards) => {
+      if (!Array.isArray(cards)) throw new BadRequestError('Rate cards must be an array');
+      return replaceFile(rateCardsFile, cards);
+    },
+    getLaborRates: () => readJson(laborRatesFile, null),
+    putLaborRates: async (rates) => {
+      if (!Array.isArray(rates)) throw new BadRequestError('Labor rates must be an array');
+      return replaceFile(laborRatesFile, rates);
+    },
+    getExchangeRates: () => readJson(exchangeRatesFile, null),
+    putExchangeRates: async (rates) => {
+      if (!Array.isArray(rates)) throw new BadRequestError('Exchange rates must be an array');
+      return replaceFile(exchangeRatesFile, rates);
+    },
+    getTaxSettings: () => readJson(taxSettingsFile, null),
+    putTaxSettings: async (settings) => {
+      if (!settings || !Array.isArray(settings.profiles) || !Array.isArray(settings.customers)) {
+        throw new BadRequestError('Tax settings need profiles and customers arrays');
+      }
+      return replaceFile(taxSettingsFile, settings);
+    }
+  };
+};
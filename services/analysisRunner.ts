@@ -0,0 +1,191 @@
+import { Inspection, InspectionImage, Defect, Language, AnalysisStatus, ReviewStatus, QuarantinedDetection } from '../types';
+import { analyzeImage } from './detectionService';
+import { withCedexSuggestions } from './cedexService';
+import { mergeDuplicateDefects } from './dedupeService';
+import { triageInspection } from './triageService';
+import { needsReview } from './inspectionHelpers';
+
+export interface AnalysisRunnerOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface AnalysisJobResult {
+  imageId: string;
+  status: AnalysisStatus;
+  defects: Defect[];
+  quarantined: QuarantinedDetection[];
+  attempts: number;
+  error?: string;
+}
+
+const DEFAULTS = {
+  concurrency: 3,
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  timeoutMs: 60000
+};
+
+// Errors that will not go away by retrying. They fail the current image and skip the rest.
+const isFatalError = (error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  return /api key|permission|unauthori[sz]ed|forbidden|\b40[13]\b/i.test(message);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// On timeout the call is aborted, and the attempt only ends once the call has settled: a
+// provider that ignores the signal keeps its slot, so retries never run alongside it.
+const withTimeout = async <T>(call: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> => {
+  const controller = new AbortController();
+  const pending = call(controller.signal);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), ms); });
+  try {
+    const settled = await Promise.race([pending.then(value => ({ value })), timedOut]);
+    if (settled) return settled.value;
+  } finally {
+    clearTimeout(timer);
+  }
+  controller.abort();
+  await pending.catch(() => undefined);
+  throw new Error(`Analysis timed out after ${ms}ms`);
+};
+
+// Exponential backoff with jitter: base, 2x base, 4x base ... capped at maxDelayMs
+const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// Analyzes images with bounded concurrency and retries. Never throws: every image
+// gets an outcome, so a failed call can't be mistaken for "no defects found".
+export const runAnalysisJobs = async (
+  images: InspectionImage[],
+  containerNumber: string,
+  lang: Language,
+  options: AnalysisRunnerOptions = {}
+): Promise<AnalysisJobResult[]> => {
+  const { concurrency, maxAttempts, baseDelayMs, maxDelayMs, timeoutMs } = { ...DEFAULTS, ...options };
+  const results: AnalysisJobResult[] = new Array(images.length);
+  let nextIndex = 0;
+  let completed = 0;
+  let aborted = false;
+
+  const runOne = async (image: InspectionImage): Promise<AnalysisJobResult> => {
+    let attempts = 0;
+    let lastError: unknown;
+    while (attempts < maxAttempts) {
+      if (aborted) {
+        return { imageId: image.id, status: 'SKIPPED', defects: [], quarantined: [], attempts, error: 'Skipped after a fatal error' };
+      }
+      attempts++;
+      try {
+        const { defects, quarantined } = await withTimeout(
+          signal => analyzeImage(image.url, containerNumber, image.id, image.side, lang, signal),
+          timeoutMs
+        );
+        return {
+          imageId: image.id,
+          status: 'SUCCEEDED',
+          defects: defects.map(d => withCedexSuggestions(d, image.side)),
+          quarantined,
+          attempts
+        };
+      } catch (error) {
+        lastError = error;
+        if (isFatalError(error)) {
+          aborted = true;
+          break;
+        }
+        if (attempts < maxAttempts) {
+          await sleep(backoffDelay(attempts, baseDelayMs, maxDelayMs));
+        }
+      }
+    }
+    return {
+      imageId: image.id,
+      status: 'FAILED',
+      defects: [],
+      quarantined: [],
+      attempts,
+      error: lastError instanceof Error ? lastError.message : String(lastError)
+    };
+  };
+
+  const worker = async () => {
+    while (nextIndex < images.length) {
+      const index = nextIndex++;
+      results[index] = await runOne(images[index]);
+      completed++;
+      options.onProgress?.(completed, images.length);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, images.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+};
+
+export const hasFailedAnalysis = (inspection: Inspection): boolean =>
+  inspection.images.some(img => img.analysisStatus === 'FAILED' || img.analysisStatus === 'SKIPPED');
+
+// Images that need another run. Images from before per-image status was tracked count as done.
+export const getImagesNeedingRetry = (inspection: Inspection): InspectionImage[] =>
+  inspection.images.filter(img => img.analysisStatus === 'FAILED' || img.analysisStatus === 'SKIPPED');
+
+// Inspection status from its images and defects. Failed images block completion.
+export const deriveInspectionStatus = (inspection: Inspection): Inspection['status'] => {
+  if (hasFailedAnalysis(inspection)) return 'REVIEW_NEEDED';
+  const allReviewed = !inspection.defects.some(needsReview);
+  return allReviewed ? 'COMPLETED' : 'REVIEW_NEEDED';
+};
+
+export const deriveOverallCondition = (inspection: Inspection): string => {
+  const openDefects = inspection.defects.filter(d => d.status !== ReviewStatus.REJECTED);
+  if (openDefects.length > 0) return 'DAMAGED';
+  return hasFailedAnalysis(inspection) ? 'INCOMPLETE' : 'SOUND';
+};
+
+// Merges runner results into an inspection: outcomes on the images, and the
+// re-analyzed images' defects replacing whatever they had before. Duplicates
+// across photos are then grouped again and the triage policy decides what it can.
+export const applyAnalysisResults = (inspection: Inspection, results: AnalysisJobResult[]): Inspection => {
+  const byImage = new Map(results.map(r => [r.imageId, r]));
+
+  const images = inspection.images.map(img => {
+    const result = byImage.get(img.id);
+    if (!result) return img;
+    return {
+      ...img,
+      analysisStatus: result.status,
+      analysisError: result.error,
+      analysisAttempts: (img.analysisAttempts || 0) + result.attempts,
+      quarantinedDetections: result.quarantined
+    };
+  });
+
+  const defects = [
+    ...inspection.defects.filter(d => !byImage.has(d.imageId) || byImage.get(d.imageId)!.status !== 'SUCCEEDED'),
+    ...results.flatMap(r => r.defects)
+  ];
+
+  const uniqueCodes = Array.from(new Set(defects.map(d => d.code)));
+  const updated: Inspection = triageInspection(mergeDuplicateDefects({
+    ...inspection,
+    images,
+    defects,
+    iiclTags: uniqueCodes.length > 0 ? uniqueCodes : ['IICL']
+  }));
+
+  return {
+    ...updated,
+    status: deriveInspectionStatus(updated),
+    overallCondition: deriveOverallCondition(updated)
+  };
+};
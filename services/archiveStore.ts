@@ -0,0 +1,85 @@
+import { Inspection } from '../types';
+import { completion, isIndexedDbAvailable, promisify } from './indexedDbRepository';
+
+// Long-term store for closed inspections moved out by the retention policy. Each record is
+// gzipped JSON (photos included) next to a few fields for listing. Kept on this device in
+// its own IndexedDB database, so archived jobs never slow down the working set.
+
+const DB_NAME = 'container_archive';
+const DB_VERSION = 1;
+const STORE = 'inspections';
+
+export interface ArchivedInspection {
+  id: string;
+  containerNumber: string;
+  timestamp: string;
+  archivedAt: string;
+  quoteTotal?: number;
+  size: number; // Compressed bytes
+}
+
+type ArchiveRecord = ArchivedInspection & { data: Blob };
+
+export const isArchiveAvailable = () => isIndexedDbAvailable() && typeof CompressionStream !== 'undefined';
+
+const gzip = (text: string) =>
+  new Response(new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'))).blob();
+
+const gunzip = (blob: Blob) =>
+  new Response(blob.stream().pipeThrough(new DecompressionStream('gzip'))).text();
+
+let ready: Promise<IDBDatabase> | null = null;
+
+const db = () => {
+  if (!ready) {
+    ready = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    ready.catch(() => { ready = null; });
+  }
+  return ready;
+};
+
+const summary = ({ data, ...rest }: ArchiveRecord): ArchivedInspection => rest;
+
+// `archivedAt` is given when a backup is restored, so the record keeps its original date
+export const archiveInspection = async (inspection: Inspection, archivedAt = new Date().toISOString()): Promise<ArchivedInspection> => {
+  const data = await gzip(JSON.stringify(inspection));
+  const record: ArchiveRecord = {
+    id: inspection.id,
+    containerNumber: inspection.containerNumber,
+    timestamp: inspection.timestamp,
+    archivedAt,
+    quoteTotal: inspection.quote?.total,
+    size: data.size,
+    data
+  };
+  const tx = (await db()).transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(record);
+  await completion(tx);
+  return summary(record);
+};
+
+// Newest first
+export const listArchived = async (): Promise<ArchivedInspection[]> => {
+  const store = (await db()).transaction(STORE, 'readonly').objectStore(STORE);
+  const records: ArchiveRecord[] = await promisify(store.index('timestamp').getAll());
+  return records.map(summary).reverse();
+};
+
+export const getArchivedInspection = async (id: string): Promise<Inspection | undefined> => {
+  const store = (await db()).transaction(STORE, 'readonly').objectStore(STORE);
+  const record: ArchiveRecord | undefined = await promisify(store.get(id));
+  return record ? JSON.parse(await gunzip(record.data)) : undefined;
+};
+
+export const removeArchived = async (id: string): Promise<void> => {
+  const tx = (await db()).transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await completion(tx);
+};
@@ -0,0 +1,115 @@
+import { AuditEvent, AuditQuoteState, Inspection, Language, User } from '../types';
+import { t, tDefect, tSide } from '../i18n';
+import { formatCedexLocation } from './cedexService';
+import { formatMoneyForPdf } from './currencyService';
+
+export type AuditChange = Pick<AuditEvent, 'action' | 'defectId' | 'before' | 'after' | 'amount' | 'detail' | 'quoteBefore' | 'quoteAfter'>;
+
+// Appends one entry to the inspection's audit trail. Existing entries are never touched.
+export const recordAudit = (inspection: Inspection, user: User, change: AuditChange): Inspection => ({
+  ...inspection,
+  auditLog: [
+    ...(inspection.auditLog || []),
+    {
+      id: `aud-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+      at: new Date().toISOString(),
+      actorId: user.id,
+      actorName: user.name,
+      actorRole: user.role,
+      ...change
+    }
+  ]
+});
+
+const quoteState = (inspection: Inspection): AuditQuoteState | undefined => inspection.quote && {
+  total: inspection.quote.total,
+  currency: inspection.quote.currency,
+  rateCardName: inspection.quote.rateCardName,
+  taxProfiles: Array.from(new Set((inspection.quote.taxLines || []).flatMap(line => line.profileNames)))
+};
+
+// A change that reprices the quote (customer, currency, repair time...). `field` is the
+// i18n key of what was changed; the quote is recorded as it stood before and after.
+export const recordQuoteChange = (
+  previous: Inspection,
+  updated: Inspection,
+  user: User,
+  field: string,
+  change: Pick<AuditEvent, 'defectId' | 'before' | 'after'> = {}
+): Inspection => recordAudit(updated, user, {
+  action: 'QUOTE_REPRICED',
+  detail: field,
+  ...change,
+  quoteBefore: quoteState(previous),
+  quoteAfter: quoteState(updated)
+});
+
+// Oldest first
+export const getAuditTrail = (inspection: Inspection): AuditEvent[] =>
+  [...(inspection.auditLog || [])].sort((a, b) => a.at.localeCompare(b.at));
+
+// Logs are append-only, so two copies of one combine into the union of their entries
+export const mergeAuditLogs = (...logs: (AuditEvent[] | undefined)[]): AuditEvent[] => {
+  const byId = new Map<string, AuditEvent>();
+  logs.forEach(log => (log || []).forEach(event => { if (!byId.has(event.id)) byId.set(event.id, event); }));
+  return Array.from(byId.values()).sort((a, b) => a.at.localeCompare(b.at));
+};
+
+export interface AuditLine {
+  action: string;
+  subject?: string;
+  before?: string;
+  after?: string;
+  amount?: string;
+  quote?: string; // Quote before -> after, for repricing changes
+}
+
+// "1.200.000 VND, Default, VAT 10%" (PDF-safe, whatever the currency)
+const describeQuoteState = (lang: Language, state?: AuditQuoteState) => state
+  ? [formatMoneyForPdf(state.total, state.currency), state.rateCardName || t(lang, 'default_rate_card'), state.taxProfiles.join(' / ') || '-'].join(', ')
+  : '-';
+
+// Human-readable entry for the timeline and the report. Amounts use `formatAmount`
+// (the PDF fonts have no currency symbols).
+export const describeAuditEvent = (
+  lang: Language,
+  inspection: Inspection,
+  event: AuditEvent,
+  formatAmount: (amount: number) => string
+): AuditLine => {
+  const defect = event.defectId ? inspection.defects.find(d => d.id === event.defectId) : undefined;
+  const side = defect && inspection.images.find(i => i.id === defect.imageId)?.side;
+  const subject = defect
+    ? [tDefect(lang, defect.code), defect.severity, side && tSide(lang, side), formatCedexLocation(defect)].filter(Boolean).join(' · ')
+    : event.defectId;
+  const status = (value?: string | number) =>
+    value === undefined ? undefined : t(lang, `review_status_${String(value).toLowerCase()}`);
+  const amount = (value?: string | number) =>
+    typeof value === 'number' ? formatAmount(value) : value === undefined ? undefined : String(value);
+
+  switch (event.action) {
+    case 'DEFECT_STATUS':
+      return { action: t(lang, 'audit_defect_status'), subject, before: status(event.before), after: status(event.after) };
+    case 'REPAIR_COST':
+      return { action: t(lang, 'audit_repair_cost'), subject, before: amount(event.before), after: amount(event.after) };
+    case 'QUOTE_APPROVED':
+    case 'INVOICE_GENERATED':
+      return {
+        action: t(lang, event.action === 'QUOTE_APPROVED' ? 'audit_quote_approved' : 'audit_invoice_generated'),
+        subject: event.detail,
+        before: event.before === undefined ? undefined : String(event.before),
+        after: event.after === undefined ? undefined : String(event.after),
+        amount: amount(event.amount)
+      };
+    case 'QUOTE_REPRICED':
+      return {
+        action: t(lang, 'audit_quote_repriced'),
+        subject: [event.detail && t(lang, event.detail), defect && subject].filter(Boolean).join(' · '),
+        before: event.before === undefined ? undefined : String(event.before),
+        after: event.after === undefined ? undefined : String(event.after),
+        quote: `${describeQuoteState(lang, event.quoteBefore)} -> ${describeQuoteState(lang, event.quoteAfter)}`
+      };
+    default:
+      return { action: event.action };
+  }
+};
@@ -0,0 +1,345 @@
+import { AppSettings, ExchangeRate, Inspection, LaborRate, ManifestItem, PricingRule, RateCard, TaxSettings } from '../types';
+import {
+  getInspections, getManifest, getPricingRules, getRateCards, getLaborRates, getExchangeRates, getTaxSettings, getSettings,
+  getSchemaVersion, restoreInspections, saveManifest, savePricingRules, saveRateCards, saveLaborRates, saveExchangeRates,
+  saveTaxSettings, saveSettings
+} from './dbService';
+import { CURRENT_SCHEMA_VERSION, getPendingMigrations, upgradeInspection, upgradeManifest, upgradePricingRules } from './migrations';
+import { mergeAuditLogs } from './auditService';
+import { archiveInspection, getArchivedInspection, isArchiveAvailable, listArchived, removeArchived } from './archiveStore';
+
+// One file with everything a device holds: inspections (photos included), archived inspections, manifest,
+// pricing rules, rate cards, labor rates, exchange rates, tax profiles and settings, stamped with the schema version they were saved under.
+// A checksum over the data catches truncated or hand-edited files before anything is restored.
+
+export const BACKUP_FORMAT = 'containerai-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+// An inspection from the retention archive, kept with the date it was archived
+export interface ArchivedBackupRecord {
+  archivedAt: string;
+  inspection: Inspection;
+}
+
+export interface BackupData {
+  inspections: Inspection[];
+  archived?: ArchivedBackupRecord[]; // Not in archives made before the retention archive was backed up
+  manifest: ManifestItem[];
+  pricingRules: PricingRule[];
+  rateCards?: RateCard[]; // Not in archives made before rate cards
+  laborRates?: LaborRate[]; // Not in archives made before labor rates
+  exchangeRates?: ExchangeRate[]; // Not in archives made before multi-currency quotes
+  taxSettings?: TaxSettings; // Not in archives made before tax profiles
+  settings: AppSettings;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  createdAt: string;
+  schemaVersion: number;
+  counts: { inspections: number; images: number; manifest: number; pricingRules: number };
+  checksum: string; // SHA-256 of JSON.stringify(data)
+  data: BackupData;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// What a restore would do. Built without writing anything; applyRestore carries it out.
+export interface RestorePlan {
+  mode: RestoreMode;
+  createdAt: string;
+  schemaVersion: number;
+  errors: string[]; // Any error blocks the restore
+  warnings: string[];
+  inspections: { add: number; update: number; keep: number; remove: number };
+  archived: { add: number; remove: number };
+  manifest: { add: number; remove: number };
+  pricingRules: { add: number; remove: number };
+  replacesSettings: boolean;
+  data?: BackupData; // Upgraded to the current schema and ready to write
+}
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const countImages = (inspections: Inspection[]) => inspections.reduce((sum, i) => sum + i.images.length, 0);
+
+// The archive lives only on this device (the server copy is removed when a job is archived),
+// so a backup is the only other place it exists
+const readArchive = async (): Promise<ArchivedBackupRecord[]> => {
+  if (!isArchiveAvailable()) return [];
+  const records: ArchivedBackupRecord[] = [];
+  for (const { id, archivedAt } of await listArchived()) {
+    const inspection = await getArchivedInspection(id);
+    if (inspection) records.push({ archivedAt, inspection });
+  }
+  return records;
+};
+
+export const createBackup = async (): Promise<BackupArchive> => {
+  const data: BackupData = {
+    inspections: await getInspections(),
+    archived: await readArchive(),
+    manifest: getManifest(),
+    pricingRules: getPricingRules(),
+    rateCards: getRateCards(),
+    laborRates: getLaborRates(),
+    exchangeRates: getExchangeRates(),
+    taxSettings: getTaxSettings(),
+    settings: getSettings()
+  };
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    schemaVersion: getSchemaVersion(),
+    counts: {
+      inspections: data.inspections.length,
+      images: countImages(data.inspections),
+      manifest: data.manifest.length,
+      pricingRules: data.pricingRules.length
+    },
+    checksum: await sha256(JSON.stringify(data)),
+    data
+  };
+};
+
+export const backupFileName = (archive: BackupArchive) =>
+  `containerai-backup-${archive.createdAt.slice(0, 10)}.json`;
+
+const duplicates = (ids: string[]) => ids.filter((id, index) => ids.indexOf(id) !== index);
+
+// Structural checks on the records themselves
+const checkRecords = (data: BackupData, errors: string[], warnings: string[]) => {
+  if (!Array.isArray(data.inspections) || !Array.isArray(data.manifest) || !Array.isArray(data.pricingRules)) {
+    errors.push('Inspections, manifest and pricing rules must be lists');
+    return;
+  }
+
+  data.inspections.forEach((inspection, index) => {
+    const label = inspection?.containerNumber || `#${index + 1}`;
+    if (typeof inspection?.id !== 'string' || !Array.isArray(inspection.images) || !Array.isArray(inspection.defects)) {
+      errors.push(`Inspection ${label}: missing id, images or defects`);
+      return;
+    }
+    const imageIds = new Set(inspection.images.map(img => img.id));
+    if (inspection.images.some(img => typeof img.url !== 'string' || !img.url.startsWith('data:'))) {
+      errors.push(`Inspection ${label}: photo data missing`);
+    }
+    if (inspection.defects.some(d => !imageIds.has(d.imageId))) {
+      warnings.push(`Inspection ${label}: defects point to photos that are not in the archive`);
+    }
+  });
+  duplicates(data.inspections.map(i => i?.id)).forEach(id => errors.push(`Inspection id ${id} appears more than once`));
+
+  if (data.archived !== undefined) {
+    if (!Array.isArray(data.archived) || data.archived.some(record =>
+      typeof record?.archivedAt !== 'string' || typeof record.inspection?.id !== 'string'
+      || !Array.isArray(record.inspection.images) || !Array.isArray(record.inspection.defects))) {
+      errors.push('Archived inspections: records without date, id, images or defects');
+      return;
+    }
+    duplicates(data.archived.map(record => record.inspection.id)).forEach(id => errors.push(`Archived inspection ${id} appears more than once`));
+  }
+
+  if (data.manifest.some(item => typeof item?.id !== 'string' || typeof item.containerNumber !== 'string')) {
+    errors.push('Manifest: items without id or container number');
+  }
+  duplicates(data.manifest.map(item => item?.id)).forEach(id => errors.push(`Manifest item ${id} appears more than once`));
+
+  if (data.pricingRules.some(rule => typeof rule?.id !== 'string')) {
+    errors.push('Pricing rules: rules without id');
+  }
+  duplicates(data.pricingRules.map(rule => rule?.id)).forEach(id => errors.push(`Pricing rule ${id} appears more than once`));
+};
+
+const lastChanged = (inspection: Inspection) => [
+  inspection.timestamp,
+  inspection.updatedAt,
+  inspection.modifiedAt,
+  ...(inspection.auditLog || []).map(event => event.at)
+].filter((v): v is string => Boolean(v)).sort().pop() || '';
+
+const sameRecord = (a: Inspection, b: Inspection) => JSON.stringify(a) === JSON.stringify(b);
+
+// Merge keeps whichever copy of an inspection was changed last (audit trails are combined),
+// adds manifest items, pricing rules, rate cards, labor rates, exchange rates, tax profiles and
+// customer tax assignments this device doesn't have, and keeps local settings.
+// Replace makes the device hold exactly what the archive holds.
+export const planRestore = async (text: string, mode: RestoreMode): Promise<RestorePlan> => {
+  const plan: RestorePlan = {
+    mode,
+    createdAt: '',
+    schemaVersion: 0,
+    errors: [],
+    warnings: [],
+    inspections: { add: 0, update: 0, keep: 0, remove: 0 },
+    archived: { add: 0, remove: 0 },
+    manifest: { add: 0, remove: 0 },
+    pricingRules: { add: 0, remove: 0 },
+    replacesSettings: mode === 'replace'
+  };
+
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    plan.errors.push('The file is not a backup archive (invalid JSON)');
+    return plan;
+  }
+  if (archive?.format !== BACKUP_FORMAT || !archive.data) {
+    plan.errors.push('The file is not a backup archive');
+    return plan;
+  }
+  plan.createdAt = archive.createdAt;
+  plan.schemaVersion = archive.schemaVersion;
+  if (archive.formatVersion > BACKUP_FORMAT_VERSION) {
+    plan.errors.push(`Archive format ${archive.formatVersion} is newer than this app supports`);
+  }
+  if (!(archive.schemaVersion >= 0) || archive.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    plan.errors.push(`Archive schema version ${archive.schemaVersion} is newer than this app (${CURRENT_SCHEMA_VERSION})`);
+  }
+  if ((await sha256(JSON.stringify(archive.data))) !== archive.checksum) {
+    plan.errors.push('Checksum mismatch: the archive is damaged or was edited');
+  }
+  checkRecords(archive.data, plan.errors, plan.warnings);
+  if (plan.errors.length > 0) return plan;
+
+  const { counts, data } = archive;
+  if (!counts || counts.inspections !== data.inspections.length || counts.images !== countImages(data.inspections)
+    || counts.manifest !== data.manifest.length || counts.pricingRules !== data.pricingRules.length) {
+    plan.errors.push('Record counts do not match the archive header');
+    return plan;
+  }
+
+  // Bring older archives up to the current schema, the same way stored data is migrated
+  const pending = getPendingMigrations(archive.schemaVersion);
+  let upgraded: BackupData;
+  try {
+    const pricingRules = upgradePricingRules(data.pricingRules, pending);
+    upgraded = {
+      pricingRules,
+      manifest: upgradeManifest(data.manifest, pending),
+      rateCards: (data.rateCards || getRateCards()).map(card => ({ ...card, rules: upgradePricingRules(card.rules, pending) })),
+      laborRates: data.laborRates || getLaborRates(),
+      exchangeRates: data.exchangeRates || getExchangeRates(),
+      taxSettings: data.taxSettings || getTaxSettings(),
+      inspections: data.inspections.map(i => upgradeInspection(i, pending, { pricingRules })),
+      archived: data.archived?.map(record => ({ ...record, inspection: upgradeInspection(record.inspection, pending, { pricingRules }) })),
+      settings: data.settings || getSettings() // Missing fields get defaults when read back
+    };
+  } catch (error) {
+    plan.errors.push(`Could not upgrade the archive to the current schema: ${error instanceof Error ? error.message : error}`);
+    return plan;
+  }
+  if (upgraded.pricingRules.some(rule => !Number.isFinite(rule.basePrice) || !Number.isFinite(rule.laborHours))) {
+    plan.errors.push('Pricing rules: invalid prices');
+    return plan;
+  }
+  if (pending.length > 0) plan.warnings.push(`Archive upgraded from schema version ${archive.schemaVersion} to ${CURRENT_SCHEMA_VERSION}`);
+
+  // Archives without archived records (older ones) leave the device's archive as it is
+  const currentArchived = new Set(isArchiveAvailable() ? (await listArchived()).map(a => a.id) : []);
+  const restoredArchive = upgraded.archived || [];
+  plan.archived.add = restoredArchive.filter(record => !currentArchived.has(record.inspection.id)).length;
+  if (mode === 'replace' && upgraded.archived) {
+    plan.archived.remove = Array.from(currentArchived).filter(id => !restoredArchive.some(r => r.inspection.id === id)).length;
+  }
+  if (restoredArchive.length > 0 && !isArchiveAvailable()) {
+    plan.warnings.push(`This browser cannot keep the archive: ${restoredArchive.length} archived inspections will not be restored`);
+  }
+
+  const current = new Map((await getInspections()).map(i => [i.id, i]));
+  const currentManifest = getManifest();
+  const currentRules = getPricingRules();
+  const archivedIds = new Set(upgraded.inspections.map(i => i.id));
+
+  const inspections: Inspection[] = [];
+  upgraded.inspections.forEach(inspection => {
+    const existing = current.get(inspection.id);
+    if (!existing) {
+      plan.inspections.add++;
+      inspections.push(inspection);
+    } else if (sameRecord(existing, inspection)) {
+      plan.inspections.keep++;
+    } else if (mode === 'replace' || lastChanged(inspection) > lastChanged(existing)) {
+      plan.inspections.update++;
+      inspections.push(mode === 'merge'
+        ? { ...inspection, auditLog: mergeAuditLogs(existing.auditLog, inspection.auditLog) }
+        : inspection);
+    } else {
+      plan.inspections.keep++;
+    }
+  });
+
+  if (mode === 'replace') {
+    plan.inspections.remove = Array.from(current.keys()).filter(id => !archivedIds.has(id)).length;
+    plan.manifest = {
+      add: upgraded.manifest.filter(item => !currentManifest.some(c => c.id === item.id)).length,
+      remove: currentManifest.filter(item => !upgraded.manifest.some(a => a.id === item.id)).length
+    };
+    plan.pricingRules = {
+      add: upgraded.pricingRules.filter(rule => !currentRules.some(c => c.id === rule.id)).length,
+      remove: currentRules.filter(rule => !upgraded.pricingRules.some(a => a.id === rule.id)).length
+    };
+    plan.data = upgraded;
+  } else {
+    const newItems = upgraded.manifest.filter(item => !currentManifest.some(c => c.id === item.id));
+    const newRules = upgraded.pricingRules.filter(rule => !currentRules.some(c => c.id === rule.id));
+    const currentCards = getRateCards();
+    const newCards = (upgraded.rateCards || []).filter(card => !currentCards.some(c => c.id === card.id));
+    const currentLabor = getLaborRates();
+    const newLabor = (upgraded.laborRates || []).filter(rate => !currentLabor.some(c => c.id === rate.id));
+    const currentRates = getExchangeRates();
+    const newRates = (upgraded.exchangeRates || []).filter(rate => !currentRates.some(c => c.id === rate.id));
+    const currentTax = getTaxSettings();
+    const archiveTax = upgraded.taxSettings;
+    plan.manifest.add = newItems.length;
+    plan.pricingRules.add = newRules.length;
+    plan.data = {
+      inspections,
+      archived: restoredArchive.filter(record => !currentArchived.has(record.inspection.id)),
+      manifest: [...currentManifest, ...newItems],
+      pricingRules: [...currentRules, ...newRules],
+      rateCards: [...currentCards, ...newCards],
+      laborRates: [...currentLabor, ...newLabor],
+      exchangeRates: [...currentRates, ...newRates],
+      taxSettings: archiveTax ? {
+        ...currentTax,
+        profiles: [...currentTax.profiles, ...archiveTax.profiles.filter(p => !currentTax.profiles.some(c => c.id === p.id))],
+        customers: [...currentTax.customers, ...archiveTax.customers.filter(a => !currentTax.customers.some(c => c.id === a.id))]
+      } : currentTax,
+      settings: getSettings()
+    };
+  }
+  return plan;
+};
+
+// Archived records are added (or, when replacing, made to match the backup) one by one
+const restoreArchive = async (records: ArchivedBackupRecord[], replace: boolean) => {
+  if (!isArchiveAvailable()) return;
+  for (const { inspection, archivedAt } of records) await archiveInspection(inspection, archivedAt);
+  if (!replace) return;
+  const kept = new Set(records.map(record => record.inspection.id));
+  for (const { id } of await listArchived()) {
+    if (!kept.has(id)) await removeArchived(id);
+  }
+};
+
+// Writes a plan from planRestore. Inspections go first, in one step; if that fails nothing else is touched.
+export const applyRestore = async (plan: RestorePlan): Promise<void> => {
+  if (!plan.data || plan.errors.length > 0) throw new Error('This restore plan has errors and cannot be applied');
+  const { inspections, archived, manifest, pricingRules, rateCards, laborRates, exchangeRates, taxSettings, settings } = plan.data;
+  await restoreInspections(inspections, { replace: plan.mode === 'replace' });
+  if (archived) await restoreArchive(archived, plan.mode === 'replace');
+  await saveManifest(manifest);
+  savePricingRules(pricingRules);
+  if (rateCards) saveRateCards(rateCards);
+  if (laborRates) saveLaborRates(laborRates);
+  if (exchangeRates) saveExchangeRates(exchangeRates);
+  if (taxSettings) saveTaxSettings(taxSettings);
+  saveSettings(settings);
+};
@@ -0,0 +1,128 @@
+import { BoundingBox, ComponentCode, ContainerSide, Defect, DefectCode } from '../types';
+
+// CEDEX face letter per captured side. Interior walls share the face of the wall they belong to.
+const FACE_BY_SIDE: Record<ContainerSide, string> = {
+  SIDE_1_EXT: 'L',
+  SIDE_1_INT: 'L',
+  SIDE_2_EXT: 'R',
+  SIDE_2_INT: 'R',
+  FRONT_EXT: 'F',
+  FRONT_INT: 'F',
+  DOOR_EXT: 'D',
+  DOOR_INT: 'D',
+  ROOF_EXT: 'T',
+  ROOF_INT: 'T',
+  UNDER_EXT: 'U',
+  FLOOR_INT: 'B'
+};
+
+// Share of the photo height treated as the top/bottom rail band, and of the width as corner posts
+const RAIL_BAND = 12;
+const POST_BAND = 8;
+
+export const LOCATION_CODE_PATTERN = /^[LRFDTUB][TBHLX][0-9][N0-9]$/;
+
+export const isValidLocationCode = (code: string) => LOCATION_CODE_PATTERN.test(code.toUpperCase());
+
+const isEnd = (side: ContainerSide) => side.startsWith('FRONT') || side.startsWith('DOOR');
+
+// Row letter: T/B for the rail bands, H/L for the upper/lower half, X when the damage spans both
+const rowFor = (box: BoundingBox) => {
+  if (box.ymax <= RAIL_BAND) return 'T';
+  if (box.ymin >= 100 - RAIL_BAND) return 'B';
+  if (box.ymax <= 50) return 'H';
+  if (box.ymin >= 50) return 'L';
+  return 'X';
+};
+
+// Section digit along the wall, numbered from the front end. Side walls and the
+// roof/floor use ten sections (1-9, 0); the end walls use four across their width.
+// Photos of the right wall are taken facing it, so the front end is on the right.
+const sectionFor = (side: ContainerSide, box: BoundingBox) => {
+  const center = (box.xmin + box.xmax) / 2;
+  const fromFront = side.startsWith('SIDE_2') ? 100 - center : center;
+  const sections = isEnd(side) ? 4 : 10;
+  const section = Math.min(sections, Math.floor(fromFront / (100 / sections)) + 1);
+  return String(section % 10);
+};
+
+export const suggestLocationCode = (side: ContainerSide, box: BoundingBox): string => {
+  const face = FACE_BY_SIDE[side] || 'L';
+  return `${face}${rowFor(box)}${sectionFor(side, box)}N`;
+};
+
+export const suggestComponentCode = (side: ContainerSide, box: BoundingBox, code?: DefectCode): ComponentCode => {
+  if (code === DefectCode.B) return ComponentCode.DPL;
+
+  const atTop = box.ymax <= RAIL_BAND;
+  const atBottom = box.ymin >= 100 - RAIL_BAND;
+  const atEdge = box.xmax <= POST_BAND || box.xmin >= 100 - POST_BAND;
+  const width = box.xmax - box.xmin;
+  const height = box.ymax - box.ymin;
+
+  if (side.startsWith('DOOR')) {
+    if (atTop) return ComponentCode.HDR;
+    if (atBottom) return ComponentCode.SIL;
+    if (atEdge) return side === 'DOOR_EXT' ? ComponentCode.DHG : ComponentCode.DGS;
+    if (width < 10 && height > 30) return ComponentCode.LRD;
+    return ComponentCode.DPN;
+  }
+  if (side.startsWith('FRONT')) {
+    if (atTop) return ComponentCode.TER;
+    if (atBottom) return ComponentCode.BER;
+    if (atEdge) return ComponentCode.CPO;
+    return ComponentCode.PAN;
+  }
+  if (side.startsWith('ROOF')) {
+    if (atTop || atBottom) return ComponentCode.TSR;
+    return side === 'ROOF_INT' ? ComponentCode.RBW : ComponentCode.RPN;
+  }
+  if (side === 'UNDER_EXT') {
+    return atTop || atBottom ? ComponentCode.BSR : ComponentCode.CRM;
+  }
+  if (side === 'FLOOR_INT') {
+    return atTop || atBottom ? ComponentCode.BSR : ComponentCode.FLB;
+  }
+
+  // Side walls
+  if (atTop) return ComponentCode.TSR;
+  if (atBottom) return ComponentCode.BSR;
+  if (atEdge) return ComponentCode.CPO;
+  return ComponentCode.PAN;
+};
+
+// Usual CEDEX repair method for each damage type
+const REPAIR_CODE_BY_DEFECT: Record<DefectCode, string> = {
+  [DefectCode.B]: 'RP',   // Replace
+  [DefectCode.DT]: 'SN',  // Straighten
+  [DefectCode.BW]: 'SN',
+  [DefectCode.BT]: 'SN',
+  [DefectCode.RO]: 'RP',
+  [DefectCode.CO]: 'GP',  // Grind and paint
+  [DefectCode.DL]: 'RP',
+  [DefectCode.LO]: 'RF',  // Refit
+  [DefectCode.BR]: 'WW',  // Weld
+  [DefectCode.CK]: 'WW',
+  [DefectCode.OL]: 'CL',  // Clean
+  [DefectCode.HO]: 'PA',  // Patch
+  [DefectCode.GD]: 'GP',
+  [DefectCode.CU]: 'PA',
+  [DefectCode.MA]: 'RP',
+  [DefectCode.MS]: 'RP',
+  [DefectCode.CT]: 'CL',
+  [DefectCode.DY]: 'CL',
+};
+
+export const suggestRepairCode = (code: DefectCode): string => REPAIR_CODE_BY_DEFECT[code] || 'RP';
+
+// Fills in location, component and repair codes unless a reviewer already set them
+export const withCedexSuggestions = (defect: Defect, side: ContainerSide): Defect => ({
+  ...defect,
+  locationCode: defect.locationCode || suggestLocationCode(side, defect.boundingBox),
+  componentCode: defect.componentCode || suggestComponentCode(side, defect.boundingBox, defect.code),
+  repairCode: defect.repairCode || suggestRepairCode(defect.code)
+});
+
+// "LB1N / BSR" style label for reports and quote lines
+export const formatCedexLocation = (defect: Defect): string =>
+  [defect.locationCode, defect.componentCode].filter(Boolean).join(' / ');
@@ -0,0 +1,65 @@
+// Change notifications between the parts of the app and between tabs/windows of it.
+// Every write in dbService (and records pulled in by sync) is published here; pages subscribe
+// and reload what they show. Other tabs hear about it over a BroadcastChannel, or through a
+// storage event on a ping key in browsers without one.
+
+export type DataTopic = 'inspections' | 'manifest' | 'pricingRules' | 'rateCards' | 'laborRates' | 'exchangeRates' | 'taxSettings' | 'settings';
+
+// Where a change was made: by this tab itself, by another tab, or pulled in from the server
+export type ChangeSource = 'this-tab' | 'other-tab' | 'server';
+
+export interface DataChange {
+  topic: DataTopic;
+  ids?: string[]; // Records that changed, when known
+  source: ChangeSource;
+}
+
+const CHANNEL_NAME = 'container_data_changes';
+const PING_KEY = 'container_data_change';
+
+type Listener = (change: DataChange) => void;
+
+const listeners = new Set<{ topics: DataTopic[]; listener: Listener }>();
+let channel: BroadcastChannel | null = null;
+let connected = false;
+
+const deliver = (change: DataChange) => {
+  listeners.forEach(({ topics, listener }) => {
+    if (topics.includes(change.topic)) listener(change);
+  });
+};
+
+const received = (change: DataChange) => deliver({ ...change, source: change.source === 'server' ? 'server' : 'other-tab' });
+
+const connect = () => {
+  if (connected || typeof window === 'undefined') return;
+  connected = true;
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<DataChange>) => received(event.data);
+  } else {
+    window.addEventListener('storage', (event) => {
+      if (event.key === PING_KEY && event.newValue) received(JSON.parse(event.newValue));
+    });
+  }
+};
+
+export const publishChange = (topic: DataTopic, ids?: string[], source: ChangeSource = 'this-tab') => {
+  connect();
+  const change: DataChange = { topic, ids, source };
+  deliver(change);
+  if (channel) {
+    channel.postMessage(change);
+  } else if (typeof localStorage !== 'undefined') {
+    // The nonce makes every ping a new value, so repeated changes still fire the event
+    localStorage.setItem(PING_KEY, JSON.stringify({ ...change, nonce: Math.random() }));
+  }
+};
+
+// Calls `listener` for every change to one of `topics`, in this tab or another. Returns an unsubscribe function.
+export const subscribeChanges = (topics: DataTopic[], listener: Listener) => {
+  connect();
+  const entry = { topics, listener };
+  listeners.add(entry);
+  return () => { listeners.delete(entry); };
+};
@@ -0,0 +1,148 @@
+import { ContainerNumberCheck, EquipmentCategory } from '../types';
+
+const EQUIPMENT_CATEGORIES: EquipmentCategory[] = ['U', 'J', 'Z'];
+
+// Characters OCR commonly mixes up. Only used where the character read can't stand: a digit
+// in the owner code, a letter in the serial, or anything but U/J/Z as the category. A
+// character that fits its slot is never swapped,
+// since any swap that happens to satisfy the check digit would pass (e.g. a serial typo
+// "fixed" by changing the owner code).
+const OCR_CONFUSIONS: string[][] = [
+  ['O', '0', 'D', 'Q'],
+  ['I', '1', 'L'],
+  ['B', '8'],
+  ['S', '5'],
+  ['Z', '2'],
+  ['G', '6'],
+  ['U', 'V']
+];
+
+// Upper bound on generated candidates, so a badly garbled read can't stall the UI
+const MAX_CANDIDATES = 4096;
+
+// ISO 6346 letter values: A=10 upwards, skipping multiples of 11
+const LETTER_VALUES: Record<string, number> = (() => {
+  const values: Record<string, number> = {};
+  let value = 10;
+  for (let c = 65; c <= 90; c++) {
+    if (value % 11 === 0) value++;
+    values[String.fromCharCode(c)] = value;
+    value++;
+  }
+  return values;
+})();
+
+const isLetter = (c: string) => c >= 'A' && c <= 'Z';
+const isDigit = (c: string) => c >= '0' && c <= '9';
+
+export const cleanContainerNumber = (raw: string): string => raw.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Check digit over the owner code, category and 6-digit serial (the first 10 characters)
+export const computeCheckDigit = (first10: string): number | null => {
+  const code = cleanContainerNumber(first10);
+  if (!/^[A-Z]{4}[0-9]{6}$/.test(code.slice(0, 10))) return null;
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const c = code[i];
+    const value = isLetter(c) ? LETTER_VALUES[c] : parseInt(c, 10);
+    sum += value * Math.pow(2, i);
+  }
+  return (sum % 11) % 10;
+};
+
+const isWellFormed = (code: string) =>
+  /^[A-Z]{3}[UJZ][0-9]{7}$/.test(code);
+
+const hasValidCheckDigit = (code: string) =>
+  isWellFormed(code) && computeCheckDigit(code) === parseInt(code[10], 10);
+
+const describe = (code: string, input: string, status: ContainerNumberCheck['status']): ContainerNumberCheck => {
+  const expected = computeCheckDigit(code);
+  return {
+    input,
+    normalized: code,
+    status,
+    ownerCode: code.slice(0, 3),
+    equipmentCategory: code[3] as EquipmentCategory,
+    serialNumber: code.slice(4, 10),
+    checkDigit: parseInt(code[10], 10),
+    expectedCheckDigit: expected === null ? undefined : expected
+  };
+};
+
+// Candidate characters for one position, given what the position must hold
+const alternativesFor = (c: string, position: number): string[] => {
+  const wantsLetter = position < 4;
+  const fits = (x: string) => {
+    if (position === 3) return EQUIPMENT_CATEGORIES.includes(x as EquipmentCategory);
+    return wantsLetter ? isLetter(x) : isDigit(x);
+  };
+  if (fits(c)) return [c];
+  const options = new Set<string>();
+  OCR_CONFUSIONS.forEach(group => {
+    if (group.includes(c)) group.filter(fits).forEach(x => options.add(x));
+  });
+  return Array.from(options);
+};
+
+const diff = (from: string, to: string): string[] => {
+  const changes: string[] = [];
+  for (let i = 0; i < to.length; i++) {
+    if (from[i] !== to[i]) changes.push(`${i + 1}: ${from[i]} -> ${to[i]}`);
+  }
+  return changes;
+};
+
+// Fixes OCR confusions by trying every plausible substitution for the characters that don't
+// fit their slot, keeping the candidates whose check digit validates. Only a unique best
+// candidate is used. A well-formed number with a wrong check digit is left alone (SUSPECT).
+export const correctContainerNumber = (raw: string): string | null => {
+  const code = cleanContainerNumber(raw);
+  if (code.length !== 11) return null;
+  if (hasValidCheckDigit(code)) return code;
+
+  const options = code.split('').map((c, i) => alternativesFor(c, i));
+  if (options.some(o => o.length === 0)) return null;
+
+  const total = options.reduce((n, o) => n * o.length, 1);
+  if (total > MAX_CANDIDATES) return null;
+
+  let best: string[] = [];
+  let bestChanges = Infinity;
+  const walk = (prefix: string) => {
+    if (prefix.length === 11) {
+      if (!hasValidCheckDigit(prefix)) return;
+      const changes = diff(code, prefix).length;
+      if (changes < bestChanges) {
+        best = [prefix];
+        bestChanges = changes;
+      } else if (changes === bestChanges) {
+        best.push(prefix);
+      }
+      return;
+    }
+    options[prefix.length].forEach(c => walk(prefix + c));
+  };
+  walk('');
+
+  return best.length === 1 ? best[0] : null;
+};
+
+export const validateContainerNumber = (raw: string): ContainerNumberCheck => {
+  const code = cleanContainerNumber(raw);
+
+  if (hasValidCheckDigit(code)) return describe(code, raw, 'VALID');
+
+  const corrected = correctContainerNumber(code);
+  if (corrected) {
+    return { ...describe(corrected, raw, 'CORRECTED'), corrections: diff(code, corrected) };
+  }
+
+  // Right shape but the check digit doesn't add up
+  if (isWellFormed(code)) return describe(code, raw, 'SUSPECT');
+
+  return { input: raw, normalized: code, status: 'INVALID' };
+};
+
+export const isValidContainerNumber = (raw: string): boolean =>
+  hasValidCheckDigit(cleanContainerNumber(raw));
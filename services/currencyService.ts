@@ -0,0 +1,62 @@
+import { Currency, ExchangeRate, QuoteExchangeRate } from '../types';
+import { BASE_CURRENCY } from '../constants';
+
+// Minor units each currency is rounded to
+const DECIMALS: Record<Currency, number> = { VND: 0, USD: 2, EUR: 2 };
+const LOCALES: Record<Currency, string> = { VND: 'vi-VN', USD: 'en-US', EUR: 'de-DE' };
+
+export const roundMoney = (amount: number, currency: Currency) => {
+  const factor = 10 ** DECIMALS[currency];
+  return Math.round(amount * factor) / factor;
+};
+
+const dateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+// For each currency, the table row in effect on the date (the latest that starts on or before it)
+export const ratesOn = (table: ExchangeRate[], date: Date = new Date()): QuoteExchangeRate[] => {
+  const day = dateKey(date);
+  const latest = new Map<Currency, ExchangeRate>();
+  table.forEach(row => {
+    if (row.currency === BASE_CURRENCY || !(row.rate > 0) || row.effectiveFrom > day) return;
+    const current = latest.get(row.currency);
+    if (!current || row.effectiveFrom > current.effectiveFrom) latest.set(row.currency, row);
+  });
+  return Array.from(latest.values()).map(({ currency, rate, effectiveFrom }) => ({ currency, rate, effectiveFrom }));
+};
+
+export const rateFor = (currency: Currency, rates?: QuoteExchangeRate[]) => rates?.find(r => r.currency === currency);
+
+// Currencies a quote can be priced in with these rates
+export const availableCurrencies = (rates: QuoteExchangeRate[]): Currency[] =>
+  [BASE_CURRENCY, ...rates.map(r => r.currency).filter(c => c !== BASE_CURRENCY)];
+
+// Rates recorded earlier win; currencies they lack are filled in from the other list
+export const mergeRates = (recorded: QuoteExchangeRate[] | undefined, current: QuoteExchangeRate[]): QuoteExchangeRate[] => [
+  ...(recorded || []),
+  ...current.filter(rate => !(recorded || []).some(r => r.currency === rate.currency))
+];
+
+// Through the base currency. undefined when a rate is missing.
+export const convertAmount = (amount: number, from: Currency, to: Currency, rates: QuoteExchangeRate[]): number | undefined => {
+  if (from === to) return amount;
+  const rateOf = (currency: Currency) => (currency === BASE_CURRENCY ? 1 : rates.find(r => r.currency === currency)?.rate);
+  const fromRate = rateOf(from);
+  const toRate = rateOf(to);
+  if (!fromRate || !toRate) return undefined;
+  return (amount * fromRate) / toRate;
+};
+
+// Display formatter (UI) - uses the currency symbol
+export const formatMoney = (amount: number, currency: Currency = BASE_CURRENCY) =>
+  new Intl.NumberFormat(LOCALES[currency], { style: 'currency', currency }).format(amount);
+
+// PDF formatter - the code as text, since the standard PDF fonts have no currency symbols
+export const formatMoneyForPdf = (amount: number, currency: Currency = BASE_CURRENCY) =>
+  new Intl.NumberFormat(LOCALES[currency], {
+    minimumFractionDigits: DECIMALS[currency],
+    maximumFractionDigits: DECIMALS[currency]
+  }).format(amount) + ` ${currency}`;
+
+// "1 USD = 27.000 VND (from 2024-01-01)"
+export const describeRate = (rate: QuoteExchangeRate) =>
+  `1 ${rate.currency} = ${formatMoneyForPdf(rate.rate, BASE_CURRENCY)} (from ${rate.effectiveFrom})`;
@@ -1,104 +1,392 @@
-import { Inspection, Defect, ReviewStatus, DefectCode, Severity, ManifestItem, PricingRule } from '../types';
-import { generateDefaultPricingRules } from '../constants';
+import { Inspection, Defect, ReviewStatus, DefectCode, Severity, ManifestItem, ManifestEntry, ManifestEntryCheck, PricingRule, RateCard, LaborRate, ExchangeRate, TaxSettings, AppSettings, User } from '../types';
+import { generateDefaultPricingRules, DEFAULT_SETTINGS, DEFAULT_EXCHANGE_RATES, DEFAULT_TAX_SETTINGS, DEFAULT_LABOR_RATES } from '../constants';
+import { needsReview } from './inspectionHelpers';
+import { InspectionRepository, createLocalStorageRepository } from './inspectionRepository';
+import { createIndexedDbRepository, isIndexedDbAvailable } from './indexedDbRepository';
+import { createRestRepository, apiRequest, ApiError } from './restRepository';
+import { createSyncedRepository, startSync } from './syncService';
+import { publishChange, subscribeChanges } from './changeFeed';
+import { checkManifestEntries, normalizeSizeType, pickNextJob } from './manifestService';
+import { CURRENT_SCHEMA_VERSION, getPendingMigrations, upgradeInspection, upgradeManifest, upgradePricingRules } from './migrations';
 
-const STORAGE_KEY = 'container_inspections_db_v3'; 
 const MANIFEST_KEY = 'container_manifest_v1';
 const PRICING_KEY = 'container_pricing_rules_v1';
+const RATE_CARDS_KEY = 'container_rate_cards_v1';
+const LABOR_RATES_KEY = 'container_labor_rates_v1';
+const EXCHANGE_RATES_KEY = 'container_exchange_rates_v1';
+const TAX_SETTINGS_KEY = 'container_tax_settings_v1';
+const SETTINGS_KEY = 'container_settings_v1';
+const SCHEMA_VERSION_KEY = 'container_schema_version';
 
 // Initialize DB if empty
 const init = () => {
-  if (!localStorage.getItem(STORAGE_KEY)) {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify([]));
-  }
   if (!localStorage.getItem(MANIFEST_KEY)) {
     localStorage.setItem(MANIFEST_KEY, JSON.stringify([]));
   }
   if (!localStorage.getItem(PRICING_KEY)) {
     localStorage.setItem(PRICING_KEY, JSON.stringify(generateDefaultPricingRules()));
   }
+  if (!localStorage.getItem(LABOR_RATES_KEY)) {
+    localStorage.setItem(LABOR_RATES_KEY, JSON.stringify(DEFAULT_LABOR_RATES));
+  }
+  if (!localStorage.getItem(EXCHANGE_RATES_KEY)) {
+    localStorage.setItem(EXCHANGE_RATES_KEY, JSON.stringify(DEFAULT_EXCHANGE_RATES));
+  }
+  if (!localStorage.getItem(TAX_SETTINGS_KEY)) {
+    localStorage.setItem(TAX_SETTINGS_KEY, JSON.stringify(DEFAULT_TAX_SETTINGS));
+  }
 };
 
-export const getInspections = (): Inspection[] => {
-  init();
-  const data = localStorage.getItem(STORAGE_KEY);
-  return data ? JSON.parse(data) : [];
+// Where inspections live, from STORAGE_BACKEND:
+// - indexeddb (default): one record per inspection, images as Blobs
+// - localstorage: the original single JSON array (also used when IndexedDB is unavailable)
+// - rest: the depot's local server (server/index.js), shared by every device. Records are
+//   kept on the device as well and synced in the background, so capture works offline.
+export type StorageBackend = 'indexeddb' | 'localstorage' | 'rest';
+
+export const getStorageBackend = (): StorageBackend => {
+  const configured = (process.env.STORAGE_BACKEND || '').toLowerCase();
+  if (configured === 'rest' || configured === 'localstorage') return configured;
+  return isIndexedDbAvailable() ? 'indexeddb' : 'localstorage';
 };
 
-export const getInspectionById = (id: string): Inspection | undefined => {
-  const list = getInspections();
-  return list.find(i => i.id === id);
+const isRemote = () => getStorageBackend() === 'rest';
+
+let repository: InspectionRepository | null = null;
+
+// Every inspection written carries the schema version it was written in
+const stamp = (inspection: Inspection): Inspection => ({ ...inspection, schemaVersion: CURRENT_SCHEMA_VERSION });
+
+// Records without a stamp on the server were written by an app that already had the REST
+// backend, which came with schema version 3
+const SHARED_SINCE_SCHEMA_VERSION = 3;
+
+// Records from the server may have been saved by an older version of the app: they are
+// upgraded from the schema they were written in
+const upgradePulled = (inspection: Inspection) => {
+  const pending = getPendingMigrations(inspection.schemaVersion ?? SHARED_SINCE_SCHEMA_VERSION);
+  if (pending.length === 0) return inspection;
+  return stamp(upgradeInspection(inspection, pending, { pricingRules: getPricingRules() }));
 };
 
-export const saveInspection = (inspection: Inspection): void => {
-  const list = getInspections();
-  list.unshift(inspection); // Add to top
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+export const getInspectionRepository = (): InspectionRepository => {
+  if (!repository) {
+    const backend = getStorageBackend();
+    const onDevice = () => (isIndexedDbAvailable() ? createIndexedDbRepository() : createLocalStorageRepository());
+    repository = backend === 'rest' ? createSyncedRepository(onDevice(), createRestRepository(), upgradePulled)
+      : backend === 'indexeddb' ? createIndexedDbRepository()
+      : createLocalStorageRepository();
+  }
+  return repository;
 };
 
-export const updateInspection = (inspection: Inspection): void => {
-    const list = getInspections();
-    const idx = list.findIndex(i => i.id === inspection.id);
-    if (idx !== -1) {
-        list[idx] = inspection;
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
-    }
+export const setInspectionRepository = (repo: InspectionRepository | null) => {
+  repository = repo;
 };
 
-export const updateInspectionDefects = (inspectionId: string, updatedDefects: Defect[]): void => {
-  const list = getInspections();
-  const idx = list.findIndex(i => i.id === inspectionId);
-  if (idx !== -1) {
-    list[idx].defects = updatedDefects;
-    
-    const allReviewed = updatedDefects.every(d => d.status !== ReviewStatus.PENDING);
-    if (allReviewed) {
-      list[idx].status = 'COMPLETED';
+// Schema migrations
+export const getSchemaVersion = (): number => parseInt(localStorage.getItem(SCHEMA_VERSION_KEY) || '0', 10) || 0;
+
+// Upgrades stored data to CURRENT_SCHEMA_VERSION. All or nothing: pricing rules and the
+// manifest are upgraded in memory first, inspections in a single transaction, and if any
+// step throws the previous localStorage values are restored and the version is not bumped.
+const runMigrations = async () => {
+  const fromVersion = getSchemaVersion();
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Stored data has schema version ${fromVersion}, newer than this app (${CURRENT_SCHEMA_VERSION}). Not migrating.`);
+    return;
+  }
+  const pending = getPendingMigrations(fromVersion);
+  if (pending.length === 0) return;
+
+  init();
+  const snapshot = {
+    [MANIFEST_KEY]: localStorage.getItem(MANIFEST_KEY),
+    [PRICING_KEY]: localStorage.getItem(PRICING_KEY),
+    [RATE_CARDS_KEY]: localStorage.getItem(RATE_CARDS_KEY)
+  };
+  const pricingRules = upgradePricingRules(getPricingRules(), pending);
+  const rateCards = getRateCards().map(card => ({ ...card, rules: upgradePricingRules(card.rules, pending) }));
+  const manifest = upgradeManifest(getManifest(), pending);
+
+  try {
+    localStorage.setItem(PRICING_KEY, JSON.stringify(pricingRules));
+    localStorage.setItem(RATE_CARDS_KEY, JSON.stringify(rateCards));
+    localStorage.setItem(MANIFEST_KEY, JSON.stringify(manifest));
+    await getInspectionRepository().migrate(inspection => stamp(upgradeInspection(inspection, pending, { pricingRules })));
+    localStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+  } catch (error) {
+    Object.entries(snapshot).forEach(([key, value]) => {
+      if (value === null) localStorage.removeItem(key);
+      else localStorage.setItem(key, value);
+    });
+    throw error;
+  }
+  pushShared('/manifest', manifest);
+  pushShared('/pricing-rules', pricingRules);
+  pushShared('/rate-cards', rateCards);
+};
+
+// With the REST backend the manifest, pricing rules, rate cards, labor rates, exchange rates and tax profiles are shared too. They are cached in
+// localStorage so the synchronous functions below keep working; writes go through to the server.
+const pushShared = (path: string, value: unknown, method: 'PUT' | 'POST' = 'PUT') => {
+  if (!isRemote()) return;
+  apiRequest(path, { method, body: value }).catch(error => {
+    console.error(`Could not save ${path} to the server`, error);
+  });
+};
+
+const pullSharedData = async () => {
+  if (!isRemote()) return;
+  try {
+    const [manifest, pricingRules, rateCards, laborRates, exchangeRates, taxSettings] = await Promise.all([
+      apiRequest<ManifestItem[]>('/manifest'),
+      apiRequest<PricingRule[] | null>('/pricing-rules'),
+      apiRequest<RateCard[] | null>('/rate-cards'),
+      apiRequest<LaborRate[] | null>('/labor-rates'),
+      apiRequest<ExchangeRate[] | null>('/exchange-rates'),
+      apiRequest<TaxSettings | null>('/tax-settings')
+    ]);
+    localStorage.setItem(MANIFEST_KEY, JSON.stringify(manifest));
+    publishChange('manifest');
+    if (pricingRules) {
+      localStorage.setItem(PRICING_KEY, JSON.stringify(pricingRules));
+      publishChange('pricingRules');
+    } else {
+      pushShared('/pricing-rules', getPricingRules()); // First device to connect seeds the server
+    }
+    if (rateCards) {
+      localStorage.setItem(RATE_CARDS_KEY, JSON.stringify(rateCards));
+      publishChange('rateCards');
     } else {
-      list[idx].status = 'REVIEW_NEEDED';
+      pushShared('/rate-cards', getRateCards());
     }
-    
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+    if (laborRates) {
+      localStorage.setItem(LABOR_RATES_KEY, JSON.stringify(laborRates));
+      publishChange('laborRates');
+    } else {
+      pushShared('/labor-rates', getLaborRates());
+    }
+    if (exchangeRates) {
+      localStorage.setItem(EXCHANGE_RATES_KEY, JSON.stringify(exchangeRates));
+      publishChange('exchangeRates');
+    } else {
+      pushShared('/exchange-rates', getExchangeRates());
+    }
+    if (taxSettings) {
+      localStorage.setItem(TAX_SETTINGS_KEY, JSON.stringify(taxSettings));
+      publishChange('taxSettings');
+    } else {
+      pushShared('/tax-settings', getTaxSettings());
+    }
+  } catch (error) {
+    console.error("Server unreachable, using the manifest and pricing data cached on this device", error);
   }
 };
 
+let ready: Promise<void> | null = null;
+
+// Starts background sync with the server (REST backend only)
+const startBackgroundSync = () => {
+  if (!isRemote()) return;
+  getInspectionRepository();
+  startSync().catch(error => {
+    console.error("Could not start background sync", error);
+  });
+};
+
+// Loads shared data and upgrades the stored schema. Runs once per page load;
+// inspection reads and writes wait for it.
+export const initStorage = (): Promise<void> => {
+  if (!ready) ready = pullSharedData().then(runMigrations).finally(startBackgroundSync);
+  return ready;
+};
+
+// A failed migration was rolled back; keep working on the data as it is rather than lock the depot out
+const afterMigration = () => initStorage().catch(error => {
+  console.error("Storage migration failed and was rolled back", error);
+});
+
+// Pages subscribe to the data they show and reload on every change, made in this tab or another
+export const subscribeToChanges = subscribeChanges;
+
+export const getInspections = async (): Promise<Inspection[]> => {
+  await afterMigration();
+  return getInspectionRepository().list();
+};
+
+export const getInspectionById = async (id: string): Promise<Inspection | undefined> => {
+  await afterMigration();
+  return getInspectionRepository().get(id);
+};
+
+export const getInspectionsByContainer = async (containerNumber: string): Promise<Inspection[]> => {
+  await afterMigration();
+  return getInspectionRepository().findByContainerNumber(containerNumber.toUpperCase().trim());
+};
+
+export const saveInspection = async (inspection: Inspection): Promise<void> => {
+  await afterMigration();
+  await getInspectionRepository().put(stamp(inspection));
+  publishChange('inspections', [inspection.id]);
+};
+
+export const updateInspection = async (inspection: Inspection): Promise<void> => {
+  await afterMigration();
+  await getInspectionRepository().put(stamp(inspection));
+  publishChange('inspections', [inspection.id]);
+};
+
+export const removeInspection = async (id: string): Promise<void> => {
+  await afterMigration();
+  await getInspectionRepository().remove(id);
+  publishChange('inspections', [id]);
+};
+
+export const restoreInspections = async (inspections: Inspection[], options: { replace?: boolean } = {}): Promise<void> => {
+  await afterMigration();
+  await getInspectionRepository().putAll(inspections.map(stamp), options);
+  publishChange('inspections');
+};
+
+export const updateInspectionDefects = async (inspectionId: string, updatedDefects: Defect[]): Promise<void> => {
+  const inspection = await getInspectionById(inspectionId);
+  if (!inspection) return;
+
+  // Auto-triaged defects count as decided; merged duplicates follow their primary
+  const allReviewed = !updatedDefects.some(needsReview);
+  // Images whose analysis failed may hide defects, so they block completion
+  const hasFailedImages = inspection.images.some(img => img.analysisStatus === 'FAILED' || img.analysisStatus === 'SKIPPED');
+
+  await updateInspection({
+    ...inspection,
+    defects: updatedDefects,
+    status: allReviewed && !hasFailedImages ? 'COMPLETED' : 'REVIEW_NEEDED'
+  });
+};
+
 // Manifest / Queue functions
+// Every change is a read-modify-write of one localStorage value, so it runs under a Web Lock:
+// two tabs can't read the same list and then overwrite each other's change. With the REST
+// backend single items go to the server as item updates, never as a stale copy of the whole list.
+const withManifestLock = <T>(fn: () => T): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request(MANIFEST_KEY, async () => fn())
+    : Promise.resolve().then(fn);
+
+const cacheManifest = (list: ManifestItem[]) => {
+  localStorage.setItem(MANIFEST_KEY, JSON.stringify(list));
+  publishChange('manifest');
+};
+
+const changeManifest = (change: (list: ManifestItem[]) => ManifestItem[]) =>
+  withManifestLock(() => cacheManifest(change(getManifest())));
+
+// Server-side item updates clear a field by sending null
+type ManifestItemChanges = { [K in keyof ManifestItem]?: ManifestItem[K] | null };
+
+// Changes one item: its details (priority, assignment, notes...) or its status
+export const updateManifestItem = (id: string, changes: ManifestItemChanges) => {
+  const apply = (item: ManifestItem) => {
+    const next = { ...item, ...changes } as Record<string, unknown>;
+    Object.keys(changes).forEach(key => { if (next[key] === null) delete next[key]; });
+    return next as unknown as ManifestItem;
+  };
+  pushShared(`/manifest/${encodeURIComponent(id)}`, changes);
+  return changeManifest(list => list.map(item => (item.id === id ? apply(item) : item)));
+};
+
 export const getManifest = (): ManifestItem[] => {
   init();
   const data = localStorage.getItem(MANIFEST_KEY);
   return data ? JSON.parse(data) : [];
 };
 
-export const addToManifest = (containerNumbers: string[]) => {
-  const current = getManifest();
-  const newItems: ManifestItem[] = containerNumbers.map((num): ManifestItem => ({
-    id: `man-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
-    containerNumber: num.toUpperCase().trim(),
-    status: 'PENDING',
-    addedAt: new Date().toISOString()
-  })).filter(item => item.containerNumber.length > 0);
-  
-  localStorage.setItem(MANIFEST_KEY, JSON.stringify([...current, ...newItems]));
+// Queues the entries that pass checkManifestEntries (checked against the list inside the
+// lock, so two tabs can't add the same container). Returns the check for every entry.
+export const addToManifest = async (entries: ManifestEntry[]): Promise<ManifestEntryCheck[]> => {
+  const addedAt = new Date().toISOString();
+  let checks: ManifestEntryCheck[] = [];
+  let newItems: ManifestItem[] = [];
+
+  await changeManifest(list => {
+    checks = checkManifestEntries(entries.filter(e => e.containerNumber.trim().length > 0), list);
+    newItems = checks.filter(check => !check.error).map(({ entry, containerNumber }): ManifestItem => ({
+      ...entry,
+      id: `man-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+      containerNumber,
+      priority: entry.priority || 'NORMAL',
+      sizeType: entry.sizeType ? normalizeSizeType(entry.sizeType) : undefined,
+      deadline: entry.deadline ? new Date(entry.deadline).toISOString() : undefined,
+      status: 'PENDING',
+      addedAt
+    }));
+    return [...list, ...newItems];
+  });
+
+  if (newItems.length > 0) pushShared('/manifest/items', newItems, 'POST');
+  return checks;
 };
 
-export const updateManifestStatus = (containerNumber: string, status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED') => {
-  const list = getManifest();
-  const idx = list.findIndex(i => i.containerNumber === containerNumber && i.status !== 'COMPLETED');
-  if (idx !== -1) {
-    list[idx].status = status;
-    localStorage.setItem(MANIFEST_KEY, JSON.stringify(list));
-  }
+export const updateManifestStatus = async (containerNumber: string, status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED') => {
+  const item = getManifest().find(i => i.containerNumber === containerNumber && i.status !== 'COMPLETED');
+  if (!item) return;
+  // Back to PENDING frees the job; COMPLETED keeps who did it
+  await updateManifestItem(item.id, status === 'PENDING'
+    ? { status, claimedBy: null, claimedByName: null, claimedAt: null }
+    : { status });
 };
 
-export const clearManifest = () => {
-    localStorage.removeItem(MANIFEST_KEY);
-    init();
+// An inspector can take a job that is pending, or go back to one they already hold
+const isClaimable = (item: ManifestItem, user: User) =>
+  item.status === 'PENDING' || (item.status === 'IN_PROGRESS' && (!item.claimedBy || item.claimedBy === user.id));
+
+// Takes a manifest item for `user`, atomically: returns undefined if someone else got it first.
+// With the REST backend the server decides, so two devices can't take the same container either;
+// when it can't be reached the claim is made on this device only.
+export const claimManifestItem = async (itemId: string, user: User): Promise<ManifestItem | undefined> => {
+  const claim = { status: 'IN_PROGRESS' as const, claimedBy: user.id, claimedByName: user.name, claimedAt: new Date().toISOString() };
+  const replaceItem = (item: ManifestItem) => changeManifest(list => list.map(i => (i.id === item.id ? item : i)));
+
+  if (isRemote()) {
+    try {
+      const item = await apiRequest<ManifestItem>(`/manifest/${encodeURIComponent(itemId)}/claim`, { method: 'POST', body: claim });
+      await replaceItem(item);
+      return item;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        const current = (error.body as { current?: ManifestItem })?.current;
+        if (current) await replaceItem(current);
+        return undefined;
+      }
+      console.warn("Could not claim the manifest item on the server, claiming on this device", error);
+    }
+  }
+
+  let claimed: ManifestItem | undefined;
+  await changeManifest(list => list.map(item => {
+    if (item.id !== itemId || !isClaimable(item, user)) return item;
+    claimed = { ...item, ...claim };
+    return claimed;
+  }));
+  return claimed;
 };
 
-export const getNextPendingManifestItem = (): ManifestItem | undefined => {
-    const list = getManifest();
-    return list.find(i => i.status === 'PENDING');
+// Puts a job someone started back in the queue
+export const releaseManifestItem = (itemId: string) =>
+  updateManifestItem(itemId, { status: 'PENDING', claimedBy: null, claimedByName: null, claimedAt: null });
+
+export const saveManifest = async (list: ManifestItem[]) => {
+    await withManifestLock(() => cacheManifest(list));
+    pushShared('/manifest', list);
 };
 
+export const clearManifest = () => saveManifest([]);
+
+// The most urgent pending job for this inspector (see pickNextJob)
+export const getNextPendingManifestItem = (user?: User): ManifestItem | undefined =>
+    pickNextJob(getManifest(), user?.id);
+
 // Pricing Rules
 export const getPricingRules = (): PricingRule[] => {
     init();
@@ -108,11 +396,83 @@ export const getPricingRules = (): PricingRule[] => {
 
 export const savePricingRules = (rules: PricingRule[]) => {
     localStorage.setItem(PRICING_KEY, JSON.stringify(rules));
+    publishChange('pricingRules');
+    pushShared('/pricing-rules', rules);
+};
+
+// Customer rate cards (the pricing rules above are the default card)
+export const getRateCards = (): RateCard[] => {
+    const data = localStorage.getItem(RATE_CARDS_KEY);
+    return data ? JSON.parse(data) : [];
+};
+
+export const saveRateCards = (cards: RateCard[]) => {
+    localStorage.setItem(RATE_CARDS_KEY, JSON.stringify(cards));
+    publishChange('rateCards');
+    pushShared('/rate-cards', cards);
+};
+
+// Labor rates by skill and depot (VND per hour)
+export const getLaborRates = (): LaborRate[] => {
+    init();
+    const data = localStorage.getItem(LABOR_RATES_KEY);
+    return data ? JSON.parse(data) : [];
+};
+
+export const saveLaborRates = (rates: LaborRate[]) => {
+    localStorage.setItem(LABOR_RATES_KEY, JSON.stringify(rates));
+    publishChange('laborRates');
+    pushShared('/labor-rates', rates);
+};
+
+// Exchange rates (VND per unit, by effective date)
+export const getExchangeRates = (): ExchangeRate[] => {
+    init();
+    const data = localStorage.getItem(EXCHANGE_RATES_KEY);
+    return data ? JSON.parse(data) : [];
+};
+
+export const saveExchangeRates = (rates: ExchangeRate[]) => {
+    localStorage.setItem(EXCHANGE_RATES_KEY, JSON.stringify(rates));
+    publishChange('exchangeRates');
+    pushShared('/exchange-rates', rates);
+};
+
+// Tax profiles and which customers get which
+export const getTaxSettings = (): TaxSettings => {
+    init();
+    const data = localStorage.getItem(TAX_SETTINGS_KEY);
+    return data ? JSON.parse(data) : DEFAULT_TAX_SETTINGS;
+};
+
+export const saveTaxSettings = (settings: TaxSettings) => {
+    localStorage.setItem(TAX_SETTINGS_KEY, JSON.stringify(settings));
+    publishChange('taxSettings');
+    pushShared('/tax-settings', settings);
+};
+
+// Settings (merged over defaults so new settings get a value on existing devices)
+export const getSettings = (): AppSettings => {
+    const data = localStorage.getItem(SETTINGS_KEY);
+    const stored: Partial<AppSettings> = data ? JSON.parse(data) : {};
+    return {
+        ...DEFAULT_SETTINGS,
+        ...stored,
+        image: { ...DEFAULT_SETTINGS.image, ...stored.image },
+        triage: { ...DEFAULT_SETTINGS.triage, ...stored.triage },
+        retention: { ...DEFAULT_SETTINGS.retention, ...stored.retention },
+        depot: { ...DEFAULT_SETTINGS.depot, ...stored.depot }
+    };
+};
+
+export const saveSettings = (settings: AppSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    publishChange('settings');
 };
 
 // Stats
-export const getDashboardStats = () => {
-  const list = getInspections();
+export const getDashboardStats = async () => {
+  const list = await getInspections();
   const total = list.length;
   const pendingReview = list.filter(i => i.status === 'REVIEW_NEEDED' || i.status === 'ANALYZING').length;
   const completed = list.filter(i => i.status === 'COMPLETED').length;
@@ -120,7 +480,7 @@ export const getDashboardStats = () => {
   const defectsByType: Record<string, number> = {};
   list.forEach(i => {
     i.defects.forEach(d => {
-      if (d.status !== ReviewStatus.REJECTED) {
+      if (d.status !== ReviewStatus.REJECTED && !d.mergedInto) {
         defectsByType[d.code] = (defectsByType[d.code] || 0) + 1;
       }
     });
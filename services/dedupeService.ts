@@ -0,0 +1,121 @@
+import { Inspection, InspectionImage, Defect, BoundingBox, ReviewStatus, Severity } from '../types';
+import { groupBySide } from './inspectionHelpers';
+
+// Boxes of the same code overlapping at least this much (intersection over union) are one defect
+const DUPLICATE_IOU = 0.3;
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  [Severity.LOW]: 0,
+  [Severity.MEDIUM]: 1,
+  [Severity.HIGH]: 2
+};
+
+const area = (b: BoundingBox) => Math.max(0, b.xmax - b.xmin) * Math.max(0, b.ymax - b.ymin);
+
+export const boxOverlap = (a: BoundingBox, b: BoundingBox): number => {
+  const intersection = area({
+    xmin: Math.max(a.xmin, b.xmin),
+    ymin: Math.max(a.ymin, b.ymin),
+    xmax: Math.min(a.xmax, b.xmax),
+    ymax: Math.min(a.ymax, b.ymax)
+  });
+  const union = area(a) + area(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+const isCloseUp = (image?: InspectionImage) => image?.label === 'CLOSE_UP';
+
+// The defect that represents a group (and gets priced): worst severity first, then
+// the most confident, preferring wide shots over close-ups which lack context.
+const pickPrimary = (group: Defect[], images: Map<string, InspectionImage>): Defect =>
+  [...group].sort((a, b) =>
+    SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+    Number(isCloseUp(images.get(a.imageId))) - Number(isCloseUp(images.get(b.imageId))) ||
+    b.confidence - a.confidence
+  )[0];
+
+// Groups likely duplicates of the same damage code on the same side and marks all
+// but one of each group as merged into it. Two defects are duplicates when:
+// - their boxes overlap, on the same photo or on two wide (overview/panel) shots of the side, or
+// - one is on a close-up and the wide shots of the side show exactly one defect of that code.
+// Box coordinates of a close-up can't be compared with a wide shot, hence the second rule. With
+// several candidates there's no telling which one the close-up shows, so a reviewer decides.
+// Rejected defects and ones a reviewer split out are left alone. Recomputed from scratch on every call.
+export const mergeDuplicateDefects = (inspection: Inspection): Inspection => {
+  const images = new Map(inspection.images.map(img => [img.id, img]));
+  const mergedInto = new Map<string, string>();
+
+  groupBySide(inspection).forEach(group => {
+    const candidates = group.defects.filter(d => d.status !== ReviewStatus.REJECTED && !d.keepSeparate);
+
+    // Union-find over the candidates of this side
+    const parent = new Map(candidates.map(d => [d.id, d.id]));
+    const find = (id: string): string => {
+      const p = parent.get(id)!;
+      if (p === id) return id;
+      const root = find(p);
+      parent.set(id, root);
+      return root;
+    };
+    const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+    candidates.forEach((a, i) => {
+      candidates.slice(i + 1).forEach(b => {
+        if (a.code !== b.code) return;
+        const comparable = a.imageId === b.imageId ||
+          (!isCloseUp(images.get(a.imageId)) && !isCloseUp(images.get(b.imageId)));
+        if (comparable && boxOverlap(a.boundingBox, b.boundingBox) >= DUPLICATE_IOU) union(a.id, b.id);
+      });
+    });
+
+    const wide = candidates.filter(d => !isCloseUp(images.get(d.imageId)));
+    candidates
+      .filter(d => isCloseUp(images.get(d.imageId)))
+      .forEach(closeUp => {
+        // Overlapping wide-shot boxes were grouped above and count as one candidate
+        const matches = new Set(wide.filter(d => d.code === closeUp.code).map(d => find(d.id)));
+        if (matches.size === 1) union(closeUp.id, Array.from(matches)[0]);
+      });
+
+    const groups = new Map<string, Defect[]>();
+    candidates.forEach(d => {
+      const root = find(d.id);
+      groups.set(root, [...(groups.get(root) || []), d]);
+    });
+    groups.forEach(members => {
+      if (members.length < 2) return;
+      const primary = pickPrimary(members, images);
+      members.forEach(d => { if (d.id !== primary.id) mergedInto.set(d.id, primary.id); });
+    });
+  });
+
+  return {
+    ...inspection,
+    defects: inspection.defects.map(d => {
+      const target = mergedInto.get(d.id);
+      if (target === d.mergedInto) return d;
+      const { mergedInto: _previous, ...rest } = d;
+      return target ? { ...rest, mergedInto: target } : rest;
+    })
+  };
+};
+
+export const isMergedDuplicate = (defect: Defect) => !!defect.mergedInto;
+
+// Defects merged into the given one
+export const getMergedDuplicates = (inspection: Inspection, defectId: string): Defect[] =>
+  inspection.defects.filter(d => d.mergedInto === defectId);
+
+// Photos showing a (merged) defect, the primary's photo first
+export const getEvidenceImageIds = (inspection: Inspection, defect: Defect): string[] =>
+  Array.from(new Set([defect.imageId, ...getMergedDuplicates(inspection, defect.id).map(d => d.imageId)]));
+
+// Reviewer override: takes a duplicate out of its group for good, so it is priced on its own
+export const splitMergedDefect = (inspection: Inspection, defectId: string): Inspection => ({
+  ...inspection,
+  defects: inspection.defects.map(d => {
+    if (d.id !== defectId) return d;
+    const { mergedInto: _previous, ...rest } = d;
+    return { ...rest, keepSeparate: true };
+  })
+});
@@ -0,0 +1,259 @@
+import { Inspection, ReviewStatus } from '../types';
+import { EDI_SENDER_ID } from '../constants';
+import { calculateDefectCost, containerProfile, laborContext, pricingTiers, quoteMoney } from './pricingService';
+import { getPricingRules, getRateCards } from './dbService';
+import { suggestRepairCode } from './cedexService';
+import {
+  segment, parseEdifact, component, formatEdifactDateTime, parseEdifactDateTime, EdifactSegment
+} from './edifactService';
+
+export interface DestimLine {
+  lineNumber: number;
+  locationCode: string;
+  componentCode: string;
+  damageCode: string;
+  repairCode: string;
+  laborHours: number;
+  laborCost: number;
+  partsCost: number;
+  total: number;
+}
+
+export interface DestimEstimate {
+  interchangeRef: string;
+  estimateNumber: string;
+  sender: string;
+  recipient: string;
+  createdAt: string;
+  containerNumber: string;
+  currency: string;
+  lines: DestimLine[];
+  subtotal: number;
+  tax: number;
+  total: number;
+}
+
+export interface DestimValidation {
+  valid: boolean;
+  errors: string[];
+}
+
+const MESSAGE_TYPE = ['DESTIM', 'D', '95B', 'UN', 'ITG14'];
+const CODE_LIST = ['ZZZ', 'CED']; // qualifiers marking CEDEX codes
+
+// Amounts are written with 2 decimals and no thousand separators
+const amount = (n: number) => (Math.round(n * 100) / 100).toFixed(2);
+const num = (value: string) => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+// Builds the estimate model from an inspection and its quote. Rejected defects and merged duplicates are left out.
+// Line totals are the defects' costs, as summed into the quote. Parts and labor hours missing on costs entered
+// by hand come from the rate card the quote was priced from. Quotes with unpriced defects can't be exported.
+export const buildDestimEstimate = (inspection: Inspection, recipient = 'UNKNOWN'): DestimEstimate => {
+  if (!inspection.quote) throw new Error('Inspection has no quote to export');
+  if (inspection.quote.unpricedDefectIds?.length) throw new Error('Quote has unpriced defects');
+  const card = getRateCards().find(c => c.id === inspection.quote?.rateCardId);
+  const tiers = pricingTiers(card, getPricingRules());
+  const container = containerProfile(inspection.sizeType);
+  const money = quoteMoney(inspection);
+  const labor = laborContext(inspection);
+
+  const lines = inspection.defects
+    .filter(d => d.status !== ReviewStatus.REJECTED && !d.mergedInto)
+    .map((d, index): DestimLine => {
+      const priced = d.partsCost === undefined || d.laborHours === undefined ? calculateDefectCost(d, tiers, container, money, labor) : d;
+      const partsCost = priced.partsCost || 0;
+      const laborHours = priced.laborHours || 0;
+      const total = d.repairCost ?? 0;
+      return {
+        lineNumber: index + 1,
+        locationCode: d.locationCode || '',
+        componentCode: d.componentCode || '',
+        damageCode: d.code,
+        repairCode: d.repairCode || suggestRepairCode(d.code),
+        laborHours,
+        // The repair cost is split as parts + remaining labor, also when edited by hand
+        laborCost: Math.max(0, total - partsCost),
+        partsCost,
+        total
+      };
+    });
+
+  const now = new Date();
+  return {
+    interchangeRef: `${now.getTime()}`.slice(-9),
+    estimateNumber: `EST-${inspection.id}`,
+    sender: EDI_SENDER_ID,
+    recipient,
+    createdAt: now.toISOString(),
+    containerNumber: inspection.containerNumber,
+    currency: inspection.quote.currency,
+    lines,
+    subtotal: inspection.quote.subtotal,
+    tax: inspection.quote.tax,
+    total: inspection.quote.total
+  };
+};
+
+// Serializes an estimate as an EDIFACT DESTIM interchange.
+// Per damage line: DAM (location, component, damage), WOR (repair), QTY (labor hours),
+// MOA (labor, parts, line total). Totals follow as MOA after the last line.
+export const serializeDestim = (estimate: DestimEstimate): string => {
+  const created = new Date(estimate.createdAt);
+  const stamp = formatEdifactDateTime(created);
+
+  const body: string[] = [
+    segment('UNH', '1', MESSAGE_TYPE),
+    segment('BGM', '960', estimate.estimateNumber, '9'),
+    segment('DTM', ['137', stamp, '203']),
+    segment('EQD', 'CN', estimate.containerNumber),
+    segment('CUX', ['1', estimate.currency])
+  ];
+
+  estimate.lines.forEach(line => {
+    body.push(
+      segment('DAM', String(line.lineNumber),
+        [line.locationCode, ...CODE_LIST],
+        [line.componentCode, ...CODE_LIST],
+        [line.damageCode, ...CODE_LIST]),
+      segment('WOR', [line.repairCode, ...CODE_LIST]),
+      segment('QTY', ['LBH', amount(line.laborHours)]),
+      segment('MOA', ['LAB', amount(line.laborCost)]),
+      segment('MOA', ['MAT', amount(line.partsCost)]),
+      segment('MOA', ['TOT', amount(line.total)])
+    );
+  });
+
+  body.push(
+    segment('MOA', ['SUB', amount(estimate.subtotal)]),
+    segment('MOA', ['TAX', amount(estimate.tax)]),
+    segment('MOA', ['GTO', amount(estimate.total)])
+  );
+  // UNT counts every segment from UNH to UNT inclusive
+  body.push(segment('UNT', String(body.length + 1), '1'));
+
+  return [
+    segment('UNB', ['UNOA', '2'], estimate.sender, estimate.recipient, [stamp.slice(2, 8), stamp.slice(8, 12)], estimate.interchangeRef),
+    ...body,
+    segment('UNZ', '1', estimate.interchangeRef)
+  ].join('\n');
+};
+
+export const exportDestim = (inspection: Inspection, recipient?: string): string =>
+  serializeDestim(buildDestimEstimate(inspection, recipient));
+
+const qualifiedAmount = (seg: EdifactSegment) => ({ qualifier: component(seg, 0, 0), value: num(component(seg, 0, 1)) });
+
+export const parseDestim = (text: string): DestimEstimate => {
+  const segments = parseEdifact(text);
+  const find = (tag: string) => segments.find(s => s.tag === tag);
+
+  const unb = find('UNB');
+  const unh = find('UNH');
+  if (!unh || component(unh, 1, 0) !== 'DESTIM') throw new Error('Not a DESTIM message');
+
+  const estimate: DestimEstimate = {
+    interchangeRef: component(unb, 4),
+    estimateNumber: component(find('BGM'), 1),
+    sender: component(unb, 1),
+    recipient: component(unb, 2),
+    createdAt: (parseEdifactDateTime(component(find('DTM'), 0, 1)) || new Date(0)).toISOString(),
+    containerNumber: component(find('EQD'), 1),
+    currency: component(find('CUX'), 0, 1),
+    lines: [],
+    subtotal: 0,
+    tax: 0,
+    total: 0
+  };
+
+  let current: DestimLine | null = null;
+  segments.forEach(seg => {
+    switch (seg.tag) {
+      case 'DAM':
+        current = {
+          lineNumber: parseInt(component(seg, 0), 10),
+          locationCode: component(seg, 1),
+          componentCode: component(seg, 2),
+          damageCode: component(seg, 3),
+          repairCode: '',
+          laborHours: 0,
+          laborCost: 0,
+          partsCost: 0,
+          total: 0
+        };
+        estimate.lines.push(current);
+        break;
+      case 'WOR':
+        if (current) current.repairCode = component(seg, 0);
+        break;
+      case 'QTY':
+        if (current && component(seg, 0, 0) === 'LBH') current.laborHours = num(component(seg, 0, 1));
+        break;
+      case 'MOA': {
+        const { qualifier, value } = qualifiedAmount(seg);
+        if (qualifier === 'LAB' && current) current.laborCost = value;
+        if (qualifier === 'MAT' && current) current.partsCost = value;
+        if (qualifier === 'TOT' && current) current.total = value;
+        if (qualifier === 'SUB') { estimate.subtotal = value; current = null; }
+        if (qualifier === 'TAX') estimate.tax = value;
+        if (qualifier === 'GTO') estimate.total = value;
+        break;
+      }
+    }
+  });
+
+  return estimate;
+};
+
+// Structural and arithmetic checks on a DESTIM file, for validating exports locally
+export const validateDestim = (text: string): DestimValidation => {
+  const errors: string[] = [];
+  let segments: EdifactSegment[];
+  try {
+    segments = parseEdifact(text);
+  } catch (e) {
+    return { valid: false, errors: ['Unreadable EDIFACT'] };
+  }
+
+  const unhIndex = segments.findIndex(s => s.tag === 'UNH');
+  const untIndex = segments.findIndex(s => s.tag === 'UNT');
+  if (segments[0]?.tag !== 'UNB') errors.push('Missing UNB interchange header');
+  if (segments[segments.length - 1]?.tag !== 'UNZ') errors.push('Missing UNZ interchange trailer');
+  if (unhIndex === -1 || untIndex === -1) {
+    errors.push('Missing UNH/UNT message envelope');
+  } else {
+    const declared = parseInt(component(segments[untIndex], 0), 10);
+    const actual = untIndex - unhIndex + 1;
+    if (declared !== actual) errors.push(`UNT segment count ${declared} does not match ${actual}`);
+  }
+  const unb = segments.find(s => s.tag === 'UNB');
+  const unz = segments.find(s => s.tag === 'UNZ');
+  if (unb && unz && component(unb, 4) !== component(unz, 1)) errors.push('UNB and UNZ references differ');
+
+  let estimate: DestimEstimate | null = null;
+  try {
+    estimate = parseDestim(text);
+  } catch (e) {
+    errors.push(e instanceof Error ? e.message : String(e));
+  }
+
+  if (estimate) {
+    if (!estimate.containerNumber) errors.push('Missing container number (EQD)');
+    estimate.lines.forEach(line => {
+      if (!line.damageCode) errors.push(`Line ${line.lineNumber}: missing damage code`);
+      if (!line.locationCode) errors.push(`Line ${line.lineNumber}: missing location code`);
+      if (!line.repairCode) errors.push(`Line ${line.lineNumber}: missing repair code`);
+    });
+    const lineSum = estimate.lines.reduce((sum, l) => sum + l.total, 0);
+    if (Math.abs(lineSum - estimate.subtotal) > 0.01 * Math.max(1, estimate.lines.length)) {
+      errors.push(`Line totals ${amount(lineSum)} do not add up to subtotal ${amount(estimate.subtotal)}`);
+    }
+    if (Math.abs(estimate.subtotal + estimate.tax - estimate.total) > 0.01) {
+      errors.push('Subtotal plus tax does not equal the total');
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+};
@@ -0,0 +1,93 @@
+import { DetectionProvider, Language } from '../types';
+import { createGeminiProvider } from './geminiService';
+import { createMockProvider } from './mockDetectionProvider';
+import { createFixtureProvider, createRecordingProvider } from './fixtureDetectionProvider';
+import { validateContainerNumber } from './containerNumberService';
+import { normalizeDetections, DetectionResult } from './detectionValidation';
+
+const PROVIDER_KEY = 'container_detection_provider';
+
+const providerFactories: Record<string, () => DetectionProvider> = {
+  gemini: () => createGeminiProvider(),
+  fixture: () => createFixtureProvider(),
+  mock: () => createMockProvider()
+};
+
+let activeProvider: DetectionProvider | null = null;
+
+export const registerDetectionProvider = (id: string, factory: () => DetectionProvider) => {
+  providerFactories[id] = factory;
+};
+
+export const getAvailableProviders = (): string[] => Object.keys(providerFactories);
+
+// Providers whose results are made up or replayed, never read from the photos
+const DEMO_PROVIDERS = ['mock', 'fixture'];
+
+// Picks the provider: explicit device setting, then build env, then Gemini. Mock and fixture
+// data are only used when explicitly selected; without an API key Gemini fails the analysis
+// (and Capture says why) rather than saving made-up damage against a real container.
+const resolveProviderId = (): string => {
+  const stored = localStorage.getItem(PROVIDER_KEY);
+  if (stored && providerFactories[stored]) return stored;
+  const fromEnv = process.env.DETECTION_PROVIDER;
+  if (fromEnv && providerFactories[fromEnv]) return fromEnv;
+  return 'gemini';
+};
+
+export const getDetectionProvider = (): DetectionProvider => {
+  if (!activeProvider) {
+    const provider = providerFactories[resolveProviderId()]();
+    activeProvider = process.env.DETECTION_RECORD === 'true' ? createRecordingProvider(provider) : provider;
+  }
+  return activeProvider;
+};
+
+// The provider's id without the recording wrapper
+export const baseProviderId = (id: string) => id.replace(/\+record$/, '');
+
+export const isDemoProvider = (id?: string) => !!id && DEMO_PROVIDERS.includes(baseProviderId(id));
+
+// i18n key of a warning to show wherever detections are made, if any
+export const getDetectionWarning = (): string | undefined => {
+  const id = baseProviderId(getDetectionProvider().id);
+  if (id === 'gemini' && !process.env.API_KEY) return 'detection_no_api_key';
+  if (isDemoProvider(id)) return 'detection_demo_provider';
+  return undefined;
+};
+
+// Pass a provider instance (tests, demos) or a registered id (persisted for this device)
+export const setDetectionProvider = (provider: DetectionProvider | string | null) => {
+  if (typeof provider === 'string') {
+    localStorage.setItem(PROVIDER_KEY, provider);
+    activeProvider = null;
+  } else if (provider === null) {
+    localStorage.removeItem(PROVIDER_KEY);
+    activeProvider = null;
+  } else {
+    activeProvider = provider;
+  }
+};
+
+// Provider output is never trusted as-is: it is validated into Defects, with rejects quarantined
+export const analyzeImage = async (
+  base64Image: string,
+  containerNumber: string,
+  imageId: string,
+  side: string,
+  lang: Language,
+  signal?: AbortSignal
+): Promise<DetectionResult> => {
+  const raw = await getDetectionProvider().analyze({ base64Image, containerNumber, imageId, side, lang, signal });
+  return normalizeDetections(raw, imageId);
+};
+
+// OCR result run through ISO 6346 correction. Unfixable reads are still returned
+// so the inspector can see and correct them.
+export const readContainerNumber = async (base64Image: string): Promise<string | null> => {
+  const raw = await getDetectionProvider().readContainerNumber(base64Image);
+  if (!raw) return null;
+  const check = validateContainerNumber(raw);
+  if (check.normalized.length < 4) return null;
+  return check.normalized;
+};
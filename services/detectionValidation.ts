@@ -0,0 +1,134 @@
+import { Defect, DefectCode, Severity, ReviewStatus, BoundingBox, RawDetection, QuarantinedDetection } from '../types';
+
+export interface DetectionResult {
+  defects: Defect[];
+  quarantined: QuarantinedDetection[];
+}
+
+// Boxes thinner than this (in %) are treated as noise
+const MIN_BOX_SIZE = 0.5;
+
+const DEFECT_CODES = Object.values(DefectCode) as string[];
+const SEVERITIES = Object.values(Severity) as string[];
+
+// Marks an entry as invalid; caught per entry in normalizeDetections
+class InvalidDetection extends Error {}
+
+const toNumber = (value: unknown): number => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : NaN;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Accepts [ymin, xmin, ymax, xmax] (Gemini's box_2d) or a { ymin, xmin, ymax, xmax } object
+const readBox = (d: RawDetection): number[] => {
+  const raw = d.box_2d ?? d.boundingBox;
+  let values: unknown[];
+  if (Array.isArray(raw)) {
+    values = raw;
+  } else if (raw && typeof raw === 'object') {
+    const b = raw as Record<string, unknown>;
+    values = [b.ymin, b.xmin, b.ymax, b.xmax];
+  } else {
+    throw new InvalidDetection('missing bounding box');
+  }
+  if (values.length !== 4) throw new InvalidDetection(`bounding box has ${values.length} values, expected 4`);
+  const numbers = values.map(toNumber);
+  if (numbers.some(isNaN)) throw new InvalidDetection('bounding box contains non-numeric values');
+  return numbers;
+};
+
+// Models answer in percent (0-100), on Gemini's native 0-1000 grid, or normalized (0-1).
+// The scale is decided once per response so small boxes are not misread.
+const detectScale = (boxes: number[][]): number => {
+  const max = Math.max(0, ...boxes.flat());
+  if (max > 100) return 0.1;
+  if (max > 0 && max <= 1) return 100;
+  return 1;
+};
+
+// Scales to percent, swaps inverted edges and clamps to the image
+export const normalizeBoundingBox = (box: BoundingBox, scale = 1): BoundingBox => {
+  const y1 = clamp(box.ymin * scale, 0, 100);
+  const y2 = clamp(box.ymax * scale, 0, 100);
+  const x1 = clamp(box.xmin * scale, 0, 100);
+  const x2 = clamp(box.xmax * scale, 0, 100);
+  return {
+    ymin: Math.min(y1, y2),
+    xmin: Math.min(x1, x2),
+    ymax: Math.max(y1, y2),
+    xmax: Math.max(x1, x2)
+  };
+};
+
+const readCode = (value: unknown): DefectCode => {
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  if (!DEFECT_CODES.includes(code)) throw new InvalidDetection(`unknown defect code "${String(value)}"`);
+  return code as DefectCode;
+};
+
+const readSeverity = (value: unknown): Severity => {
+  const severity = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  if (!SEVERITIES.includes(severity)) throw new InvalidDetection(`unknown severity "${String(value)}"`);
+  return severity as Severity;
+};
+
+// Accepts 0-1, or a percentage (e.g. 87) which some models return
+const readConfidence = (value: unknown): number => {
+  const n = toNumber(value);
+  if (isNaN(n)) throw new InvalidDetection('missing confidence');
+  return clamp(n > 1 && n <= 100 ? n / 100 : n, 0, 1);
+};
+
+// Turns raw provider output into well-formed Defects. Invalid entries are not
+// dropped silently: they come back in `quarantined` with the reason.
+export const normalizeDetections = (raw: unknown, imageId: string): DetectionResult => {
+  const defects: Defect[] = [];
+  const quarantined: QuarantinedDetection[] = [];
+
+  if (!Array.isArray(raw)) {
+    if (raw !== undefined && raw !== null) quarantined.push({ raw, reason: 'response is not a list of detections' });
+    return { defects, quarantined };
+  }
+
+  const boxes = raw.map(d => {
+    try {
+      return d && typeof d === 'object' ? readBox(d as RawDetection) : null;
+    } catch {
+      return null;
+    }
+  });
+  const scale = detectScale(boxes.filter((b): b is number[] => b !== null));
+
+  raw.forEach((entry, index) => {
+    try {
+      if (!entry || typeof entry !== 'object') throw new InvalidDetection('entry is not an object');
+      const d = entry as RawDetection;
+      const code = readCode(d.code);
+      const severity = readSeverity(d.severity);
+      const confidence = readConfidence(d.confidence);
+      const [ymin, xmin, ymax, xmax] = boxes[index] || readBox(d);
+      const boundingBox = normalizeBoundingBox({ ymin, xmin, ymax, xmax }, scale);
+      if (boundingBox.ymax - boundingBox.ymin < MIN_BOX_SIZE || boundingBox.xmax - boundingBox.xmin < MIN_BOX_SIZE) {
+        throw new InvalidDetection('bounding box is empty or outside the image');
+      }
+
+      defects.push({
+        id: `def-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        imageId,
+        code,
+        severity,
+        confidence,
+        description: typeof d.description === 'string' ? d.description.trim() : '',
+        boundingBox,
+        status: ReviewStatus.PENDING
+      });
+    } catch (error) {
+      if (!(error instanceof InvalidDetection)) throw error;
+      quarantined.push({ raw: entry, reason: error.message });
+    }
+  });
+
+  return { defects, quarantined };
+};
@@ -0,0 +1,80 @@
+// Minimal UN/EDIFACT syntax: segments end with ', elements are separated by +,
+// components by : and ? releases (escapes) the next character.
+
+export type EdifactElement = string[]; // components
+export interface EdifactSegment {
+  tag: string;
+  elements: EdifactElement[];
+}
+
+const SEGMENT_TERMINATOR = "'";
+const ELEMENT_SEPARATOR = '+';
+const COMPONENT_SEPARATOR = ':';
+const RELEASE = '?';
+
+export const escapeEdifact = (value: string): string =>
+  value.replace(/[?+:']/g, c => RELEASE + c);
+
+// Builds one segment. Elements are strings or lists of components; empty trailing parts are dropped.
+export const segment = (tag: string, ...elements: (string | number | undefined | (string | number | undefined)[])[]): string => {
+  const parts = elements.map(el => {
+    const components = (Array.isArray(el) ? el : [el]).map(c => (c === undefined ? '' : escapeEdifact(String(c))));
+    while (components.length > 1 && components[components.length - 1] === '') components.pop();
+    return components.join(COMPONENT_SEPARATOR);
+  });
+  while (parts.length > 0 && parts[parts.length - 1] === '') parts.pop();
+  return [tag, ...parts].join(ELEMENT_SEPARATOR) + SEGMENT_TERMINATOR;
+};
+
+// Splits on unreleased separators
+const splitReleased = (text: string, separator: string): string[] => {
+  const out: string[] = [];
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === RELEASE && i + 1 < text.length) {
+      current += c + text[i + 1];
+      i++;
+    } else if (c === separator) {
+      out.push(current);
+      current = '';
+    } else {
+      current += c;
+    }
+  }
+  out.push(current);
+  return out;
+};
+
+const unescape = (value: string) => value.replace(/\?(.)/g, '$1');
+
+export const parseEdifact = (text: string): EdifactSegment[] => {
+  // Skip the optional UNA service string advice; this parser only supports the default separators
+  const body = text.replace(/^UNA.{6}/, '');
+  return splitReleased(body, SEGMENT_TERMINATOR)
+    .map(s => s.replace(/^[\r\n\s]+/, ''))
+    .filter(s => s.length > 0)
+    .map(raw => {
+      const [tag, ...elements] = splitReleased(raw, ELEMENT_SEPARATOR);
+      return {
+        tag: tag.trim(),
+        elements: elements.map(el => splitReleased(el, COMPONENT_SEPARATOR).map(unescape))
+      };
+    });
+};
+
+// Component accessor that tolerates missing elements
+export const component = (seg: EdifactSegment | undefined, element: number, comp = 0): string =>
+  seg?.elements[element]?.[comp] ?? '';
+
+// EDIFACT date/time, format 203 (CCYYMMDDHHMM)
+export const formatEdifactDateTime = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}`;
+};
+
+export const parseEdifactDateTime = (value: string): Date | null => {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?/);
+  if (!m) return null;
+  return new Date(+m[1], +m[2] - 1, +m[3], +(m[4] || 0), +(m[5] || 0));
+};
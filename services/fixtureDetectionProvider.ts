@@ -0,0 +1,75 @@
+import { DetectionProvider, RawDetection } from '../types';
+
+const FIXTURES_KEY = 'container_detection_fixtures_v1';
+
+// A recorded provider response, keyed by a hash of the image data
+export interface DetectionFixture {
+  imageHash: string;
+  side?: string;
+  detections: RawDetection[];
+  containerNumber?: string | null;
+}
+
+// FNV-1a over the image data URL. Cheap and stable across sessions,
+// which is all we need to find a recording again.
+export const hashImage = (base64Image: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < base64Image.length; i++) {
+    hash ^= base64Image.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16).padStart(8, '0')}-${base64Image.length}`;
+};
+
+export const getRecordedFixtures = (): DetectionFixture[] => {
+  const data = localStorage.getItem(FIXTURES_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+export const saveRecordedFixture = (fixture: DetectionFixture) => {
+  const list = getRecordedFixtures().filter(f => f.imageHash !== fixture.imageHash);
+  list.push(fixture);
+  localStorage.setItem(FIXTURES_KEY, JSON.stringify(list));
+};
+
+export const clearRecordedFixtures = () => {
+  localStorage.removeItem(FIXTURES_KEY);
+};
+
+// Replays fixtures deterministically: the same image always yields the same defects.
+// Images without a recording return no defects.
+export const createFixtureProvider = (fixtures?: DetectionFixture[]): DetectionProvider => {
+  const lookup = (base64Image: string) => {
+    const hash = hashImage(base64Image);
+    const source = fixtures || getRecordedFixtures();
+    return source.find(f => f.imageHash === hash);
+  };
+
+  return {
+    id: 'fixture',
+    analyze: async ({ base64Image }) => {
+      const fixture = lookup(base64Image);
+      return fixture ? fixture.detections : [];
+    },
+    readContainerNumber: async (base64Image) => lookup(base64Image)?.containerNumber ?? null
+  };
+};
+
+// Wraps another provider and stores its answers as fixtures for later replay
+export const createRecordingProvider = (inner: DetectionProvider): DetectionProvider => ({
+  id: `${inner.id}+record`,
+  analyze: async (request) => {
+    const detections = await inner.analyze(request);
+    const imageHash = hashImage(request.base64Image);
+    const existing = getRecordedFixtures().find(f => f.imageHash === imageHash);
+    saveRecordedFixture({ ...existing, imageHash, side: request.side, detections });
+    return detections;
+  },
+  readContainerNumber: async (base64Image) => {
+    const containerNumber = await inner.readContainerNumber(base64Image);
+    const imageHash = hashImage(base64Image);
+    const existing = getRecordedFixtures().find(f => f.imageHash === imageHash);
+    saveRecordedFixture({ detections: [], ...existing, imageHash, containerNumber });
+    return containerNumber;
+  }
+});
@@ -1,7 +1,12 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { Defect, DefectCode, Severity, ReviewStatus, Language } from '../types';
+import { DefectCode, Severity, DetectionProvider, DetectionRequest, RawDetection } from '../types';
 
-const MODEL_NAME = 'gemini-2.5-flash';
+const DEFAULT_MODEL_NAME = 'gemini-2.5-flash';
+
+interface GeminiProviderOptions {
+  apiKey?: string;
+  model?: string;
+}
 
 // Helper to clean base64 string
 const cleanBase64 = (b64: string) => b64.replace(/^data:image\/(png|jpg|jpeg);base64,/, "");
@@ -16,20 +21,33 @@ const getBase64Data = (base64String: string) => {
   return base64String.replace(/^data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+);base64,/, "");
 };
 
-export const analyzeImage = async (
-  base64Image: string, 
-  containerNumber: string,
-  imageId: string,
-  side: string,
-  lang: Language
-): Promise<Defect[]> => {
-  
-  if (!process.env.API_KEY) {
-    console.error("API Key missing");
-    throw new Error("API Key missing");
-  }
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): DetectionProvider => {
+  const apiKey = options.apiKey ?? process.env.API_KEY;
+  const model = options.model || process.env.GEMINI_MODEL || DEFAULT_MODEL_NAME;
+
+  // The client is created once per provider instead of on every call
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!apiKey) {
+      console.error("API Key missing");
+      throw new Error("API Key missing");
+    }
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    id: 'gemini',
+    analyze: async (request) => analyzeWithGemini(getClient(), model, request),
+    readContainerNumber: async (base64Image) => readContainerNumberWithGemini(getClient(), model, base64Image)
+  };
+};
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const analyzeWithGemini = async (
+  ai: GoogleGenAI,
+  model: string,
+  { base64Image, containerNumber, side, lang, signal }: DetectionRequest
+): Promise<RawDetection[]> => {
   const targetLanguage = lang === 'vi' ? 'Vietnamese' : 'English';
 
   const prompt = `
@@ -72,7 +90,7 @@ export const analyzeImage = async (
     const data = getBase64Data(base64Image);
 
     const response = await ai.models.generateContent({
-      model: MODEL_NAME,
+      model,
       contents: {
         parts: [
             { inlineData: { mimeType, data } },
@@ -80,6 +98,7 @@ export const analyzeImage = async (
         ]
       },
       config: {
+        abortSignal: signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -111,35 +130,23 @@ export const analyzeImage = async (
     const parsed = JSON.parse(jsonText);
 
     if (!parsed.defects) return [];
+    if (!Array.isArray(parsed.defects)) throw new Error("Malformed model response: defects is not a list");
 
-    return parsed.defects.map((d: any, index: number) => ({
-      id: `def-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      imageId: imageId,
-      code: d.code as DefectCode,
-      severity: d.severity as Severity,
-      confidence: d.confidence,
-      description: d.description,
-      boundingBox: {
-        ymin: d.box_2d[0],
-        xmin: d.box_2d[1],
-        ymax: d.box_2d[2],
-        xmax: d.box_2d[3]
-      },
-      status: ReviewStatus.PENDING
-    }));
+    // Validation and normalization happen in detectionValidation
+    return parsed.defects as RawDetection[];
 
   } catch (error) {
+    // Rethrow so the analysis runner can retry instead of reporting "no defects"
     console.error(`Gemini Analysis Failed for ${side}:`, error);
-    return [];
+    throw error;
   }
 };
 
-export const readContainerNumber = async (base64Image: string): Promise<string | null> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key missing");
-  }
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+const readContainerNumberWithGemini = async (
+  ai: GoogleGenAI,
+  model: string,
+  base64Image: string
+): Promise<string | null> => {
   const prompt = `
     Analyze this image and identify the Shipping Container Number.
     Standard format is 4 letters (Owner Code) followed by 6 digits (Serial Number) and 1 digit (Check Digit). 
@@ -155,7 +162,7 @@ export const readContainerNumber = async (base64Image: string): Promise<string |
     const data = getBase64Data(base64Image);
 
     const response = await ai.models.generateContent({
-      model: MODEL_NAME,
+      model,
       contents: {
         parts: [
             { inlineData: { mimeType, data } },
@@ -0,0 +1,148 @@
+import { ImageSettings } from '../types';
+
+export interface ProcessedImage {
+  url: string;          // Downsized, re-encoded JPEG used for analysis, review and reports
+  thumbnailUrl: string;
+  originalUrl?: string;
+  width: number;
+  height: number;
+}
+
+interface ExifOrientation {
+  orientation: number; // 1-8, see EXIF spec
+  offset: number;      // Byte offset of the value, so it can be reset
+  littleEndian: boolean;
+}
+
+// Finds the orientation tag (0x0112) in a JPEG's APP1/Exif block
+const findExifOrientation = (view: DataView): ExifOrientation | null => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null; // not a JPEG
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      const tiff = offset + 10;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return null;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          return { orientation: view.getUint16(entry + 8, littleEndian), offset: entry + 8, littleEndian };
+        }
+      }
+      return null;
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null; // start of scan: no Exif
+    offset += 2 + size;
+  }
+  return null;
+};
+
+export const readExifOrientation = (buffer: ArrayBuffer): number =>
+  findExifOrientation(new DataView(buffer))?.orientation || 1;
+
+// Browsers disagree on whether they honor EXIF orientation when decoding.
+// Resetting the tag to 1 gives us the raw pixels everywhere; we rotate ourselves.
+const withoutOrientation = (buffer: ArrayBuffer, exif: ExifOrientation | null): ArrayBuffer => {
+  if (!exif || exif.orientation === 1) return buffer;
+  const copy = buffer.slice(0);
+  new DataView(copy).setUint16(exif.offset, 1, exif.littleEndian);
+  return copy;
+};
+
+const decode = (blob: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') return createImageBitmap(blob);
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(blob);
+    img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error('Could not decode image')); };
+    img.src = url;
+  });
+};
+
+const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// Draws the source upright (applying the EXIF orientation) at the given upright size
+const drawOriented = (
+  source: CanvasImageSource,
+  orientation: number,
+  width: number,
+  height: number
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  // Orientations 5-8 are rotated by 90°, so the source is drawn with swapped dimensions
+  const swap = orientation >= 5;
+  const drawW = swap ? height : width;
+  const drawH = swap ? width : height;
+
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, height); break;
+  }
+  ctx.drawImage(source, 0, 0, drawW, drawH);
+  return canvas;
+};
+
+export const readAsDataURL = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Decodes a base64 data URL into a Blob (synchronous, so it can run inside an IndexedDB transaction)
+export const dataURLToBlob = (dataUrl: string): Blob => {
+  const [header, data = ''] = dataUrl.split(',', 2);
+  const type = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  if (!header.includes(';base64')) return new Blob([decodeURIComponent(data)], { type });
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+// Upright, downsized, re-encoded image plus thumbnail. The original is only kept when configured,
+// since full-resolution phone photos are what fills up device storage.
+export const preprocessImage = async (file: Blob, settings: ImageSettings): Promise<ProcessedImage> => {
+  const buffer = await file.arrayBuffer();
+  const exif = findExifOrientation(new DataView(buffer));
+  const orientation = exif && exif.orientation >= 1 && exif.orientation <= 8 ? exif.orientation : 1;
+
+  const source = await decode(new Blob([withoutOrientation(buffer, exif)], { type: file.type }));
+  const rawW = source.width;
+  const rawH = source.height;
+  const uprightW = orientation >= 5 ? rawH : rawW;
+  const uprightH = orientation >= 5 ? rawW : rawH;
+
+  const size = fitWithin(uprightW, uprightH, settings.analysisMaxDimension);
+  const canvas = drawOriented(source, orientation, size.width, size.height);
+  if ('close' in source) source.close();
+
+  const thumbSize = fitWithin(size.width, size.height, settings.thumbnailSize);
+  const thumbnail = drawOriented(canvas, 1, thumbSize.width, thumbSize.height);
+
+  return {
+    url: canvas.toDataURL('image/jpeg', settings.quality),
+    thumbnailUrl: thumbnail.toDataURL('image/jpeg', Math.min(settings.quality, 0.7)),
+    originalUrl: settings.keepOriginal ? await readAsDataURL(file) : undefined,
+    width: size.width,
+    height: size.height
+  };
+};
@@ -0,0 +1,159 @@
+import { Inspection, InspectionImage } from '../types';
+import { InspectionRepository, LEGACY_STORAGE_KEY } from './inspectionRepository';
+import { dataURLToBlob, readAsDataURL } from './imageService';
+
+const DB_NAME = 'container_inspections';
+const DB_VERSION = 1;
+const STORE = 'inspections';
+
+type ImageField = 'url' | 'thumbnailUrl' | 'originalUrl';
+const IMAGE_FIELDS: ImageField[] = ['url', 'thumbnailUrl', 'originalUrl'];
+
+// Images are stored as Blobs: no base64 overhead, and no giant strings to parse
+type StoredImage = Omit<InspectionImage, ImageField> & Partial<Record<ImageField, Blob | string>>;
+type StoredInspection = Omit<Inspection, 'images'> & { images: StoredImage[] };
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+});
+
+const toRecord = (inspection: Inspection): StoredInspection => ({
+  ...inspection,
+  images: inspection.images.map(img => {
+    const stored: StoredImage = { ...img };
+    IMAGE_FIELDS.forEach(field => {
+      const value = img[field];
+      if (value && value.startsWith('data:')) stored[field] = dataURLToBlob(value);
+    });
+    return stored;
+  })
+});
+
+// Pages, PDF export and re-analysis all work with data URLs, so Blobs are turned back on read
+const fromRecord = async (record: StoredInspection): Promise<Inspection> => ({
+  ...record,
+  images: await Promise.all(record.images.map(async img => {
+    const image = { ...img } as InspectionImage;
+    for (const field of IMAGE_FIELDS) {
+      const value = img[field];
+      if (value instanceof Blob) image[field] = await readAsDataURL(value);
+    }
+    return image;
+  }))
+});
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const store = db.createObjectStore(STORE, { keyPath: 'id' });
+    store.createIndex('containerNumber', 'containerNumber');
+    store.createIndex('status', 'status');
+    store.createIndex('timestamp', 'timestamp');
+  }
+};
+
+// Moves inspections saved by the localStorage backend into IndexedDB, in one transaction.
+// The old key is only removed once everything is committed, so a failure leaves it in place.
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!legacy) return;
+
+  const inspections: Inspection[] = JSON.parse(legacy);
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  inspections.forEach(inspection => store.put(toRecord(inspection)));
+  await completion(tx);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab'));
+});
+
+export const createIndexedDbRepository = (): InspectionRepository => {
+  let ready: Promise<IDBDatabase> | null = null;
+  const db = () => {
+    if (!ready) {
+      ready = openDatabase().then(async database => {
+        await migrateFromLocalStorage(database);
+        return database;
+      });
+      ready.catch(() => { ready = null; }); // Allow another attempt on the next call
+    }
+    return ready;
+  };
+
+  const readAll = async (query: (store: IDBObjectStore) => IDBRequest<StoredInspection[]>) => {
+    const store = (await db()).transaction(STORE, 'readonly').objectStore(STORE);
+    const records = await promisify(query(store));
+    return Promise.all(records.map(fromRecord));
+  };
+
+  const byNewest = (list: Inspection[]) => list.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  return {
+    id: 'indexedDB',
+    list: async () => (await readAll(store => store.index('timestamp').getAll())).reverse(),
+    get: async (id) => {
+      const store = (await db()).transaction(STORE, 'readonly').objectStore(STORE);
+      const record: StoredInspection | undefined = await promisify(store.get(id));
+      return record ? fromRecord(record) : undefined;
+    },
+    findByContainerNumber: async (containerNumber) =>
+      byNewest(await readAll(store => store.index('containerNumber').getAll(containerNumber))),
+    findByStatus: async (status) =>
+      byNewest(await readAll(store => store.index('status').getAll(status))),
+    put: async (inspection) => {
+      const tx = (await db()).transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).put(toRecord(inspection));
+      await completion(tx);
+    },
+    remove: async (id) => {
+      const tx = (await db()).transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).delete(id);
+      await completion(tx);
+    },
+    putAll: async (inspections, { replace = false } = {}) => {
+      const tx = (await db()).transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      if (replace) store.clear();
+      inspections.forEach(inspection => store.put(toRecord(inspection)));
+      await completion(tx);
+    },
+    // Works on the stored records (images stay Blobs). A throwing transform aborts the transaction.
+    migrate: async (transform) => {
+      const tx = (await db()).transaction(STORE, 'readwrite');
+      const done = completion(tx);
+      let failure: unknown;
+      const cursorRequest = tx.objectStore(STORE).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        try {
+          cursor.update(transform(cursor.value as Inspection));
+          cursor.continue();
+        } catch (error) {
+          failure = error;
+          tx.abort();
+        }
+      };
+      try {
+        await done;
+      } catch (error) {
+        throw failure || error;
+      }
+    }
+  };
+};
@@ -0,0 +1,39 @@
+import { Inspection, InspectionImage, Defect, ContainerSide, ReviewStatus } from '../types';
+import { REQUIRED_SIDES } from '../constants';
+
+export interface SideGroup {
+  side: ContainerSide;
+  images: InspectionImage[];
+  defects: Defect[];
+}
+
+const sideRank = (side: ContainerSide) => {
+  const idx = REQUIRED_SIDES.indexOf(side);
+  return idx === -1 ? REQUIRED_SIDES.length : idx;
+};
+
+// Groups photos and their defects by container side, in capture order.
+// Photos keep their sequence within a side; older records without one keep stored order.
+export const groupBySide = (inspection: Inspection): SideGroup[] => {
+  const groups = new Map<ContainerSide, SideGroup>();
+  inspection.images.forEach(img => {
+    if (!groups.has(img.side)) groups.set(img.side, { side: img.side, images: [], defects: [] });
+    groups.get(img.side)!.images.push(img);
+  });
+
+  groups.forEach(group => {
+    group.images.sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+    const ids = new Set(group.images.map(i => i.id));
+    group.defects = inspection.defects.filter(d => ids.has(d.imageId));
+  });
+
+  return Array.from(groups.values()).sort((a, b) => sideRank(a.side) - sideRank(b.side));
+};
+
+export const getImageSide = (inspection: Inspection, imageId: string): ContainerSide | undefined =>
+  inspection.images.find(i => i.id === imageId)?.side;
+
+// Still waiting for a reviewer. Auto-triaged defects are decided; merged duplicates
+// follow the defect they were merged into.
+export const needsReview = (defect: Defect): boolean =>
+  !defect.mergedInto && defect.status === ReviewStatus.PENDING;
@@ -0,0 +1,60 @@
+import { Inspection } from '../types';
+
+// Where inspections are persisted. dbService picks an implementation; pages only see dbService.
+export interface InspectionRepository {
+  id: string;
+  list(): Promise<Inspection[]>; // Newest first
+  get(id: string): Promise<Inspection | undefined>;
+  findByContainerNumber(containerNumber: string): Promise<Inspection[]>;
+  findByStatus(status: Inspection['status']): Promise<Inspection[]>;
+  put(inspection: Inspection): Promise<void>;
+  remove(id: string): Promise<void>; // No error if it doesn't exist
+  // Writes many records in one all-or-nothing step (backup restore). With `replace`,
+  // every record not in the list is removed.
+  putAll(inspections: Inspection[], options?: { replace?: boolean }): Promise<void>;
+  // Rewrites every stored record in one all-or-nothing step; if transform throws, nothing changes
+  migrate(transform: (record: Inspection) => Inspection): Promise<void>;
+}
+
+export const LEGACY_STORAGE_KEY = 'container_inspections_db_v3';
+
+const byNewest = (a: Inspection, b: Inspection) => b.timestamp.localeCompare(a.timestamp);
+
+// The original store: one JSON array in localStorage. Used when IndexedDB is unavailable.
+export const createLocalStorageRepository = (key = LEGACY_STORAGE_KEY): InspectionRepository => {
+  const read = (): Inspection[] => {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) : [];
+  };
+  const write = (list: Inspection[]) => localStorage.setItem(key, JSON.stringify(list));
+
+  return {
+    id: 'localStorage',
+    list: async () => read(),
+    get: async (id) => read().find(i => i.id === id),
+    findByContainerNumber: async (containerNumber) =>
+      read().filter(i => i.containerNumber === containerNumber).sort(byNewest),
+    findByStatus: async (status) => read().filter(i => i.status === status).sort(byNewest),
+    put: async (inspection) => {
+      const list = read();
+      const idx = list.findIndex(i => i.id === inspection.id);
+      if (idx !== -1) {
+        list[idx] = inspection;
+      } else {
+        list.unshift(inspection); // Add to top
+      }
+      write(list);
+    },
+    remove: async (id) => {
+      write(read().filter(i => i.id !== id));
+    },
+    putAll: async (inspections, { replace = false } = {}) => {
+      const ids = new Set(inspections.map(i => i.id));
+      const kept = replace ? [] : read().filter(i => !ids.has(i.id));
+      write([...inspections, ...kept].sort(byNewest));
+    },
+    migrate: async (transform) => {
+      write(read().map(transform));
+    }
+  };
+};
@@ -0,0 +1,51 @@
+import { LaborRate, LaborShiftMultiplier, LaborSkill } from '../types';
+
+// What labor is priced with: the rate table, the depot and when the work is done
+export interface LaborContext {
+  rates: LaborRate[];
+  depot?: string;
+  at?: Date; // Undefined = no repair time planned, so no shift premium
+}
+
+const depotKey = (depot?: string) => (depot || '').trim().toLowerCase();
+
+// The depot's own rate for the skill, or else the one for every depot
+export const findLaborRate = (skill: LaborSkill, context: LaborContext): LaborRate | undefined =>
+  context.rates.find(r => r.skill === skill && depotKey(r.depot) !== '' && depotKey(r.depot) === depotKey(context.depot))
+  || context.rates.find(r => r.skill === skill && depotKey(r.depot) === '');
+
+// Days and hours in the depot's local time (the device's)
+const inWindow = (m: LaborShiftMultiplier, at: Date) => {
+  if (m.days?.length && !m.days.includes(at.getDay())) return false;
+  if (m.fromHour === undefined || m.toHour === undefined) return true;
+  const hour = at.getHours();
+  return m.fromHour <= m.toHour ? hour >= m.fromHour && hour < m.toHour : hour >= m.fromHour || hour < m.toHour;
+};
+
+// Premiums don't stack: the highest matching multiplier applies
+export const shiftMultiplier = (rate: LaborRate, at?: Date) => {
+  if (!at) return 1;
+  const matching = rate.multipliers.filter(m => inWindow(m, at)).map(m => m.multiplier);
+  return matching.length > 0 ? Math.max(...matching) : 1;
+};
+
+// VND per hour; undefined when no rate covers the skill
+export const laborHourlyRate = (skill: LaborSkill, context: LaborContext): number | undefined => {
+  const rate = findLaborRate(skill, context);
+  return rate && rate.hourlyRate * shiftMultiplier(rate, context.at);
+};
+
+const isHour = (value: number | undefined, min: number, max: number) =>
+  value === undefined || (Number.isInteger(value) && value >= min && value <= max);
+
+// Problems that would leave repairs priced wrongly
+export const validateLaborRates = (rates: LaborRate[]): string[] => {
+  const errors: string[] = [];
+  const invalid = rates.some(r => !(r.hourlyRate > 0) || r.multipliers.some(m =>
+    !(m.multiplier > 0) || !isHour(m.fromHour, 0, 23) || !isHour(m.toHour, 1, 24) || (m.fromHour === undefined) !== (m.toHour === undefined)
+  ));
+  if (invalid) errors.push('labor_rate_invalid');
+  const keys = rates.map(r => `${r.skill}/${depotKey(r.depot)}`);
+  if (new Set(keys).size !== keys.length) errors.push('labor_rate_duplicate');
+  return errors;
+};
@@ -0,0 +1,268 @@
+import { ManifestEntry, ManifestPriority } from '../types';
+import { cleanContainerNumber } from './containerNumberService';
+import { parseEdifact, component, parseEdifactDateTime, EdifactSegment } from './edifactService';
+import { readXlsxRows, excelSerialToDate } from './xlsxService';
+
+// Turns a manifest file into entries for addToManifest:
+// - CSV/TXT and XLSX give a table; the header row is detected and columns are mapped to
+//   fields (guessed from header names, adjustable in the import wizard)
+// - EDIFACT COPRAR (loading/discharge orders) and CODECO (gate reports) from shipping lines
+//   give one entry per EQD container segment
+
+export type ImportField = 'containerNumber' | 'customer' | 'sizeType' | 'bookingRef' | 'priority' | 'deadline' | 'notes';
+
+export const IMPORT_FIELDS: ImportField[] = ['containerNumber', 'customer', 'sizeType', 'bookingRef', 'priority', 'deadline', 'notes'];
+
+export type ImportMapping = Partial<Record<ImportField, number>>; // Field -> column index
+
+export interface ImportTable {
+  rows: string[][];
+  hasHeader: boolean;
+}
+
+export type ManifestImport =
+  | { kind: 'table'; table: ImportTable; mapping: ImportMapping }
+  | { kind: 'edifact'; messageType: string; entries: ManifestEntry[]; warnings: string[] };
+
+// Lower-case header names seen on line and terminal spreadsheets
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  containerNumber: ['container', 'container no', 'container number', 'cntr', 'cntr no', 'equipment', 'equipment no', 'unit', 'unit no', 'số container', 'so container'],
+  customer: ['customer', 'line', 'shipping line', 'operator', 'carrier', 'owner', 'khách hàng', 'hãng tàu'],
+  sizeType: ['size/type', 'size type', 'sztp', 'iso', 'iso code', 'iso type', 'type', 'kích cỡ'],
+  bookingRef: ['booking', 'booking no', 'booking ref', 'booking reference', 'bkg', 'bl', 'b/l', 'reference'],
+  priority: ['priority', 'prio', 'ưu tiên'],
+  deadline: ['deadline', 'cutoff', 'cut-off', 'cut off', 'closing', 'vessel cutoff', 'hạn chót'],
+  notes: ['notes', 'note', 'remarks', 'remark', 'comment', 'comments', 'ghi chú']
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[#.:_]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const looksLikeContainerNumber = (value: string) => /^[A-Z]{4}\d{6,7}$/.test(cleanContainerNumber(value));
+
+// Quoted fields may hold the delimiter, newlines and doubled quotes. The delimiter is
+// whichever of , ; and tab appears most on the first line.
+export const parseCsv = (text: string): string[][] => {
+  const body = text.replace(/^\uFEFF/, '');
+  const firstLine = body.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (quoted) {
+      if (c === '"' && body[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && body[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.map(r => r.map(cell => cell.trim())).filter(r => r.some(cell => cell !== ''));
+};
+
+// A first row with no container number in it, followed by one that has, is a header
+export const detectHeader = (rows: string[][]): boolean => {
+  if (rows.length < 2) return false;
+  const [first, second] = rows;
+  if (first.some(looksLikeContainerNumber)) return false;
+  return second.some(looksLikeContainerNumber) || first.some(cell => guessField(cell) !== undefined);
+};
+
+const guessField = (header: string): ImportField | undefined => {
+  const name = normalizeHeader(header);
+  return IMPORT_FIELDS.find(field => HEADER_ALIASES[field].includes(name));
+};
+
+// From the header names when there are any; the container number column is also found by content
+export const guessMapping = (table: ImportTable): ImportMapping => {
+  const mapping: ImportMapping = {};
+  if (table.hasHeader) {
+    table.rows[0].forEach((header, index) => {
+      const field = guessField(header);
+      if (field && mapping[field] === undefined) mapping[field] = index;
+    });
+  }
+  if (mapping.containerNumber === undefined) {
+    const data = table.hasHeader ? table.rows.slice(1) : table.rows;
+    const width = Math.max(0, ...data.map(r => r.length));
+    let best = -1;
+    let bestCount = 0;
+    for (let col = 0; col < width; col++) {
+      const count = data.filter(r => looksLikeContainerNumber(r[col] || '')).length;
+      if (count > bestCount) {
+        best = col;
+        bestCount = count;
+      }
+    }
+    if (best !== -1) mapping.containerNumber = best;
+  }
+  return mapping;
+};
+
+const PRIORITY_WORDS: Record<string, ManifestPriority> = {
+  urgent: 'URGENT', khẩn: 'URGENT', '1': 'URGENT',
+  high: 'HIGH', cao: 'HIGH', '2': 'HIGH',
+  normal: 'NORMAL', 'bình thường': 'NORMAL', '3': 'NORMAL',
+  low: 'LOW', thấp: 'LOW', '4': 'LOW'
+};
+
+// Spreadsheet dates arrive as Excel serials, ISO text or day-first text (20/10/2026 14:00).
+// Anything else is passed on as typed, so the import check reports it.
+const parseDeadline = (value: string): string => {
+  if (/^\d+(\.\d+)?$/.test(value) && parseFloat(value) > 20000) {
+    const utc = excelSerialToDate(parseFloat(value));
+    // Serials carry no zone: the time shown in the sheet is local time
+    return new Date(utc.getTime() + utc.getTimezoneOffset() * 60000).toISOString();
+  }
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T](\d{1,2}):(\d{2}))?$/);
+  if (dayFirst) {
+    const [, d, m, y, hh, mm] = dayFirst;
+    return new Date(+y, +m - 1, +d, +(hh || 0), +(mm || 0)).toISOString();
+  }
+  return Number.isNaN(Date.parse(value)) ? value : new Date(value).toISOString();
+};
+
+export const tableToEntries = (table: ImportTable, mapping: ImportMapping): ManifestEntry[] => {
+  const data = table.hasHeader ? table.rows.slice(1) : table.rows;
+  const cell = (row: string[], field: ImportField) => {
+    const col = mapping[field];
+    return col === undefined ? '' : (row[col] || '').trim();
+  };
+  return data.map(row => {
+    const entry: ManifestEntry = { containerNumber: cell(row, 'containerNumber') };
+    const customer = cell(row, 'customer');
+    const sizeType = cell(row, 'sizeType');
+    const bookingRef = cell(row, 'bookingRef');
+    const priority = PRIORITY_WORDS[cell(row, 'priority').toLowerCase()];
+    const deadline = cell(row, 'deadline');
+    const notes = cell(row, 'notes');
+    if (customer) entry.customer = customer;
+    if (sizeType) entry.sizeType = sizeType;
+    if (bookingRef) entry.bookingRef = bookingRef;
+    if (priority) entry.priority = priority;
+    if (deadline) entry.deadline = parseDeadline(deadline);
+    if (notes) entry.notes = notes;
+    return entry;
+  });
+};
+
+// Party name from NAD (party name, or name and address), else its code
+const partyName = (nad: EdifactSegment) => component(nad, 3) || component(nad, 2) || component(nad, 1);
+
+// EDIFACT COPRAR / CODECO. Per container (EQD+CN): number, ISO size/type, and from the
+// segments that follow it the booking (RFF+BN) and the container operator (NAD+CF).
+// Message-level values fill in what a container lacks; the vessel's estimated departure
+// (DTM+133) becomes the deadline. A bill of lading (RFF+BM) is the booking only when
+// neither the container nor the message has a booking number.
+export const parseEdiManifest = (text: string): { messageType: string; entries: ManifestEntry[]; warnings: string[] } => {
+  const segments = parseEdifact(text);
+  const entries: ManifestEntry[] = [];
+  const warnings: string[] = [];
+  const types = new Set<string>();
+
+  let header: Partial<ManifestEntry> = {};
+  let current: ManifestEntry | null = null;
+  let headerBill: string | undefined;
+  let currentBill: string | undefined;
+  const finish = () => {
+    if (current) {
+      const bookingRef = current.bookingRef || header.bookingRef || currentBill || headerBill;
+      entries.push({ ...header, ...current, ...(bookingRef && { bookingRef }) });
+    }
+    current = null;
+    currentBill = undefined;
+  };
+
+  segments.forEach(seg => {
+    switch (seg.tag) {
+      case 'UNH': {
+        finish();
+        header = {};
+        headerBill = undefined;
+        const type = component(seg, 1);
+        types.add(type);
+        if (type !== 'COPRAR' && type !== 'CODECO') warnings.push(`Message type ${type || '?'} is not COPRAR or CODECO; containers were read anyway`);
+        break;
+      }
+      case 'EQD':
+        finish();
+        if (component(seg, 0) !== 'CN') break; // Other equipment (chassis, trailers)
+        current = { containerNumber: component(seg, 1) };
+        if (component(seg, 2)) current.sizeType = component(seg, 2);
+        break;
+      case 'RFF': {
+        const qualifier = component(seg, 0);
+        const reference = component(seg, 0, 1);
+        if (qualifier === 'BN') (current || header).bookingRef = reference;
+        else if (qualifier === 'BM' && current) currentBill = currentBill || reference;
+        else if (qualifier === 'BM') headerBill = headerBill || reference;
+        break;
+      }
+      case 'NAD': {
+        const qualifier = component(seg, 0);
+        if (current && qualifier === 'CF') current.customer = partyName(seg);
+        else if (!current && (qualifier === 'CF' || qualifier === 'CA') && !header.customer) header.customer = partyName(seg);
+        break;
+      }
+      case 'DTM':
+        if (!current && component(seg, 0) === '133') {
+          const date = parseEdifactDateTime(component(seg, 0, 1));
+          if (date) header.deadline = date.toISOString();
+        }
+        break;
+      case 'FTX':
+        if (current) current.notes = [current.notes, seg.elements.slice(3).flat().filter(Boolean).join(' ')].filter(Boolean).join(' ');
+        break;
+      case 'CNT':
+      case 'UNT':
+        finish();
+        break;
+    }
+  });
+  finish();
+
+  if (entries.length === 0) warnings.push('No containers (EQD+CN segments) found in the message');
+  return { messageType: Array.from(types).join(', ') || 'EDIFACT', entries, warnings };
+};
+
+const isEdifact = (name: string, text: string) =>
+  /\.(edi|edifact)$/i.test(name) || /^\s*(UNA|UNB|UNH)/.test(text);
+
+// Reads an uploaded file into either a table to map or ready-made EDIFACT entries
+export const readManifestFile = async (file: File): Promise<ManifestImport> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    const rows = (await readXlsxRows(await file.arrayBuffer()))
+      .map(r => r.map(cell => cell.trim()))
+      .filter(r => r.some(cell => cell !== ''));
+    const table = { rows, hasHeader: detectHeader(rows) };
+    return { kind: 'table', table, mapping: guessMapping(table) };
+  }
+  const text = await file.text();
+  if (isEdifact(file.name, text)) return { kind: 'edifact', ...parseEdiManifest(text) };
+  const rows = parseCsv(text);
+  const table = { rows, hasHeader: detectHeader(rows) };
+  return { kind: 'table', table, mapping: guessMapping(table) };
+};
@@ -0,0 +1,101 @@
+import { ManifestEntry, ManifestEntryCheck, ManifestItem, ManifestPriority } from '../types';
+import { validateContainerNumber } from './containerNumberService';
+
+export const MANIFEST_PRIORITIES: ManifestPriority[] = ['URGENT', 'HIGH', 'NORMAL', 'LOW'];
+
+const priorityRank = (priority: ManifestPriority | undefined) => {
+  const index = MANIFEST_PRIORITIES.indexOf(priority || 'NORMAL');
+  return index === -1 ? MANIFEST_PRIORITIES.indexOf('NORMAL') : index;
+};
+
+// ISO 6346 size/type: length, height/width, type group letter, detail (e.g. 22G1, 45R1, L5G1)
+const SIZE_TYPE = /^[0-9A-Z][0-9A-Z][A-Z][0-9A-Z]$/;
+
+export const normalizeSizeType = (raw: string) => raw.toUpperCase().replace(/\s/g, '');
+
+export const isValidSizeType = (raw: string) => SIZE_TYPE.test(normalizeSizeType(raw));
+
+// Customer names are typed by hand in several places; compare them without case and spacing
+export const normalizeCustomer = (raw?: string) => (raw || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Checks entries before they are queued: the container number (check digit included, with
+// OCR-style typos corrected), duplicates within the import and against jobs still open,
+// and the optional fields. Entries with an error are not added.
+export const checkManifestEntries = (entries: ManifestEntry[], existing: ManifestItem[]): ManifestEntryCheck[] => {
+  const open = new Set(existing.filter(item => item.status !== 'COMPLETED').map(item => item.containerNumber));
+  const seen = new Set<string>();
+
+  return entries.map((entry): ManifestEntryCheck => {
+    const numberCheck = validateContainerNumber(entry.containerNumber);
+    const containerNumber = numberCheck.normalized;
+    const check: ManifestEntryCheck = { entry, containerNumber, numberCheck };
+
+    if (numberCheck.status === 'INVALID') check.error = 'INVALID_NUMBER';
+    else if (numberCheck.status === 'SUSPECT') check.error = 'CHECK_DIGIT';
+    else if (seen.has(containerNumber)) check.error = 'DUPLICATE_IN_IMPORT';
+    else if (open.has(containerNumber)) check.error = 'ALREADY_QUEUED';
+    else if (entry.sizeType && !isValidSizeType(entry.sizeType)) check.error = 'INVALID_SIZE_TYPE';
+    else if (entry.deadline && Number.isNaN(Date.parse(entry.deadline))) check.error = 'INVALID_DEADLINE';
+
+    seen.add(containerNumber);
+    return check;
+  });
+};
+
+// Numbers the checks would queue in a corrected spelling; the user confirms these first
+export const describeCorrections = (checks: ManifestEntryCheck[]): string[] =>
+  checks
+    .filter(check => !check.error && check.numberCheck.status === 'CORRECTED')
+    .map(check => `${check.entry.containerNumber} -> ${check.containerNumber}`);
+
+export type ManifestSortKey = 'priority' | 'deadline' | 'addedAt' | 'containerNumber' | 'customer';
+
+const byDeadline = (a: ManifestItem, b: ManifestItem) => {
+  if (a.deadline === b.deadline) return 0;
+  if (!a.deadline) return 1; // No deadline goes last
+  if (!b.deadline) return -1;
+  return Date.parse(a.deadline) - Date.parse(b.deadline);
+};
+
+// Urgency order: priority, then the earliest deadline, then the oldest job
+const byUrgency = (a: ManifestItem, b: ManifestItem) =>
+  priorityRank(a.priority) - priorityRank(b.priority) || byDeadline(a, b) || a.addedAt.localeCompare(b.addedAt);
+
+const COMPARATORS: Record<ManifestSortKey, (a: ManifestItem, b: ManifestItem) => number> = {
+  priority: byUrgency,
+  deadline: (a, b) => byDeadline(a, b) || byUrgency(a, b),
+  addedAt: (a, b) => a.addedAt.localeCompare(b.addedAt),
+  containerNumber: (a, b) => a.containerNumber.localeCompare(b.containerNumber),
+  customer: (a, b) => (a.customer || '').localeCompare(b.customer || '') || byUrgency(a, b)
+};
+
+export const sortManifest = (items: ManifestItem[], key: ManifestSortKey, descending = false): ManifestItem[] => {
+  const sorted = [...items].sort(COMPARATORS[key]);
+  return descending ? sorted.reverse() : sorted;
+};
+
+export interface ManifestFilter {
+  status?: ManifestItem['status'] | 'OPEN'; // OPEN = not completed
+  assignedTo?: string; // User id, or '' for unassigned
+  priority?: ManifestPriority;
+  search?: string; // Container number, customer, size/type, booking or notes
+}
+
+export const filterManifest = (items: ManifestItem[], filter: ManifestFilter): ManifestItem[] => {
+  const search = (filter.search || '').trim().toUpperCase();
+  return items.filter(item =>
+    (!filter.status || (filter.status === 'OPEN' ? item.status !== 'COMPLETED' : item.status === filter.status)) &&
+    (filter.assignedTo === undefined || (item.assignedTo || '') === filter.assignedTo) &&
+    (!filter.priority || item.priority === filter.priority) &&
+    (!search || [item.containerNumber, item.customer, item.sizeType, item.bookingRef, item.notes].some(v => v?.toUpperCase().includes(search))));
+};
+
+// Next job for an inspector: the most urgent pending job assigned to them, otherwise the most
+// urgent one nobody is assigned to. Jobs meant for someone else are left for them.
+export const pickNextJob = (items: ManifestItem[], userId?: string): ManifestItem | undefined => {
+  const pending = sortManifest(items.filter(item => item.status === 'PENDING'), 'priority');
+  return (userId ? pending.find(item => item.assignedTo === userId) : undefined) || pending.find(item => !item.assignedTo);
+};
+
+export const isOverdue = (item: ManifestItem, now = Date.now()) =>
+  item.status !== 'COMPLETED' && !!item.deadline && Date.parse(item.deadline) < now;
@@ -0,0 +1,105 @@
+import { Inspection, ManifestItem, PricingRule, QuoteStatus, ReviewStatus } from '../types';
+
+// Persisted data carries a schema version. Each migration upgrades records from the
+// previous version to its own. Steps are frozen once released: they must not call into
+// code that keeps evolving (pricing, validation...), only into what they define here.
+// They must also be idempotent, since records saved after a rolled-back run see them again.
+
+export interface MigrationContext {
+  pricingRules: PricingRule[]; // Already upgraded to the target version
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  pricingRule?: (rule: PricingRule) => PricingRule;
+  manifestItem?: (item: ManifestItem) => ManifestItem;
+  // Image url fields may hold Blobs (IndexedDB); steps must leave them untouched
+  inspection?: (inspection: Inspection, context: MigrationContext) => Inspection;
+}
+
+// Labor rate and tax rate as they were when costs were added to defects
+const V1_LABOR_RATE = 1215000;
+const V1_TAX_RATE = 0.10;
+
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Fill repairCost, partsCost and laborHours on defects saved before pricing',
+    inspection: (inspection, { pricingRules }) => {
+      const unpriced = inspection.defects.filter(d => d.repairCost === undefined);
+      if (unpriced.length === 0) return inspection;
+
+      // Approved and invoiced quotes were billed with these defects at 0; keep them that way
+      const locked = inspection.quote?.status === QuoteStatus.APPROVED || inspection.quote?.status === QuoteStatus.INVOICED;
+      const defects = inspection.defects.map(d => {
+        if (d.repairCost !== undefined) return d;
+        const rule = locked ? undefined : pricingRules.find(r => r.defectCode === d.code && r.severity === d.severity);
+        const partsCost = rule ? rule.basePrice : 0;
+        const laborHours = rule ? rule.laborHours : 0;
+        return { ...d, partsCost, laborHours, repairCost: partsCost + laborHours * V1_LABOR_RATE };
+      });
+
+      if (!inspection.quote || locked) return { ...inspection, defects };
+      const subtotal = defects
+        .filter(d => d.status !== ReviewStatus.REJECTED)
+        .reduce((sum, d) => sum + (d.repairCost || 0), 0);
+      const tax = subtotal * V1_TAX_RATE;
+      return { ...inspection, defects, quote: { ...inspection.quote, subtotal, tax, total: subtotal + tax } };
+    }
+  },
+  {
+    version: 2,
+    description: 'Repair pricing rules cleared to null in the editor; normalize manifest items',
+    pricingRule: rule => ({
+      ...rule,
+      basePrice: finiteOr(rule.basePrice, 0),
+      laborHours: finiteOr(rule.laborHours, 0)
+    }),
+    manifestItem: item => ({
+      ...item,
+      containerNumber: String(item.containerNumber || '').toUpperCase().trim(),
+      status: item.status || 'PENDING',
+      addedAt: item.addedAt || new Date(0).toISOString()
+    })
+  },
+  {
+    version: 3,
+    description: 'Number photos within their side for records from before multi-photo capture',
+    inspection: inspection => {
+      if (inspection.images.every(img => img.sequence !== undefined)) return inspection;
+      const counters = new Map<string, number>();
+      return {
+        ...inspection,
+        images: inspection.images.map(img => {
+          const next = counters.get(img.side) || 0;
+          counters.set(img.side, next + 1);
+          return img.sequence !== undefined ? img : { ...img, sequence: next };
+        })
+      };
+    }
+  },
+  {
+    version: 4,
+    description: 'Give manifest items a priority',
+    manifestItem: item => ({ ...item, priority: item.priority || 'NORMAL' })
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const getPendingMigrations = (fromVersion: number): Migration[] =>
+  MIGRATIONS.filter(m => m.version > fromVersion).sort((a, b) => a.version - b.version);
+
+// Record-level upgraders for everything pending. Pure: they throw rather than write anything.
+export const upgradePricingRules = (rules: PricingRule[], pending: Migration[]): PricingRule[] =>
+  rules.map(rule => pending.reduce((r, m) => (m.pricingRule ? m.pricingRule(r) : r), rule));
+
+export const upgradeManifest = (items: ManifestItem[], pending: Migration[]): ManifestItem[] =>
+  items.map(item => pending.reduce((i, m) => (m.manifestItem ? m.manifestItem(i) : i), item));
+
+export const upgradeInspection = (inspection: Inspection, pending: Migration[], context: MigrationContext): Inspection =>
+  pending.reduce((insp, m) => (m.inspection ? m.inspection(insp, context) : insp), inspection);
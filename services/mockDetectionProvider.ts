@@ -0,0 +1,72 @@
+import { Defect, DefectCode, Severity, DetectionProvider } from '../types';
+
+// A canned defect without the per-call identifiers
+export type CannedDefect = Omit<Defect, 'id' | 'imageId' | 'status'>;
+
+export const MOCK_CONTAINER_NUMBER = 'MSCU1234566';
+
+// Canned results per side, so demos show a realistic mix of damage
+const DEFAULT_CANNED_DEFECTS: Record<string, CannedDefect[]> = {
+  SIDE_1_EXT: [
+    {
+      code: DefectCode.DT,
+      severity: Severity.MEDIUM,
+      confidence: 0.91,
+      description: 'Dent on lower side panel',
+      boundingBox: { ymin: 55, xmin: 20, ymax: 75, xmax: 35 }
+    },
+    {
+      code: DefectCode.CO,
+      severity: Severity.LOW,
+      confidence: 0.64,
+      description: 'Surface rust along bottom rail',
+      boundingBox: { ymin: 85, xmin: 40, ymax: 95, xmax: 70 }
+    }
+  ],
+  DOOR_EXT: [
+    {
+      code: DefectCode.BT,
+      severity: Severity.HIGH,
+      confidence: 0.83,
+      description: 'Bent locking rod on right door',
+      boundingBox: { ymin: 20, xmin: 60, ymax: 80, xmax: 66 }
+    }
+  ],
+  ROOF_EXT: [
+    {
+      code: DefectCode.HO,
+      severity: Severity.HIGH,
+      confidence: 0.77,
+      description: 'Hole in roof panel',
+      boundingBox: { ymin: 40, xmin: 45, ymax: 48, xmax: 52 }
+    }
+  ],
+  FLOOR_INT: [
+    {
+      code: DefectCode.OL,
+      severity: Severity.LOW,
+      confidence: 0.58,
+      description: 'Oil stain on floor boards',
+      boundingBox: { ymin: 60, xmin: 30, ymax: 80, xmax: 55 }
+    }
+  ]
+};
+
+interface MockProviderOptions {
+  defectsBySide?: Record<string, CannedDefect[]>;
+  containerNumber?: string | null;
+}
+
+export const createMockProvider = (options: MockProviderOptions = {}): DetectionProvider => {
+  const defectsBySide = options.defectsBySide || DEFAULT_CANNED_DEFECTS;
+  const containerNumber = options.containerNumber === undefined ? MOCK_CONTAINER_NUMBER : options.containerNumber;
+
+  return {
+    id: 'mock',
+    analyze: async ({ side }) => {
+      const canned = defectsBySide[side] || [];
+      return canned.map(d => ({ ...d, boundingBox: { ...d.boundingBox } }));
+    },
+    readContainerNumber: async () => containerNumber
+  };
+};
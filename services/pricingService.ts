@@ -1,66 +1,265 @@
+import { Inspection, Defect, PricingRule, Quote, RateCard, TaxSettings, QuoteStatus, ContainerLength, ContainerProfile, ContainerSide, Currency, DamageSize, InspectionImage, QuoteExchangeRate, SizeBand } from '../types';
+import { getPricingRules, getRateCards, getLaborRates, getExchangeRates, getTaxSettings } from './dbService';
+import { normalizeCustomer, normalizeSizeType } from './manifestService';
+import { convertAmount, mergeRates, ratesOn, roundMoney } from './currencyService';
+import { taxBreakdown } from './taxService';
+import { LaborContext, laborHourlyRate } from './laborService';
+import { BASE_CURRENCY, DEFAULT_LABOR_RATES } from '../constants';
 
-import { Inspection, Defect, PricingRule, Quote, QuoteStatus } from '../types';
-import { getPricingRules } from './dbService';
-import { DEFAULT_LABOR_RATE, TAX_RATE } from '../constants';
+// ISO 6346 size/type code: length, height and type group characters (e.g. 45G1 = 40' high cube)
+const LENGTH_CODES: Record<string, ContainerLength> = { '2': '20', '4': '40', 'L': '45' };
+const HIGH_CUBE_HEIGHTS = ['5', '6', 'E', 'F', 'N', 'P'];
 
-export const calculateDefectCost = (defect: Defect, rules: PricingRule[]): Defect => {
-  // Find matching rule
-  const rule = rules.find(r => r.defectCode === defect.code && r.severity === defect.severity);
-  
-  if (rule) {
+export const containerProfile = (sizeType?: string): ContainerProfile => {
+  const code = normalizeSizeType(sizeType || '');
+  if (code.length < 3) return {};
+  return {
+    length: LENGTH_CODES[code[0]],
+    type: code[2] === 'R' ? 'REEFER' : HIGH_CUBE_HEIGHTS.includes(code[1]) ? 'HIGH_CUBE' : 'DRY'
+  };
+};
+
+// Outside dimensions in cm
+const LENGTH_CM: Record<ContainerLength, number> = { '20': 606, '40': 1219, '45': 1372 };
+const WIDTH_CM = 244;
+const heightCm = (container: ContainerProfile) => (container.type === 'HIGH_CUBE' ? 290 : 259);
+
+// Width and height of the face a photo of the side shows, when the container is known well enough
+const faceSizeCm = (side: ContainerSide, container: ContainerProfile): [number, number] | undefined => {
+  const length = container.length && LENGTH_CM[container.length];
+  if (side.startsWith('FRONT') || side.startsWith('DOOR')) return [WIDTH_CM, heightCm(container)];
+  if (!length) return undefined;
+  if (side.startsWith('SIDE')) return [length, heightCm(container)];
+  return [length, WIDTH_CM]; // Roof, floor, underside
+};
+
+// Rough size from the bounding box, for photos framing the whole side (overview, or unlabeled
+// photos from single-photo capture). Close-ups and panels have no known scale.
+export const estimateDamageSize = (defect: Defect, image: InspectionImage, container: ContainerProfile): DamageSize | undefined => {
+  if (image.label && image.label !== 'OVERVIEW') return undefined;
+  const face = faceSizeCm(image.side, container);
+  if (!face) return undefined;
+  const box = defect.boundingBox;
+  const across = ((box.xmax - box.xmin) / 100) * face[0];
+  const down = ((box.ymax - box.ymin) / 100) * face[1];
+  return { lengthCm: Math.round(Math.max(across, down)), widthCm: Math.round(Math.min(across, down)), estimated: true };
+};
+
+const inBand = (band: SizeBand, size?: DamageSize) => {
+  const value = !size ? undefined
+    : band.measure === 'LENGTH' ? size.lengthCm
+    : size.widthCm !== undefined ? size.lengthCm * size.widthCm : undefined;
+  return value !== undefined && (band.min === undefined || value >= band.min) && (band.max === undefined || value < band.max);
+};
+
+// Fallback order: a matching size band counts most, then the component, the container type
+// and the container length. So a 40' dent on a panel falls back from "panel dent 30-100 cm on
+// a 40'" to "dent 30-100 cm", then "panel dent", "dent on a 40'" and finally the plain
+// code + severity rule. Returns -1 when a criterion the rule sets doesn't match.
+const specificity = (rule: PricingRule, defect: Defect, container: ContainerProfile): number => {
+  if (rule.defectCode !== defect.code || rule.severity !== defect.severity) return -1;
+  let score = 0;
+  if (rule.sizeBand) {
+    if (!inBand(rule.sizeBand, defect.size)) return -1;
+    score += 8;
+  }
+  if (rule.componentCode) {
+    if (rule.componentCode !== defect.componentCode) return -1;
+    score += 4;
+  }
+  if (rule.containerType) {
+    if (rule.containerType !== container.type) return -1;
+    score += 2;
+  }
+  if (rule.containerLength) {
+    if (rule.containerLength !== container.length) return -1;
+    score += 1;
+  }
+  return score;
+};
+
+// The most specific matching rule; between equally specific ones, the first listed
+export const findPricingRule = (defect: Defect, rules: PricingRule[], container: ContainerProfile = {}): PricingRule | undefined => {
+  let best: PricingRule | undefined;
+  let bestScore = -1;
+  rules.forEach(rule => {
+    const score = specificity(rule, defect, container);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// The card negotiated with the customer billed; failing that, one for the container's owner
+// prefix (covers jobs that arrive without a customer). undefined means the default card.
+export const findRateCard = (inspection: Inspection, cards: RateCard[]): RateCard | undefined => {
+  const customer = normalizeCustomer(inspection.customer);
+  const number = inspection.containerNumber.toUpperCase();
+  return (customer ? cards.find(card => card.customers.some(c => normalizeCustomer(c) === customer)) : undefined)
+    || cards.find(card => card.ownerCodes.some(code => code && number.startsWith(code.toUpperCase())));
+};
+
+// Rule lists to try in turn. A rule from the card beats any default rule, however specific.
+export const pricingTiers = (card: RateCard | undefined, defaultRules: PricingRule[]): PricingRule[][] =>
+  !card ? [defaultRules] : card.inheritsDefault ? [card.rules, defaultRules] : [card.rules];
+
+// Currency a quote is priced in, and the exchange rates (VND per unit) used to get there
+export interface QuoteMoney {
+  currency: Currency;
+  rates: QuoteExchangeRate[];
+}
+
+const BASE_MONEY: QuoteMoney = { currency: BASE_CURRENCY, rates: [] };
+
+// The currency and rates already on the quote, with today's rates for any currency it lacks.
+// A quote keeps converting at the rates it was first priced with.
+export const quoteMoney = (inspection: Inspection): QuoteMoney => ({
+  currency: inspection.quote?.currency || BASE_CURRENCY,
+  rates: mergeRates(inspection.quote?.exchangeRates, ratesOn(getExchangeRates()))
+});
+
+// Labor is priced at the inspection's depot. Shift premiums apply only once a repair time has
+// been entered: when the photos were taken says nothing about when the repair is done.
+export const laborContext = (inspection: Inspection): LaborContext => ({
+  rates: getLaborRates(),
+  depot: inspection.location,
+  at: inspection.repairAt ? new Date(inspection.repairAt) : undefined
+});
+
+// Base rates, without shift premiums
+const DEFAULT_LABOR: LaborContext = { rates: DEFAULT_LABOR_RATES };
+
+// Without a matching rule (or an exchange rate for its currency, or a labor rate for its skill)
+// the defect is left unpriced, not 0, so the quote flags it. Amounts are in the quote currency.
+export const calculateDefectCost = (
+  defect: Defect,
+  tiers: PricingRule[][],
+  container: ContainerProfile = {},
+  money: QuoteMoney = BASE_MONEY,
+  labor: LaborContext = DEFAULT_LABOR
+): Defect => {
+  const rule = tiers.reduce<PricingRule | undefined>((found, rules) => found || findPricingRule(defect, rules, container), undefined);
+  const parts = rule && convertAmount(rule.basePrice, rule.currency || BASE_CURRENCY, money.currency, money.rates);
+  const hourlyRate = rule && laborHourlyRate(rule.laborSkill || 'GENERAL', labor);
+  const laborRate = hourlyRate === undefined ? undefined : convertAmount(hourlyRate, BASE_CURRENCY, money.currency, money.rates);
+
+  if (rule && parts !== undefined && laborRate !== undefined) {
+    const partsCost = roundMoney(parts, money.currency);
     return {
       ...defect,
-      partsCost: rule.basePrice,
+      partsCost,
       laborHours: rule.laborHours,
-      repairCost: rule.basePrice + (rule.laborHours * DEFAULT_LABOR_RATE)
+      repairCost: roundMoney(partsCost + (rule.laborHours * laborRate), money.currency),
+      pricingRuleId: rule.id
     };
   }
-  
-  // Default fallback if no rule
+
   return {
       ...defect,
-      partsCost: 0,
-      laborHours: 0,
-      repairCost: 0
+      partsCost: undefined,
+      laborHours: undefined,
+      repairCost: undefined,
+      pricingRuleId: undefined
   };
 };
 
-export const generateQuote = (inspection: Inspection): Quote => {
+// Tax is worked out per rate from the customer's profile and the lines' own overrides
+export const generateQuote = (inspection: Inspection, taxSettings: TaxSettings = getTaxSettings()): Quote => {
   let subtotal = 0;
-  
-  // Sum up accepted/pending defects. Rejected ones are free.
+  let partsTotal = 0;
+  const unpricedDefectIds: string[] = [];
+
+  // Sum up accepted/pending defects. Rejected ones are free, merged duplicates are priced once via their primary.
   inspection.defects.forEach(d => {
-      if (d.status !== 'REJECTED') {
+      if (d.status !== 'REJECTED' && !d.mergedInto) {
+          if (d.repairCost === undefined) unpricedDefectIds.push(d.id);
           subtotal += (d.repairCost || 0);
+          // A cost entered by hand keeps its parts; the rest of it is labor
+          partsTotal += Math.min(d.partsCost || 0, d.repairCost || 0);
       }
   });
 
-  const tax = subtotal * TAX_RATE;
-  const total = subtotal + tax;
+  // Kept from the quote being replaced
+  const currency = inspection.quote?.currency || BASE_CURRENCY;
+  const exchangeRates = inspection.quote?.exchangeRates;
+  const rateCardId = inspection.quote?.rateCardId;
+  const rateCardName = inspection.quote?.rateCardName;
+
+  subtotal = roundMoney(subtotal, currency);
+  partsTotal = roundMoney(partsTotal, currency);
+  const taxLines = taxBreakdown(inspection, taxSettings, currency);
+  const tax = roundMoney(taxLines.reduce((sum, line) => sum + line.tax, 0), currency);
+  const total = roundMoney(subtotal + tax, currency);
 
   return {
     subtotal,
+    partsTotal,
+    laborTotal: roundMoney(subtotal - partsTotal, currency),
     tax,
+    taxLines,
     total,
-    currency: 'VND',
+    currency,
+    ...(exchangeRates ? { exchangeRates } : {}),
+    ...(rateCardId ? { rateCardId, rateCardName } : {}),
     status: QuoteStatus.DRAFT,
-    generatedAt: new Date().toISOString()
+    generatedAt: new Date().toISOString(),
+    ...(unpricedDefectIds.length > 0 ? { unpricedDefectIds } : {})
   };
 };
 
-export const applyPricingToInspection = (inspection: Inspection): Inspection => {
-    const rules = getPricingRules();
+// Prices defects that have no cost yet, from the inspection's rate card. With reprice, costs
+// that came from a rule are worked out again as well (after the size/type, the customer, a
+// component or a damage size changed). Costs entered by hand are always kept.
+export const applyPricingToInspection = (inspection: Inspection, reprice = false): Inspection => {
+    const card = findRateCard(inspection, getRateCards());
+    const tiers = pricingTiers(card, getPricingRules());
+    const container = containerProfile(inspection.sizeType);
+    const money = quoteMoney(inspection);
+    const labor = laborContext(inspection);
     const pricedDefects = inspection.defects.map(d => {
-        // If manually edited costs exist, keep them, otherwise calculate
-        if (d.repairCost !== undefined) return d;
-        return calculateDefectCost(d, rules);
+        // Merged duplicates aren't priced
+        if (d.mergedInto) return d;
+        if (d.repairCost !== undefined && !(reprice && d.pricingRuleId)) return d;
+        // Estimates follow the container; measured sizes are kept
+        const image = inspection.images.find(i => i.id === d.imageId);
+        const estimate = image && estimateDamageSize(d, image, container);
+        const size = d.size && !d.size.estimated ? d.size : estimate;
+        return calculateDefectCost({ ...d, size }, tiers, container, money, labor);
     });
-    
+
     const tempInspection = { ...inspection, defects: pricedDefects };
-    const quote = generateQuote(tempInspection);
-    
+    const { rateCardId, rateCardName, ...generated } = generateQuote(tempInspection);
+    const quote = {
+        ...generated,
+        currency: money.currency,
+        exchangeRates: money.rates,
+        ...(card ? { rateCardId: card.id, rateCardName: card.name } : {})
+    };
+
     return {
         ...tempInspection,
         quote
     };
 };
+
+// Prices the quote in another currency at today's rates. Costs from rules are worked out
+// again; costs entered by hand are converted.
+export const changeQuoteCurrency = (inspection: Inspection, currency: Currency): Inspection => {
+    const from = quoteMoney(inspection);
+    const rates = ratesOn(getExchangeRates());
+    const convert = (amount?: number) => {
+        if (amount === undefined) return undefined;
+        const base = convertAmount(amount, from.currency, BASE_CURRENCY, from.rates);
+        const converted = base === undefined ? undefined : convertAmount(base, BASE_CURRENCY, currency, rates);
+        return converted === undefined ? undefined : roundMoney(converted, currency);
+    };
+    const defects = inspection.defects.map(d =>
+        d.repairCost !== undefined && !d.pricingRuleId
+            ? { ...d, repairCost: convert(d.repairCost), partsCost: convert(d.partsCost) }
+            : d
+    );
+    const quote = { ...generateQuote(inspection), currency, exchangeRates: rates };
+    return applyPricingToInspection({ ...inspection, defects, quote }, true);
+};
@@ -0,0 +1,69 @@
+import { Inspection } from '../types';
+import { InspectionRepository } from './inspectionRepository';
+
+export const DEFAULT_API_URL = 'http://localhost:3001';
+
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public body?: unknown) {
+    super(message);
+  }
+}
+
+export const getApiUrl = () => (process.env.API_URL || DEFAULT_API_URL).replace(/\/$/, '');
+
+// JSON request against the local server (server/index.js), with the shared API_TOKEN. The
+// token is part of the build, so it only keeps other programs out, not other people.
+// Non-2xx answers throw ApiError.
+export const apiRequest = async <T>(path: string, init: { method?: string; body?: unknown } = {}, baseUrl = getApiUrl()): Promise<T> => {
+  const response = await fetch(`${baseUrl}/api${path}`, {
+    method: init.method || 'GET',
+    headers: {
+      Authorization: `Bearer ${process.env.API_TOKEN || ''}`,
+      ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {})
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined
+  });
+  const text = await response.text();
+  const data = text ? JSON.parse(text) : undefined;
+  if (!response.ok) throw new ApiError(data?.error || `Request failed with ${response.status}`, response.status, data);
+  return data as T;
+};
+
+export const createRestRepository = (baseUrl = getApiUrl()): InspectionRepository => {
+  const request = <T>(path: string, init?: { method?: string; body?: unknown }) => apiRequest<T>(path, init, baseUrl);
+
+  return {
+    id: 'rest',
+    list: () => request<Inspection[]>('/inspections'),
+    get: async (id) => {
+      try {
+        return await request<Inspection>(`/inspections/${encodeURIComponent(id)}`);
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 404) return undefined;
+        throw error;
+      }
+    },
+    findByContainerNumber: (containerNumber) =>
+      request<Inspection[]>(`/inspections?containerNumber=${encodeURIComponent(containerNumber)}`),
+    findByStatus: (status) => request<Inspection[]>(`/inspections?status=${encodeURIComponent(status)}`),
+    put: async (inspection) => {
+      await request(`/inspections/${encodeURIComponent(inspection.id)}`, { method: 'PUT', body: inspection });
+    },
+    remove: async (id) => {
+      try {
+        await request(`/inspections/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      } catch (error) {
+        if (!(error instanceof ApiError && error.status === 404)) throw error;
+      }
+    },
+    // Skips version checks: a restore overrides whatever the server has
+    putAll: async (inspections, { replace = false } = {}) => {
+      await request(`/inspections/bulk${replace ? '?replace=true' : ''}`, { method: 'POST', body: inspections });
+    },
+    // Clients never rewrite the server's records in bulk: that would skip the version checks
+    // and overwrite edits made on other devices meanwhile (see createSyncedRepository)
+    migrate: async () => {
+      throw new Error('Inspections on the server are not migrated from a client');
+    }
+  };
+};
@@ -0,0 +1,212 @@
+import { Inspection, InspectionImage, QuoteStatus, RetentionPolicy } from '../types';
+import { getInspections, getInspectionById, getSettings, getStorageBackend, updateInspection, saveInspection, removeInspection } from './dbService';
+import { archiveInspection, getArchivedInspection, isArchiveAvailable, listArchived, removeArchived } from './archiveStore';
+import { dataURLToBlob, preprocessImage } from './imageService';
+import { LEGACY_STORAGE_KEY } from './inspectionRepository';
+
+// Retention: invoiced jobs give up their full-resolution photos after a while (thumbnails,
+// defects and the quote stay), and closed jobs are eventually moved to the compressed archive.
+// planRetention shows what a run would do without changing anything.
+// With the REST backend nothing is archived: the archive is on one device, and removing the
+// record would delete it on the server for every other device too.
+
+const LAST_RUN_KEY = 'container_retention_last_run';
+const RUN_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionCandidate {
+  id: string;
+  containerNumber: string;
+  timestamp: string;
+  photos: number;
+  bytes: number; // Freed by dropping photos, or the record's current size when archiving
+}
+
+export interface RetentionPlan {
+  dropImages: RetentionCandidate[];
+  archive: RetentionCandidate[];
+  archiveUnavailable: boolean; // Archiving is configured but this browser can't do it
+  archiveShared: boolean; // Archiving is configured but inspections are shared through the server
+}
+
+export interface StorageUsage {
+  photos: number;
+  originals: number;
+  thumbnails: number;
+  records: number; // Defects, quotes, audit trails...
+  archive: number;
+  archivedCount: number;
+  manifest: number;
+  pricingRules: number;
+  other: number; // Settings, sync queue and the rest of localStorage
+  browserUsage?: number;
+  browserQuota?: number;
+}
+
+// Decoded size of a data URL (what a Blob of it takes in IndexedDB)
+const dataUrlBytes = (url?: string) => (url ? Math.round((url.length - url.indexOf(',') - 1) * 0.75) : 0);
+
+const fullResBytes = (img: InspectionImage) =>
+  (img.fullResRemovedAt ? 0 : dataUrlBytes(img.url)) + dataUrlBytes(img.originalUrl);
+
+const recordBytes = (inspection: Inspection) =>
+  inspection.images.reduce((sum, img) => sum + dataUrlBytes(img.url) + dataUrlBytes(img.thumbnailUrl) + dataUrlBytes(img.originalUrl), 0)
+  + JSON.stringify({ ...inspection, images: [] }).length;
+
+const subtractMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() - months);
+  return result;
+};
+
+const isInvoiced = (inspection: Inspection) => inspection.quote?.status === QuoteStatus.INVOICED;
+
+// Nothing left to do on it: invoiced, or completed without a quote
+const isClosed = (inspection: Inspection) => isInvoiced(inspection) || (inspection.status === 'COMPLETED' && !inspection.quote);
+
+const candidate = (inspection: Inspection, photos: number, bytes: number): RetentionCandidate => ({
+  id: inspection.id,
+  containerNumber: inspection.containerNumber,
+  timestamp: inspection.timestamp,
+  photos,
+  bytes
+});
+
+export const planRetention = async (policy: RetentionPolicy = getSettings().retention, now = new Date()): Promise<RetentionPlan> => {
+  const inspections = await getInspections();
+  const plan: RetentionPlan = { dropImages: [], archive: [], archiveUnavailable: false, archiveShared: false };
+
+  if (policy.dropImagesAfterDays !== undefined) {
+    const cutoff = now.getTime() - policy.dropImagesAfterDays * DAY_MS;
+    inspections.forEach(inspection => {
+      if (!isInvoiced(inspection)) return;
+      const invoicedAt = inspection.quote?.invoiceDetails?.invoiceDate || inspection.timestamp;
+      if (Date.parse(invoicedAt) > cutoff) return;
+      const images = inspection.images.filter(img => fullResBytes(img) > 0);
+      if (images.length > 0) plan.dropImages.push(candidate(inspection, images.length, images.reduce((sum, img) => sum + fullResBytes(img), 0)));
+    });
+  }
+
+  if (policy.archiveAfterMonths !== undefined) {
+    const cutoff = subtractMonths(now, policy.archiveAfterMonths).toISOString();
+    plan.archiveShared = getStorageBackend() === 'rest';
+    plan.archiveUnavailable = !plan.archiveShared && !isArchiveAvailable();
+    if (!plan.archiveShared && !plan.archiveUnavailable) {
+      inspections
+        .filter(inspection => isClosed(inspection) && inspection.timestamp < cutoff)
+        .forEach(inspection => plan.archive.push(candidate(inspection, inspection.images.length, recordBytes(inspection))));
+    }
+  }
+  return plan;
+};
+
+// The thumbnail becomes the photo (stored once). Older records without one get it made now.
+const dropFullResolution = async (inspection: Inspection, removedAt: string): Promise<Inspection> => {
+  const settings = getSettings().image;
+  const images = await Promise.all(inspection.images.map(async (img): Promise<InspectionImage> => {
+    if (fullResBytes(img) === 0) return img;
+    const thumbnailUrl = img.thumbnailUrl || (await preprocessImage(dataURLToBlob(img.url), { ...settings, keepOriginal: false })).thumbnailUrl;
+    const image: InspectionImage = { ...img, url: thumbnailUrl, fullResRemovedAt: removedAt };
+    delete image.thumbnailUrl;
+    delete image.originalUrl;
+    return image;
+  }));
+  return { ...inspection, images };
+};
+
+export interface RetentionResult {
+  imagesDropped: number;
+  archived: number;
+  failures: string[];
+}
+
+// Works record by record: one failure is reported and the rest still run
+export const applyRetention = async (plan: RetentionPlan): Promise<RetentionResult> => {
+  const result: RetentionResult = { imagesDropped: 0, archived: 0, failures: [] };
+  const now = new Date().toISOString();
+
+  for (const item of plan.dropImages) {
+    try {
+      const inspection = await getInspectionById(item.id);
+      if (!inspection) continue;
+      await updateInspection(await dropFullResolution(inspection, now));
+      result.imagesDropped += item.photos;
+    } catch (error) {
+      console.error(`Retention: could not drop photos of ${item.containerNumber}`, error);
+      result.failures.push(item.containerNumber);
+    }
+  }
+
+  for (const item of plan.archive) {
+    try {
+      const inspection = await getInspectionById(item.id);
+      if (!inspection) continue;
+      // Archived before removal, so a failure in between leaves a copy in both places, never none
+      await archiveInspection(inspection);
+      await removeInspection(item.id);
+      result.archived++;
+    } catch (error) {
+      console.error(`Retention: could not archive ${item.containerNumber}`, error);
+      result.failures.push(item.containerNumber);
+    }
+  }
+
+  localStorage.setItem(LAST_RUN_KEY, now);
+  return result;
+};
+
+export const getLastRetentionRun = () => localStorage.getItem(LAST_RUN_KEY) || undefined;
+
+// Daily automatic run when the policy is enabled
+export const runRetentionIfDue = async (): Promise<RetentionResult | undefined> => {
+  const policy = getSettings().retention;
+  const lastRun = getLastRetentionRun();
+  if (!policy.enabled || (lastRun && Date.now() - Date.parse(lastRun) < RUN_INTERVAL_MS)) return undefined;
+  return applyRetention(await planRetention(policy));
+};
+
+// Brings an archived inspection back into the working set
+export const unarchiveInspection = async (id: string): Promise<void> => {
+  const inspection = await getArchivedInspection(id);
+  if (!inspection) return;
+  await saveInspection(inspection);
+  await removeArchived(id);
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const usage: StorageUsage = {
+    photos: 0, originals: 0, thumbnails: 0, records: 0, archive: 0, archivedCount: 0, manifest: 0, pricingRules: 0, other: 0
+  };
+
+  (await getInspections()).forEach(inspection => {
+    inspection.images.forEach(img => {
+      usage.photos += dataUrlBytes(img.url);
+      usage.originals += dataUrlBytes(img.originalUrl);
+      usage.thumbnails += dataUrlBytes(img.thumbnailUrl);
+    });
+    usage.records += JSON.stringify({ ...inspection, images: inspection.images.map(({ url, thumbnailUrl, originalUrl, ...meta }) => meta) }).length;
+  });
+
+  if (isArchiveAvailable()) {
+    const archived = await listArchived();
+    usage.archivedCount = archived.length;
+    usage.archive = archived.reduce((sum, a) => sum + a.size, 0);
+  }
+
+  // localStorage holds UTF-16 strings: two bytes per character
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)!;
+    if (key === LEGACY_STORAGE_KEY) continue; // Inspections, counted above
+    const bytes = ((localStorage.getItem(key) || '').length + key.length) * 2;
+    if (key.startsWith('container_manifest')) usage.manifest += bytes;
+    else if (key.startsWith('container_pricing')) usage.pricingRules += bytes;
+    else usage.other += bytes;
+  }
+
+  if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage.browserUsage = estimate.usage;
+    usage.browserQuota = estimate.quota;
+  }
+  return usage;
+};
@@ -0,0 +1,195 @@
+import { Inspection, InspectionImage, Defect, QuoteStatus } from '../types';
+import { deriveInspectionStatus, deriveOverallCondition } from './analysisRunner';
+import { generateQuote } from './pricingService';
+import { mergeAuditLogs } from './auditService';
+
+// Three-way merge of an inspection edited here (local) and on the server (remote) since
+// the version both started from (base). Changes made on only one side are taken as they
+// are. When both sides changed the same thing differently it is a conflict: reported, or
+// settled in favour of `prefer` once a user has chosen.
+//
+// Policy for the cases that come up at the gate:
+// - Photos and their analysis: a newer analysis (more attempts) wins, it isn't a human decision.
+// - Defect decisions (status, costs, CEDEX codes): conflict if both sides decided differently.
+// - A re-capture / re-analysis that drops defects someone decided on elsewhere: conflict.
+// - Quote: the further status (draft < approved < invoiced) wins; an invoiced quote on one
+//   side with defect changes on the other is a conflict. Draft quotes are recalculated.
+
+export type MergePreference = 'local' | 'remote';
+
+export interface MergeResult {
+  merged: Inspection;
+  conflicts: string[];
+}
+
+const IMAGE_DATA_FIELDS = ['url', 'thumbnailUrl', 'originalUrl'] as const;
+
+// Fields a reviewer decides on; compared one by one so edits to different fields combine
+const DECISION_FIELDS: (keyof Defect)[] = [
+  'status', 'repairCost', 'partsCost', 'laborHours', 'pricingRuleId', 'taxProfileId', 'size', 'locationCode', 'componentCode',
+  'repairCode', 'reviewerComment', 'mergedInto', 'keepSeparate', 'autoDecision'
+];
+
+const QUOTE_RANK: Record<QuoteStatus, number> = {
+  [QuoteStatus.DRAFT]: 0,
+  [QuoteStatus.PENDING_APPROVAL]: 1,
+  [QuoteStatus.APPROVED]: 2,
+  [QuoteStatus.INVOICED]: 3
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Inspection without photo data: what the outbox keeps as merge base
+export const withoutImageData = (inspection: Inspection): Inspection => ({
+  ...inspection,
+  images: inspection.images.map(img => {
+    const copy = { ...img };
+    IMAGE_DATA_FIELDS.forEach(field => { delete copy[field]; });
+    return copy as InspectionImage;
+  })
+});
+
+const imageMeta = (img?: InspectionImage) => img && withoutImageData({ images: [img] } as Inspection).images[0];
+
+// Picks a value: unchanged side loses; equal changes agree; otherwise null (conflict)
+const pick = <T>(base: T | undefined, local: T | undefined, remote: T | undefined): { value: T | undefined } | null => {
+  if (same(local, remote)) return { value: local };
+  if (same(local, base)) return { value: remote };
+  if (same(remote, base)) return { value: local };
+  return null;
+};
+
+const byId = <T extends { id: string }>(items: T[] = []) => new Map(items.map(i => [i.id, i]));
+
+const mergeImages = (base: Inspection | undefined, local: Inspection, remote: Inspection): InspectionImage[] => {
+  const baseImages = byId(base?.images);
+  const localImages = byId(local.images);
+  const remoteImages = byId(remote.images);
+  const ids = Array.from(new Set([...remote.images.map(i => i.id), ...local.images.map(i => i.id)]));
+
+  return ids.map(id => {
+    const l = localImages.get(id);
+    const r = remoteImages.get(id);
+    if (!l || !r) return (l || r)!;
+    const chosen = pick(imageMeta(baseImages.get(id)), imageMeta(l), imageMeta(r));
+    if (chosen) return same(chosen.value, imageMeta(l)) ? l : r;
+    return (l.analysisAttempts || 0) >= (r.analysisAttempts || 0) ? l : r;
+  });
+};
+
+const describeDefect = (d: Defect) => `${d.code} ${d.severity} (${d.locationCode || d.id})`;
+
+const mergeDefects = (
+  base: Inspection | undefined,
+  local: Inspection,
+  remote: Inspection,
+  conflicts: string[],
+  prefer?: MergePreference
+): Defect[] => {
+  const baseDefects = byId(base?.defects);
+  const localDefects = byId(local.defects);
+  const remoteDefects = byId(remote.defects);
+  const ids = Array.from(new Set([...remote.defects.map(d => d.id), ...local.defects.map(d => d.id)]));
+  const merged: Defect[] = [];
+
+  ids.forEach(id => {
+    const b = baseDefects.get(id);
+    const l = localDefects.get(id);
+    const r = remoteDefects.get(id);
+
+    if (!l || !r) {
+      const present = (l || r)!;
+      if (!b) { merged.push(present); return; } // Added on one side
+      // Dropped on one side (re-analysis). Fine unless the other side decided on it meanwhile.
+      if (same(present, b)) return;
+      const keep = prefer ? (prefer === 'local' ? l : r) : undefined;
+      if (!prefer) conflicts.push(`${describeDefect(present)}: re-analyzed on one device after it was reviewed on another`);
+      if (keep) merged.push(keep);
+      return;
+    }
+
+    const result: Defect = { ...(same(l, b) ? r : l) };
+    DECISION_FIELDS.forEach(field => {
+      const chosen = pick(b?.[field], l[field], r[field]);
+      if (chosen) {
+        (result as unknown as Record<string, unknown>)[field] = chosen.value;
+      } else if (prefer) {
+        (result as unknown as Record<string, unknown>)[field] = (prefer === 'local' ? l : r)[field];
+      } else {
+        conflicts.push(`${describeDefect(l)}: ${field} is ${JSON.stringify(l[field])} here, ${JSON.stringify(r[field])} on the server`);
+      }
+    });
+    merged.push(result);
+  });
+
+  return merged;
+};
+
+export const mergeInspections = (
+  base: Inspection | undefined,
+  local: Inspection,
+  remote: Inspection,
+  prefer?: MergePreference
+): MergeResult => {
+  const conflicts: string[] = [];
+  const choose = <T>(label: string, b: T | undefined, l: T, r: T): T => {
+    const chosen = pick(b, l, r);
+    if (chosen) return chosen.value as T;
+    if (!prefer) conflicts.push(`${label}: ${JSON.stringify(l)} here, ${JSON.stringify(r)} on the server`);
+    return prefer === 'remote' ? r : l;
+  };
+
+  const images = mergeImages(base, local, remote);
+  const defects = mergeDefects(base, local, remote, conflicts, prefer);
+
+  // Quote: whoever got further in the approval flow wins
+  let quote = pick(base?.quote, local.quote, remote.quote)?.value;
+  if (quote === undefined && (local.quote || remote.quote)) {
+    const lRank = local.quote ? QUOTE_RANK[local.quote.status] : -1;
+    const rRank = remote.quote ? QUOTE_RANK[remote.quote.status] : -1;
+    quote = lRank === rRank ? (prefer === 'remote' ? remote.quote : local.quote) : lRank > rRank ? local.quote : remote.quote;
+  }
+  const defectsChanged = (side: Inspection) => !same(side.defects, base?.defects);
+  if (!prefer && base) {
+    if (remote.quote?.status === QuoteStatus.INVOICED && base.quote?.status !== QuoteStatus.INVOICED && defectsChanged(local)) {
+      conflicts.push('The quote was invoiced on the server while defects were changed here');
+    }
+    if (local.quote?.status === QuoteStatus.INVOICED && base.quote?.status !== QuoteStatus.INVOICED && defectsChanged(remote)) {
+      conflicts.push('The quote was invoiced here while defects were changed on the server');
+    }
+  }
+
+  const draft: Inspection = {
+    ...remote,
+    ...local,
+    containerNumber: choose('Container number', base?.containerNumber, local.containerNumber, remote.containerNumber),
+    containerNumberStatus: choose('Container number check', base?.containerNumberStatus, local.containerNumberStatus, remote.containerNumberStatus),
+    sizeType: choose('Size/type', base?.sizeType, local.sizeType, remote.sizeType),
+    customer: choose('Customer', base?.customer, local.customer, remote.customer),
+    repairAt: choose('Repair time', base?.repairAt, local.repairAt, remote.repairAt),
+    location: choose('Location', base?.location, local.location, remote.location),
+    images,
+    defects,
+    iiclTags: Array.from(new Set(defects.map(d => d.code))),
+    quote,
+    auditLog: mergeAuditLogs(remote.auditLog, local.auditLog),
+    version: remote.version,
+    updatedAt: remote.updatedAt
+  };
+  if (draft.iiclTags!.length === 0) draft.iiclTags = ['IICL'];
+
+  if (draft.quote && draft.quote.status === QuoteStatus.DRAFT) {
+    draft.quote = { ...generateQuote(draft), status: QuoteStatus.DRAFT };
+  }
+
+  const merged: Inspection = {
+    ...draft,
+    status: deriveInspectionStatus(draft),
+    overallCondition: deriveOverallCondition(draft)
+  };
+  return { merged, conflicts: Array.from(new Set(conflicts)) };
+};
+
+// True when the local copy has nothing the server copy lacks (nothing to push)
+export const isSameContent = (a: Inspection, b: Inspection) =>
+  same(withoutImageData({ ...a, version: 0, updatedAt: '', modifiedAt: '' }), withoutImageData({ ...b, version: 0, updatedAt: '', modifiedAt: '' }));
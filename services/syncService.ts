@@ -0,0 +1,369 @@
+import { Inspection, InspectionTombstone, OutboxEntry, SyncConflict, SyncState } from '../types';
+import { InspectionRepository } from './inspectionRepository';
+import { ApiError, apiRequest } from './restRepository';
+import { MergePreference, isSameContent, mergeInspections, withoutImageData } from './syncMerge';
+import { publishChange } from './changeFeed';
+
+// Offline-first sync for the REST backend. Inspections are read from and saved to a store
+// on this device; every save also queues the record in an outbox that is pushed to the
+// server in the background (on a timer, when the browser comes back online, after each save).
+// A push names the server version it was based on; if the server moved on meanwhile the two
+// copies are merged (syncMerge.ts), and whatever can't be merged is kept as a conflict for
+// someone to resolve on the Sync page. Nothing is overwritten silently.
+// Deletions reach other devices as tombstones. A queued change to a record deleted elsewhere
+// is a conflict as well: keep it (the record is created again) or take the deletion.
+
+const OUTBOX_KEY = 'container_sync_outbox_v1';
+const CONFLICTS_KEY = 'container_sync_conflicts_v1';
+const CURSOR_KEY = 'container_sync_cursor'; // updatedAt of the newest record pulled
+const DELETIONS_CURSOR_KEY = 'container_sync_deletions_cursor'; // deletedAt of the newest tombstone pulled
+const SYNC_INTERVAL_MS = 15000;
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+const MAX_MERGE_ROUNDS = 3; // Someone else keeps saving: try again on the next run
+
+type Outbox = Record<string, OutboxEntry>;
+
+const readOutbox = (): Outbox => JSON.parse(localStorage.getItem(OUTBOX_KEY) || '{}');
+const writeOutbox = (outbox: Outbox) => localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+
+const updateEntry = (id: string, update: (entry: OutboxEntry) => OutboxEntry | undefined) => {
+  const outbox = readOutbox();
+  if (!outbox[id]) return;
+  const next = update(outbox[id]);
+  if (next) outbox[id] = next;
+  else delete outbox[id];
+  writeOutbox(outbox);
+};
+
+const readConflicts = (): SyncConflict[] => JSON.parse(localStorage.getItem(CONFLICTS_KEY) || '[]');
+const writeConflicts = (conflicts: SyncConflict[]) => localStorage.setItem(CONFLICTS_KEY, JSON.stringify(conflicts));
+
+const isConflicted = (id: string) => readConflicts().some(c => c.inspectionId === id);
+
+// Browsers report a dropped connection as a TypeError from fetch
+const isOffline = (error: unknown) => error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine);
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+let local: InspectionRepository | null = null;
+let timer: ReturnType<typeof setInterval> | null = null;
+let running: Promise<void> | null = null;
+let syncing = false;
+let lastSyncAt: string | undefined;
+let lastError: string | undefined;
+const listeners = new Set<(state: SyncState) => void>();
+
+export const getSyncState = (): SyncState => ({
+  enabled: local !== null,
+  online: typeof navigator === 'undefined' || navigator.onLine,
+  syncing,
+  pending: Object.keys(readOutbox()).length,
+  conflicts: readConflicts(),
+  lastSyncAt,
+  lastError
+});
+
+const notify = () => {
+  const state = getSyncState();
+  listeners.forEach(listener => listener(state));
+};
+
+// Called with the current state right away, then on every change. Returns an unsubscribe function.
+export const subscribeSyncState = (listener: (state: SyncState) => void) => {
+  listeners.add(listener);
+  listener(getSyncState());
+  return () => { listeners.delete(listener); };
+};
+
+export const getPendingEntries = (): OutboxEntry[] =>
+  Object.values(readOutbox()).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+export const getConflict = (inspectionId: string): SyncConflict | undefined =>
+  readConflicts().find(c => c.inspectionId === inspectionId);
+
+const requireLocal = () => {
+  if (!local) throw new Error('Sync is not enabled (STORAGE_BACKEND is not rest)');
+  return local;
+};
+
+let upgradePulled = (record: Inspection) => record;
+
+// Local store that queues every save for the server. `remote` is used for restores and
+// removals; the push/pull loop talks to the API directly so it can read version conflicts.
+// `upgrade` brings records pulled from the server up to this app's schema.
+export const createSyncedRepository = (
+  localRepo: InspectionRepository,
+  remote: InspectionRepository,
+  upgrade: (record: Inspection) => Inspection = record => record
+): InspectionRepository => {
+  local = localRepo;
+  upgradePulled = upgrade;
+  return {
+    id: `synced:${localRepo.id}`,
+    list: () => localRepo.list(),
+    get: (id) => localRepo.get(id),
+    findByContainerNumber: (containerNumber) => localRepo.findByContainerNumber(containerNumber),
+    findByStatus: (status) => localRepo.findByStatus(status),
+    put: async (inspection) => {
+      const now = new Date().toISOString();
+      const outbox = readOutbox();
+      const existing = outbox[inspection.id];
+      let base = existing?.base;
+      if (!existing) {
+        // Base is only known if this save was made on top of the copy we have
+        const previous = await localRepo.get(inspection.id);
+        base = previous && previous.version === inspection.version ? withoutImageData(previous) : undefined;
+      }
+      // Queued before the local write so a pull running meanwhile leaves the record alone
+      writeOutbox({ ...readOutbox(), [inspection.id]: { inspectionId: inspection.id, queuedAt: now, attempts: 0, base } });
+      await localRepo.put({ ...inspection, modifiedAt: now });
+      notify();
+      void syncNow();
+    },
+    // Removed on the server first (needs a connection), so a pull can't bring the record back
+    remove: async (id) => {
+      await remote.remove(id);
+      updateEntry(id, () => undefined);
+      writeConflicts(readConflicts().filter(c => c.inspectionId !== id));
+      await localRepo.remove(id);
+      notify();
+    },
+    // Restores go to the server first (needs a connection); this device then takes the
+    // server's copies. Restored records replace any changes still queued for them.
+    putAll: async (inspections, options = {}) => {
+      await remote.putAll(inspections, options);
+      const outbox = options.replace ? {} : readOutbox();
+      inspections.forEach(inspection => { delete outbox[inspection.id]; });
+      writeOutbox(outbox);
+      writeConflicts(readConflicts().filter(c => outbox[c.inspectionId]));
+      const fresh = (await remote.list()).filter(inspection => !outbox[inspection.id]);
+      await localRepo.putAll(fresh, options);
+      notify();
+    },
+    // Only this device's copy. Server records are upgraded one by one as they are pulled, and
+    // reach the server again through the usual version-checked push when someone edits them.
+    migrate: (transform) => localRepo.migrate(transform)
+  };
+};
+
+const recordConflict = (record: Inspection, serverVersion: number, reasons: string[]) => {
+  const conflicts = readConflicts().filter(c => c.inspectionId !== record.id);
+  conflicts.push({
+    inspectionId: record.id,
+    containerNumber: record.containerNumber,
+    detectedAt: new Date().toISOString(),
+    serverVersion,
+    reasons
+  });
+  writeConflicts(conflicts);
+};
+
+// Saves a record unless it was changed on this device after `modifiedAt` was read
+const putIfUnchanged = async (record: Inspection, modifiedAt: string | undefined) => {
+  const store = requireLocal();
+  const current = await store.get(record.id);
+  if (current && current.modifiedAt !== modifiedAt) return false;
+  await store.put(record);
+  publishChange('inspections', [record.id], 'server');
+  return true;
+};
+
+const pushEntry = async (entry: OutboxEntry, round = 0): Promise<void> => {
+  const store = requireLocal();
+  const record = await store.get(entry.inspectionId);
+  if (!record) {
+    updateEntry(entry.inspectionId, () => undefined);
+    return;
+  }
+
+  let saved: Inspection;
+  try {
+    saved = await apiRequest<Inspection>(`/inspections/${encodeURIComponent(record.id)}`, {
+      method: 'PUT',
+      body: { ...record, modifiedAt: undefined }
+    });
+  } catch (error) {
+    const body = error instanceof ApiError && error.status === 409
+      ? error.body as { current?: Inspection; deleted?: InspectionTombstone } | undefined
+      : undefined;
+    if (body?.deleted) {
+      recordConflict(record, body.deleted.version, ['The inspection was deleted on another device after it was changed here']);
+      return;
+    }
+    const remote = body?.current;
+    if (!remote) throw error;
+    if (isSameContent(record, remote)) {
+      // Same change made on both sides: just adopt the server copy
+      if (await putIfUnchanged(remote, record.modifiedAt)) updateEntry(record.id, e => (e.queuedAt === entry.queuedAt ? undefined : e));
+      return;
+    }
+    const { merged, conflicts } = mergeInspections(entry.base, record, remote);
+    if (conflicts.length > 0) {
+      recordConflict(record, remote.version ?? 0, conflicts);
+      return;
+    }
+    if (round + 1 >= MAX_MERGE_ROUNDS) throw new Error(`Inspection ${record.containerNumber} keeps changing on the server`);
+    if (!(await putIfUnchanged({ ...merged, modifiedAt: record.modifiedAt }, record.modifiedAt))) return; // Picked up next run
+    updateEntry(record.id, e => ({ ...e, base: withoutImageData(remote) }));
+    return pushEntry({ ...entry, base: withoutImageData(remote) }, round + 1);
+  }
+
+  // Store the server's stamps. If the record changed here meanwhile, keep those changes queued.
+  if (await putIfUnchanged(saved, record.modifiedAt)) {
+    updateEntry(record.id, e => (e.queuedAt === entry.queuedAt ? undefined : e));
+  } else {
+    const current = await store.get(record.id);
+    if (current) {
+      await store.put({ ...current, version: saved.version, updatedAt: saved.updatedAt });
+      publishChange('inspections', [record.id], 'server');
+    }
+    updateEntry(record.id, e => ({ ...e, base: withoutImageData(saved) }));
+  }
+};
+
+const pushAll = async () => {
+  const now = Date.now();
+  const due = getPendingEntries().filter(entry =>
+    !isConflicted(entry.inspectionId) && (!entry.nextAttemptAt || Date.parse(entry.nextAttemptAt) <= now));
+
+  for (const entry of due) {
+    try {
+      await pushEntry(entry);
+    } catch (error) {
+      updateEntry(entry.inspectionId, e => {
+        const attempts = e.attempts + 1;
+        const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempts);
+        return { ...e, attempts, lastError: errorMessage(error), nextAttemptAt: new Date(Date.now() + delay).toISOString() };
+      });
+      if (isOffline(error)) throw error; // The rest would fail the same way
+      console.error(`Could not sync inspection ${entry.inspectionId}`, error);
+    }
+  }
+};
+
+// Drops copies of records deleted on other devices. Records with queued changes are left
+// alone: their push comes back as a conflict.
+const pullDeletions = async () => {
+  const store = requireLocal();
+  const since = localStorage.getItem(DELETIONS_CURSOR_KEY);
+  const deletions = await apiRequest<InspectionTombstone[]>(`/deletions${since ? `?since=${encodeURIComponent(since)}` : ''}`);
+  let cursor = since || '';
+  const removed: string[] = [];
+
+  for (const tombstone of deletions) {
+    if (tombstone.deletedAt && tombstone.deletedAt > cursor) cursor = tombstone.deletedAt;
+    if (readOutbox()[tombstone.id]) continue;
+    const current = await store.get(tombstone.id);
+    if (!current || (current.version ?? 0) > tombstone.version) continue;
+    await store.remove(tombstone.id);
+    removed.push(tombstone.id);
+  }
+  if (cursor) localStorage.setItem(DELETIONS_CURSOR_KEY, cursor);
+  if (removed.length > 0) publishChange('inspections', removed, 'server');
+};
+
+// Brings in records changed on other devices. Records with queued changes are left alone;
+// they are merged when pushed.
+const pull = async () => {
+  const store = requireLocal();
+  const since = localStorage.getItem(CURSOR_KEY);
+  const changed = await apiRequest<Inspection[]>(`/inspections${since ? `?since=${encodeURIComponent(since)}` : ''}`);
+  let cursor = since || '';
+  const pulled: string[] = [];
+
+  for (const remote of changed) {
+    if (remote.updatedAt && remote.updatedAt > cursor) cursor = remote.updatedAt;
+    if (readOutbox()[remote.id]) continue;
+    const current = await store.get(remote.id);
+    if (current && (current.version ?? 0) >= (remote.version ?? 0)) continue;
+    await store.put(upgradePulled(remote));
+    pulled.push(remote.id);
+  }
+  if (cursor) localStorage.setItem(CURSOR_KEY, cursor);
+  if (pulled.length > 0) publishChange('inspections', pulled, 'server');
+  await pullDeletions();
+};
+
+// One push-then-pull run; concurrent calls share it
+export const syncNow = (): Promise<void> => {
+  if (!local) return Promise.resolve();
+  if (running) return running;
+  running = (async () => {
+    syncing = true;
+    notify();
+    try {
+      if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+      await pushAll();
+      await pull();
+      lastSyncAt = new Date().toISOString();
+      lastError = undefined;
+    } catch (error) {
+      lastError = errorMessage(error);
+      if (!isOffline(error)) console.error("Sync failed", error);
+    } finally {
+      syncing = false;
+      running = null;
+      notify();
+    }
+  })();
+  return running;
+};
+
+// Records saved on this device before it synced (e.g. with the IndexedDB backend) have no version yet
+const queueUnsynced = async () => {
+  const store = requireLocal();
+  const outbox = readOutbox();
+  const queuedAt = new Date().toISOString();
+  (await store.list())
+    .filter(inspection => inspection.version === undefined && !outbox[inspection.id])
+    .forEach(inspection => { outbox[inspection.id] = { inspectionId: inspection.id, queuedAt, attempts: 0 }; });
+  writeOutbox(outbox);
+};
+
+export const startSync = async () => {
+  if (!local || timer) return;
+  timer = setInterval(() => { void syncNow(); }, SYNC_INTERVAL_MS);
+  window.addEventListener('online', () => { void syncNow(); });
+  window.addEventListener('offline', notify);
+  await queueUnsynced();
+  void syncNow();
+};
+
+// Settles a conflict by taking this device's ('local') or the server's ('remote') side of
+// every contested change. Changes that did not conflict are kept from both. A record deleted
+// on the server is created again from this device's copy, or removed here. Needs the server.
+export const resolveConflict = async (inspectionId: string, prefer: MergePreference) => {
+  const store = requireLocal();
+  const record = await store.get(inspectionId);
+  const remote = await apiRequest<Inspection>(`/inspections/${encodeURIComponent(inspectionId)}`).catch(error => {
+    if (error instanceof ApiError && error.status === 404) return undefined;
+    throw error;
+  });
+  const entry = readOutbox()[inspectionId];
+  const queuedAt = new Date().toISOString();
+
+  if (!remote) {
+    if (record && prefer === 'local') {
+      // Without a version the server takes it as a new record
+      await store.put({ ...record, version: undefined, updatedAt: undefined, modifiedAt: queuedAt });
+      writeOutbox({ ...readOutbox(), [inspectionId]: { inspectionId, queuedAt, attempts: 0 } });
+    } else {
+      await store.remove(inspectionId);
+      updateEntry(inspectionId, () => undefined);
+    }
+    writeConflicts(readConflicts().filter(c => c.inspectionId !== inspectionId));
+    publishChange('inspections', [inspectionId], 'server');
+    notify();
+    await syncNow();
+    return;
+  }
+
+  const resolved = record ? mergeInspections(entry?.base, record, remote, prefer).merged : remote;
+  await store.put({ ...resolved, modifiedAt: queuedAt });
+  writeOutbox({ ...readOutbox(), [inspectionId]: { inspectionId, queuedAt, attempts: 0, base: withoutImageData(remote) } });
+  writeConflicts(readConflicts().filter(c => c.inspectionId !== inspectionId));
+  publishChange('inspections', [inspectionId], 'server');
+  notify();
+  await syncNow();
+};
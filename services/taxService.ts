@@ -0,0 +1,61 @@
+import { Currency, Defect, Inspection, Quote, QuoteTaxLine, TaxProfile, TaxSettings } from '../types';
+import { formatMoneyForPdf, roundMoney } from './currencyService';
+import { normalizeCustomer } from './manifestService';
+
+// The customer's assigned profile, or the default one
+export const customerTaxProfile = (customer: string | undefined, settings: TaxSettings): TaxProfile | undefined => {
+  const key = normalizeCustomer(customer);
+  const assigned = key ? settings.customers.find(c => normalizeCustomer(c.customer) === key) : undefined;
+  return settings.profiles.find(p => p.id === assigned?.profileId)
+    || settings.profiles.find(p => p.id === settings.defaultProfileId);
+};
+
+// A line's own profile wins over the customer's. A line whose profile was deleted falls back.
+export const lineTaxProfile = (defect: Defect, customerProfile: TaxProfile | undefined, settings: TaxSettings) =>
+  settings.profiles.find(p => p.id === defect.taxProfileId) || customerProfile;
+
+// Billable lines grouped by rate (exempt lines apart from 0% ones), tax rounded per rate.
+// Lines without any profile are left untaxed.
+export const taxBreakdown = (inspection: Inspection, settings: TaxSettings, currency: Currency): QuoteTaxLine[] => {
+  const customerProfile = customerTaxProfile(inspection.customer, settings);
+  const lines = new Map<string, QuoteTaxLine>();
+  inspection.defects.forEach(d => {
+    if (d.status === 'REJECTED' || d.mergedInto) return;
+    const profile = lineTaxProfile(d, customerProfile, settings);
+    if (!profile) return;
+    const key = profile.exempt ? 'exempt' : String(profile.rate);
+    const line = lines.get(key) || { rate: profile.exempt ? 0 : profile.rate, ...(profile.exempt ? { exempt: true } : {}), profileNames: [], taxableAmount: 0, tax: 0 };
+    if (!line.profileNames.includes(profile.name)) line.profileNames.push(profile.name);
+    line.taxableAmount += d.repairCost || 0;
+    lines.set(key, line);
+  });
+  return Array.from(lines.values())
+    .map(line => {
+      const taxableAmount = roundMoney(line.taxableAmount, currency);
+      return { ...line, taxableAmount, tax: roundMoney(taxableAmount * line.rate, currency) };
+    })
+    .sort((a, b) => b.rate - a.rate || Number(!!a.exempt) - Number(!!b.exempt));
+};
+
+// "10%", "8.5%"
+export const formatTaxRate = (rate: number) => `${Math.round(rate * 10000) / 100}%`;
+
+// Problems that would leave quotes taxed wrongly
+export const validateTaxSettings = (settings: TaxSettings): string[] => {
+  const errors: string[] = [];
+  if (!settings.profiles.some(p => p.id === settings.defaultProfileId)) errors.push('tax_default_missing');
+  if (settings.profiles.some(p => !p.name.trim() || !(p.rate >= 0 && p.rate < 1))) errors.push('tax_profile_invalid');
+  const customers = settings.customers.map(c => normalizeCustomer(c.customer));
+  if (customers.some(c => !c) || new Set(customers).size !== customers.length) errors.push('tax_customer_invalid');
+  return errors;
+};
+
+// Quotes from before tax profiles were taxed 10% on everything
+const LEGACY_TAX_RATE = 0.10;
+
+export const quoteTaxLines = (quote: Quote): QuoteTaxLine[] =>
+  quote.taxLines || [{ rate: LEGACY_TAX_RATE, profileNames: [], taxableAmount: quote.subtotal, tax: quote.tax }];
+
+// For the PDFs (ASCII only): "Tax 10% on 1.200.000 VND", "VAT exempt"
+export const describeTaxLineForPdf = (line: QuoteTaxLine, currency: Currency) =>
+  line.exempt ? 'VAT exempt' : `Tax ${formatTaxRate(line.rate)} on ${formatMoneyForPdf(line.taxableAmount, currency)}`;
@@ -0,0 +1,68 @@
+import { Inspection, Defect, ReviewStatus, TriagePolicy, TriageThresholds, TriageDecision } from '../types';
+import { getSettings } from './dbService';
+
+// Most specific thresholds for a defect: code + severity, then code for any severity, then the defaults
+export const resolveThresholds = (defect: Pick<Defect, 'code' | 'severity'>, policy: TriagePolicy): TriageThresholds =>
+  policy.rules.find(r => r.defectCode === defect.code && r.severity === defect.severity) ||
+  policy.rules.find(r => r.defectCode === defect.code && !r.severity) ||
+  policy.defaults;
+
+// Auto-decision for one defect, or null when it has to go to a reviewer
+export const decideDefect = (defect: Defect, policy: TriagePolicy): TriageDecision | null => {
+  if (!policy.enabled) return null;
+  const { acceptAbove, rejectBelow } = resolveThresholds(defect, policy);
+  const decidedAt = new Date().toISOString();
+  if (acceptAbove !== undefined && defect.confidence >= acceptAbove) {
+    return { status: ReviewStatus.ACCEPTED, confidence: defect.confidence, threshold: acceptAbove, decidedAt };
+  }
+  if (rejectBelow !== undefined && defect.confidence < rejectBelow) {
+    return { status: ReviewStatus.REJECTED, confidence: defect.confidence, threshold: rejectBelow, decidedAt };
+  }
+  return null;
+};
+
+// Applies the policy to pending defects nobody has decided on yet. Merged duplicates
+// take the decision made for the defect they were merged into.
+export const triageInspection = (inspection: Inspection, policy: TriagePolicy = getSettings().triage): Inspection => {
+  if (!policy.enabled) return inspection;
+
+  const decisions = new Map<string, TriageDecision>();
+  inspection.defects.forEach(d => {
+    if (d.mergedInto || d.status !== ReviewStatus.PENDING || d.autoDecision) return;
+    const decision = decideDefect(d, policy);
+    if (decision) decisions.set(d.id, decision);
+  });
+  if (decisions.size === 0) return inspection;
+
+  return {
+    ...inspection,
+    defects: inspection.defects.map(d => {
+      const decision = decisions.get(d.id) || (d.mergedInto && d.status === ReviewStatus.PENDING ? decisions.get(d.mergedInto) : undefined);
+      return decision ? { ...d, status: decision.status, autoDecision: decision } : d;
+    })
+  };
+};
+
+// Auto-decided and not changed by a reviewer since
+export const isAutoDecided = (defect: Defect): boolean =>
+  !!defect.autoDecision && defect.autoDecision.status === defect.status;
+
+// Thresholds must be 0-1 and leave a review band between reject and accept
+export const validateTriagePolicy = (policy: TriagePolicy): string[] => {
+  const errors: string[] = [];
+  const check = (label: string, t: TriageThresholds) => {
+    const values = [t.acceptAbove, t.rejectBelow].filter((v): v is number => v !== undefined);
+    if (values.some(v => !Number.isFinite(v) || v < 0 || v > 1)) errors.push(`${label}: thresholds must be between 0 and 100%`);
+    if (t.acceptAbove !== undefined && t.rejectBelow !== undefined && t.rejectBelow > t.acceptAbove) {
+      errors.push(`${label}: reject threshold is above the accept threshold`);
+    }
+  };
+  check('Default', policy.defaults);
+  policy.rules.forEach(r => check(`${r.defectCode}${r.severity ? ` ${r.severity}` : ''}`, r));
+
+  const keys = policy.rules.map(r => `${r.defectCode}/${r.severity || '*'}`);
+  keys.forEach((key, i) => {
+    if (keys.indexOf(key) !== i) errors.push(`${key.replace('/*', '')}: more than one rule`);
+  });
+  return Array.from(new Set(errors));
+};
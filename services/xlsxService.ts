@@ -0,0 +1,125 @@
+// Reads the first worksheet of an .xlsx file into rows of cell text, without a spreadsheet
+// library: the file is a zip of XML parts, unpacked with the browser's DecompressionStream.
+// Only what a manifest needs is supported: strings, numbers and booleans (dates come back
+// as Excel serial numbers). Formulas give their cached value.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  localOffset: number;
+}
+
+const readZipDirectory = (view: DataView): Map<string, ZipEntry> => {
+  // End of central directory record: last 22 bytes plus an optional comment of up to 64 KB
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not an .xlsx file (no zip directory found)');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error('Damaged .xlsx file');
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+  return entries;
+};
+
+const readZipText = async (view: DataView, entry: ZipEntry): Promise<string> => {
+  const local = entry.localOffset;
+  if (view.getUint32(local, true) !== LOCAL_SIGNATURE) throw new Error('Damaged .xlsx file');
+  const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Unsupported compression in .xlsx file (method ${entry.method})`);
+  return new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).text();
+};
+
+const decodeXml = (text: string) => text
+  .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// Elements may carry a namespace prefix (x:c) depending on the program that wrote the file
+const elements = (xml: string, tag: string) =>
+  Array.from(xml.matchAll(new RegExp(`<(?:\\w+:)?${tag}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</(?:\\w+:)?${tag}>)`, 'g')))
+    .map(m => ({ attributes: m[1] || '', body: m[2] || '' }));
+
+const attribute = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))?.[1];
+
+// Text of every <t> in a string item or inline string (rich text runs are joined)
+const textOf = (xml: string) => elements(xml, 't').map(t => decodeXml(t.body)).join('');
+
+// "AB12" -> 27 (zero-based column)
+const columnIndex = (ref: string) =>
+  ref.replace(/\d+$/, '').split('').reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+
+// Converts an Excel date serial (1900 date system) to a Date
+export const excelSerialToDate = (serial: number) => new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+
+export const readXlsxRows = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const view = new DataView(buffer);
+  const entries = readZipDirectory(view);
+  const part = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? readZipText(view, entry) : undefined;
+  };
+
+  // First sheet in workbook order, found through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await part('xl/workbook.xml');
+  const rels = await part('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook ? elements(workbook, 'sheet')[0] : undefined;
+  const relId = firstSheet && attribute(firstSheet.attributes, 'r:id');
+  const target = rels && relId
+    ? elements(rels, 'Relationship').map(r => r.attributes).find(a => attribute(a, 'Id') === relId)
+    : undefined;
+  const targetPath = target && attribute(target, 'Target');
+  if (targetPath) sheetPath = targetPath.startsWith('/') ? targetPath.slice(1) : `xl/${targetPath}`;
+
+  const sheet = await part(sheetPath);
+  if (!sheet) throw new Error('The .xlsx file has no worksheet');
+  const sharedXml = await part('xl/sharedStrings.xml');
+  const shared = sharedXml ? elements(sharedXml, 'si').map(si => textOf(si.body)) : [];
+
+  const rows: string[][] = [];
+  elements(sheet, 'row').forEach(row => {
+    const rowNumber = parseInt(attribute(row.attributes, 'r') || '', 10) || rows.length + 1;
+    const cells: string[] = [];
+    elements(row.body, 'c').forEach(cell => {
+      const ref = attribute(cell.attributes, 'r');
+      const col = ref ? columnIndex(ref) : cells.length;
+      const type = attribute(cell.attributes, 't');
+      const value = elements(cell.body, 'v')[0]?.body;
+      let text = '';
+      if (type === 's') text = shared[parseInt(value || '', 10)] ?? '';
+      else if (type === 'inlineStr') text = textOf(cell.body);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else if (value !== undefined) text = decodeXml(value);
+      while (cells.length < col) cells.push('');
+      cells[col] = text;
+    });
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  });
+  return rows;
+};
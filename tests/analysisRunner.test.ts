@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { runAnalysisJobs } from '../services/analysisRunner';
+import { setDetectionProvider } from '../services/detectionService';
+import { DefectCode, DetectionProvider, DetectionRequest, RawDetection, Severity } from '../types';
+import { makeImage } from './fixtures';
+
+const detection: RawDetection = { code: DefectCode.DT, severity: Severity.LOW, confidence: 0.9, description: 'Dent', box_2d: [10, 10, 20, 20] };
+
+// A provider whose calls take `ms`, counting how many run at once
+const slowProvider = (ms: number, honoursAbort: boolean) => {
+  const stats = { inFlight: 0, maxInFlight: 0, calls: 0, aborted: 0 };
+  const provider: DetectionProvider = {
+    id: 'slow',
+    analyze: ({ signal }: DetectionRequest) => new Promise<RawDetection[]>((resolve, reject) => {
+      stats.calls++;
+      stats.inFlight++;
+      stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+      const done = (settle: () => void) => { stats.inFlight--; settle(); };
+      const timer = setTimeout(() => done(() => resolve([detection])), ms);
+      signal?.addEventListener('abort', () => {
+        stats.aborted++;
+        if (!honoursAbort) return;
+        clearTimeout(timer);
+        done(() => reject(new Error('aborted')));
+      });
+    }),
+    readContainerNumber: async () => null
+  };
+  return { provider, stats };
+};
+
+const images = [makeImage({ id: 'a' }), makeImage({ id: 'b' }), makeImage({ id: 'c' })];
+const options = { concurrency: 2, maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1, timeoutMs: 20 };
+
+afterEach(() => setDetectionProvider(null));
+
+describe('runAnalysisJobs', () => {
+  it('analyzes every image within the concurrency bound', async () => {
+    const { provider, stats } = slowProvider(5, true);
+    setDetectionProvider(provider);
+    const results = await runAnalysisJobs(images, 'CSQU3054383', 'en', options);
+    expect(results.map(r => r.status)).toEqual(['SUCCEEDED', 'SUCCEEDED', 'SUCCEEDED']);
+    expect(results[0].defects).toHaveLength(1);
+    expect(stats.maxInFlight).toBe(2);
+  });
+
+  it('aborts calls that time out and retries them', async () => {
+    const { provider, stats } = slowProvider(1000, true);
+    setDetectionProvider(provider);
+    const results = await runAnalysisJobs(images.slice(0, 1), 'CSQU3054383', 'en', options);
+    expect(results[0]).toMatchObject({ status: 'FAILED', attempts: 2, error: 'Analysis timed out after 20ms' });
+    expect(stats.aborted).toBe(2);
+    expect(stats.inFlight).toBe(0);
+  });
+
+  it('keeps a slot busy until a call that ignores the abort has settled', async () => {
+    const { provider, stats } = slowProvider(60, false);
+    setDetectionProvider(provider);
+    const results = await runAnalysisJobs(images, 'CSQU3054383', 'en', options);
+    expect(results.every(r => r.status === 'FAILED')).toBe(true);
+    expect(stats.calls).toBe(6);
+    expect(stats.maxInFlight).toBe(2);
+    expect(stats.inFlight).toBe(0);
+  });
+
+  it('stops after an error retrying cannot fix', async () => {
+    setDetectionProvider({ id: 'broken', analyze: async () => { throw new Error('API key not valid'); }, readContainerNumber: async () => null });
+    const results = await runAnalysisJobs(images, 'CSQU3054383', 'en', { ...options, concurrency: 1 });
+    expect(results.map(r => r.status)).toEqual(['FAILED', 'SKIPPED', 'SKIPPED']);
+    expect(results[0].attempts).toBe(1);
+  });
+});
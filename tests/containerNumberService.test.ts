@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { computeCheckDigit, correctContainerNumber, validateContainerNumber, isValidContainerNumber } from '../services/containerNumberService';
+
+describe('computeCheckDigit', () => {
+  it('computes the ISO 6346 check digit', () => {
+    expect(computeCheckDigit('CSQU305438')).toBe(3);
+    expect(computeCheckDigit('MSKU907032')).toBe(3);
+  });
+
+  it('maps a remainder of 10 to 0', () => {
+    expect(computeCheckDigit('MSKU000008')).toBe(0); // Weighted sum is 10 mod 11
+  });
+
+  it('rejects codes that are not 4 letters and 6 digits', () => {
+    expect(computeCheckDigit('CSQ1305438')).toBeNull();
+    expect(computeCheckDigit('CSQU30543')).toBeNull();
+  });
+});
+
+describe('validateContainerNumber', () => {
+  it('accepts a valid number, ignoring case and separators', () => {
+    const check = validateContainerNumber('csqu 305438-3');
+    expect(check.status).toBe('VALID');
+    expect(check.normalized).toBe('CSQU3054383');
+    expect(check.ownerCode).toBe('CSQ');
+    expect(check.equipmentCategory).toBe('U');
+    expect(check.serialNumber).toBe('305438');
+    expect(isValidContainerNumber('CSQU3054383')).toBe(true);
+  });
+
+  it('corrects characters that cannot stand in their slot', () => {
+    const check = validateContainerNumber('CSQU3O54383'); // Letter O in the serial
+    expect(check.status).toBe('CORRECTED');
+    expect(check.normalized).toBe('CSQU3054383');
+    expect(check.corrections).toEqual(['6: O -> 0']);
+  });
+
+  it('leaves a well-formed number with a wrong check digit as suspect', () => {
+    const check = validateContainerNumber('CSQU3054384');
+    expect(check.status).toBe('SUSPECT');
+    expect(check.expectedCheckDigit).toBe(3);
+    expect(correctContainerNumber('CSQU3054384')).toBeNull();
+  });
+
+  it('never changes characters that already fit their slot', () => {
+    // Serial typo: a different owner code could satisfy the check digit, but must not be used
+    expect(validateContainerNumber('CSQU3054393').status).toBe('SUSPECT');
+  });
+
+  it('reports anything else as invalid', () => {
+    expect(validateContainerNumber('HELLO').status).toBe('INVALID');
+    expect(validateContainerNumber('CSQX3054383').status).toBe('INVALID');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { boxOverlap, mergeDuplicateDefects, splitMergedDefect } from '../services/dedupeService';
+import { DefectCode, ReviewStatus, Severity } from '../types';
+import { makeDefect, makeImage, makeInspection } from './fixtures';
+
+const images = [
+  makeImage({ id: 'overview', label: 'OVERVIEW' }),
+  makeImage({ id: 'panel', label: 'PANEL' }),
+  makeImage({ id: 'close-1', label: 'CLOSE_UP' }),
+  makeImage({ id: 'close-2', label: 'CLOSE_UP' }),
+  makeImage({ id: 'roof', side: 'ROOF_EXT', label: 'OVERVIEW' })
+];
+const left = { ymin: 10, xmin: 10, ymax: 30, xmax: 30 };
+const right = { ymin: 10, xmin: 60, ymax: 30, xmax: 80 };
+
+const merged = (defects: ReturnType<typeof makeDefect>[]) =>
+  Object.fromEntries(mergeDuplicateDefects(makeInspection({ images, defects })).defects.map(d => [d.id, d.mergedInto]));
+
+describe('boxOverlap', () => {
+  it('is intersection over union', () => {
+    expect(boxOverlap(left, left)).toBe(1);
+    expect(boxOverlap(left, { ymin: 10, xmin: 20, ymax: 30, xmax: 40 })).toBeCloseTo(1 / 3);
+    expect(boxOverlap(left, right)).toBe(0);
+  });
+});
+
+describe('mergeDuplicateDefects', () => {
+  it('merges overlapping boxes of the same code on two wide shots into the worst one', () => {
+    expect(merged([
+      makeDefect({ id: 'a', imageId: 'overview', boundingBox: left }),
+      makeDefect({ id: 'b', imageId: 'panel', boundingBox: left, severity: Severity.MEDIUM }),
+      makeDefect({ id: 'c', imageId: 'panel', boundingBox: left, code: DefectCode.CO }),
+      makeDefect({ id: 'd', imageId: 'roof', boundingBox: left })
+    ])).toEqual({ a: 'b', b: undefined, c: undefined, d: undefined });
+  });
+
+  it('merges a close-up into the only wide-shot defect of its code', () => {
+    expect(merged([
+      makeDefect({ id: 'wide', imageId: 'overview', boundingBox: left, confidence: 0.6 }),
+      makeDefect({ id: 'wide-dup', imageId: 'panel', boundingBox: left, confidence: 0.7 }),
+      makeDefect({ id: 'close', imageId: 'close-1', boundingBox: right, confidence: 0.95 })
+    ])).toEqual({ wide: 'wide-dup', 'wide-dup': undefined, close: 'wide-dup' });
+  });
+
+  it('leaves close-ups apart when the wide shots show several defects of the code', () => {
+    expect(merged([
+      makeDefect({ id: 'wide-1', imageId: 'overview', boundingBox: left }),
+      makeDefect({ id: 'wide-2', imageId: 'overview', boundingBox: right }),
+      makeDefect({ id: 'close-1', imageId: 'close-1' }),
+      makeDefect({ id: 'close-2', imageId: 'close-2' })
+    ])).toEqual({ 'wide-1': undefined, 'wide-2': undefined, 'close-1': undefined, 'close-2': undefined });
+  });
+
+  it('leaves rejected defects and ones split out by a reviewer alone', () => {
+    const defects = [
+      makeDefect({ id: 'a', imageId: 'overview', boundingBox: left }),
+      makeDefect({ id: 'b', imageId: 'panel', boundingBox: left }),
+      makeDefect({ id: 'c', imageId: 'close-1', status: ReviewStatus.REJECTED })
+    ];
+    const inspection = mergeDuplicateDefects(makeInspection({ images, defects }));
+    const duplicate = inspection.defects.find(d => d.mergedInto)!;
+    expect(inspection.defects.find(d => d.id === 'c')?.mergedInto).toBeUndefined();
+
+    const split = mergeDuplicateDefects(splitMergedDefect(inspection, duplicate.id));
+    expect(split.defects.every(d => !d.mergedInto)).toBe(true);
+  });
+});
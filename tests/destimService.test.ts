@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { buildDestimEstimate, exportDestim, parseDestim, validateDestim } from '../services/destimService';
+import { applyPricingToInspection } from '../services/pricingService';
+import { saveRateCards } from '../services/dbService';
+import { DefectCode, ReviewStatus, Severity } from '../types';
+import { makeDefect, makeInspection } from './fixtures';
+
+const priced = () => applyPricingToInspection(makeInspection({
+  defects: [
+    makeDefect({ id: 'd-1', locationCode: 'LB1N', status: ReviewStatus.ACCEPTED }),
+    makeDefect({ id: 'd-2', code: DefectCode.HO, severity: Severity.HIGH, locationCode: 'LB2N', status: ReviewStatus.ACCEPTED }),
+    makeDefect({ id: 'd-3', locationCode: 'LB3N', status: ReviewStatus.REJECTED })
+  ]
+}));
+
+describe('DESTIM export', () => {
+  it('writes one line per billable defect with the quote totals', () => {
+    const inspection = priced();
+    const estimate = buildDestimEstimate(inspection, 'MSC');
+    expect(estimate.lines).toHaveLength(2);
+    expect(estimate.lines[1]).toMatchObject({ lineNumber: 2, locationCode: 'LB2N', damageCode: 'HO' });
+    expect(estimate.lines[0].laborCost + estimate.lines[0].partsCost).toBeCloseTo(estimate.lines[0].total);
+    expect(estimate.subtotal).toBe(inspection.quote!.subtotal);
+    expect(estimate.total).toBe(inspection.quote!.total);
+  });
+
+  it('validates its own output and parses back to the same estimate', () => {
+    const inspection = priced();
+    const text = exportDestim(inspection, 'MSC');
+    expect(validateDestim(text)).toEqual({ valid: true, errors: [] });
+
+    const parsed = parseDestim(text);
+    const built = buildDestimEstimate(inspection, 'MSC');
+    expect(parsed.containerNumber).toBe('CSQU3054383');
+    expect(parsed.recipient).toBe('MSC');
+    expect(parsed.lines.map(l => [l.damageCode, l.repairCode, l.total])).toEqual(built.lines.map(l => [l.damageCode, l.repairCode, l.total]));
+    expect(parsed.total).toBe(built.total);
+  });
+
+  it('refuses inspections without a quote', () => {
+    expect(() => buildDestimEstimate(makeInspection())).toThrow();
+  });
+
+  it('refuses quotes with unpriced defects', () => {
+    // A card of its own without rules leaves the customer's defects unpriced
+    saveRateCards([{ id: 'bare', name: 'Bare', customers: ['Bare Line'], ownerCodes: [], inheritsDefault: false, rules: [] }]);
+    const inspection = applyPricingToInspection(makeInspection({ customer: 'Bare Line', defects: [makeDefect({ locationCode: 'LB1N' })] }));
+    expect(inspection.quote?.unpricedDefectIds).toEqual(['d-1']);
+    expect(() => exportDestim(inspection)).toThrow('Quote has unpriced defects');
+    saveRateCards([]);
+  });
+
+  it('splits costs entered by hand into parts and labor', () => {
+    const inspection = priced();
+    const edited = { ...inspection, defects: inspection.defects.map(d => (d.id === 'd-1' ? { ...d, repairCost: 600000 } : d)) };
+    const withQuote = { ...edited, quote: { ...edited.quote!, subtotal: edited.quote!.subtotal - 1147500 + 600000 } };
+    const line = buildDestimEstimate(withQuote).lines[0];
+    expect(line).toMatchObject({ total: 600000, partsCost: 540000, laborCost: 60000 });
+  });
+});
+
+describe('validateDestim', () => {
+  it('reports a wrong segment count and totals that do not add up', () => {
+    const text = exportDestim(priced())
+      .replace(/UNT\+\d+/, 'UNT+3')
+      .replace(/MOA\+GTO:[\d.]+/, 'MOA+GTO:1.00');
+    const { valid, errors } = validateDestim(text);
+    expect(valid).toBe(false);
+    expect(errors.some(e => e.startsWith('UNT segment count 3'))).toBe(true);
+    expect(errors).toContain('Subtotal plus tax does not equal the total');
+  });
+
+  it('rejects other message types', () => {
+    expect(validateDestim("UNB+UNOA:2+A+B+1'UNH+1+COPRAR:D:95B:UN'UNT+2+1'UNZ+1+1'").errors).toContain('Not a DESTIM message');
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { segment, parseEdifact, component, escapeEdifact, formatEdifactDateTime, parseEdifactDateTime } from '../services/edifactService';
+
+describe('segment', () => {
+  it('joins elements and components and drops empty trailing parts', () => {
+    expect(segment('DTM', ['137', '202401031200', '203'])).toBe("DTM+137:202401031200:203'");
+    expect(segment('BGM', '960', 'EST-1', undefined)).toBe("BGM+960+EST-1'");
+    expect(segment('CUX', ['1', 'USD', undefined])).toBe("CUX+1:USD'");
+  });
+
+  it('releases separators inside values', () => {
+    expect(escapeEdifact("A+B:C'D?")).toBe("A?+B?:C?'D??");
+    expect(segment('FTX', "it's 1+1")).toBe("FTX+it?'s 1?+1'");
+  });
+});
+
+describe('parseEdifact', () => {
+  it('reads segments, elements and components', () => {
+    const segments = parseEdifact("UNA:+.? 'UNB+UNOA:2+A+B'\nDTM+137:202401031200:203'");
+    expect(segments.map(s => s.tag)).toEqual(['UNB', 'DTM']);
+    expect(component(segments[0], 0, 1)).toBe('2');
+    expect(component(segments[1], 0, 1)).toBe('202401031200');
+    expect(component(segments[1], 5, 2)).toBe('');
+  });
+
+  it('round-trips released characters', () => {
+    const [seg] = parseEdifact(segment('FTX', ["it's 1+1", 'a:b']));
+    expect(seg.elements[0]).toEqual(["it's 1+1", 'a:b']);
+  });
+});
+
+describe('EDIFACT date/time', () => {
+  it('formats and parses format 203 in local time', () => {
+    const date = new Date(2026, 9, 20, 14, 5);
+    expect(formatEdifactDateTime(date)).toBe('202610201405');
+    expect(parseEdifactDateTime('202610201405')?.getTime()).toBe(date.getTime());
+    expect(parseEdifactDateTime('20261020')?.getTime()).toBe(new Date(2026, 9, 20).getTime());
+    expect(parseEdifactDateTime('tomorrow')).toBeNull();
+  });
+});
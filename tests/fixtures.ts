@@ -0,0 +1,33 @@
+import { Defect, DefectCode, Inspection, InspectionImage, ReviewStatus, Severity } from '../types';
+
+export const makeImage = (overrides: Partial<InspectionImage> = {}): InspectionImage => ({
+  id: 'img-1',
+  side: 'SIDE_1_EXT',
+  url: 'data:image/jpeg;base64,',
+  ...overrides
+});
+
+export const makeDefect = (overrides: Partial<Defect> = {}): Defect => ({
+  id: 'd-1',
+  imageId: 'img-1',
+  code: DefectCode.DT,
+  confidence: 0.9,
+  severity: Severity.LOW,
+  description: 'Dent',
+  boundingBox: { ymin: 10, xmin: 10, ymax: 20, xmax: 20 },
+  status: ReviewStatus.PENDING,
+  ...overrides
+});
+
+// A weekday midday inspection at the default depot, outside any shift premium
+export const makeInspection = (overrides: Partial<Inspection> = {}): Inspection => ({
+  id: 'insp-1',
+  containerNumber: 'CSQU3054383',
+  timestamp: new Date(2024, 0, 3, 12).toISOString(),
+  inspectorId: 'u-1',
+  location: 'Port Gate 4',
+  images: [makeImage()],
+  defects: [],
+  status: 'REVIEW_NEEDED',
+  ...overrides
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { findLaborRate, shiftMultiplier, laborHourlyRate, validateLaborRates } from '../services/laborService';
+import { LaborRate } from '../types';
+
+const rates: LaborRate[] = [
+  {
+    id: 'general', skill: 'GENERAL', hourlyRate: 100, multipliers: [
+      { id: 'night', fromHour: 22, toHour: 6, multiplier: 1.3 },
+      { id: 'weekend', days: [0, 6], multiplier: 1.5 }
+    ]
+  },
+  { id: 'general-cl', skill: 'GENERAL', depot: 'Cat Lai', hourlyRate: 80, multipliers: [] },
+  { id: 'welder', skill: 'WELDER', hourlyRate: 150, multipliers: [] }
+];
+
+// Wednesday 3 January 2024 and Saturday 6 January 2024, local time
+const wednesday = (hour: number) => new Date(2024, 0, 3, hour);
+const saturday = (hour: number) => new Date(2024, 0, 6, hour);
+
+describe('findLaborRate', () => {
+  it("prefers the depot's own rate, compared without case and surrounding spaces", () => {
+    expect(findLaborRate('GENERAL', { rates, depot: ' cat lai ', at: wednesday(12) })?.id).toBe('general-cl');
+  });
+
+  it('falls back to the rate for every depot', () => {
+    expect(findLaborRate('GENERAL', { rates, depot: 'Port Gate 4', at: wednesday(12) })?.id).toBe('general');
+    expect(findLaborRate('WELDER', { rates, depot: 'Cat Lai', at: wednesday(12) })?.id).toBe('welder');
+    expect(findLaborRate('PAINTER', { rates, at: wednesday(12) })).toBeUndefined();
+  });
+});
+
+describe('shiftMultiplier', () => {
+  it('applies windows that wrap past midnight', () => {
+    expect(shiftMultiplier(rates[0], wednesday(12))).toBe(1);
+    expect(shiftMultiplier(rates[0], wednesday(22))).toBe(1.3);
+    expect(shiftMultiplier(rates[0], wednesday(5))).toBe(1.3);
+    expect(shiftMultiplier(rates[0], wednesday(6))).toBe(1);
+  });
+
+  it('takes the highest matching premium instead of stacking them', () => {
+    expect(shiftMultiplier(rates[0], saturday(12))).toBe(1.5);
+    expect(shiftMultiplier(rates[0], saturday(23))).toBe(1.5);
+  });
+
+  it('adds no premium without a repair time', () => {
+    expect(shiftMultiplier(rates[0], undefined)).toBe(1);
+  });
+});
+
+describe('laborHourlyRate', () => {
+  it('is the rate times the shift multiplier', () => {
+    expect(laborHourlyRate('GENERAL', { rates, at: wednesday(23) })).toBeCloseTo(130);
+    expect(laborHourlyRate('PAINTER', { rates, at: wednesday(12) })).toBeUndefined();
+  });
+});
+
+describe('validateLaborRates', () => {
+  it('accepts the sample table', () => {
+    expect(validateLaborRates(rates)).toEqual([]);
+  });
+
+  it('reports invalid rates and windows', () => {
+    expect(validateLaborRates([{ id: 'x', skill: 'GENERAL', hourlyRate: 0, multipliers: [] }])).toEqual(['labor_rate_invalid']);
+    expect(validateLaborRates([{ id: 'x', skill: 'GENERAL', hourlyRate: 1, multipliers: [{ id: 'm', fromHour: 22, multiplier: 2 }] }])).toEqual(['labor_rate_invalid']);
+    expect(validateLaborRates([{ id: 'x', skill: 'GENERAL', hourlyRate: 1, multipliers: [{ id: 'm', fromHour: 0, toHour: 25, multiplier: 2 }] }])).toEqual(['labor_rate_invalid']);
+  });
+
+  it('reports two rates for the same skill and depot', () => {
+    expect(validateLaborRates([rates[1], { ...rates[1], id: 'dup', depot: 'CAT LAI' }])).toEqual(['labor_rate_duplicate']);
+  });
+});
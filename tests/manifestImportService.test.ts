@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, detectHeader, guessMapping, tableToEntries, parseEdiManifest } from '../services/manifestImportService';
+
+describe('parseCsv', () => {
+  it('picks the delimiter from the first line and handles quoted fields', () => {
+    const rows = parseCsv('﻿Container;Notes\r\nCSQU3054383;"Door; seal ""new"""\r\n\r\nMSKU9070323;"two\nlines"\n');
+    expect(rows).toEqual([
+      ['Container', 'Notes'],
+      ['CSQU3054383', 'Door; seal "new"'],
+      ['MSKU9070323', 'two\nlines']
+    ]);
+  });
+
+  it('reads tab separated text', () => {
+    expect(parseCsv('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('table import', () => {
+  it('detects a header and maps columns from known names', () => {
+    const rows = parseCsv('Shipping line,Cntr No,Size/Type,Booking,Priority,Deadline\nMSC,CSQU3054383,45G1,BK1,urgent,20/10/2026 14:00');
+    const table = { rows, hasHeader: detectHeader(rows) };
+    expect(table.hasHeader).toBe(true);
+    const mapping = guessMapping(table);
+    expect(mapping).toMatchObject({ customer: 0, containerNumber: 1, sizeType: 2, bookingRef: 3, priority: 4, deadline: 5 });
+
+    const [entry] = tableToEntries(table, mapping);
+    expect(entry).toEqual({
+      containerNumber: 'CSQU3054383',
+      customer: 'MSC',
+      sizeType: '45G1',
+      bookingRef: 'BK1',
+      priority: 'URGENT',
+      deadline: new Date(2026, 9, 20, 14, 0).toISOString()
+    });
+  });
+
+  it('finds the container column by content when there is no header', () => {
+    const rows = [['x', 'CSQU3054383'], ['y', 'MSKU9070323']];
+    expect(detectHeader(rows)).toBe(false);
+    expect(guessMapping({ rows, hasHeader: false })).toEqual({ containerNumber: 1 });
+  });
+
+  it('reads Excel date serials as local time and passes unreadable deadlines on', () => {
+    const table = { rows: [['CSQU3054383', '46315.5'], ['MSKU9070323', 'next week']], hasHeader: false };
+    const [serial, text] = tableToEntries(table, { containerNumber: 0, deadline: 1 });
+    expect(serial.deadline).toBe(new Date(2026, 9, 20, 12, 0).toISOString());
+    expect(text.deadline).toBe('next week');
+  });
+});
+
+describe('parseEdiManifest', () => {
+  const coprar = [
+    "UNB+UNOA:2+MSC+DEPOT+261019:0800+1'",
+    "UNH+1+COPRAR:D:95B:UN:ITG13'",
+    "BGM+45+LOAD1+9'",
+    "DTM+133:202610201400:203'",
+    "NAD+CA+MSC:172:20+MEDITERRANEAN SHIPPING'",
+    "EQD+CN+CSQU3054383+45G1:102:5'",
+    "RFF+BN:BOOK1'",
+    "NAD+CF+MAE:172:20+MAERSK'",
+    "FTX+AAI+++reefer:check'",
+    "EQD+CN+MSKU9070323+22G1:102:5'",
+    "EQD+CH+CHASSIS1'",
+    "CNT+16:2'",
+    "UNT+12+1'",
+    "UNZ+1+1'"
+  ].join('\n');
+
+  it('reads one entry per container with message-level values filled in', () => {
+    const { messageType, entries, warnings } = parseEdiManifest(coprar);
+    expect(messageType).toBe('COPRAR');
+    expect(warnings).toEqual([]);
+    const deadline = new Date(2026, 9, 20, 14, 0).toISOString();
+    expect(entries).toEqual([
+      { containerNumber: 'CSQU3054383', sizeType: '45G1', bookingRef: 'BOOK1', customer: 'MAERSK', notes: 'reefer check', deadline },
+      { containerNumber: 'MSKU9070323', sizeType: '22G1', customer: 'MEDITERRANEAN SHIPPING', deadline }
+    ]);
+  });
+
+  it('takes a bill of lading when there is no booking number', () => {
+    const { entries } = parseEdiManifest("UNH+1+CODECO:D:95B:UN'EQD+CN+CSQU3054383'RFF+BM:BL1'UNT+3+1'");
+    expect(entries[0].bookingRef).toBe('BL1');
+  });
+
+  it('prefers the message booking number over a container bill of lading', () => {
+    const { entries } = parseEdiManifest("UNH+1+COPRAR:D:95B:UN'RFF+BN:BOOK1'EQD+CN+CSQU3054383'RFF+BM:BL1'EQD+CN+MSCU1234565'RFF+BN:BOOK2'UNT+6+1'");
+    expect(entries.map(e => e.bookingRef)).toEqual(['BOOK1', 'BOOK2']);
+  });
+
+  it('warns about other message types and messages without containers', () => {
+    const { warnings } = parseEdiManifest("UNH+1+IFTMIN:D:95B:UN'UNT+2+1'");
+    expect(warnings).toHaveLength(2);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { MIGRATIONS, CURRENT_SCHEMA_VERSION, getPendingMigrations, upgradeInspection, upgradeManifest, upgradePricingRules } from '../services/migrations';
+import { generateDefaultPricingRules } from '../constants';
+import { ManifestItem, PricingRule, QuoteStatus, ReviewStatus } from '../types';
+import { makeDefect, makeImage, makeInspection } from './fixtures';
+
+const context = { pricingRules: generateDefaultPricingRules() };
+
+describe('getPendingMigrations', () => {
+  it('lists the steps after a version, in order', () => {
+    expect(getPendingMigrations(0).map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version));
+    expect(getPendingMigrations(2).map(m => m.version)).toEqual([3, 4]);
+    expect(getPendingMigrations(CURRENT_SCHEMA_VERSION)).toEqual([]);
+  });
+});
+
+describe('v1: costs on defects saved before pricing', () => {
+  const quote = { subtotal: 0, tax: 0, total: 0, currency: 'VND' as const, status: QuoteStatus.DRAFT, generatedAt: '' };
+
+  it('prices defects and recalculates a draft quote', () => {
+    const inspection = makeInspection({
+      defects: [makeDefect({ id: 'a' }), makeDefect({ id: 'b', status: ReviewStatus.REJECTED })],
+      quote
+    });
+    const upgraded = upgradeInspection(inspection, getPendingMigrations(0).filter(m => m.version === 1), context);
+    expect(upgraded.defects[0]).toMatchObject({ partsCost: 540000, laborHours: 0.5, repairCost: 1147500 });
+    expect(upgraded.quote).toMatchObject({ subtotal: 1147500, tax: 114750, total: 1262250 });
+  });
+
+  it('keeps approved and invoiced quotes as they were billed', () => {
+    const inspection = makeInspection({ defects: [makeDefect()], quote: { ...quote, status: QuoteStatus.INVOICED, total: 5 } });
+    const upgraded = upgradeInspection(inspection, getPendingMigrations(0), context);
+    expect(upgraded.defects[0].repairCost).toBe(0);
+    expect(upgraded.quote?.total).toBe(5);
+  });
+});
+
+describe('v2: pricing rules and manifest items', () => {
+  it('repairs cleared numbers and normalizes manifest items', () => {
+    const [rule] = upgradePricingRules([{ ...context.pricingRules[0], basePrice: null, laborHours: NaN } as unknown as PricingRule], getPendingMigrations(1));
+    expect(rule).toMatchObject({ basePrice: 0, laborHours: 0 });
+
+    const [item] = upgradeManifest([{ id: 'm', containerNumber: ' csqu3054383 ' } as ManifestItem], getPendingMigrations(0));
+    expect(item).toMatchObject({ containerNumber: 'CSQU3054383', status: 'PENDING', addedAt: new Date(0).toISOString(), priority: 'NORMAL' });
+  });
+});
+
+describe('v3: photo sequence within a side', () => {
+  it('numbers photos per side and keeps existing numbers', () => {
+    const inspection = makeInspection({
+      images: [
+        makeImage({ id: '1', side: 'SIDE_1_EXT' }),
+        makeImage({ id: '2', side: 'ROOF_EXT' }),
+        makeImage({ id: '3', side: 'SIDE_1_EXT' })
+      ]
+    });
+    const upgraded = upgradeInspection(inspection, getPendingMigrations(2), context);
+    expect(upgraded.images.map(i => i.sequence)).toEqual([0, 0, 1]);
+  });
+});
+
+describe('every step', () => {
+  it('is idempotent', () => {
+    const inspection = makeInspection({ defects: [makeDefect()], images: [makeImage(), makeImage({ id: '2' })] });
+    const once = upgradeInspection(inspection, getPendingMigrations(0), context);
+    expect(upgradeInspection(once, getPendingMigrations(0), context)).toEqual(once);
+
+    const items = upgradeManifest([{ id: 'm', containerNumber: 'x' } as ManifestItem], getPendingMigrations(0));
+    expect(upgradeManifest(items, getPendingMigrations(0))).toEqual(items);
+  });
+});
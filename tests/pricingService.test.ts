@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  containerProfile, estimateDamageSize, findPricingRule, findRateCard, calculateDefectCost, generateQuote,
+  applyPricingToInspection, changeQuoteCurrency
+} from '../services/pricingService';
+import { saveRateCards, saveTaxSettings } from '../services/dbService';
+import { generateDefaultPricingRules, DEFAULT_TAX_SETTINGS } from '../constants';
+import { ComponentCode, DefectCode, PricingRule, RateCard, ReviewStatus, Severity } from '../types';
+import { makeDefect, makeImage, makeInspection } from './fixtures';
+
+const rule = (overrides: Partial<PricingRule>): PricingRule => ({
+  id: 'r', defectCode: DefectCode.DT, severity: Severity.LOW, basePrice: 100, laborHours: 1, description: '', ...overrides
+});
+
+beforeEach(() => localStorage.clear());
+
+describe('containerProfile', () => {
+  it('reads length and type from the ISO size/type code', () => {
+    expect(containerProfile('45G1')).toEqual({ length: '40', type: 'HIGH_CUBE' });
+    expect(containerProfile('22R1')).toEqual({ length: '20', type: 'REEFER' });
+    expect(containerProfile('L5G1')).toEqual({ length: '45', type: 'HIGH_CUBE' });
+    expect(containerProfile(undefined)).toEqual({});
+  });
+});
+
+describe('estimateDamageSize', () => {
+  it('scales the box to the face an overview photo shows', () => {
+    const defect = makeDefect({ boundingBox: { ymin: 0, xmin: 0, ymax: 10, xmax: 10 } });
+    expect(estimateDamageSize(defect, makeImage({ side: 'SIDE_1_EXT' }), containerProfile('22G1')))
+      .toEqual({ lengthCm: 61, widthCm: 26, estimated: true });
+  });
+
+  it('gives nothing for close-ups or an unknown length', () => {
+    const defect = makeDefect();
+    expect(estimateDamageSize(defect, makeImage({ label: 'CLOSE_UP' }), containerProfile('22G1'))).toBeUndefined();
+    expect(estimateDamageSize(defect, makeImage({ side: 'SIDE_1_EXT' }), {})).toBeUndefined();
+  });
+});
+
+describe('findPricingRule', () => {
+  const rules = [
+    rule({ id: 'plain' }),
+    rule({ id: 'panel', componentCode: ComponentCode.PAN }),
+    rule({ id: 'sized', sizeBand: { measure: 'LENGTH', min: 30, max: 100 } }),
+    rule({ id: 'forty', containerLength: '40' })
+  ];
+
+  it('picks the most specific matching rule', () => {
+    const defect = makeDefect({ componentCode: ComponentCode.PAN, size: { lengthCm: 50 } });
+    expect(findPricingRule(defect, rules, { length: '40' })?.id).toBe('sized');
+    expect(findPricingRule({ ...defect, size: { lengthCm: 120 } }, rules, { length: '40' })?.id).toBe('panel');
+    expect(findPricingRule(makeDefect(), rules, { length: '40' })?.id).toBe('forty');
+    expect(findPricingRule(makeDefect(), rules, { length: '20' })?.id).toBe('plain');
+  });
+
+  it('never matches another code or severity', () => {
+    expect(findPricingRule(makeDefect({ severity: Severity.HIGH }), rules)).toBeUndefined();
+  });
+});
+
+describe('findRateCard', () => {
+  const cards: RateCard[] = [
+    { id: 'msc', name: 'MSC', customers: ['M.S.C'], ownerCodes: ['MSCU'], inheritsDefault: true, rules: [] },
+    { id: 'csq', name: 'CSQ', customers: [], ownerCodes: ['CSQ'], inheritsDefault: false, rules: [] }
+  ];
+
+  it('matches the customer first, then the owner prefix', () => {
+    expect(findRateCard(makeInspection({ customer: 'm.s.c' }), cards)?.id).toBe('msc');
+    expect(findRateCard(makeInspection(), cards)?.id).toBe('csq');
+    expect(findRateCard(makeInspection({ containerNumber: 'MSKU9070323' }), cards)).toBeUndefined();
+  });
+});
+
+describe('calculateDefectCost', () => {
+  it('prices parts plus labor hours at the skill rate', () => {
+    const priced = calculateDefectCost(makeDefect(), [generateDefaultPricingRules()]);
+    expect(priced).toMatchObject({ partsCost: 540000, laborHours: 0.5, repairCost: 1147500, pricingRuleId: 'rule-DT-LOW' });
+
+    const hole = calculateDefectCost(makeDefect({ code: DefectCode.HO, severity: Severity.HIGH }), [generateDefaultPricingRules()]);
+    expect(hole.repairCost).toBe(3510000 + 2.25 * 1485000); // Welder
+  });
+
+  it('converts into the quote currency', () => {
+    const money = { currency: 'USD' as const, rates: [{ currency: 'USD' as const, rate: 27000, effectiveFrom: '2024-01-01' }] };
+    expect(calculateDefectCost(makeDefect(), [generateDefaultPricingRules()], {}, money).repairCost).toBe(42.5);
+  });
+
+  it('leaves the defect unpriced without a rule or an exchange rate', () => {
+    expect(calculateDefectCost(makeDefect({ repairCost: 5 }), [[]]).repairCost).toBeUndefined();
+    const money = { currency: 'EUR' as const, rates: [] };
+    expect(calculateDefectCost(makeDefect(), [generateDefaultPricingRules()], {}, money).repairCost).toBeUndefined();
+  });
+
+  it('falls back through the tiers in order', () => {
+    const tiers = [[rule({ id: 'card' })], generateDefaultPricingRules()];
+    expect(calculateDefectCost(makeDefect(), tiers).pricingRuleId).toBe('card');
+    expect(calculateDefectCost(makeDefect({ code: DefectCode.CK }), tiers).pricingRuleId).toBe('rule-CK-LOW');
+  });
+});
+
+describe('generateQuote', () => {
+  it('bills accepted and pending defects once and flags unpriced ones', () => {
+    const quote = generateQuote(makeInspection({
+      defects: [
+        makeDefect({ id: 'a', repairCost: 1000, partsCost: 400 }),
+        makeDefect({ id: 'b', repairCost: 500, status: ReviewStatus.REJECTED }),
+        makeDefect({ id: 'c', repairCost: 700, mergedInto: 'a' }),
+        makeDefect({ id: 'd' })
+      ]
+    }), DEFAULT_TAX_SETTINGS);
+    expect(quote).toMatchObject({ subtotal: 1000, partsTotal: 400, laborTotal: 600, tax: 100, total: 1100, unpricedDefectIds: ['d'] });
+  });
+
+  it('taxes each line at its own or the customer profile', () => {
+    const settings = {
+      ...DEFAULT_TAX_SETTINGS,
+      customers: [{ id: 'c', customer: 'Export Co', profileId: 'tax-export' }]
+    };
+    const quote = generateQuote(makeInspection({
+      customer: 'EXPORT CO',
+      defects: [
+        makeDefect({ id: 'a', repairCost: 1000 }),
+        makeDefect({ id: 'b', repairCost: 2000, taxProfileId: 'tax-vat-10' }),
+        makeDefect({ id: 'c', repairCost: 300, taxProfileId: 'tax-exempt' })
+      ]
+    }), settings);
+    expect(quote.taxLines).toEqual([
+      { rate: 0.1, profileNames: ['VAT 10%'], taxableAmount: 2000, tax: 200 },
+      { rate: 0, profileNames: ['Export services 0%'], taxableAmount: 1000, tax: 0 },
+      { rate: 0, exempt: true, profileNames: ['VAT exempt'], taxableAmount: 300, tax: 0 }
+    ]);
+    expect(quote.total).toBe(3500);
+  });
+});
+
+describe('applyPricingToInspection', () => {
+  it('prices from the rate card and keeps costs entered by hand', () => {
+    saveTaxSettings(DEFAULT_TAX_SETTINGS);
+    saveRateCards([{ id: 'msc', name: 'MSC', customers: ['MSC'], ownerCodes: [], inheritsDefault: true, rules: [rule({ id: 'msc-dt', laborHours: 0 })] }]);
+    const inspection = applyPricingToInspection(makeInspection({
+      customer: 'MSC',
+      defects: [makeDefect({ id: 'a' }), makeDefect({ id: 'b', code: DefectCode.BW }), makeDefect({ id: 'c', repairCost: 42 })]
+    }));
+    expect(inspection.defects.map(d => d.repairCost)).toEqual([100, 1147500, 42]);
+    expect(inspection.quote).toMatchObject({ rateCardId: 'msc', rateCardName: 'MSC', subtotal: 1147642 });
+  });
+
+  it('reprices rule costs only when asked', () => {
+    const inspection = makeInspection({ defects: [makeDefect({ repairCost: 1, pricingRuleId: 'rule-DT-LOW' })] });
+    expect(applyPricingToInspection(inspection).defects[0].repairCost).toBe(1);
+    expect(applyPricingToInspection(inspection, true).defects[0].repairCost).toBe(1147500);
+  });
+
+  it('adds shift premiums for the repair time entered, not the capture time', () => {
+    const saturdayNight = new Date(2024, 0, 6, 23).toISOString();
+    const inspection = makeInspection({ timestamp: saturdayNight, defects: [makeDefect()] });
+    expect(applyPricingToInspection(inspection).defects[0].repairCost).toBe(1147500);
+    expect(applyPricingToInspection({ ...inspection, repairAt: saturdayNight }).defects[0].repairCost).toBe(540000 + 0.5 * 1215000 * 1.5);
+  });
+});
+
+describe('changeQuoteCurrency', () => {
+  it('reprices rule costs and converts costs entered by hand', () => {
+    const inspection = applyPricingToInspection(makeInspection({
+      defects: [makeDefect({ id: 'a' }), makeDefect({ id: 'b', repairCost: 270000 })]
+    }));
+    const usd = changeQuoteCurrency(inspection, 'USD');
+    expect(usd.quote?.currency).toBe('USD');
+    expect(usd.defects.map(d => d.repairCost)).toEqual([42.5, 10]);
+  });
+});
@@ -0,0 +1,13 @@
+// The services read settings from localStorage; tests run in Node, so give them an
+// in-memory one that starts empty for every test file.
+class MemoryStorage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  clear() { this.items.clear(); }
+  getItem(key: string) { return this.items.has(key) ? this.items.get(key)! : null; }
+  key(index: number) { return Array.from(this.items.keys())[index] ?? null; }
+  removeItem(key: string) { this.items.delete(key); }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+}
+
+Object.defineProperty(globalThis, 'localStorage', { value: new MemoryStorage(), configurable: true, writable: true });
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { mergeInspections, isSameContent, withoutImageData } from '../services/syncMerge';
+import { QuoteStatus, ReviewStatus } from '../types';
+import { makeDefect, makeImage, makeInspection } from './fixtures';
+
+const base = makeInspection({
+  defects: [makeDefect({ id: 'a', repairCost: 100 }), makeDefect({ id: 'b', repairCost: 200 })],
+  version: 3
+});
+
+describe('mergeInspections', () => {
+  it('combines changes made to different things on each side', () => {
+    const local = { ...base, customer: 'MSC', defects: [{ ...base.defects[0], status: ReviewStatus.ACCEPTED }, base.defects[1]] };
+    const remote = { ...base, version: 4, defects: [base.defects[0], { ...base.defects[1], repairCost: 250 }] };
+    const { merged, conflicts } = mergeInspections(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(merged.customer).toBe('MSC');
+    expect(merged.defects.map(d => [d.status, d.repairCost])).toEqual([[ReviewStatus.ACCEPTED, 100], [ReviewStatus.PENDING, 250]]);
+    expect(merged.version).toBe(4);
+  });
+
+  it('reports both sides deciding the same field differently', () => {
+    const local = { ...base, defects: [{ ...base.defects[0], repairCost: 150 }, base.defects[1]] };
+    const remote = { ...base, defects: [{ ...base.defects[0], repairCost: 175 }, base.defects[1]] };
+    const { conflicts } = mergeInspections(base, local, remote);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toContain('repairCost is 150 here, 175 on the server');
+  });
+
+  it('settles conflicts for the preferred side', () => {
+    const local = { ...base, customer: 'MSC' };
+    const remote = { ...base, customer: 'CMA' };
+    expect(mergeInspections(base, local, remote).conflicts).toHaveLength(1);
+    expect(mergeInspections(base, local, remote, 'remote')).toMatchObject({ merged: { customer: 'CMA' }, conflicts: [] });
+    expect(mergeInspections(base, local, remote, 'local').merged.customer).toBe('MSC');
+  });
+
+  it('drops defects a re-analysis removed, unless they were reviewed elsewhere', () => {
+    const local = { ...base, defects: [base.defects[0]] };
+    expect(mergeInspections(base, local, base)).toMatchObject({ merged: { defects: [base.defects[0]] }, conflicts: [] });
+
+    const remote = { ...base, defects: [base.defects[0], { ...base.defects[1], status: ReviewStatus.ACCEPTED }] };
+    expect(mergeInspections(base, local, remote).conflicts).toHaveLength(1);
+  });
+
+  it('keeps the newer analysis of a photo', () => {
+    const local = { ...base, images: [makeImage({ analysisAttempts: 2, analysisStatus: 'SUCCEEDED' as const })] };
+    const remote = { ...base, images: [makeImage({ analysisAttempts: 1, analysisStatus: 'FAILED' as const })] };
+    const { merged, conflicts } = mergeInspections(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(merged.images[0].analysisStatus).toBe('SUCCEEDED');
+  });
+
+  it('lets the quote that got further win, and flags defect changes against an invoice', () => {
+    const draft = { ...base, quote: { subtotal: 300, tax: 30, total: 330, currency: 'VND' as const, status: QuoteStatus.DRAFT, generatedAt: '' } };
+    const remote = { ...draft, quote: { ...draft.quote, status: QuoteStatus.INVOICED } };
+    const local = { ...draft, quote: { ...draft.quote, status: QuoteStatus.APPROVED }, defects: [{ ...draft.defects[0], repairCost: 1 }, draft.defects[1]] };
+    const { merged, conflicts } = mergeInspections(draft, local, remote);
+    expect(merged.quote?.status).toBe(QuoteStatus.INVOICED);
+    expect(conflicts).toContain('The quote was invoiced on the server while defects were changed here');
+  });
+
+  it('recalculates draft quotes from the merged defects', () => {
+    const draft = { ...base, quote: { subtotal: 300, tax: 30, total: 330, currency: 'VND' as const, status: QuoteStatus.DRAFT, generatedAt: '' } };
+    const local = { ...draft, defects: [{ ...draft.defects[0], repairCost: 1000 }, draft.defects[1]] };
+    const remote = { ...draft, defects: [draft.defects[0], { ...draft.defects[1], status: ReviewStatus.REJECTED }] };
+    expect(mergeInspections(draft, local, remote).merged.quote?.subtotal).toBe(1000);
+  });
+});
+
+describe('isSameContent', () => {
+  it('ignores sync stamps and photo data', () => {
+    const copy = { ...withoutImageData(base), version: 9, updatedAt: 'x', modifiedAt: 'y' };
+    expect(isSameContent(base, copy)).toBe(true);
+    expect(isSameContent(base, { ...copy, customer: 'MSC' })).toBe(false);
+  });
+});
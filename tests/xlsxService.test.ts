@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { readXlsxRows, excelSerialToDate } from '../services/xlsxService';
+
+// Minimal zip writer: enough of the format for readXlsxRows (no CRCs, which it doesn't check)
+const zip = (files: Record<string, string>, compress: boolean): ArrayBuffer => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  Object.entries(files).forEach(([name, text]) => {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(text);
+    const data = compress ? new Uint8Array(deflateRawSync(raw)) : raw;
+    const method = compress ? 8 : 0;
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, method, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, method, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+
+  const directorySize = centrals.reduce((n, c) => n + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + directorySize + end.length);
+  let at = 0;
+  [...locals, ...centrals, end].forEach(part => { out.set(part, at); at += part.length; });
+  return out.buffer;
+};
+
+const workbook = {
+  'xl/workbook.xml': '<workbook><sheets><sheet name="Gate" sheetId="1" r:id="rId7"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId7" Target="worksheets/gate.xml"/></Relationships>',
+  'xl/sharedStrings.xml': '<sst><si><t>Container</t></si><si><r><t>Tom &amp; </t></r><r><t>Jerry</t></r></si></sst>',
+  'xl/worksheets/gate.xml': [
+    '<worksheet><sheetData>',
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Deadline</t></is></c></row>',
+    '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3" t="b"><v>1</v></c><c r="C3"><f>NOW()</f><v>46315.5</v></c></row>',
+    '</sheetData></worksheet>'
+  ].join('')
+};
+
+describe('readXlsxRows', () => {
+  it.each([false, true])('reads the first sheet (compressed: %s)', async compress => {
+    const rows = await readXlsxRows(zip(workbook, compress));
+    expect(rows).toEqual([
+      ['Container', '', 'Deadline'],
+      [],
+      ['Tom & Jerry', 'TRUE', '46315.5']
+    ]);
+  });
+
+  it('rejects files that are not zips', async () => {
+    await expect(readXlsxRows(new TextEncoder().encode('container,notes').buffer as ArrayBuffer)).rejects.toThrow('Not an .xlsx file');
+  });
+});
+
+describe('excelSerialToDate', () => {
+  it('counts days from the 1900 date system epoch', () => {
+    expect(excelSerialToDate(45292).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(excelSerialToDate(45292.25).toISOString()).toBe('2024-01-01T06:00:00.000Z');
+  });
+});
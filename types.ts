@@ -32,6 +32,28 @@ export enum DefectCode {
   DY = 'DY',   // Dơ/bẩn (Dirty)
 }
 
+// CEDEX component codes (subset used for dry freight containers)
+export enum ComponentCode {
+  PAN = 'PAN', // Panel (side/front wall)
+  TSR = 'TSR', // Top side rail
+  BSR = 'BSR', // Bottom side rail
+  TER = 'TER', // Top end rail
+  BER = 'BER', // Bottom end rail
+  CPO = 'CPO', // Corner post
+  CFT = 'CFT', // Corner fitting
+  RPN = 'RPN', // Roof panel
+  RBW = 'RBW', // Roof bow
+  CRM = 'CRM', // Crossmember
+  FLB = 'FLB', // Floor board
+  DPN = 'DPN', // Door panel
+  LRD = 'LRD', // Locking rod
+  DHG = 'DHG', // Door hinge
+  DGS = 'DGS', // Door gasket
+  HDR = 'HDR', // Door header
+  SIL = 'SIL', // Door sill
+  DPL = 'DPL', // Data plate
+}
+
 export enum Severity {
   LOW = 'LOW',
   MEDIUM = 'MEDIUM',
@@ -69,6 +91,13 @@ export interface BoundingBox {
   xmax: number;
 }
 
+// Size of a damage in cm: measured on site, or estimated from an overview photo
+export interface DamageSize {
+  lengthCm: number; // Longest extent
+  widthCm?: number;
+  estimated?: boolean;
+}
+
 export interface Defect {
   id: string;
   imageId: string; 
@@ -77,18 +106,55 @@ export interface Defect {
   severity: Severity;
   description: string;
   boundingBox: BoundingBox;
+  // CEDEX location (face, row, section, N - e.g. LB1N) and component. Suggested, editable in Review.
+  locationCode?: string;
+  componentCode?: ComponentCode;
+  repairCode?: string; // CEDEX repair method, e.g. SN (straighten), WW (weld)
+  size?: DamageSize;
+  // Same damage seen on another photo: id of the defect this one was merged into.
+  // Merged defects are kept as evidence but not priced.
+  mergedInto?: string;
+  keepSeparate?: boolean; // split out by a reviewer, never merged again
   status: ReviewStatus;
+  autoDecision?: TriageDecision; // Set when the triage policy decided instead of a reviewer
   reviewerComment?: string;
-  // Pricing fields
+  // Pricing fields. Labor is what the repair cost holds beyond the parts.
   repairCost?: number;
   laborHours?: number;
   partsCost?: number;
+  pricingRuleId?: string; // Rule the cost came from; unset when entered by hand or no rule matched
+  taxProfileId?: string; // Overrides the customer's tax profile for this line
+}
+
+// A status set by the auto-triage policy. Kept after a reviewer changes the status, for auditing.
+export interface TriageDecision {
+  status: ReviewStatus.ACCEPTED | ReviewStatus.REJECTED;
+  confidence: number;
+  threshold: number; // The acceptAbove / rejectBelow value that was crossed
+  decidedAt: string;
 }
 
+export type AnalysisStatus = 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+
+// What a photo shows within its side
+export type PhotoLabel = 'OVERVIEW' | 'PANEL' | 'CLOSE_UP';
+
 export interface InspectionImage {
   id: string;
   side: ContainerSide;
   url: string; 
+  label?: PhotoLabel;
+  sequence?: number; // Order within the side, starting at 0
+  thumbnailUrl?: string;
+  originalUrl?: string; // Only kept when ImageSettings.keepOriginal is on
+  fullResRemovedAt?: string; // Set by the retention policy: url now holds the thumbnail
+  width?: number;
+  height?: number;
+  // Outcome of the AI analysis for this image
+  analysisStatus?: AnalysisStatus;
+  analysisError?: string;
+  analysisAttempts?: number;
+  quarantinedDetections?: QuarantinedDetection[];
 }
 
 export enum QuoteStatus {
@@ -106,45 +172,347 @@ export interface InvoiceDetails {
   customerAddress: string;
 }
 
+// VND is the base currency: exchange rates give VND per unit of the other currencies
+export type Currency = 'VND' | 'USD' | 'EUR';
+
+export interface QuoteExchangeRate {
+  currency: Currency;
+  rate: number; // VND per unit
+  effectiveFrom: string; // YYYY-MM-DD
+}
+
+// A row of the exchange-rate table, valid from its date until the next one for the currency
+export interface ExchangeRate extends QuoteExchangeRate {
+  id: string;
+}
+
+// A tax rate quote lines can be charged at
+export interface TaxProfile {
+  id: string;
+  name: string; // e.g. "VAT 10%", "Export services"
+  rate: number; // 0-1
+  exempt?: boolean; // Outside the scope of the tax, which invoices state differently from a 0% rate
+}
+
+// The profile a customer's quote lines get unless a line overrides it
+export interface CustomerTaxProfile {
+  id: string;
+  customer: string; // Compared without case and spacing (normalizeCustomer)
+  profileId: string;
+}
+
+export interface TaxSettings {
+  defaultProfileId: string; // For customers without an assignment
+  profiles: TaxProfile[];
+  customers: CustomerTaxProfile[];
+}
+
+// Quote lines charged at one rate
+export interface QuoteTaxLine {
+  rate: number;
+  exempt?: boolean;
+  profileNames: string[];
+  taxableAmount: number;
+  tax: number;
+}
+
 export interface Quote {
   subtotal: number;
+  // Split of the subtotal; missing on quotes from before labor rates
+  partsTotal?: number;
+  laborTotal?: number;
   tax: number;
+  taxLines?: QuoteTaxLine[]; // Breakdown of tax by rate; missing on quotes from before tax profiles (10% on everything)
   total: number;
-  currency: 'VND';
+  currency: Currency; // All amounts on the quote and its defects are in this currency
+  exchangeRates?: QuoteExchangeRate[]; // Rates the prices were converted with, fixed when first priced
   status: QuoteStatus;
   generatedAt: string;
   approvedBy?: string;
   invoiceDetails?: InvoiceDetails;
+  unpricedDefectIds?: string[]; // Billable defects no pricing rule matched and nobody priced by hand
+  // Rate card the defects were priced from; unset for the default card. The name is kept
+  // so the quote still reads right after the card is renamed or deleted.
+  rateCardId?: string;
+  rateCardName?: string;
+}
+
+// ISO 6346 equipment category: U = freight container, J = detachable equipment, Z = trailer/chassis
+export type EquipmentCategory = 'U' | 'J' | 'Z';
+
+export type ContainerNumberStatus = 'VALID' | 'CORRECTED' | 'SUSPECT' | 'INVALID';
+
+export interface ContainerNumberCheck {
+  input: string;
+  normalized: string;
+  status: ContainerNumberStatus;
+  ownerCode?: string;
+  equipmentCategory?: EquipmentCategory;
+  serialNumber?: string;
+  checkDigit?: number;
+  expectedCheckDigit?: number;
+  corrections?: string[]; // e.g. "5: O -> 0"
 }
 
 export interface Inspection {
   id: string;
   containerNumber: string;
+  containerNumberStatus?: ContainerNumberStatus;
+  sizeType?: string; // ISO 6346 size/type code, e.g. 45G1 (from the manifest, or typed at the gate)
+  customer?: string; // Customer or shipping line billed for the repairs
   timestamp: string;
+  repairAt?: string; // When the repair is planned, for shift premiums; the inspection time when not set
   inspectorId: string;
-  location: string; 
+  location: string; // Depot (settings.depot.current at capture), for depot labor rates
+  detectionProvider?: string; // Id of the provider that produced the detections (mock and fixture are demo data)
   images: InspectionImage[];
   defects: Defect[];
   status: 'ANALYZING' | 'REVIEW_NEEDED' | 'COMPLETED';
   overallCondition?: string;
   iiclTags?: string[];
   quote?: Quote;
+  auditLog?: AuditEvent[]; // Append-only: entries are never edited or removed
+  schemaVersion?: number; // Schema the record was last written in; missing on records from before it was stamped
+  // Sync stamps (REST backend): server version this copy is based on, when the server
+  // last stored it, and when it was last changed on this device
+  version?: number;
+  updatedAt?: string;
+  modifiedAt?: string;
+}
+
+// Who changed what on an inspection's review and pricing, for customer disputes
+export type AuditAction = 'DEFECT_STATUS' | 'REPAIR_COST' | 'QUOTE_APPROVED' | 'INVOICE_GENERATED' | 'QUOTE_REPRICED';
+
+// The quote as it stood before or after a change that repriced it
+export interface AuditQuoteState {
+  total: number;
+  currency: Currency;
+  rateCardName?: string; // Undefined = the default card
+  taxProfiles: string[]; // Names of the profiles applied
+}
+
+export interface AuditEvent {
+  id: string;
+  at: string;
+  actorId: string;
+  actorName: string;
+  actorRole: UserRole;
+  action: AuditAction;
+  defectId?: string;
+  before?: string | number;
+  after?: string | number;
+  amount?: number; // Quote total at the time, for approvals and invoices
+  detail?: string; // e.g. the invoice number, or the i18n key of the field that repriced the quote
+  quoteBefore?: AuditQuoteState;
+  quoteAfter?: AuditQuoteState;
+}
+
+// Offline sync (REST backend)
+export interface OutboxEntry {
+  inspectionId: string;
+  queuedAt: string;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  // Last server copy this device had before the queued changes (without photo data),
+  // so concurrent edits can be merged three-way
+  base?: Inspection;
+}
+
+// Left on the server when an inspection is deleted, so other devices drop their copies
+export interface InspectionTombstone {
+  id: string;
+  version: number; // Version the record had when it was deleted
+  deletedAt?: string; // Missing when the record was deleted before tombstones were kept
+}
+
+export interface SyncConflict {
+  inspectionId: string;
+  containerNumber: string;
+  detectedAt: string;
+  serverVersion: number;
+  reasons: string[]; // What could not be merged automatically
+}
+
+export interface SyncState {
+  enabled: boolean;
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: SyncConflict[];
+  lastSyncAt?: string;
+  lastError?: string;
 }
 
-export interface ManifestItem {
+export type ManifestPriority = 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
+
+// What a job is known about before it reaches the gate (typed in, or read from an import)
+export interface ManifestDetails {
+  priority: ManifestPriority;
+  deadline?: string; // e.g. vessel cutoff (ISO date-time)
+  customer?: string; // Customer or shipping line
+  sizeType?: string; // ISO 6346 size/type code, e.g. 22G1
+  bookingRef?: string; // Booking or bill of lading number
+  assignedTo?: string; // User id of the inspector the job is meant for
+  notes?: string;
+}
+
+export interface ManifestItem extends ManifestDetails {
   id: string;
   containerNumber: string;
   status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED';
   addedAt: string;
+  // Inspector who took the job (set together with IN_PROGRESS)
+  claimedBy?: string;
+  claimedByName?: string;
+  claimedAt?: string;
+}
+
+export type ManifestEntry = { containerNumber: string } & Partial<ManifestDetails>;
+
+// Import check for one entry. Entries with an error are not added.
+export interface ManifestEntryCheck {
+  entry: ManifestEntry;
+  containerNumber: string; // Normalized (or corrected) number that would be queued
+  numberCheck: ContainerNumberCheck;
+  error?: 'INVALID_NUMBER' | 'CHECK_DIGIT' | 'DUPLICATE_IN_IMPORT' | 'ALREADY_QUEUED' | 'INVALID_SIZE_TYPE' | 'INVALID_DEADLINE';
+}
+
+export type ContainerLength = '20' | '40' | '45';
+
+// Container groups priced differently (from the ISO 6346 size/type code)
+export type ContainerType = 'DRY' | 'HIGH_CUBE' | 'REEFER';
+
+export interface ContainerProfile {
+  length?: ContainerLength;
+  type?: ContainerType;
+}
+
+// Damage size band: length in cm or area in cm², from min (inclusive) up to max (exclusive)
+export interface SizeBand {
+  measure: 'LENGTH' | 'AREA';
+  min?: number;
+  max?: number;
 }
 
+// Code and severity always have to match. The other criteria are optional; the most
+// specific matching rule prices the defect (see findPricingRule).
 export interface PricingRule {
   id: string;
   defectCode: DefectCode;
   severity: Severity;
+  sizeBand?: SizeBand;
+  componentCode?: ComponentCode;
+  containerType?: ContainerType;
+  containerLength?: ContainerLength;
+  currency?: Currency; // Of basePrice; VND when not set
   basePrice: number;
   laborHours: number;
+  laborSkill?: LaborSkill; // GENERAL when not set
   description: string;
 }
 
-export type Language = 'en' | 'vi';
\ No newline at end of file
+export type LaborSkill = 'GENERAL' | 'WELDER' | 'PAINTER';
+
+// Premium (or discount) for work in a time window, e.g. nights x1.3 or weekends x1.5
+export interface LaborShiftMultiplier {
+  id: string;
+  days?: number[]; // 0 = Sunday ... 6 = Saturday; every day when not set
+  fromHour?: number; // 0-23, inclusive; all day when the hours are not set
+  toHour?: number; // 1-24, exclusive; windows past midnight wrap (22 to 6)
+  multiplier: number;
+}
+
+// Hourly rate for one skill, at one depot or (without depot) everywhere else
+export interface LaborRate {
+  id: string;
+  skill: LaborSkill;
+  depot?: string; // Inspection location
+  hourlyRate: number; // VND per hour
+  multipliers: LaborShiftMultiplier[]; // The highest matching one applies
+}
+
+// A tariff negotiated with one customer or shipping line, used instead of the default card
+// (the global pricing rules). Cards that inherit fall back to the default card for defects
+// their own rules don't cover.
+export interface RateCard {
+  id: string;
+  name: string;
+  customers: string[]; // Compared without case and spacing (normalizeCustomer)
+  ownerCodes: string[]; // ISO 6346 owner prefixes of the container number, e.g. MSC or MSCU
+  inheritsDefault: boolean;
+  rules: PricingRule[];
+}
+
+export type Language = 'en' | 'vi';
+
+// Device settings, edited by admins
+export interface ImageSettings {
+  analysisMaxDimension: number; // Longest edge in px for the stored/analyzed image
+  quality: number;              // JPEG quality 0-1
+  thumbnailSize: number;        // Longest edge in px
+  keepOriginal: boolean;
+}
+
+// Confidence thresholds (0-1). Leaving one out disables that direction.
+export interface TriageThresholds {
+  acceptAbove?: number;
+  rejectBelow?: number;
+}
+
+// Thresholds for one defect code, optionally only for one severity
+export interface TriageRule extends TriageThresholds {
+  id: string;
+  defectCode: DefectCode;
+  severity?: Severity;
+}
+
+export interface TriagePolicy {
+  enabled: boolean;
+  defaults: TriageThresholds;
+  rules: TriageRule[];
+}
+
+// What happens to closed jobs over time. Leaving a limit empty turns that step off.
+export interface RetentionPolicy {
+  enabled: boolean; // Run automatically once a day
+  dropImagesAfterDays?: number; // Invoiced inspections keep only thumbnails after this many days
+  archiveAfterMonths?: number; // Closed inspections move to the compressed archive after this many months
+}
+
+// Depots labor rates can be set for, and the one this device works at
+export interface DepotSettings {
+  depots: string[];
+  current?: string; // Stamped on inspections captured here
+}
+
+export interface AppSettings {
+  image: ImageSettings;
+  triage: TriagePolicy;
+  retention: RetentionPolicy;
+  depot: DepotSettings;
+}
+
+// Detection providers (Gemini, local fixtures, mock, ...)
+// Providers return detections as the model produced them; detectionValidation turns them into Defects
+export type RawDetection = Record<string, unknown>;
+
+export interface QuarantinedDetection {
+  raw: unknown;
+  reason: string;
+}
+
+export interface DetectionRequest {
+  base64Image: string;
+  containerNumber: string;
+  imageId: string;
+  side: string;
+  lang: Language;
+  signal?: AbortSignal; // Aborted when the caller gives up (timeout); providers should stop the call
+}
+
+export interface DetectionProvider {
+  id: string;
+  analyze: (request: DetectionRequest) => Promise<RawDetection[]>;
+  readContainerNumber: (base64Image: string) => Promise<string | null>;
+}
\ No newline at end of file
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -6,5 +7,9 @@ export default defineConfig({
   plugins: [react()],
   define: {
     'process.env': process.env
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts']
   }
-});
\ No newline at end of file
+});